@@ -0,0 +1,65 @@
+/**
+ * Compares the single round-trip lookup script against the label-by-label walk.
+ *
+ * Requires a running Redis server. Run with `npm run bench`, optionally setting
+ * `REDIS_URL` (defaults to redis://localhost:6379) and `ITERATIONS`.
+ *
+ * The benchmark writes to keys under `dinodns-bench`, and removes them when done.
+ */
+import Redis from 'ioredis';
+import { RedisStore, LookupStrategy } from '../src';
+
+const iterations = Number(process.env.ITERATIONS ?? 2000);
+const client = new Redis(process.env.REDIS_URL ?? 'redis://localhost:6379');
+
+const queries = {
+  exact: 'www.dinodns-bench',
+  'wildcard, 2 labels up': 'a.b.www.dinodns-bench',
+  'wildcard, 6 labels up': 'a.b.c.d.e.f.www.dinodns-bench',
+  miss: 'a.b.c.d.e.f.nothing-here',
+};
+
+async function measure(store: RedisStore, name: string): Promise<number> {
+  const start = process.hrtime.bigint();
+  for (let i = 0; i < iterations; i++) {
+    await store.get(name, 'A');
+  }
+
+  return Number(process.hrtime.bigint() - start) / 1e6 / iterations;
+}
+
+async function main() {
+  const stores: Record<LookupStrategy, RedisStore> = {
+    walk: new RedisStore({ client, lookupStrategy: 'walk', shouldCache: false }),
+    script: new RedisStore({ client, lookupStrategy: 'script', shouldCache: false }),
+  };
+
+  await stores.script.set('www.dinodns-bench', 'A', '127.0.0.1');
+  await stores.script.set('*.www.dinodns-bench', 'A', '127.0.0.2');
+
+  try {
+    console.log(`${iterations} sequential lookups per row, mean latency in ms\n`);
+    const rows = [];
+    for (const [label, name] of Object.entries(queries)) {
+      const walk = await measure(stores.walk, name);
+      const script = await measure(stores.script, name);
+      rows.push({
+        query: label,
+        walk: walk.toFixed(3),
+        script: script.toFixed(3),
+        speedup: (walk / script).toFixed(2),
+      });
+    }
+
+    console.table(rows);
+  } finally {
+    await stores.script.delete('www.dinodns-bench');
+    await stores.script.delete('*.www.dinodns-bench');
+    client.disconnect();
+  }
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,16 +1,77 @@
-import { RedisStore } from '.';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import {
+  AdminApi,
+  HealthCheck,
+  HistoryQuery,
+  MemoryRedis,
+  PrometheusMetrics,
+  RecordValidationError,
+  RedisBackend,
+  StoreMetrics,
+  RedisStore,
+  TsigError,
+  TsigKey,
+  UpdateRcode,
+  UpdateRecord,
+  UpdateSerializer,
+  ViewNetworkError,
+  WriteConflictError,
+  computeMac,
+  reverseName,
+  decodeTsig,
+  encodeUpdate,
+  keySlot,
+  signMessage,
+} from '.';
+import * as dnsPacket from 'dns-packet';
 import Redis from 'ioredis';
-import { RecordType, Packet } from 'dns-packet';
+import { AUTHORITATIVE_ANSWER, RecordType, Packet } from 'dns-packet';
 import { ZoneData, ZoneDataMap } from 'dinodns/types/dns';
 import { DNSRequest } from 'dinodns/types';
 import _ from 'lodash';
+import { EventEmitter } from 'events';
 import { SupportedNetworkType } from 'dinodns/common';
-
-jest.mock('ioredis');
-
-describe('RedisStore', () => {
+import { LuaRedis } from './test/luaRedis';
+
+/**
+ * The backends the store is tested against: a `MemoryRedis`, a `MemoryRedis` running the store's
+ * Lua scripts, and a Redis server if `REDIS_TEST_URL` points at one, whose database is flushed
+ * before every test.
+ */
+const backends: [string, () => { client: RedisBackend; flush: () => Promise<unknown> }][] = [
+  [
+    'MemoryRedis',
+    () => {
+      const client = new MemoryRedis();
+
+      return { client, flush: async () => client.database.flush() };
+    },
+  ],
+  [
+    'MemoryRedis with Lua scripts',
+    () => {
+      const client = new LuaRedis();
+
+      return { client, flush: async () => client.database.flush() };
+    },
+  ],
+];
+if (process.env.REDIS_TEST_URL) {
+  backends.push([
+    'Redis',
+    () => {
+      const client = new Redis(process.env.REDIS_TEST_URL!);
+
+      return { client, flush: () => client.flushdb() };
+    },
+  ]);
+}
+
+describe.each(backends)('RedisStore on %s', (_backend, connect) => {
   let store: RedisStore;
-  let client: Redis;
+  let client: RedisBackend;
+  let connections: RedisBackend[];
   const ARecords: ZoneData['A'][] = ['127.0.0.1', '127.0.0.2'];
   const ARecordMap: Partial<ZoneDataMap> = { A: ARecords };
 
@@ -22,14 +83,63 @@ describe('RedisStore', () => {
     AAAA: JSON.stringify(AAAARecords),
   };
 
-  beforeEach(() => {
-    client = new Redis();
+  /**
+   * Every key of the database, sorted.
+   * @param type Only the keys of this type, such as `hash`
+   */
+  const keys = async (type?: string) => {
+    const found: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, batch] = type
+        ? await client.scan(cursor, 'MATCH', '*', 'COUNT', 100, 'TYPE', type)
+        : await client.scan(cursor, 'COUNT', 100);
+      found.push(...batch);
+      cursor = next;
+    } while (cursor !== '0');
+
+    return [...new Set(found)].sort();
+  };
+
+  /** The fields of every hash in the database, by key. */
+  const hashes = async () =>
+    Object.fromEntries(
+      await Promise.all(
+        (await keys('hash')).map(async (key): Promise<[string, Record<string, string>]> => [
+          key,
+          await client.hgetall(key),
+        ]),
+      ),
+    );
+
+  beforeEach(async () => {
+    const backend = connect();
+    client = backend.client;
+    await backend.flush();
+
+    // the connections stores open for subscriptions and blocking reads, closed after every test
+    connections = [];
+    const duplicate = client.duplicate.bind(client);
+    client.duplicate = () => {
+      const connection = duplicate();
+      connections.push(connection);
+
+      return connection;
+    };
+
     store = new RedisStore({ client });
   });
 
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    for (const connection of connections) {
+      connection.disconnect();
+    }
+    await client.quit();
+  });
+
   describe('create', () => {
     it('should be able to create a redis store with a passed in client', () => {
-      const client = new Redis();
       const store = new RedisStore({ client });
       expect(store).toBeInstanceOf(RedisStore);
     });
@@ -39,6 +149,7 @@ describe('RedisStore', () => {
         host: 'localhost',
         port: 6379,
         db: 0,
+        lazyConnect: true,
       };
       const store = new RedisStore(options);
       expect(store).toBeInstanceOf(RedisStore);
@@ -50,21 +161,7 @@ describe('RedisStore', () => {
       const name = '*';
       const rType = 'A';
 
-      client.hget = jest.fn(async (key, rType: 'A' | 'AAAA') => {
-        if (key === '*') {
-          return internalData[rType];
-        }
-
-        return null;
-      });
-
-      client.hgetall = jest.fn(async (key) => {
-        if (key === '*') {
-          return internalData;
-        }
-
-        return {};
-      });
+      await client.hset('*', internalData);
 
       const result = await store.get(name, rType);
       expect(result).toEqual(ARecordMap);
@@ -73,23 +170,8 @@ describe('RedisStore', () => {
     it('should get data from the exact match', async () => {
       const name = 'example.com';
       const rType = 'A';
-      const data = '127.0.0.1';
-
-      client.hget = jest.fn(async (key, rType: 'A' | 'AAAA') => {
-        if (key === 'com:example' && internalData[rType]) {
-          return internalData[rType];
-        }
 
-        return null;
-      });
-
-      client.hgetall = jest.fn(async (key) => {
-        if (key === 'com:example') {
-          return internalData;
-        }
-
-        return {};
-      });
+      await client.hset('com:example', internalData);
 
       const result = await store.get(name, rType);
       expect(result).toEqual(ARecordMap);
@@ -108,33 +190,10 @@ describe('RedisStore', () => {
     });
 
     it('should not return data if wildcards are disabled', async () => {
-      const name = 'example.com';
       const rType = 'A';
-      const data = '127.0.0.1';
-
-      client.hget = jest.fn(async (key, rType: 'A' | 'AAAA') => {
-        if (key === 'com:example' && internalData[rType]) {
-          return internalData[rType];
-        }
-
-        if (key === 'com:*') {
-          return internalData[rType];
-        }
-
-        return null;
-      });
-
-      client.hgetall = jest.fn(async (key) => {
-        if (key === 'com:example') {
-          return internalData;
-        }
-
-        if (key === 'com:*') {
-          return internalData;
-        }
 
-        return {};
-      });
+      await client.hset('com:example', internalData);
+      await client.hset('com:*', internalData);
 
       const result = await store.get('test.com', rType, false);
       expect(result).toEqual(null);
@@ -146,31 +205,9 @@ describe('RedisStore', () => {
     it('should get data from the wildcard', async () => {
       const name = 'example.com';
       const rType = 'A';
-      const data = '127.0.0.1';
-
-      client.hget = jest.fn(async (key, rType: 'A' | 'AAAA') => {
-        if (key === 'com:example' && internalData[rType]) {
-          return internalData[rType];
-        }
-
-        if (key === 'com:*') {
-          return internalData[rType];
-        }
-
-        return null;
-      });
-
-      client.hgetall = jest.fn(async (key) => {
-        if (key === 'com:example') {
-          return internalData;
-        }
-
-        if (key === 'com:*') {
-          return internalData;
-        }
 
-        return {};
-      });
+      await client.hset('com:example', internalData);
+      await client.hset('com:*', internalData);
 
       const result = await store.get(name, rType);
       expect(result).toEqual(ARecordMap);
@@ -189,23 +226,52 @@ describe('RedisStore', () => {
     });
   });
 
+  describe('lookup strategies', () => {
+    beforeEach(async () => {
+      await client.hset('com:example:*', internalData);
+    });
+
+    it('should register the lookup script on the client', () => {
+      const scripted = Object.assign(new MemoryRedis(), { defineCommand: jest.fn() });
+      new RedisStore({ client: scripted });
+
+      expect(scripted.defineCommand).toHaveBeenCalledWith('dinodnsLookup', expect.objectContaining({ readOnly: true }));
+    });
+
+    it('should send every candidate key in a single script call', async () => {
+      const lookup = jest.spyOn(client, 'dinodnsLookup');
+      const result = await store.get('a.b.example.com', 'A');
+      expect(result).toEqual(ARecordMap);
+      expect(lookup).toHaveBeenCalledTimes(1);
+      expect(lookup).toHaveBeenCalledWith(5, 'com:example:b:a', 'com:example:b:*', 'com:example:*', 'com:*', '*', 'A');
+    });
+
+    it('should only send the exact key when wildcards are disabled', async () => {
+      const lookup = jest.spyOn(client, 'dinodnsLookup');
+      await store.get('example.com', undefined, false);
+      expect(lookup).toHaveBeenCalledWith(1, 'com:example', '');
+    });
+
+    it('should return the same results when walking key by key', async () => {
+      const walkStore = new RedisStore({ client, lookupStrategy: 'walk' });
+      const hget = jest.spyOn(client, 'hget');
+      const scriptResult = await store.get('a.b.example.com', 'A');
+      const walkResult = await walkStore.get('a.b.example.com', 'A');
+      expect(walkResult).toEqual(scriptResult);
+      expect(hget).toHaveBeenCalledWith('com:example:*', 'A');
+
+      const missing = await walkStore.get('example.net', 'A');
+      expect(missing).toEqual(null);
+    });
+  });
+
   describe('resolve', () => {
     it('should be able to resolve a name to a key', async () => {
       const name = 'example.com';
       const key = store.nameToKey(name);
-      const data = { A: '127.0.0.1' };
-
-      client.hgetall = jest.fn(async (key) => {
-        if (key === 'com:example') {
-          return internalData;
-        }
 
-        if (key === 'com:example:*') {
-          return internalData;
-        }
-
-        return {};
-      });
+      await client.hset('com:example', internalData);
+      await client.hset('com:example:*', internalData);
 
       const result = await store.resolve(name);
       expect(result).toEqual(key);
@@ -219,25 +285,6 @@ describe('RedisStore', () => {
   });
 
   describe('set', () => {
-    let internalData: Record<string, Partial<Record<RecordType, string>>>;
-
-    beforeEach(() => {
-      internalData = {};
-      // @ts-ignore
-      client.hset = jest.fn(async (key: string, rType: RecordType, data: string) => {
-        internalData[key] = { ...internalData[key], [rType]: data };
-      });
-
-      client.hget = jest.fn(async (key: string, rType: 'A' | 'AAAA'): Promise<string | null> => {
-        const data = internalData[key];
-        if (data && data[rType]) {
-          return data[rType]!;
-        }
-
-        return null;
-      });
-    });
-
     it('should be able to set a single record', async () => {
       const name = 'example.com';
       const rType = 'A';
@@ -245,45 +292,35 @@ describe('RedisStore', () => {
 
       await store.set(name, rType, data);
 
-      expect(_.isEqual(internalData['com:example'], { A: JSON.stringify([data]) })).toBe(true);
+      expect(await client.hgetall('com:example')).toEqual({ A: JSON.stringify([data]) });
       const result = await store.get(name, rType);
       expect(result).toEqual({ A: [data] });
     });
 
+    it('should store every spelling of a name under the same key', async () => {
+      await store.set('Example.COM.', 'A', ARecords[0]);
+
+      expect(await keys()).toEqual(['com:example']);
+      expect(await store.get('example.com', 'A')).toEqual({ A: [ARecords[0]] });
+      expect(await store.get('EXAMPLE.com.', 'A')).toEqual({ A: [ARecords[0]] });
+    });
+
     it('should be able to set an array of records', async () => {
       const name = 'example.com';
 
       await store.set(name, 'A', ARecords);
 
-      expect(_.isEqual(internalData['com:example'], { A: JSON.stringify(ARecords) })).toBe(true);
+      expect(await client.hgetall('com:example')).toEqual({ A: JSON.stringify(ARecords) });
       const result = await store.get(name, 'A');
       expect(result).toEqual(ARecordMap);
     });
   });
 
   describe('append', () => {
-    let internalData: Record<string, Partial<Record<RecordType, string>>>;
-    beforeEach(() => {
-      internalData = {};
-      // @ts-ignore
-      client.hset = jest.fn(async (key: string, rType: RecordType, data: string) => {
-        internalData[key] = { ...internalData[key], [rType]: data };
-      });
-
-      client.hget = jest.fn(async (key: string, rType: 'A' | 'AAAA'): Promise<string | null> => {
-        const data = internalData[key];
-        if (data && data[rType]) {
-          return data[rType]!;
-        }
-
-        return null;
-      });
-    });
-
     it('should be able to append data when no data exists', async () => {
       const name = 'example.com';
       await store.append(name, 'A', ARecords[0]);
-      expect(JSON.stringify(internalData['com:example'])).toEqual(JSON.stringify({ A: JSON.stringify([ARecords[0]]) }));
+      expect(await client.hgetall('com:example')).toEqual({ A: JSON.stringify([ARecords[0]]) });
       const result = await store.get(name, 'A');
       expect(result).toEqual({ A: [ARecords[0]] });
     });
@@ -292,47 +329,20 @@ describe('RedisStore', () => {
       const name = 'example.com';
       await store.set(name, 'A', ARecords[0]);
       await store.append(name, 'A', ARecords[1]);
-      expect(JSON.stringify(internalData['com:example'])).toEqual(JSON.stringify({ A: JSON.stringify(ARecords) }));
+      expect(await client.hgetall('com:example')).toEqual({ A: JSON.stringify(ARecords) });
       const result = await store.get(name, 'A');
       expect(result).toEqual(ARecordMap);
     });
   });
 
   describe('delete', () => {
-    let internalData: Record<string, Partial<Record<RecordType, string>>>;
-    beforeEach(() => {
-      internalData = {};
-      // @ts-ignore
-      client.hset = jest.fn(async (key: string, rType: RecordType, data: string) => {
-        internalData[key] = { ...internalData[key], [rType]: data };
-      });
-
-      client.hget = jest.fn(async (key: string, rType: 'A' | 'AAAA'): Promise<string | null> => {
-        const data = internalData[key];
-        if (data && data[rType]) {
-          return data[rType]!;
-        }
-
-        return null;
-      });
-
-      // @ts-ignore
-      client.hdel = jest.fn(async (key: string) => {
-        delete internalData[key];
-      });
-
-      // @ts-ignore
-      client.del = jest.fn(async (key: string) => {
-        delete internalData[key];
-      });
-    });
-
     it('should be able to delete all data from the correct key', async () => {
       const name = 'example.com';
       await store.set(name, 'A', ARecords);
       await store.delete(name);
       const result = await store.get(name, 'A');
       expect(result).toEqual(null);
+      expect(await keys()).toEqual([]);
     });
 
     it('should be able to delete a whole record type from the correct key', async () => {
@@ -367,6 +377,315 @@ describe('RedisStore', () => {
       await store.delete(name, 'A', ARecords[1]);
       const result2 = await store.get(name, 'A');
       expect(result2).toEqual(null);
+      expect(await client.exists('com:example')).toEqual(0);
+    });
+  });
+
+  describe('concurrent writes', () => {
+    it('should not lose records when many appends run concurrently', async () => {
+      const script = jest.spyOn(client, 'dinodnsCompareAndSet');
+      const records = Array.from({ length: 50 }, (_, i) => `10.0.0.${i}`);
+      await Promise.all(records.map((record) => store.append('example.com', 'A', record)));
+
+      const stored = JSON.parse((await client.hget('com:example', 'A'))!) as string[];
+      expect(stored).toHaveLength(records.length);
+      expect(stored.toSorted()).toEqual(records.toSorted());
+
+      // every conflicting write was retried rather than overwriting the others
+      expect(script.mock.calls.length).toBeGreaterThan(records.length);
+    });
+
+    it('should not resurrect records when appends and deletes run concurrently', async () => {
+      await client.hset('com:example', 'A', JSON.stringify(ARecords));
+
+      await Promise.all([
+        store.delete('example.com', 'A', ARecords[0]),
+        store.append('example.com', 'A', '127.0.0.3'),
+        store.delete('example.com', 'A', ARecords[1]),
+      ]);
+
+      expect(JSON.parse((await client.hget('com:example', 'A'))!)).toEqual(['127.0.0.3']);
+    });
+
+    it('should give up after the configured number of attempts', async () => {
+      const contestedStore = new RedisStore({ client, maxWriteAttempts: 3 });
+      const script = jest.spyOn(client, 'dinodnsCompareAndSet').mockResolvedValue(0);
+
+      await expect(contestedStore.append('example.com', 'A', ARecords[0])).rejects.toBeInstanceOf(WriteConflictError);
+      expect(script).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('key prefix', () => {
+    let prefixedStore: RedisStore;
+
+    beforeEach(() => {
+      prefixedStore = new RedisStore({ client, keyPrefix: 'staging:' });
+    });
+
+    it('should write and read keys under the prefix', async () => {
+      await prefixedStore.set('example.com', 'A', ARecords);
+      expect(await keys()).toEqual(['staging:com:example']);
+
+      const result = await prefixedStore.get('example.com', 'A');
+      expect(result).toEqual(ARecordMap);
+
+      const unprefixed = await store.get('example.com', 'A');
+      expect(unprefixed).toEqual(null);
+    });
+
+    it('should apply the prefix to wildcard keys and the root wildcard', async () => {
+      const lookup = jest.spyOn(client, 'dinodnsLookup');
+      await prefixedStore.get('www.example.com', 'A');
+      expect(lookup).toHaveBeenCalledWith(
+        4,
+        'staging:com:example:www',
+        'staging:com:example:*',
+        'staging:com:*',
+        'staging:*',
+        'A',
+      );
+    });
+
+    it('should append and delete under the prefix', async () => {
+      await prefixedStore.append('example.com', 'A', ARecords[0]);
+      expect(await client.hgetall('staging:com:example')).toEqual({ A: JSON.stringify([ARecords[0]]) });
+
+      await prefixedStore.delete('example.com');
+      expect(await keys()).toEqual([]);
+    });
+
+    it('should resolve names without the prefix', async () => {
+      await prefixedStore.set('*.example.com', 'A', ARecords);
+      await prefixedStore.set('example.com', 'A', ARecords);
+      expect(await prefixedStore.resolve('example.com')).toEqual('com:example');
+      expect(await prefixedStore.resolve('www.example.com')).toEqual('*.example.com');
+    });
+
+    it('should refuse to migrate without a prefix', async () => {
+      await expect(store.migrateToPrefix()).rejects.toThrow('keyPrefix');
+    });
+
+    it('should migrate the store with its views and rebuild the name indexes', async () => {
+      const options = { wildcardMode: 'rfc4592', views: {} } as const;
+      const unprefixed = new RedisStore({ client, ...options });
+      await unprefixed.set('a.b.example.com', 'A', '10.0.0.1');
+      await unprefixed.set('*.example.com', 'A', '10.0.0.2');
+      await unprefixed.set('a.b.example.com', 'A', '10.0.0.3', { view: 'lab' });
+      await unprefixed.setView('lab', ['10.1.0.0/16']);
+
+      const migrated = new RedisStore({ client, keyPrefix: 'staging:', ...options });
+      await migrated.migrateToPrefix();
+
+      expect((await keys()).filter((key) => !key.startsWith('staging:'))).toEqual([]);
+      // an empty non-terminal, which the wildcard doesn't answer for
+      expect(await migrated.get('b.example.com', 'A')).toBeNull();
+      expect(await migrated.get('c.example.com', 'A')).toEqual({ A: ['10.0.0.2'] });
+      expect(await migrated.get('a.b.example.com', 'A', true, 'lab')).toEqual({ A: ['10.0.0.3'] });
+      expect(await client.zrangebylex('staging:#view:lab:#names', '-', '+', 'LIMIT', 0, 10)).toEqual([
+        'staging:#view:lab:com:example:b:a',
+      ]);
+    });
+  });
+
+  describe('ttl', () => {
+    it('should store a record set ttl alongside the records', async () => {
+      await store.set('example.com', 'A', ARecords, { ttl: 60 });
+      expect(JSON.parse((await client.hget('com:example', 'A'))!)).toEqual({
+        ttl: 60,
+        records: ARecords.map((data) => ({ data })),
+      });
+
+      const result = await store.getRecords('example.com', 'A');
+      expect(result).toEqual({ A: ARecords.map((data) => ({ data, ttl: 60 })) });
+
+      const plain = await store.get('example.com', 'A');
+      expect(plain).toEqual(ARecordMap);
+    });
+
+    it('should fall back to the default ttl for records stored without one', async () => {
+      await client.hset('com:example', 'A', JSON.stringify(ARecords));
+      const result = await store.getRecords('example.com', 'A');
+      expect(result).toEqual({ A: ARecords.map((data) => ({ data, ttl: 300 })) });
+
+      const customStore = new RedisStore({ client, defaultTtl: 3600 });
+      const result2 = await customStore.getRecords('example.com', 'A');
+      expect(result2).toEqual({ A: ARecords.map((data) => ({ data, ttl: 3600 })) });
+    });
+
+    it('should store a per-record ttl on append', async () => {
+      await store.set('example.com', 'A', ARecords[0], { ttl: 60 });
+      await store.append('example.com', 'A', ARecords[1], { ttl: 5 });
+      const result = await store.getRecords('example.com', 'A');
+      expect(result).toEqual({
+        A: [
+          { data: ARecords[0], ttl: 60 },
+          { data: ARecords[1], ttl: 5 },
+        ],
+      });
+    });
+
+    it('should upgrade a plain record set when appending with a ttl', async () => {
+      await store.set('example.com', 'A', ARecords[0]);
+      await store.append('example.com', 'A', ARecords[1], { ttl: 5 });
+      const result = await store.getRecords('example.com', 'A');
+      expect(result).toEqual({
+        A: [
+          { data: ARecords[0], ttl: 300 },
+          { data: ARecords[1], ttl: 5 },
+        ],
+      });
+    });
+
+    it('should keep ttl metadata when deleting a single record', async () => {
+      await store.set('example.com', 'A', ARecords, { ttl: 60 });
+      await store.delete('example.com', 'A', ARecords[0]);
+      const result = await store.getRecords('example.com', 'A');
+      expect(result).toEqual({ A: [{ data: ARecords[1], ttl: 60 }] });
+    });
+
+    it('should answer and emit cache requests with the stored ttl', async () => {
+      await store.set('example.com', 'A', ARecords, { ttl: 60 });
+      await store.append('example.com', 'A', '127.0.0.3', { ttl: 30 });
+
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type: 'A', name: 'example.com' }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      const res = req.toAnswer();
+      const cacheRequests: unknown[] = [];
+      store.on('cacheRequest', (event) => cacheRequests.push(event));
+
+      await store.handler(req, res, () => {});
+
+      expect(res.packet.answers.map((a) => a.ttl)).toEqual([60, 60, 30]);
+      expect(cacheRequests).toEqual([
+        { zoneName: 'example.com', recordType: 'A', records: [...ARecords, '127.0.0.3'], ttl: 30 },
+      ]);
+    });
+  });
+
+  describe('zone files', () => {
+    const zone = `
+$ORIGIN example.com.
+$TTL 3600
+@       SOA ns1 hostmaster ( 1 7200 900 1209600 300 )
+        NS  ns1
+        MX  10 mail
+ns1     A   192.0.2.1
+www 60  A   192.0.2.2
+www 60  A   192.0.2.3
+*.dev   A   192.0.2.4
+mail    A   192.0.2.5
+mail 30 A   192.0.2.6
+`;
+
+    it('should import a zone into the hash layout set produces', async () => {
+      await store.importZone(zone, { origin: 'example.com' });
+
+      expect(await client.hget('com:example:www', 'A')).toEqual(
+        JSON.stringify({ ttl: 60, records: [{ data: '192.0.2.2' }, { data: '192.0.2.3' }] }),
+      );
+      expect(await client.hget('com:example:dev:*', 'A')).toEqual(
+        JSON.stringify({ ttl: 3600, records: [{ data: '192.0.2.4' }] }),
+      );
+      expect(await store.get('example.com', 'MX')).toEqual({ MX: [{ preference: 10, exchange: 'mail.example.com' }] });
+      expect(await store.getRecords('mail.example.com', 'A')).toEqual({
+        A: [
+          { data: '192.0.2.5', ttl: 3600 },
+          { data: '192.0.2.6', ttl: 30 },
+        ],
+      });
+      expect(await store.get('anything.dev.example.com', 'A')).toEqual({ A: ['192.0.2.4'] });
+    });
+
+    it('should merge into existing data without duplicating records', async () => {
+      await store.set('www.example.com', 'A', ['192.0.2.2', '192.0.2.99']);
+      await store.set('other.example.com', 'A', '192.0.2.100');
+      await store.importZone(zone, { origin: 'example.com', mode: 'merge' });
+
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: ['192.0.2.2', '192.0.2.99', '192.0.2.3'] });
+      expect(await store.get('other.example.com', 'A')).toEqual({ A: ['192.0.2.100'] });
+    });
+
+    it('should replace everything at and below the origin', async () => {
+      await store.set('www.example.com', 'A', '192.0.2.99');
+      await store.set('other.example.com', 'A', '192.0.2.100');
+      await store.set('example.com', 'TXT', 'stale');
+      await store.set('www.example.net', 'A', '192.0.2.101');
+      const multi = jest.spyOn(client, 'multi');
+      await store.importZone(zone, { origin: 'example.com', mode: 'replace' });
+
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: ['192.0.2.2', '192.0.2.3'] });
+      expect(await store.get('other.example.com', 'A', false)).toEqual(null);
+      expect(await store.get('example.com', 'TXT')).toEqual(null);
+      expect(await store.get('www.example.net', 'A')).toEqual({ A: ['192.0.2.101'] });
+      expect(multi).toHaveBeenCalledTimes(1);
+    });
+
+    it('should validate the records before importing them', async () => {
+      await store.set('www.example.com', 'A', '192.0.2.99');
+      const rejection = (text: string, mode: 'merge' | 'replace') =>
+        store.importZone(text, { origin: 'example.com', mode }).catch((err: unknown) => err);
+
+      const merged = await rejection('mail A 192.0.2.5\nwww CNAME example.com.\n', 'merge');
+      expect(merged).toBeInstanceOf(RecordValidationError);
+      expect((merged as RecordValidationError).issues).toEqual([
+        { field: 'type', message: "CNAME can't share its name with A" },
+      ]);
+
+      const replaced = await rejection('mail A 192.0.2.5\nmail A 999.0.2.6\n', 'replace');
+      expect(replaced).toBeInstanceOf(RecordValidationError);
+      expect((replaced as RecordValidationError).issues).toEqual([
+        { field: 'data[1]', message: 'must be an IPv4 address' },
+      ]);
+      expect(await store.get('mail.example.com', 'A')).toEqual(null);
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: ['192.0.2.99'] });
+
+      await store.importZone('www CNAME example.com.\n', { origin: 'example.com', mode: 'replace' });
+      expect(await store.get('www.example.com')).toEqual({ CNAME: ['example.com'] });
+    });
+
+    it('should only delete record sets when replacing the root', async () => {
+      await store.set('www.example.net', 'A', '192.0.2.101');
+      await client.hset('session:1', 'user', 'alice');
+      await client.rpush('queue', 'job');
+      await store.importZone(zone, { origin: '.', mode: 'replace' });
+
+      expect(await store.get('www.example.net', 'A')).toEqual(null);
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: ['192.0.2.2', '192.0.2.3'] });
+      expect(await client.hgetall('session:1')).toEqual({ user: 'alice' });
+      expect(await client.exists('queue')).toEqual(1);
+    });
+
+    it('should export a stored zone that imports back to the same data', async () => {
+      await store.importZone(zone, { origin: 'example.com' });
+      await store.set('www.example.net', 'A', '192.0.2.101');
+      await store.set('legacy.example.com', 'A', '192.0.2.7');
+
+      const exported = await store.exportZone('example.com.');
+      expect(exported).toContain('$ORIGIN example.com.');
+      expect(exported).toContain('legacy IN A 192.0.2.7');
+      expect(exported).not.toContain('example.net');
+
+      const names = ['example.com', 'ns1.example.com', 'www.example.com', '*.dev.example.com', 'mail.example.com'];
+      const snapshot = () =>
+        Promise.all([...names, 'legacy.example.com'].map((n) => store.getRecords(n, undefined, false)));
+      const before = await snapshot();
+
+      await store.importZone(exported, { origin: 'example.com', mode: 'replace' });
+      expect(await snapshot()).toEqual(before);
+      expect(before.every((records) => records !== null)).toBe(true);
+    });
+
+    it('should respect the key prefix when scanning a zone', async () => {
+      const prefixedStore = new RedisStore({ client, keyPrefix: 'staging:' });
+      await prefixedStore.importZone(zone, { origin: 'example.com' });
+      await store.set('www.example.com', 'A', '192.0.2.200');
+
+      const exported = await prefixedStore.exportZone('example.com');
+      expect(exported).toContain('www 60 IN A 192.0.2.2');
+      expect(exported).not.toContain('192.0.2.200');
     });
   });
 
@@ -394,25 +713,29 @@ describe('RedisStore', () => {
       const key = store.nameToKey(name);
       expect(key).toEqual('*');
     });
-  });
 
-  describe('handler', () => {
-    beforeEach(() => {
-      client.hget = jest.fn(async (key, rType: 'A' | 'AAAA') => {
-        if (key === 'com:example' && internalData[rType]) {
-          return internalData[rType];
-        }
+    it('should lowercase names and ignore a trailing dot', () => {
+      expect(store.nameToKey('WWW.Example.COM')).toEqual('com:example:www');
+      expect(store.nameToKey('example.com.')).toEqual('com:example');
+      expect(store.nameToKey('.')).toEqual('');
+    });
 
-        return null;
-      });
+    it('should resolve escapes inside labels', () => {
+      expect(store.nameToKey('first\\.last.example.com')).toEqual('com:example:first.last');
+      expect(store.nameToKey('first\\046last.example.com')).toEqual('com:example:first.last');
+      expect(store.nameToKey('back\\\\slash.example.com')).toEqual('com:example:back\\slash');
+      expect(store.keyToName('com:example:first.last')).toEqual('first\\.last.example.com');
+    });
 
-      client.hgetall = jest.fn(async (key) => {
-        if (key === 'com:example') {
-          return internalData;
-        }
+    it('should convert internationalized names to punycode', () => {
+      expect(store.nameToKey('Bücher.example')).toEqual('example:xn--bcher-kva');
+      expect(store.nameToKey('xn--bcher-kva.example')).toEqual('example:xn--bcher-kva');
+    });
+  });
 
-        return {};
-      });
+  describe('handler', () => {
+    beforeEach(async () => {
+      await client.hset('com:example', internalData);
     });
 
     it('should be able to handle a DNS request', async () => {
@@ -446,5 +769,2246 @@ describe('RedisStore', () => {
 
       expect(res.packet.answers).toEqual(expectedAnswers);
     });
+
+    it('should match names case-insensitively and echo the casing of the query', async () => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type: 'A', name: 'ExAmPlE.cOm' }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      const res = req.toAnswer();
+
+      await store.handler(req, res, () => {});
+
+      expect(res.packet.answers?.map((a) => a.name)).toEqual(['ExAmPlE.cOm', 'ExAmPlE.cOm']);
+    });
+  });
+
+  describe('negative answers', () => {
+    const soa: ZoneData['SOA'] = {
+      mname: 'ns1.example.com',
+      rname: 'hostmaster.example.com',
+      serial: 1,
+      refresh: 7200,
+      retry: 900,
+      expire: 1209600,
+      minimum: 60,
+    };
+
+    const query = (name: string, type: RecordType) => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type, name }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+
+      return { req, res: req.toAnswer() };
+    };
+
+    beforeEach(async () => {
+      await store.set('example.com', 'SOA', soa, { ttl: 3600 });
+      await store.set('www.example.com', 'A', ARecords);
+      await store.set('*.dev.example.com', 'A', ARecords);
+    });
+
+    it('should find the closest enclosing zone', async () => {
+      const subSoa = { ...soa, mname: 'ns1.sub.example.com' };
+      await store.set('sub.example.com', 'SOA', subSoa);
+
+      expect(await store.findZone('a.b.example.com')).toEqual({
+        name: 'example.com',
+        key: 'com:example',
+        soa: { data: soa, ttl: 3600 },
+      });
+      expect((await store.findZone('www.sub.example.com'))?.name).toEqual('sub.example.com');
+      expect((await store.findZone('example.com'))?.name).toEqual('example.com');
+      expect(await store.findZone('example.net')).toEqual(null);
+    });
+
+    it('should answer NXDOMAIN with the SOA for missing names in a zone', async () => {
+      const { req, res } = query('missing.example.com', 'A');
+      await store.handler(req, res, () => {});
+
+      expect(res.finished).toBe(true);
+      expect(res.packet.rcode).toEqual('NX_DOMAIN');
+      expect(res.packet.answers).toEqual([]);
+      expect(res.packet.authorities).toEqual([{ name: 'example.com', type: 'SOA', ttl: 60, data: soa }]);
+      expect(res.packet.flags & AUTHORITATIVE_ANSWER).toBeTruthy();
+    });
+
+    it('should answer NODATA with the SOA for existing names without the type', async () => {
+      const { req, res } = query('www.example.com', 'AAAA');
+      await store.handler(req, res, () => {});
+
+      expect(res.finished).toBe(true);
+      expect(res.packet.rcode).toEqual('NO_ERROR');
+      expect(res.packet.answers).toEqual([]);
+      expect(res.packet.authorities).toEqual([{ name: 'example.com', type: 'SOA', ttl: 60, data: soa }]);
+    });
+
+    it('should treat names matched by a wildcard in the zone as existing', async () => {
+      const { req, res } = query('anything.dev.example.com', 'MX');
+      await store.handler(req, res, () => {});
+
+      expect(res.packet.rcode).toEqual('NO_ERROR');
+      expect(res.packet.authorities).toHaveLength(1);
+    });
+
+    it.each([
+      ['legacy', 'NX_DOMAIN'],
+      ['rfc4592', 'NO_ERROR'],
+    ] as const)('should answer an empty non-terminal in %s mode with %s', async (wildcardMode, rcode) => {
+      const modeStore = new RedisStore({ client, wildcardMode });
+      await modeStore.set('_sip._tcp.example.com', 'SRV', {
+        priority: 0,
+        weight: 5,
+        port: 5060,
+        target: 'sip.example.com',
+      });
+      const { req, res } = query('_tcp.example.com', 'A');
+      await modeStore.handler(req, res, () => {});
+
+      expect(res.packet.rcode).toEqual(rcode);
+      expect(res.packet.authorities).toHaveLength(1);
+    });
+
+    it('should cap the negative ttl at the SOA ttl', async () => {
+      await store.set('example.com', 'SOA', soa, { ttl: 30 });
+      const { req, res } = query('missing.example.com', 'A');
+      await store.handler(req, res, () => {});
+
+      expect(res.packet.authorities).toEqual([{ name: 'example.com', type: 'SOA', ttl: 30, data: soa }]);
+    });
+
+    it('should leave names outside any zone to the rest of the chain', async () => {
+      const { req, res } = query('www.example.net', 'A');
+      const next = jest.fn();
+      await store.handler(req, res, next);
+
+      expect(res.finished).toBe(false);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('should leave names alone when negative answers are disabled', async () => {
+      const passiveStore = new RedisStore({ client, negativeAnswers: false });
+      const { req, res } = query('missing.example.com', 'A');
+      await passiveStore.handler(req, res, () => {});
+
+      expect(res.finished).toBe(false);
+    });
+  });
+
+  describe('cname chasing and glue', () => {
+    const query = (name: string, type: RecordType) => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type, name }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+
+      return { req, res: req.toAnswer() };
+    };
+
+    const resolveQuery = async (name: string, type: RecordType, queryStore = store) => {
+      const { req, res } = query(name, type);
+      await queryStore.handler(req, res, () => {});
+
+      return res.packet;
+    };
+
+    beforeEach(async () => {
+      await store.set('www.example.com', 'CNAME', 'web.example.com', { ttl: 60 });
+      await store.set('web.example.com', 'CNAME', 'host.example.com', { ttl: 120 });
+      await store.set('host.example.com', 'A', ARecords);
+      await store.set('host.example.com', 'AAAA', AAAARecords);
+    });
+
+    it('should follow a CNAME chain to the requested records', async () => {
+      const packet = await resolveQuery('www.example.com', 'A');
+
+      expect(packet.answers).toEqual([
+        { name: 'www.example.com', type: 'CNAME', ttl: 60, data: 'web.example.com' },
+        { name: 'web.example.com', type: 'CNAME', ttl: 120, data: 'host.example.com' },
+        ...ARecords.map((data) => ({ name: 'host.example.com', type: 'A', ttl: 300, data })),
+      ]);
+    });
+
+    it('should answer a CNAME query with the CNAME alone', async () => {
+      const packet = await resolveQuery('www.example.com', 'CNAME');
+
+      expect(packet.answers).toEqual([{ name: 'www.example.com', type: 'CNAME', ttl: 60, data: 'web.example.com' }]);
+    });
+
+    it('should answer the CNAME when the target is not in the store', async () => {
+      await store.set('alias.example.com', 'CNAME', 'elsewhere.example.net');
+      const packet = await resolveQuery('alias.example.com', 'A');
+
+      expect(packet.answers).toEqual([
+        { name: 'alias.example.com', type: 'CNAME', ttl: 300, data: 'elsewhere.example.net' },
+      ]);
+    });
+
+    it.each(['legacy', 'rfc4592'] as const)(
+      'should follow the CNAME of a name rather than a sibling wildcard in %s mode',
+      async (wildcardMode) => {
+        await store.set('*.example.com', 'A', '10.0.0.9');
+
+        const packet = await resolveQuery('www.example.com', 'A', new RedisStore({ client, wildcardMode }));
+
+        expect(packet.answers.map((a) => `${a.name} ${a.type}`)).toEqual([
+          'www.example.com CNAME',
+          'web.example.com CNAME',
+          'host.example.com A',
+          'host.example.com A',
+        ]);
+      },
+    );
+
+    it('should stop at CNAME loops', async () => {
+      await store.set('a.example.com', 'CNAME', 'b.example.com');
+      await store.set('b.example.com', 'CNAME', 'A.example.com');
+      const packet = await resolveQuery('a.example.com', 'A');
+
+      expect(packet.answers.map((a) => a.name)).toEqual(['a.example.com', 'b.example.com']);
+    });
+
+    it('should stop after the configured number of hops', async () => {
+      const shortStore = new RedisStore({ client, maxCnameChain: 1 });
+      const packet = await resolveQuery('www.example.com', 'A', shortStore);
+      expect(packet.answers.map((a) => a.type)).toEqual(['CNAME', 'CNAME']);
+
+      const noChaseStore = new RedisStore({ client, maxCnameChain: 0 });
+      const packet2 = await resolveQuery('www.example.com', 'A', noChaseStore);
+      expect(packet2.answers.map((a) => a.type)).toEqual(['CNAME']);
+    });
+
+    it('should emit a cache request per owner and type', async () => {
+      const cacheRequests: { zoneName: string; recordType: string }[] = [];
+      store.on('cacheRequest', (event) => cacheRequests.push(event));
+      await resolveQuery('www.example.com', 'A');
+
+      expect(cacheRequests.map((e) => [e.zoneName, e.recordType])).toEqual([
+        ['www.example.com', 'CNAME'],
+        ['web.example.com', 'CNAME'],
+        ['host.example.com', 'A'],
+      ]);
+    });
+
+    it('should add glue for MX, NS and SRV targets', async () => {
+      await store.set('example.com', 'MX', [
+        { preference: 10, exchange: 'host.example.com' },
+        { preference: 20, exchange: 'mail.example.net' },
+      ]);
+      await store.set('example.com', 'NS', 'host.example.com');
+      await store.set('_sip._tcp.example.com', 'SRV', {
+        priority: 0,
+        weight: 5,
+        port: 5060,
+        target: 'host.example.com',
+      });
+
+      const glue = [
+        ...ARecords.map((data) => ({ name: 'host.example.com', type: 'A', ttl: 300, data })),
+        ...AAAARecords.map((data) => ({ name: 'host.example.com', type: 'AAAA', ttl: 300, data })),
+      ];
+
+      expect((await resolveQuery('example.com', 'MX')).additionals).toEqual(glue);
+      expect((await resolveQuery('example.com', 'NS')).additionals).toEqual(glue);
+      expect((await resolveQuery('_sip._tcp.example.com', 'SRV')).additionals).toEqual(glue);
+      expect((await resolveQuery('host.example.com', 'A')).additionals).toEqual([]);
+    });
+
+    it('should not add glue when additional records are disabled', async () => {
+      await store.set('example.com', 'MX', { preference: 10, exchange: 'host.example.com' });
+      const noGlueStore = new RedisStore({ client, additionalRecords: false });
+
+      expect((await resolveQuery('example.com', 'MX', noGlueStore)).additionals).toEqual([]);
+    });
+  });
+
+  describe('rfc 4592 wildcards', () => {
+    // the example zone of RFC 4592, section 2.2.1
+    const zone = [
+      '$ORIGIN example.',
+      '$TTL 3600',
+      '@                 SOA   ns.example.com. hostmaster.example. 1 7200 900 1209600 60',
+      '@                 NS    ns.example.com.',
+      '@                 NS    ns.example.net.',
+      '*                 TXT   "this is a wildcard"',
+      '*                 MX    10 host1.example.',
+      'sub.*             TXT   "this is not a wildcard"',
+      'host1             A     192.0.2.1',
+      '_ssh._tcp.host1   SRV   0 0 22 host1.example.',
+      '_ssh._tcp.host2   SRV   0 0 22 host2.example.',
+      'subdel            NS    ns.example.com.',
+      'subdel            NS    ns.example.net.',
+    ].join('\n');
+
+    // `sub.*` isn't an owner name writes accept, so the zone is imported without validation
+    const importZone = (wildcardMode?: 'rfc4592') =>
+      new RedisStore({ client, wildcardMode, validateWrites: false }).importZone(zone, { origin: 'example' });
+
+    const query = async (target: RedisStore, name: string, type: RecordType) => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type, name }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      const res = req.toAnswer();
+      await target.handler(req, res, () => {});
+
+      return res.packet;
+    };
+
+    describe.each(['script', 'walk'] as const)('with the %s lookup strategy', (lookupStrategy) => {
+      let rfcStore: RedisStore;
+
+      beforeEach(async () => {
+        rfcStore = new RedisStore({ client, wildcardMode: 'rfc4592', lookupStrategy });
+        await importZone('rfc4592');
+      });
+
+      it('should synthesize answers for names that do not exist', async () => {
+        expect(await rfcStore.get('host3.example', 'MX')).toEqual({
+          MX: [{ preference: 10, exchange: 'host1.example' }],
+        });
+        expect(await rfcStore.get('foo.bar.example', 'TXT')).toEqual({ TXT: ['this is a wildcard'] });
+      });
+
+      it('should answer NODATA when the wildcard has no records of the type', async () => {
+        const packet = await query(rfcStore, 'host3.example', 'A');
+
+        expect(packet.rcode).toEqual('NO_ERROR');
+        expect(packet.answers).toEqual([]);
+      });
+
+      it('should not apply the wildcard to existing names', async () => {
+        expect(await rfcStore.get('host1.example', 'MX')).toEqual(null);
+        expect(await rfcStore.get('sub.*.example', 'MX')).toEqual(null);
+
+        expect((await query(rfcStore, 'host1.example', 'MX')).rcode).toEqual('NO_ERROR');
+        expect((await query(rfcStore, 'sub.*.example', 'MX')).rcode).toEqual('NO_ERROR');
+      });
+
+      it('should treat empty non-terminals as existing names', async () => {
+        expect(await rfcStore.get('_tcp.host1.example', 'TXT')).toEqual(null);
+
+        const packet = await query(rfcStore, '_tcp.host1.example', 'TXT');
+        expect(packet.rcode).toEqual('NO_ERROR');
+        expect(packet.answers).toEqual([]);
+      });
+
+      it('should only use the wildcard of the closest encloser', async () => {
+        // the closest encloser is the empty non-terminal _tcp.host1.example, which has no wildcard
+        expect(await rfcStore.get('_telnet._tcp.host1.example', 'SRV')).toEqual(null);
+        expect((await query(rfcStore, '_telnet._tcp.host1.example', 'SRV')).rcode).toEqual('NX_DOMAIN');
+
+        // the closest encloser is *.example itself, and there is no *.*.example
+        expect(await rfcStore.get('ghost.*.example', 'MX')).toEqual(null);
+        expect((await query(rfcStore, 'ghost.*.example', 'MX')).rcode).toEqual('NX_DOMAIN');
+
+        // the closest encloser is subdel.example, and there is no *.subdel.example
+        expect(await rfcStore.get('host.subdel.example', 'A')).toEqual(null);
+      });
+
+      it('should resolve names to their source of synthesis', async () => {
+        expect(await rfcStore.resolve('host3.example')).toEqual('*.example');
+        expect(await rfcStore.resolve('host1.example')).toEqual('example:host1');
+        expect(await rfcStore.resolve('_telnet._tcp.host1.example')).toEqual(null);
+      });
+
+      it('should let the wildcard apply once the names below an empty non-terminal are gone', async () => {
+        await rfcStore.delete('_ssh._tcp.host2.example', 'SRV');
+
+        expect(await rfcStore.get('_tcp.host2.example', 'TXT')).toEqual({ TXT: ['this is a wildcard'] });
+        expect(await rfcStore.get('_tcp.host1.example', 'TXT')).toEqual(null);
+      });
+
+      it('should only fall back to the root wildcard when enabled', async () => {
+        await rfcStore.set('*', 'A', ARecords);
+
+        expect(await rfcStore.get('example.org', 'A')).toEqual(null);
+
+        const rootStore = new RedisStore({ client, wildcardMode: 'rfc4592', lookupStrategy, rootWildcard: true });
+        expect(await rootStore.get('example.org', 'A')).toEqual(ARecordMap);
+        expect(await rootStore.get('host1.example', 'A')).toEqual({ A: ['192.0.2.1'] });
+        expect(await rootStore.get('nothing.example', 'A')).toEqual(null);
+      });
+    });
+
+    it('should apply the closest wildcard to existing names in legacy mode', async () => {
+      await importZone();
+
+      expect(await store.get('host1.example', 'MX')).toEqual({ MX: [{ preference: 10, exchange: 'host1.example' }] });
+      expect(await store.get('_telnet._tcp.host1.example', 'SRV')).toEqual(null);
+      expect(await store.get('_tcp.host1.example', 'TXT')).toEqual({ TXT: ['this is a wildcard'] });
+    });
+
+    it('should rebuild the name index for data written in legacy mode', async () => {
+      await importZone();
+
+      // without the index, the empty non-terminal host2.example looks like a missing name
+      const rfcStore = new RedisStore({ client, wildcardMode: 'rfc4592' });
+      expect(await rfcStore.get('host2.example', 'TXT')).toEqual({ TXT: ['this is a wildcard'] });
+
+      expect(await rfcStore.rebuildNameIndex()).toEqual(7);
+      expect(await rfcStore.get('host2.example', 'TXT')).toEqual(null);
+    });
+  });
+
+  describe('answer cache', () => {
+    let subscriber: EventEmitter & { subscribe: jest.Mock; quit: jest.Mock };
+    let cachingStore: RedisStore;
+    let lookup: jest.SpiedFunction<RedisBackend['dinodnsLookup']>;
+    let publish: jest.SpiedFunction<RedisBackend['publish']>;
+
+    beforeEach(async () => {
+      // a stand-in for the subscription, so the tests decide when announcements arrive
+      subscriber = Object.assign(new EventEmitter(), { subscribe: jest.fn(async () => 1), quit: jest.fn() });
+      jest.spyOn(client, 'duplicate').mockReturnValue(subscriber as unknown as RedisBackend);
+      publish = jest.spyOn(client, 'publish');
+      cachingStore = new RedisStore({ client, cache: { maxEntries: 100, ttl: 60 } });
+      // spied once the store has defined the script commands, which replaces them
+      lookup = jest.spyOn(client, 'dinodnsLookup');
+
+      await store.set('www.example.com', 'A', ARecords);
+      await store.set('*.example.com', 'TXT', ['wildcard']);
+    });
+
+    it('should subscribe to the invalidation channel on its own connection', async () => {
+      expect(subscriber.subscribe).toHaveBeenCalledWith('dinodns:invalidate');
+
+      await cachingStore.close();
+      expect(subscriber.quit).toHaveBeenCalled();
+    });
+
+    it('should answer repeated lookups from the cache', async () => {
+      expect(await cachingStore.get('www.example.com', 'A')).toEqual(ARecordMap);
+      expect(await cachingStore.get('WWW.example.com.', 'A')).toEqual(ARecordMap);
+      expect(await cachingStore.get('missing.example.com', 'A')).toEqual(null);
+      expect(await cachingStore.get('missing.example.com', 'A')).toEqual(null);
+
+      expect(lookup).toHaveBeenCalledTimes(2);
+      expect(cachingStore.cacheStats()).toEqual({ hits: 2, misses: 2, size: 2 });
+      expect(store.cacheStats()).toEqual(null);
+    });
+
+    it('should evict names written through the store', async () => {
+      await cachingStore.get('www.example.com', 'A');
+      await cachingStore.set('www.example.com', 'A', ARecords[0]);
+
+      expect(await cachingStore.get('www.example.com', 'A')).toEqual({ A: [ARecords[0]] });
+    });
+
+    it('should evict the names a wildcard answers', async () => {
+      expect(await cachingStore.get('a.b.example.com', 'TXT')).toEqual({ TXT: ['wildcard'] });
+      await cachingStore.delete('*.example.com');
+
+      expect(await cachingStore.get('a.b.example.com', 'TXT')).toEqual(null);
+    });
+
+    it('should announce writes and evict names announced by other stores', async () => {
+      await cachingStore.get('www.example.com', 'A');
+      await store.append('www.example.com', 'A', '127.0.0.3');
+
+      expect(publish).toHaveBeenCalledWith('dinodns:invalidate', 'com:example:www');
+      expect(await cachingStore.get('www.example.com', 'A')).toEqual(ARecordMap);
+
+      subscriber.emit('message', 'dinodns:invalidate', 'com:example:www');
+      expect(await cachingStore.get('www.example.com', 'A')).toEqual({ A: [...ARecords, '127.0.0.3'] });
+    });
+
+    it('should clear the cache when the subscription reconnects', async () => {
+      await cachingStore.get('www.example.com', 'A');
+      subscriber.emit('ready');
+
+      expect(cachingStore.cacheStats()?.size).toEqual(0);
+    });
+
+    it('should use the key prefix for the channel, or none at all', async () => {
+      new RedisStore({ client, keyPrefix: 'staging:', cache: {} });
+      expect(subscriber.subscribe).toHaveBeenLastCalledWith('staging:dinodns:invalidate');
+
+      const silentStore = new RedisStore({ client, invalidationChannel: false });
+      publish.mockClear();
+      await silentStore.set('www.example.com', 'A', ARecords);
+      expect(publish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dynamic updates', () => {
+    const soa: ZoneData['SOA'] = {
+      mname: 'ns1.example.com',
+      rname: 'hostmaster.example.com',
+      serial: 1,
+      refresh: 7200,
+      retry: 900,
+      expire: 1209600,
+      minimum: 60,
+    };
+    const key: TsigKey = { name: 'update-key', algorithm: 'hmac-sha256', secret: 'c2VjcmV0' };
+    const now = 1_700_000_000;
+
+    const rr = (name: string, type: string, cls: string, data?: unknown, ttl = 0): UpdateRecord => ({
+      name,
+      type,
+      class: cls,
+      ttl,
+      ...(data === undefined ? {} : { data }),
+    });
+
+    const update = async (
+      prerequisites: UpdateRecord[],
+      updates: UpdateRecord[],
+      options: { zone?: string; key?: TsigKey | null; time?: number; target?: RedisStore } = {},
+    ) => {
+      const unsigned = encodeUpdate({
+        id: 1,
+        flags: 0,
+        zone: [{ name: options.zone ?? 'example.com', type: 'SOA', class: 'IN' }],
+        prerequisites,
+        updates,
+      });
+      const signingKey = options.key === undefined ? key : options.key;
+      const message = signingKey ? signMessage(unsigned, signingKey, options.time ?? now) : unsigned;
+      const req = new DNSRequest(new UpdateSerializer().decode(message), {
+        remoteAddress: '127.0.0.1',
+        remotePort: 12345,
+        type: SupportedNetworkType.UDP,
+      });
+      const res = req.toAnswer();
+      const next = jest.fn();
+      await (options.target ?? store).updateHandler(req, res, next);
+
+      return { res, next, rcode: res.packet.flags & 0xf, requestMac: message.subarray(-38, -6) };
+    };
+
+    beforeEach(async () => {
+      jest.spyOn(Date, 'now').mockReturnValue(now * 1000);
+      await store.set('example.com', 'SOA', soa, { ttl: 3600 });
+      await store.set('example.com', 'NS', ['ns1.example.com']);
+      await store.set('www.example.com', 'A', ARecords);
+      await store.setTsigKey(key);
+    });
+
+    it('should store TSIG keys in Redis', async () => {
+      expect(await client.hgetall('#tsig')).toEqual({ 'update-key': JSON.stringify(key) });
+
+      await store.deleteTsigKey('UPDATE-KEY.');
+      expect(await client.exists('#tsig')).toEqual(0);
+    });
+
+    it('should apply signed updates', async () => {
+      const { res, next, rcode } = await update(
+        [rr('www.example.com', 'A', 'ANY')],
+        [
+          rr('new.example.com', 'A', 'IN', '127.0.0.3', 300),
+          rr('new.example.com', 'TXT', 'IN', ['hello'], 300),
+          rr('www.example.com', 'A', 'NONE', ARecords[0]),
+        ],
+      );
+
+      expect(rcode).toEqual(UpdateRcode.NOERROR);
+      expect(res.finished).toBe(true);
+      expect(next).toHaveBeenCalled();
+      expect(await store.get('new.example.com')).toEqual({ A: ['127.0.0.3'], TXT: ['hello'] });
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: [ARecords[1]] });
+      expect(await client.hget('com:example:new', 'A')).toEqual(
+        JSON.stringify({ ttl: 300, records: [{ data: '127.0.0.3' }] }),
+      );
+    });
+
+    it('should raise the serial unless the update changes it', async () => {
+      await update([], [rr('new.example.com', 'A', 'IN', '127.0.0.3', 300)]);
+      expect((await store.findZone('example.com'))?.soa.data.serial).toEqual(2);
+
+      await update([], [rr('example.com', 'SOA', 'IN', { ...soa, serial: 10 }, 3600)]);
+      expect((await store.findZone('example.com'))?.soa.data.serial).toEqual(10);
+
+      await update([rr('missing.example.com', 'ANY', 'NONE')], [rr('missing.example.com', 'A', 'ANY')]);
+      expect((await store.findZone('example.com'))?.soa.data.serial).toEqual(10);
+    });
+
+    it('should sign the response with the key of the request', async () => {
+      const { res, requestMac } = await update([], [rr('new.example.com', 'A', 'IN', '127.0.0.3', 300)]);
+
+      const [additional] = res.packet.additionals;
+      expect(additional).toMatchObject({ name: 'update-key', type: 'TSIG', class: 'ANY' });
+      const tsig = decodeTsig(additional.name, (additional as { data: Buffer }).data);
+      const unsigned = dnsPacket.encode({ ...res.packet.raw, additionals: [] });
+      expect(tsig.error).toEqual(TsigError.NOERROR);
+      expect(tsig.mac).toEqual(computeMac(key, unsigned, tsig, requestMac));
+    });
+
+    it('should answer failed prerequisites with their RCODE and change nothing', async () => {
+      const before = await hashes();
+      const cases: [UpdateRecord, number][] = [
+        [rr('www.example.com', 'AAAA', 'ANY'), UpdateRcode.NXRRSET],
+        [rr('missing.example.com', 'ANY', 'ANY'), UpdateRcode.NXDOMAIN],
+        [rr('www.example.com', 'ANY', 'NONE'), UpdateRcode.YXDOMAIN],
+        [rr('www.example.com', 'A', 'NONE'), UpdateRcode.YXRRSET],
+        [rr('www.example.com', 'A', 'IN', ARecords[0]), UpdateRcode.NXRRSET],
+      ];
+
+      for (const [prerequisite, expected] of cases) {
+        const { rcode } = await update(
+          [prerequisite],
+          [rr('www.example.com', 'A', 'ANY'), rr('new.example.com', 'A', 'IN', '127.0.0.3', 300)],
+        );
+        expect(rcode).toEqual(expected);
+      }
+
+      expect(await hashes()).toEqual(before);
+    });
+
+    it('should refuse unsigned updates unless allowed', async () => {
+      expect((await update([], [rr('new.example.com', 'A', 'IN', '127.0.0.3', 300)], { key: null })).rcode).toEqual(
+        UpdateRcode.REFUSED,
+      );
+      expect(await store.get('new.example.com')).toEqual(null);
+
+      const openStore = new RedisStore({ client, allowUnsignedUpdates: true });
+      const { rcode, res } = await update([], [rr('new.example.com', 'A', 'IN', '127.0.0.3', 300)], {
+        key: null,
+        target: openStore,
+      });
+      expect(rcode).toEqual(UpdateRcode.NOERROR);
+      expect(res.packet.additionals).toEqual([]);
+      expect(await store.get('new.example.com')).toEqual({ A: ['127.0.0.3'] });
+    });
+
+    it('should answer NOTAUTH with the TSIG error for failed signatures', async () => {
+      const additionalError = async (options: Parameters<typeof update>[2]) => {
+        const { rcode, res } = await update([], [rr('new.example.com', 'A', 'IN', '127.0.0.3', 300)], options);
+        const [additional] = res.packet.additionals as unknown as { name: string; data: Buffer }[];
+
+        return [rcode, decodeTsig(additional.name, additional.data).error];
+      };
+
+      expect(await additionalError({ key: { ...key, name: 'unknown-key' } })).toEqual([
+        UpdateRcode.NOTAUTH,
+        TsigError.BADKEY,
+      ]);
+      expect(await additionalError({ key: { ...key, secret: 'b3RoZXI=' } })).toEqual([
+        UpdateRcode.NOTAUTH,
+        TsigError.BADSIG,
+      ]);
+      expect(await additionalError({ time: now - 600 })).toEqual([UpdateRcode.NOTAUTH, TsigError.BADTIME]);
+      expect(await store.get('new.example.com')).toEqual(null);
+    });
+
+    it('should only accept updates of zone apexes in the store', async () => {
+      expect((await update([], [], { zone: 'www.example.com' })).rcode).toEqual(UpdateRcode.NOTAUTH);
+      expect((await update([], [], { zone: 'example.net' })).rcode).toEqual(UpdateRcode.NOTAUTH);
+    });
+
+    it('should refuse updates of zones the key may not update', async () => {
+      await store.setTsigKey({ ...key, zones: ['example.net'] });
+
+      expect((await update([], [rr('new.example.com', 'A', 'IN', '127.0.0.3', 300)])).rcode).toEqual(
+        UpdateRcode.REFUSED,
+      );
+    });
+
+    it('should reject updates outside the zone', async () => {
+      expect((await update([], [rr('www.example.net', 'A', 'IN', '127.0.0.3', 300)])).rcode).toEqual(
+        UpdateRcode.NOTZONE,
+      );
+    });
+
+    it('should answer FORMERR for malformed messages', async () => {
+      const req = new DNSRequest(new UpdateSerializer().decode(Buffer.from('00012800000100000000000003', 'hex')), {
+        remoteAddress: '127.0.0.1',
+        remotePort: 12345,
+        type: SupportedNetworkType.UDP,
+      });
+      const res = req.toAnswer();
+      await store.updateHandler(req, res, () => {});
+
+      expect(res.packet.flags & 0xf).toEqual(UpdateRcode.FORMERR);
+    });
+
+    it('should retry when the names change while the update is applied', async () => {
+      const compareAndSetHashes = client.dinodnsCompareAndSetHashes.bind(client);
+      const script = jest.spyOn(client, 'dinodnsCompareAndSetHashes').mockImplementationOnce(async (...args) => {
+        await client.hset('com:example:www', 'AAAA', JSON.stringify(['::1']));
+
+        return compareAndSetHashes(...args);
+      });
+
+      const { rcode } = await update([], [rr('www.example.com', 'A', 'IN', '127.0.0.3', 300)]);
+
+      expect(rcode).toEqual(UpdateRcode.NOERROR);
+      expect(script).toHaveBeenCalledTimes(2);
+      expect(await store.get('www.example.com')).toEqual({ A: [...ARecords, '127.0.0.3'], AAAA: ['::1'] });
+    });
+
+    it('should leave UPDATE messages to the update handler and queries to the query handler', async () => {
+      const { req, res } = (() => {
+        const req = new DNSRequest(
+          { type: 'query', id: 0, flags: 0, questions: [{ type: 'A', name: 'www.example.com' }] },
+          { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+        );
+
+        return { req, res: req.toAnswer() };
+      })();
+      const next = jest.fn();
+      await store.updateHandler(req, res, next);
+      expect(res.finished).toBe(false);
+      expect(next).toHaveBeenCalled();
+
+      const message = encodeUpdate({
+        id: 1,
+        flags: 0,
+        zone: [{ name: 'example.com', type: 'SOA' }],
+        prerequisites: [],
+        updates: [],
+      });
+      const updateReq = new DNSRequest(new UpdateSerializer().decode(message), req.connection);
+      const updateRes = updateReq.toAnswer();
+      await store.handler(updateReq, updateRes, next);
+      expect(updateRes.finished).toBe(false);
+    });
+  });
+
+  describe('zone enumeration and transfers', () => {
+    const soa: ZoneData['SOA'] = {
+      mname: 'ns1.example.com',
+      rname: 'hostmaster.example.com',
+      serial: 1,
+      refresh: 7200,
+      retry: 900,
+      expire: 1209600,
+      minimum: 60,
+    };
+    const soaRecord = (serial: number) => ({ name: 'example.com', type: 'SOA', ttl: 3600, data: { ...soa, serial } });
+
+    let journaledStore: RedisStore;
+
+    const transfer = async (
+      type: 'AXFR' | 'IXFR',
+      options: { serial?: number; network?: SupportedNetworkType; remoteAddress?: string; name?: string } = {},
+    ) => {
+      const req = new DNSRequest(
+        {
+          type: 'query',
+          id: 0,
+          flags: 0,
+          questions: [{ type, name: options.name ?? 'example.com' }],
+          authorities: options.serial === undefined ? [] : [soaRecord(options.serial) as dnsPacket.Answer],
+        },
+        {
+          remoteAddress: options.remoteAddress ?? '10.0.0.2',
+          remotePort: 12345,
+          type: options.network ?? SupportedNetworkType.TCP,
+        },
+      );
+      const res = req.toAnswer();
+      const next = jest.fn();
+      await journaledStore.transferHandler(req, res, next);
+
+      return { res, next, rcode: res.packet.flags & 0xf };
+    };
+
+    beforeEach(async () => {
+      journaledStore = new RedisStore({ client, journal: { maxEntries: 100 }, allowTransfer: ['10.0.0.2'] });
+      await journaledStore.importZone(
+        [
+          '$TTL 300',
+          '@ 3600 IN SOA ns1.example.com. hostmaster.example.com. 1 7200 900 1209600 60',
+          '@ IN NS ns1.example.com.',
+          'ns1 IN A 10.0.0.1',
+          'www IN A 127.0.0.1',
+          'b.a IN TXT "deep"',
+          '*.dev IN A 127.0.0.2',
+          'sub IN SOA ns1.sub.example.com. hostmaster.example.com. 1 7200 900 1209600 60',
+          'www.sub IN A 127.0.0.3',
+        ].join('\n'),
+        { origin: 'example.com' },
+      );
+    });
+
+    it('should list the names of a zone in canonical order, without its child zones', async () => {
+      expect(await journaledStore.listNames('example.com')).toEqual([
+        'example.com',
+        'b.a.example.com',
+        '*.dev.example.com',
+        'ns1.example.com',
+        'www.example.com',
+      ]);
+      expect(await journaledStore.listNames('sub.example.com')).toEqual(['sub.example.com', 'www.sub.example.com']);
+    });
+
+    it('should list the records of a zone with their effective TTLs', async () => {
+      await journaledStore.append('www.example.com', 'A', '127.0.0.4', { ttl: 60 });
+
+      expect(await journaledStore.listRecords('example.com')).toEqual([
+        soaRecord(1),
+        { name: 'example.com', type: 'NS', ttl: 300, data: 'ns1.example.com' },
+        { name: 'b.a.example.com', type: 'TXT', ttl: 300, data: 'deep' },
+        { name: '*.dev.example.com', type: 'A', ttl: 300, data: '127.0.0.2' },
+        { name: 'ns1.example.com', type: 'A', ttl: 300, data: '10.0.0.1' },
+        { name: 'www.example.com', type: 'A', ttl: 300, data: '127.0.0.1' },
+        { name: 'www.example.com', type: 'A', ttl: 60, data: '127.0.0.4' },
+      ]);
+    });
+
+    it('should answer AXFR with the zone between its SOA', async () => {
+      const { res, rcode } = await transfer('AXFR');
+
+      expect(rcode).toEqual(0);
+      expect(res.packet.flags & AUTHORITATIVE_ANSWER).toBeTruthy();
+      expect(res.packet.answers.map((a) => `${a.name}/${a.type}`)).toEqual([
+        'example.com/SOA',
+        'example.com/NS',
+        'b.a.example.com/TXT',
+        '*.dev.example.com/A',
+        'ns1.example.com/A',
+        'www.example.com/A',
+        'example.com/SOA',
+      ]);
+    });
+
+    it('should refuse transfers to unknown addresses and AXFR over UDP', async () => {
+      expect((await transfer('AXFR', { remoteAddress: '10.0.0.3' })).rcode).toEqual(UpdateRcode.REFUSED);
+      expect((await transfer('AXFR', { network: SupportedNetworkType.UDP })).rcode).toEqual(UpdateRcode.REFUSED);
+    });
+
+    it('should only transfer zone apexes', async () => {
+      expect((await transfer('AXFR', { name: 'www.example.com' })).rcode).toEqual(UpdateRcode.NOTAUTH);
+    });
+
+    it('should leave other queries to the rest of the chain', async () => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type: 'A', name: 'www.example.com' }] },
+        { remoteAddress: '10.0.0.2', remotePort: 12345, type: SupportedNetworkType.TCP },
+      );
+      const res = req.toAnswer();
+      const next = jest.fn();
+      await journaledStore.transferHandler(req, res, next);
+
+      expect(res.finished).toBe(false);
+      expect(next).toHaveBeenCalled();
+    });
+
+    describe('IXFR', () => {
+      beforeEach(async () => {
+        await journaledStore.set('example.com', 'SOA', { ...soa, serial: 2 }, { ttl: 3600 });
+        await journaledStore.append('www.example.com', 'A', '127.0.0.4');
+        await journaledStore.delete('ns1.example.com', 'A');
+        await journaledStore.set('example.com', 'SOA', { ...soa, serial: 3 }, { ttl: 3600 });
+        await journaledStore.delete('www.example.com', 'A', '127.0.0.4');
+        await journaledStore.set('example.com', 'SOA', { ...soa, serial: 4 }, { ttl: 3600 });
+      });
+
+      it('should answer with the changes since the client serial', async () => {
+        const { res } = await transfer('IXFR', { serial: 2 });
+
+        expect(res.packet.answers).toEqual([
+          soaRecord(4),
+          soaRecord(2),
+          { name: 'ns1.example.com', type: 'A', ttl: 300, data: '10.0.0.1' },
+          soaRecord(3),
+          { name: 'www.example.com', type: 'A', ttl: 300, data: '127.0.0.4' },
+          soaRecord(3),
+          { name: 'www.example.com', type: 'A', ttl: 300, data: '127.0.0.4' },
+          soaRecord(4),
+          soaRecord(4),
+        ]);
+      });
+
+      it('should answer with the SOA alone when the client is up to date or asks over UDP', async () => {
+        expect((await transfer('IXFR', { serial: 4 })).res.packet.answers).toEqual([soaRecord(4)]);
+        expect((await transfer('IXFR', { serial: 2, network: SupportedNetworkType.UDP })).res.packet.answers).toEqual([
+          soaRecord(4),
+        ]);
+      });
+
+      it('should follow the journal back to the creation of the zone', async () => {
+        const { res } = await transfer('IXFR', { serial: 1 });
+
+        expect(res.packet.answers.slice(0, 3)).toEqual([soaRecord(4), soaRecord(1), soaRecord(2)]);
+      });
+
+      it('should fall back to a full transfer when the journal doesn t reach the client serial', async () => {
+        const { res } = await transfer('IXFR', { serial: 0 });
+
+        expect(res.packet.answers).toHaveLength(6);
+        expect(res.packet.answers[0]).toEqual(soaRecord(4));
+      });
+
+      it('should require the client SOA', async () => {
+        expect((await transfer('IXFR')).rcode).toEqual(UpdateRcode.FORMERR);
+      });
+
+      it('should keep at most maxEntries writes and drop the journal with the zone', async () => {
+        const smallStore = new RedisStore({ client, journal: { maxEntries: 2 } });
+        await smallStore.set('www.example.com', 'TXT', 'a');
+        await smallStore.set('www.example.com', 'TXT', 'b');
+        await smallStore.set('www.example.com', 'TXT', 'c');
+        expect(await smallStore.readJournal('example.com')).toHaveLength(2);
+
+        await smallStore.delete('example.com', 'SOA');
+        expect(await smallStore.readJournal('example.com')).toEqual([]);
+      });
+    });
+  });
+
+  describe('serial management', () => {
+    const soa: ZoneData['SOA'] = {
+      mname: 'ns1.example.com',
+      rname: 'hostmaster.example.com',
+      serial: 1,
+      refresh: 7200,
+      retry: 900,
+      expire: 1209600,
+      minimum: 60,
+    };
+
+    let managedStore: RedisStore;
+    let changes: jest.Mock;
+
+    const serial = async () => (await store.findZone('example.com'))?.soa.data.serial;
+
+    beforeEach(async () => {
+      managedStore = new RedisStore({ client, serialScheme: 'increment', emitZoneChanged: true });
+      changes = jest.fn();
+      managedStore.on('zoneChanged', changes);
+      await store.set('example.com', 'SOA', soa, { ttl: 3600 });
+      await store.set('www.example.com', 'A', ARecords);
+    });
+
+    it('should raise the serial of the enclosing zone on every write', async () => {
+      await managedStore.set('www.example.com', 'AAAA', AAAARecords);
+      expect(await serial()).toEqual(2);
+
+      await managedStore.append('new.example.com', 'A', '127.0.0.3');
+      await managedStore.delete('www.example.com', 'A', ARecords[0]);
+      await managedStore.delete('www.example.com', 'AAAA');
+      await managedStore.set('example.com', 'NS', 'ns1.example.com');
+      expect(await serial()).toEqual(6);
+
+      await managedStore.delete('www.example.com');
+      expect(await serial()).toEqual(7);
+      expect(await store.get('www.example.com')).toEqual(null);
+      expect(await store.get('example.com', 'SOA')).toEqual({ SOA: [{ ...soa, serial: 7 }] });
+      expect(await store.getRecords('example.com', 'SOA')).toEqual({
+        SOA: [{ data: { ...soa, serial: 7 }, ttl: 3600 }],
+      });
+    });
+
+    it('should write the records and the serial in one step', async () => {
+      const script = jest.spyOn(client, 'dinodnsCompareAndSetHashes');
+      await managedStore.set('www.example.com', 'AAAA', AAAARecords);
+
+      expect(script).toHaveBeenCalledWith(
+        2,
+        'com:example:www',
+        'com:example',
+        expect.any(String),
+        expect.any(String),
+        expect.stringContaining('AAAA'),
+        expect.stringContaining('\\"serial\\":2'),
+      );
+    });
+
+    it('should leave explicit SOA writes, unchanged records and names outside zones alone', async () => {
+      await managedStore.set('example.com', 'SOA', { ...soa, serial: 10 });
+      await managedStore.delete('www.example.com', 'A', '10.0.0.1');
+      await managedStore.set('www.example.net', 'A', ARecords);
+
+      expect(await serial()).toEqual(10);
+    });
+
+    it('should retry when the zone changes while writing', async () => {
+      const compareAndSetHashes = client.dinodnsCompareAndSetHashes.bind(client);
+      const script = jest.spyOn(client, 'dinodnsCompareAndSetHashes').mockImplementationOnce(async (...args) => {
+        await store.set('example.com', 'SOA', { ...soa, serial: 5 });
+
+        return compareAndSetHashes(...args);
+      });
+
+      await managedStore.append('www.example.com', 'A', '127.0.0.3');
+
+      expect(script).toHaveBeenCalledTimes(2);
+      expect(await serial()).toEqual(6);
+    });
+
+    it('should support time based schemes', async () => {
+      // only the clock, so the connection keeps its timers
+      jest.useFakeTimers({
+        now: new Date('2026-10-18T12:00:00Z'),
+        doNotFake: ['nextTick', 'queueMicrotask', 'setImmediate', 'setInterval', 'setTimeout'],
+      });
+      try {
+        await new RedisStore({ client, serialScheme: 'date' }).set('www.example.com', 'A', ARecords[0]);
+        expect(await serial()).toEqual(2026101800);
+
+        await new RedisStore({ client, serialScheme: 'unixtime' }).set('www.example.com', 'A', ARecords[1]);
+        expect(await serial()).toEqual(2026101801);
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should emit zoneChanged with the new serial', async () => {
+      await managedStore.set('www.example.com', 'AAAA', AAAARecords);
+      await managedStore.set('example.com', 'SOA', { ...soa, serial: 10 });
+      await managedStore.set('www.example.net', 'A', ARecords);
+
+      expect(changes.mock.calls).toEqual([[{ zone: 'example.com', serial: 2 }], [{ zone: 'example.com', serial: 10 }]]);
+    });
+
+    it('should journal the serial change along with the write', async () => {
+      const journaledStore = new RedisStore({ client, serialScheme: 'increment', journal: {} });
+      await journaledStore.append('www.example.com', 'A', '127.0.0.3');
+
+      expect(await journaledStore.readJournal('example.com')).toEqual([
+        {
+          deleted: [{ name: 'example.com', type: 'SOA', ttl: 3600, data: soa }],
+          added: [
+            { name: 'www.example.com', type: 'A', ttl: 300, data: '127.0.0.3' },
+            { name: 'example.com', type: 'SOA', ttl: 3600, data: { ...soa, serial: 2 } },
+          ],
+        },
+      ]);
+    });
+
+    it('should emit zoneChanged without managing serials', async () => {
+      const notifyingStore = new RedisStore({ client, emitZoneChanged: true });
+      notifyingStore.on('zoneChanged', changes);
+      await notifyingStore.importZone('www IN A 127.0.0.3', { origin: 'example.com' });
+
+      expect(changes).toHaveBeenCalledWith({ zone: 'example.com', serial: 1 });
+      expect(await serial()).toEqual(1);
+    });
+  });
+
+  describe('answer policies', () => {
+    const addresses = ['127.0.0.1', '127.0.0.2', '127.0.0.3'];
+
+    const answer = async (target: RedisStore, name: string, type: RecordType) => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type, name }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      const res = req.toAnswer();
+      await target.handler(req, res, () => {});
+
+      return res.packet.answers?.map((a) => a.data);
+    };
+
+    beforeEach(async () => {
+      await store.set('www.example.com', 'A', addresses);
+    });
+
+    it('should answer in stored order by default', async () => {
+      expect(await answer(store, 'www.example.com', 'A')).toEqual(addresses);
+      expect(await answer(store, 'www.example.com', 'A')).toEqual(addresses);
+    });
+
+    it('should rotate the records on each query', async () => {
+      const rotatingStore = new RedisStore({ client, answerPolicy: { mode: 'rotate' } });
+
+      expect(await answer(rotatingStore, 'www.example.com', 'A')).toEqual(addresses);
+      expect(await answer(rotatingStore, 'www.example.com', 'A')).toEqual(['127.0.0.2', '127.0.0.3', '127.0.0.1']);
+      expect(await answer(rotatingStore, 'www.example.com', 'A')).toEqual(['127.0.0.3', '127.0.0.1', '127.0.0.2']);
+      expect(await answer(rotatingStore, 'www.example.com', 'A')).toEqual(addresses);
+    });
+
+    it('should answer a random subset with the injected random numbers', async () => {
+      const random = jest.fn().mockReturnValueOnce(0.9).mockReturnValueOnce(0);
+      const randomStore = new RedisStore({ client, answerPolicy: { mode: 'random', count: 2 }, random });
+
+      expect(await answer(randomStore, 'www.example.com', 'A')).toEqual(['127.0.0.3', '127.0.0.1']);
+      expect(random).toHaveBeenCalledTimes(2);
+    });
+
+    it('should pick records in proportion to their stored weights', async () => {
+      await store.set('www.example.com', 'A', '127.0.0.1', { weight: 1 });
+      await store.append('www.example.com', 'A', '127.0.0.2', { weight: 3 });
+      await store.append('www.example.com', 'A', '127.0.0.3', { weight: 0 });
+      const random = jest.fn();
+      const weightedStore = new RedisStore({ client, answerPolicy: { mode: 'weighted' }, random });
+
+      random.mockReturnValue(0.2);
+      expect(await answer(weightedStore, 'www.example.com', 'A')).toEqual(['127.0.0.1']);
+
+      random.mockReturnValue(0.3);
+      expect(await answer(weightedStore, 'www.example.com', 'A')).toEqual(['127.0.0.2']);
+
+      random.mockReturnValue(0.9999);
+      expect(await answer(weightedStore, 'www.example.com', 'A')).toEqual(['127.0.0.2']);
+    });
+
+    it('should keep weights alongside the records', async () => {
+      await store.set('www.example.com', 'A', '127.0.0.1', { weight: 5 });
+      await store.append('www.example.com', 'A', '127.0.0.2', { ttl: 60, weight: 2 });
+
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: ['127.0.0.1', '127.0.0.2'] });
+      expect(await store.getRecords('www.example.com', 'A')).toEqual({
+        A: [
+          { data: '127.0.0.1', ttl: 300, weight: 5 },
+          { data: '127.0.0.2', ttl: 60, weight: 2 },
+        ],
+      });
+    });
+
+    it('should prefer the policy set on the name over the default', async () => {
+      const rotatingStore = new RedisStore({ client, answerPolicy: { mode: 'rotate' } });
+      await store.setAnswerPolicy('www.example.com', 'A', { mode: 'ordered' });
+
+      expect(await store.getAnswerPolicy('WWW.example.com', 'A')).toEqual({ mode: 'ordered' });
+      expect(await answer(rotatingStore, 'www.example.com', 'A')).toEqual(addresses);
+      expect(await answer(rotatingStore, 'www.example.com', 'A')).toEqual(addresses);
+
+      await store.setAnswerPolicy('www.example.com', 'A', null);
+
+      expect(await store.getAnswerPolicy('www.example.com', 'A')).toEqual(null);
+      expect(await answer(rotatingStore, 'www.example.com', 'A')).toEqual(addresses);
+      expect(await answer(rotatingStore, 'www.example.com', 'A')).toEqual(['127.0.0.2', '127.0.0.3', '127.0.0.1']);
+    });
+
+    it('should only apply the default to A, AAAA and SRV sets', async () => {
+      await store.set('example.com', 'NS', ['ns1.example.com', 'ns2.example.com']);
+      const rotatingStore = new RedisStore({ client, answerPolicy: { mode: 'rotate' } });
+
+      await answer(rotatingStore, 'example.com', 'NS');
+      expect(await answer(rotatingStore, 'example.com', 'NS')).toEqual(['ns1.example.com', 'ns2.example.com']);
+
+      await store.setAnswerPolicy('example.com', 'NS', { mode: 'rotate' });
+      await answer(rotatingStore, 'example.com', 'NS');
+      expect(await answer(rotatingStore, 'example.com', 'NS')).toEqual(['ns2.example.com', 'ns1.example.com']);
+    });
+  });
+
+  describe('health checks', () => {
+    const check: HealthCheck = { type: 'tcp', port: 443 };
+
+    const answer = async (name: string, type: RecordType) => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type, name }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      const res = req.toAnswer();
+      await store.handler(req, res, () => {});
+
+      return { answers: res.packet.answers?.map((a) => a.data), additionals: res.packet.additionals };
+    };
+
+    const setHealth = (address: string, healthy: boolean) =>
+      store.setHealth(`tcp://${address}:443`, { healthy, checkedAt: 0 });
+
+    beforeEach(async () => {
+      await store.set('www.example.com', 'A', ['10.0.0.1', '10.0.0.2'], { check });
+      await store.append('www.example.com', 'A', '10.0.0.9', { check, backup: true });
+    });
+
+    it('should keep the checks alongside the records', async () => {
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: ['10.0.0.1', '10.0.0.2', '10.0.0.9'] });
+      expect(await store.getRecords('www.example.com', 'A')).toEqual({
+        A: [
+          { data: '10.0.0.1', ttl: 300, check },
+          { data: '10.0.0.2', ttl: 300, check },
+          { data: '10.0.0.9', ttl: 300, check, backup: true },
+        ],
+      });
+    });
+
+    it('should list one check per endpoint', async () => {
+      await store.set('api.example.com', 'A', '10.0.0.1', { check });
+      await store.set(
+        '_http._tcp.example.com',
+        'SRV',
+        { target: 'www.example.com', port: 80 },
+        { check: { type: 'http' } },
+      );
+      // data written around the store
+      await client.hset('session:1', 'user', 'alice');
+      await client.hset('com:example:broken', 'TXT', '[');
+      await client.rpush('queue', 'job');
+
+      expect((await store.listHealthChecks()).map((c) => c.id).sort()).toEqual([
+        'http://www.example.com:80/',
+        'tcp://10.0.0.1:443',
+        'tcp://10.0.0.2:443',
+        'tcp://10.0.0.9:443',
+      ]);
+    });
+
+    it('should answer unchecked endpoints and leave out unhealthy ones', async () => {
+      expect((await answer('www.example.com', 'A')).answers).toEqual(['10.0.0.1', '10.0.0.2']);
+
+      await setHealth('10.0.0.1', false);
+      await setHealth('10.0.0.2', true);
+
+      expect(await store.getHealth('tcp://10.0.0.1:443')).toEqual({ healthy: false, checkedAt: 0 });
+      expect((await answer('www.example.com', 'A')).answers).toEqual(['10.0.0.2']);
+    });
+
+    it('should answer endpoints whose health state does not decode', async () => {
+      await setHealth('10.0.0.2', false);
+      await client.hset('#health', 'tcp://10.0.0.1:443', '{"healthy":"no"}');
+
+      expect((await answer('www.example.com', 'A')).answers).toEqual(['10.0.0.1']);
+    });
+
+    it('should list and apply the checks of the views', async () => {
+      const viewStore = new RedisStore({ client, views: { networks: { internal: ['10.0.0.0/8'] } } });
+      await viewStore.set('api.example.com', 'A', ['10.1.0.1', '10.1.0.2'], { check, view: 'internal' });
+      await viewStore.setHealth('tcp://10.1.0.1:443', { healthy: false, checkedAt: 0 });
+
+      expect((await viewStore.listHealthChecks()).map((c) => c.id).sort()).toEqual([
+        'tcp://10.0.0.1:443',
+        'tcp://10.0.0.2:443',
+        'tcp://10.0.0.9:443',
+        'tcp://10.1.0.1:443',
+        'tcp://10.1.0.2:443',
+      ]);
+
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type: 'A', name: 'api.example.com' }] },
+        { remoteAddress: '10.0.0.53', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      const res = req.toAnswer();
+      await viewStore.handler(req, res, () => {});
+      expect(res.packet.answers?.map((a) => a.data)).toEqual(['10.1.0.2']);
+    });
+
+    it('should fall back to the backups when every other record is down', async () => {
+      await setHealth('10.0.0.1', false);
+      await setHealth('10.0.0.2', false);
+      expect((await answer('www.example.com', 'A')).answers).toEqual(['10.0.0.9']);
+
+      await setHealth('10.0.0.9', false);
+      expect((await answer('www.example.com', 'A')).answers).toEqual(['10.0.0.1', '10.0.0.2']);
+    });
+
+    it('should leave unhealthy glue out', async () => {
+      await store.set('example.com', 'MX', { preference: 10, exchange: 'www.example.com' });
+      await setHealth('10.0.0.1', false);
+
+      expect((await answer('example.com', 'MX')).additionals).toEqual([
+        { name: 'www.example.com', type: 'A', ttl: 300, data: '10.0.0.2' },
+      ]);
+    });
+  });
+
+  describe('views', () => {
+    const soa: ZoneData['SOA'] = {
+      mname: 'ns1.example.com',
+      rname: 'hostmaster.example.com',
+      serial: 1,
+      refresh: 7200,
+      retry: 900,
+      expire: 1209600,
+      minimum: 60,
+    };
+
+    let viewStore: RedisStore;
+
+    const query = async (name: string, remoteAddress: string, additionals: Packet['additionals'] = []) => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type: 'A', name }], additionals },
+        { remoteAddress, remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      const res = req.toAnswer();
+      await viewStore.handler(req, res, () => {});
+
+      return res.packet;
+    };
+
+    const addresses = async (name: string, remoteAddress: string, additionals?: Packet['additionals']) =>
+      (await query(name, remoteAddress, additionals)).answers?.map((a) => a.data);
+
+    beforeEach(async () => {
+      viewStore = new RedisStore({ client, views: { networks: { internal: ['10.0.0.0/8'] } } });
+      await store.set('example.com', 'SOA', soa);
+      await store.set('www.example.com', 'A', '203.0.113.1');
+      await store.set('api.example.com', 'A', '203.0.113.2');
+      await viewStore.set('www.example.com', 'A', '10.0.0.1', { view: 'internal' });
+    });
+
+    it('should keep each view in its own key namespace', async () => {
+      expect(await client.hgetall('#view:internal:com:example:www')).toEqual({ A: '["10.0.0.1"]' });
+      expect(await viewStore.get('www.example.com', 'A')).toEqual({ A: ['203.0.113.1'] });
+      expect(await viewStore.get('www.example.com', 'A', true, 'internal')).toEqual({ A: ['10.0.0.1'] });
+      expect(await viewStore.getRecords('www.example.com', 'A', true, 'internal')).toEqual({
+        A: [{ data: '10.0.0.1', ttl: 300 }],
+      });
+      expect(await store.listNames('example.com')).toEqual(['example.com', 'api.example.com', 'www.example.com']);
+    });
+
+    it('should fall back to the default view for names a view has no records for', async () => {
+      expect(await viewStore.get('api.example.com', 'A', true, 'internal')).toEqual({ A: ['203.0.113.2'] });
+
+      await viewStore.append('www.example.com', 'A', '10.0.0.2', { view: 'internal' });
+      await viewStore.delete('www.example.com', 'A', undefined, 'internal');
+
+      expect(await viewStore.get('www.example.com', 'A', true, 'internal')).toEqual({ A: ['203.0.113.1'] });
+    });
+
+    it('should answer clients from the view their address belongs to', async () => {
+      expect(await addresses('www.example.com', '10.1.2.3')).toEqual(['10.0.0.1']);
+      expect(await addresses('www.example.com', '::ffff:10.1.2.3')).toEqual(['10.0.0.1']);
+      expect(await addresses('api.example.com', '10.1.2.3')).toEqual(['203.0.113.2']);
+      expect(await addresses('www.example.com', '192.0.2.1')).toEqual(['203.0.113.1']);
+    });
+
+    it('should read the networks of views from Redis too', async () => {
+      await viewStore.set('www.example.com', 'A', '172.16.0.1', { view: 'office' });
+      await viewStore.setView('office', ['10.1.0.0/16', '192.0.2.0/24']);
+
+      expect(await addresses('www.example.com', '192.0.2.1')).toEqual(['172.16.0.1']);
+      expect(await addresses('www.example.com', '10.1.2.3')).toEqual(['172.16.0.1']);
+      expect(await addresses('www.example.com', '10.2.0.1')).toEqual(['10.0.0.1']);
+
+      await viewStore.deleteView('office');
+
+      expect(await addresses('www.example.com', '192.0.2.1')).toEqual(['203.0.113.1']);
+    });
+
+    it('should keep the networks stored in Redis until a change is announced', async () => {
+      const subscriber = Object.assign(new EventEmitter(), { subscribe: jest.fn(async () => 1) });
+      jest.spyOn(client, 'duplicate').mockReturnValue(subscriber as unknown as RedisBackend);
+      viewStore = new RedisStore({ client, views: { networks: { internal: ['10.0.0.0/8'] } } });
+      const publish = jest.spyOn(client, 'publish');
+      await viewStore.set('www.example.com', 'A', '172.16.0.1', { view: 'office' });
+      await viewStore.setView('office', ['192.0.2.0/24']);
+
+      expect(subscriber.subscribe).toHaveBeenCalledWith('dinodns:invalidate');
+      expect(publish).toHaveBeenCalledWith('dinodns:invalidate', '#views');
+
+      const hgetall = jest.spyOn(client, 'hgetall');
+      expect(await addresses('www.example.com', '192.0.2.1')).toEqual(['172.16.0.1']);
+      expect(await addresses('www.example.com', '192.0.2.2')).toEqual(['172.16.0.1']);
+      expect(hgetall.mock.calls.filter(([key]) => key === '#views')).toHaveLength(1);
+
+      // as another store's deleteView does
+      await client.hdel('#views', 'office');
+      expect(await addresses('www.example.com', '192.0.2.1')).toEqual(['172.16.0.1']);
+      subscriber.emit('message', 'dinodns:invalidate', '#views');
+      expect(await addresses('www.example.com', '192.0.2.1')).toEqual(['203.0.113.1']);
+    });
+
+    it('should refuse malformed networks and skip those stored around the store', async () => {
+      expect(() => new RedisStore({ client, views: { networks: { lab: ['bogus'] } } })).toThrow(ViewNetworkError);
+      await expect(viewStore.setView('office', ['192.0.2.0/24', '10.1.0.0/NaN'])).rejects.toThrow(
+        new ViewNetworkError('office', '10.1.0.0/NaN'),
+      );
+
+      await viewStore.set('www.example.com', 'A', '172.16.0.1', { view: 'office' });
+      await client.hset('#views', 'office', JSON.stringify(['bogus', '192.0.2.0/24']));
+
+      expect(await addresses('www.example.com', '192.0.2.1')).toEqual(['172.16.0.1']);
+      expect(await addresses('www.example.com', '10.1.2.3')).toEqual(['10.0.0.1']);
+    });
+
+    it('should pick views by EDNS Client Subnet when enabled', async () => {
+      const ecs: Packet['additionals'] = [
+        {
+          type: 'OPT',
+          name: '.',
+          udpPayloadSize: 4096,
+          extendedRcode: 0,
+          ednsVersion: 0,
+          flags: 0,
+          flag_do: false,
+          options: [{ code: 8, type: 'CLIENT_SUBNET', ip: '10.1.2.0', sourcePrefixLength: 24 }],
+        },
+      ];
+
+      expect(await addresses('www.example.com', '192.0.2.1', ecs)).toEqual(['203.0.113.1']);
+
+      viewStore = new RedisStore({ client, views: { networks: { internal: ['10.0.0.0/8'] }, clientSubnet: true } });
+
+      expect(await addresses('www.example.com', '192.0.2.1', ecs)).toEqual(['10.0.0.1']);
+    });
+
+    it('should answer negatively from the zones of the default view', async () => {
+      const packet = await query('missing.example.com', '10.1.2.3');
+
+      expect(packet.flags! & 0xf).toEqual(3);
+      expect(packet.authorities?.[0]).toMatchObject({ name: 'example.com', type: 'SOA' });
+    });
+
+    it('should not offer answers to caches', async () => {
+      const cacheRequests = jest.fn();
+      viewStore.on('cacheRequest', cacheRequests);
+      await addresses('www.example.com', '10.1.2.3');
+      await addresses('www.example.com', '192.0.2.1');
+
+      expect(cacheRequests).not.toHaveBeenCalled();
+    });
+
+    it('should report the view of zone changes', async () => {
+      const changes = jest.fn();
+      const managedStore = new RedisStore({ client, serialScheme: 'increment', emitZoneChanged: true, views: {} });
+      managedStore.on('zoneChanged', changes);
+      await managedStore.set('example.com', 'SOA', soa, { view: 'internal' });
+      await managedStore.set('www.example.com', 'A', '10.0.0.3', { view: 'internal' });
+
+      expect(changes).toHaveBeenLastCalledWith({ zone: 'example.com', serial: 2, view: 'internal' });
+      expect(await store.findZone('example.com')).toMatchObject({ soa: { data: { serial: 1 } } });
+    });
+  });
+
+  describe('resilience', () => {
+    let resilientStore: RedisStore;
+    let states: jest.Mock;
+    let outage: 'none' | 'error' | 'hang';
+    let lookups: jest.SpiedFunction<RedisBackend['dinodnsLookup']>;
+
+    const query = async (name: string, type: RecordType = 'A') => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type, name }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      const res = req.toAnswer();
+      await resilientStore.handler(req, res, () => {});
+
+      return { packet: res.packet, finished: res.finished };
+    };
+
+    beforeEach(async () => {
+      resilientStore = new RedisStore({
+        client,
+        resilience: { lookupTimeout: 20, failureThreshold: 2, resetTimeout: 50, staleTtl: 10 },
+      });
+      const lookup = client.dinodnsLookup.bind(client);
+      outage = 'none';
+      lookups = jest.spyOn(client, 'dinodnsLookup').mockImplementation((...args) => {
+        if (outage === 'error') {
+          return Promise.reject(new Error('Connection is closed.'));
+        }
+
+        return outage === 'hang' ? new Promise(() => {}) : lookup(...args);
+      });
+
+      states = jest.fn();
+      resilientStore.on('breakerStateChanged', states);
+      await store.set('www.example.com', 'A', ARecords, { ttl: 300 });
+    });
+
+    it('should answer from Redis while it is available', async () => {
+      const { packet } = await query('www.example.com');
+
+      expect(packet.answers?.map((a) => a.ttl)).toEqual([300, 300]);
+      expect(states).not.toHaveBeenCalled();
+    });
+
+    it('should serve the last answer stale with a capped TTL when Redis fails', async () => {
+      await query('www.example.com');
+      outage = 'error';
+
+      const { packet, finished } = await query('www.example.com');
+
+      expect(finished).toBe(true);
+      expect(packet.answers).toEqual(ARecords.map((data) => ({ name: 'www.example.com', type: 'A', ttl: 10, data })));
+    });
+
+    it('should give up on lookups after the timeout', async () => {
+      await query('www.example.com');
+      outage = 'hang';
+
+      expect((await query('www.example.com')).packet.answers?.map((a) => a.ttl)).toEqual([10, 10]);
+    });
+
+    it('should answer SERVFAIL without an answer to serve stale', async () => {
+      outage = 'error';
+      const { packet, finished } = await query('www.example.com');
+
+      expect(finished).toBe(true);
+      expect(packet.flags! & 0xf).toEqual(2);
+      expect(packet.answers).toEqual([]);
+    });
+
+    it('should stop hitting Redis while the breaker is open, and try again after the reset timeout', async () => {
+      outage = 'error';
+      await query('www.example.com');
+      await query('www.example.com');
+      expect(states.mock.calls).toEqual([['open']]);
+
+      const calls = lookups.mock.calls.length;
+      await query('www.example.com');
+      expect(lookups).toHaveBeenCalledTimes(calls);
+
+      outage = 'none';
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      const { packet } = await query('www.example.com');
+
+      expect(packet.answers?.map((a) => a.ttl)).toEqual([300, 300]);
+      expect(states.mock.calls).toEqual([['open'], ['half-open'], ['closed']]);
+    });
+
+    it('should keep serving the last answer stale after a write until a fresh one replaces it', async () => {
+      await query('www.example.com');
+      await resilientStore.set('www.example.com', 'A', '127.0.0.9');
+      outage = 'error';
+      await query('www.example.com');
+      await query('www.example.com');
+      expect(states.mock.calls).toEqual([['open']]);
+
+      expect((await query('www.example.com')).packet.answers?.map((a) => a.data)).toEqual(ARecords);
+
+      outage = 'none';
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      await query('www.example.com');
+      outage = 'error';
+
+      expect((await query('www.example.com')).packet.answers?.map((a) => a.data)).toEqual(['127.0.0.9']);
+    });
+  });
+
+  describe('validation', () => {
+    const rejection = async (write: Promise<void>) => {
+      const err = await write.catch((err: unknown) => err);
+      expect(err).toBeInstanceOf(RecordValidationError);
+
+      return (err as RecordValidationError).issues;
+    };
+
+    it('should reject invalid records without writing them', async () => {
+      expect(await rejection(store.set('example.com', 'A', ['10.0.0.1', 'localhost']))).toEqual([
+        { field: 'data[1]', message: 'must be an IPv4 address' },
+      ]);
+      expect(await rejection(store.append('example.com', 'MX', { preference: 10, exchange: 'mail server' }))).toEqual([
+        { field: 'data.exchange', message: 'must be a domain name' },
+      ]);
+      expect(await rejection(store.set('example.com', 'A', '10.0.0.1', { ttl: -5 }))).toEqual([
+        { field: 'ttl', message: 'must be an integer from 0 to 2147483647' },
+      ]);
+      expect(await keys()).toEqual([]);
+    });
+
+    it('should describe the issues in the message', async () => {
+      await expect(store.set('bad name', 'A', '10.0.0.1')).rejects.toThrow(
+        'Invalid A records for bad name: name must be a domain name',
+      );
+    });
+
+    it('should keep a CNAME alone at its name', async () => {
+      await store.set('www.example.com', 'CNAME', 'example.com');
+      await store.set('mail.example.com', 'A', '10.0.0.1');
+
+      expect(await rejection(store.append('www.example.com', 'A', '10.0.0.2'))).toEqual([
+        { field: 'type', message: "CNAME can't share its name with A" },
+      ]);
+      expect(await rejection(store.set('mail.example.com', 'CNAME', 'example.com'))).toEqual([
+        { field: 'type', message: "CNAME can't share its name with A" },
+      ]);
+      expect(await rejection(store.append('www.example.com', 'CNAME', 'example.net'))).toEqual([
+        { field: 'data', message: 'a name has at most one CNAME' },
+      ]);
+
+      await store.set('www.example.com', 'CNAME', 'example.net');
+      expect(await store.get('www.example.com', 'CNAME')).toEqual({ CNAME: ['example.net'] });
+    });
+
+    it('should let writes through when validation is disabled', async () => {
+      const lenientStore = new RedisStore({ client, validateWrites: false });
+      await lenientStore.set('example.com', 'A', 'localhost');
+
+      expect(await lenientStore.get('example.com', 'A')).toEqual({ A: ['localhost'] });
+    });
+
+    it('should audit the stored data', async () => {
+      await store.set('www.example.com', 'A', '10.0.0.1');
+      await client.hset('com:example:bad', 'A', JSON.stringify(['10.0.0.1', 'localhost']));
+      await client.hset('com:example:mail', {
+        CNAME: JSON.stringify(['example.com']),
+        MX: JSON.stringify({ records: [{ data: { preference: 10, exchange: 'example.com' }, ttl: -1 }] }),
+      });
+      await client.hset('com:example:broken', { TXT: '[', meta: '{}' });
+      // keys of other types, which unprefixed stores share the database with
+      await client.rpush('queue', 'job');
+      await client.xadd('events', 'MAXLEN', '~', 10, '*', 'type', 'signup');
+
+      expect(_.sortBy(await store.validateAll(), ['name', 'type'])).toEqual([
+        { name: 'bad.example.com', type: 'A', field: 'data[1]', message: 'must be an IPv4 address' },
+        { name: 'broken.example.com', type: 'TXT', field: 'data', message: 'is not valid JSON' },
+        { name: 'broken.example.com', type: 'meta', field: 'type', message: 'is not a supported record type' },
+        { name: 'mail.example.com', type: 'CNAME', field: 'type', message: "CNAME can't share its name with MX" },
+        {
+          name: 'mail.example.com',
+          type: 'MX',
+          field: 'records[0].ttl',
+          message: 'must be an integer from 0 to 2147483647',
+        },
+      ]);
+    });
+  });
+
+  describe('history', () => {
+    let historyStore: RedisStore;
+
+    /** Let the clock move on, so the writes on either side get history entries of their own times. */
+    const tick = () => new Promise((resolve) => setTimeout(resolve, 2));
+
+    const timestamps = async (name: string, query?: HistoryQuery) =>
+      (await historyStore.readHistory(name, query)).map((entry) => entry.timestamp);
+
+    beforeEach(() => {
+      historyStore = new RedisStore({ client, history: { maxEntries: 100 } });
+    });
+
+    it('should record every change with the old and new record sets and the actor', async () => {
+      await historyStore.set('www.example.com', 'A', '10.0.0.1', { actor: 'alice' });
+      await historyStore.append('WWW.example.com.', 'A', '10.0.0.2');
+      await historyStore.delete('www.example.com', undefined, undefined, undefined, 'bob');
+      await historyStore.set('mail.example.com', 'A', '10.0.0.3');
+
+      const entries = await historyStore.readHistory('www.example.com');
+      expect(entries.map(({ id, timestamp }) => id.startsWith(`${timestamp}-`))).toEqual([true, true, true]);
+      expect(entries.map(({ id: _id, timestamp: _timestamp, ...change }) => change)).toEqual([
+        {
+          name: 'www.example.com',
+          type: 'A',
+          before: null,
+          after: { records: [{ data: '10.0.0.1' }] },
+          actor: 'alice',
+        },
+        {
+          name: 'www.example.com',
+          type: 'A',
+          before: { records: [{ data: '10.0.0.1' }] },
+          after: { records: [{ data: '10.0.0.1' }, { data: '10.0.0.2' }] },
+        },
+        {
+          name: 'www.example.com',
+          type: 'A',
+          before: { records: [{ data: '10.0.0.1' }, { data: '10.0.0.2' }] },
+          after: null,
+          actor: 'bob',
+        },
+      ]);
+    });
+
+    it('should read a time span of the history', async () => {
+      for (const text of ['first', 'second', 'third', 'fourth']) {
+        await tick();
+        await historyStore.set('www.example.com', 'TXT', text);
+      }
+
+      const [first, second, third, fourth] = await timestamps('www.example.com');
+      expect(await timestamps('www.example.com', { since: first, until: new Date(third) })).toEqual([second, third]);
+      expect(await timestamps('www.example.com', { limit: 1 })).toEqual([fourth]);
+    });
+
+    it('should not record writes that change nothing', async () => {
+      await historyStore.set('www.example.com', 'A', '10.0.0.1');
+      await historyStore.delete('www.example.com', 'A', '10.0.0.9');
+
+      expect(await historyStore.readHistory('www.example.com')).toHaveLength(1);
+    });
+
+    it('should keep the history within its retention', async () => {
+      const boundedStore = new RedisStore({ client, history: { maxEntries: 2, maxAge: 10 } });
+      const xadd = jest.spyOn(client, 'xadd');
+      const xtrim = jest.spyOn(client, 'xtrim');
+      jest.spyOn(Date, 'now').mockReturnValue(13500);
+
+      await boundedStore.set('www.example.com', 'TXT', 'later');
+
+      expect(xadd.mock.calls[0].slice(0, 5)).toEqual(['#history', 'MAXLEN', '~', 2, '*']);
+      expect(xadd.mock.calls[1].slice(0, 4)).toEqual(['#history:com:example:www', 'MAXLEN', '~', 2]);
+      expect(xtrim).toHaveBeenCalledWith('#history', 'MINID', '~', 3500);
+      expect(xtrim).toHaveBeenCalledWith('#history:com:example:www', 'MINID', '~', 3500);
+    });
+
+    it('should read the history of a name from its own stream', async () => {
+      for (let i = 0; i < 5; i++) {
+        await historyStore.set(`host${i}.example.com`, 'A', '10.0.0.1');
+      }
+      await historyStore.set('www.example.com', 'A', '10.0.0.1');
+      const [[id]] = (await client.xrange('#history', '-', '+', 'COUNT', 10)).slice(-1);
+      const xrange = jest.spyOn(client, 'xrange');
+
+      expect((await historyStore.readHistory('www.example.com')).map((entry) => entry.id)).toEqual([id]);
+      expect(xrange.mock.calls.map(([key]) => key)).toEqual(['#history:com:example:www']);
+    });
+
+    it('should roll a name back to a point in time', async () => {
+      await historyStore.set('www.example.com', 'A', '10.0.0.1');
+      const [at] = await timestamps('www.example.com');
+      await tick();
+      await historyStore.append('www.example.com', 'A', '10.0.0.2');
+      await historyStore.set('www.example.com', 'AAAA', '::1');
+      await historyStore.set('mail.www.example.com', 'A', '10.0.0.3');
+      const [latest] = await timestamps('www.example.com', { limit: 1 });
+      await tick();
+
+      expect(await historyStore.rollback('www.example.com', at, { actor: 'carol' })).toEqual(2);
+      expect(await historyStore.get('www.example.com')).toEqual({ A: ['10.0.0.1'] });
+      expect(await historyStore.get('mail.www.example.com', 'A')).toEqual({ A: ['10.0.0.3'] });
+
+      const rollbacks = (await historyStore.readHistory('www.example.com', { since: latest })).map(
+        ({ type, actor }) => ({ type, actor }),
+      );
+      expect(rollbacks).toEqual(
+        expect.arrayContaining([
+          { type: 'A', actor: 'carol' },
+          { type: 'AAAA', actor: 'carol' },
+        ]),
+      );
+    });
+
+    it('should roll a zone back to a point in time', async () => {
+      await historyStore.set('example.com', 'TXT', 'apex');
+      const [at] = await timestamps('example.com');
+      await tick();
+      await historyStore.set('www.example.com', 'A', '10.0.0.1');
+      await historyStore.set('example.com', 'TXT', 'changed');
+      await historyStore.set('www.example.net', 'A', '10.0.0.2');
+
+      expect(await historyStore.rollback('example.com', at, { zone: true })).toEqual(2);
+      expect(await client.exists('com:example:www')).toEqual(0);
+      expect(await historyStore.get('example.com', 'TXT')).toEqual({ TXT: ['apex'] });
+      expect(await historyStore.get('www.example.net', 'A')).toEqual({ A: ['10.0.0.2'] });
+    });
+
+    it('should raise the serial past the current one when rolling a zone back', async () => {
+      const serialStore = new RedisStore({ client, serialScheme: 'increment', history: { maxEntries: 100 } });
+      const soa = { mname: 'ns1.example.com', rname: 'hostmaster.example.com', serial: 10, refresh: 7200 };
+      const serial = async () => (await serialStore.findZone('example.com'))?.soa.data.serial;
+      await serialStore.set('example.com', 'SOA', soa);
+      await serialStore.set('www.example.com', 'A', '10.0.0.1');
+      const [at] = await timestamps('www.example.com');
+      await tick();
+      await serialStore.set('example.com', 'SOA', { ...soa, serial: 15, refresh: 3600 });
+      await serialStore.set('www.example.com', 'A', '10.0.0.2');
+      expect(await serial()).toEqual(16);
+
+      expect(await serialStore.rollback('example.com', at, { zone: true })).toEqual(2);
+      expect(await serialStore.get('www.example.com', 'A')).toEqual({ A: ['10.0.0.1'] });
+      expect((await serialStore.findZone('example.com'))?.soa.data).toEqual(
+        expect.objectContaining({ refresh: 7200, serial: 18 }),
+      );
+    });
+
+    it('should tail changes as they are made', async () => {
+      const connection = {
+        xread: jest.fn(async (_block: 'BLOCK', _ms: number, _streams: 'STREAMS', key: string, last: string) => {
+          const page = await client.xrange(key, last === '$' ? '-' : `(${last}`, '+', 'COUNT', 1000);
+
+          return page.length > 0 ? [[key, page]] : new Promise<never>(() => {});
+        }),
+        disconnect: jest.fn(),
+      };
+      jest.spyOn(client, 'duplicate').mockReturnValue(connection as unknown as RedisBackend);
+
+      await historyStore.set('www.example.com', 'A', '10.0.0.1', { actor: 'alice' });
+      await historyStore.set('www.example.com', 'A', '10.0.0.2');
+      const ids = (await historyStore.readHistory('www.example.com')).map((entry) => entry.id);
+
+      const tailed: string[] = [];
+      for await (const entry of historyStore.tailHistory()) {
+        tailed.push(`${entry.id} ${entry.actor ?? '-'}`);
+        if (tailed.length === 2) {
+          break;
+        }
+      }
+
+      expect(tailed).toEqual([`${ids[0]} alice`, `${ids[1]} -`]);
+      expect(connection.xread.mock.calls.map((call) => call[4])).toEqual(['$']);
+      expect(connection.disconnect).toHaveBeenCalled();
+    });
+
+    it('should stop tailing when aborted', async () => {
+      const disconnect = jest.fn();
+      const connection = {
+        xread: jest.fn(
+          () => new Promise((_resolve, reject) => disconnect.mockImplementation(() => reject(new Error('closed')))),
+        ),
+        disconnect,
+      };
+      jest.spyOn(client, 'duplicate').mockReturnValue(connection as unknown as RedisBackend);
+      const controller = new AbortController();
+
+      const tailing = (async () => {
+        for await (const entry of historyStore.tailHistory({ since: '0-0', signal: controller.signal })) {
+          throw new Error(`unexpected ${entry.id}`);
+        }
+      })();
+      await new Promise((resolve) => setImmediate(resolve));
+      controller.abort();
+
+      await expect(tailing).resolves.toBeUndefined();
+      expect(connection.xread).toHaveBeenCalledWith('BLOCK', 0, 'STREAMS', '#history', '0-0');
+    });
+  });
+
+  describe('PTR maintenance', () => {
+    let ptrStore: RedisStore;
+
+    const ptrs = async (address: string) => (await ptrStore.get(reverseName(address)!, 'PTR', false))?.PTR;
+
+    beforeEach(() => {
+      ptrStore = new RedisStore({ client, managePtr: true });
+    });
+
+    it('should point PTR records at the names of written addresses', async () => {
+      await ptrStore.set('www.example.com', 'A', ['10.0.0.1', '10.0.0.2']);
+      await ptrStore.append('WWW.example.com.', 'AAAA', '2001:db8::1');
+
+      expect(await ptrs('10.0.0.1')).toEqual(['www.example.com']);
+      expect(await ptrs('10.0.0.2')).toEqual(['www.example.com']);
+      expect(await ptrs('2001:db8::1')).toEqual(['www.example.com']);
+      expect(await client.hget('arpa:in-addr:10:0:0:1', 'PTR')).toEqual(JSON.stringify(['www.example.com']));
+    });
+
+    it('should remove the PTR records of replaced and deleted addresses', async () => {
+      await ptrStore.set('www.example.com', 'A', ['10.0.0.1', '10.0.0.2']);
+      await ptrStore.set('www.example.com', 'A', ['10.0.0.2', '10.0.0.3']);
+      expect(await ptrs('10.0.0.1')).toBeUndefined();
+      expect(await ptrs('10.0.0.3')).toEqual(['www.example.com']);
+
+      await ptrStore.delete('www.example.com', 'A', '10.0.0.2');
+      expect(await ptrs('10.0.0.2')).toBeUndefined();
+
+      await ptrStore.delete('www.example.com');
+      expect(await ptrs('10.0.0.3')).toBeUndefined();
+      expect(await keys('hash')).toEqual([]);
+    });
+
+    it('should share the PTR records of an address between the names written to it', async () => {
+      await ptrStore.set('www.example.com', 'A', '10.0.0.1');
+      await ptrStore.set('api.example.com', 'A', '10.0.0.1');
+      expect(await ptrs('10.0.0.1')).toEqual(['www.example.com', 'api.example.com']);
+
+      await ptrStore.delete('www.example.com', 'A');
+      expect(await ptrs('10.0.0.1')).toEqual(['api.example.com']);
+    });
+
+    it('should keep every name when stores write an address at the same time', async () => {
+      const otherStore = new RedisStore({ client, managePtr: true });
+      const owners = async () => JSON.parse((await client.hget('#ptr', 'arpa:in-addr:10:0:0:1')) ?? '[]') as string[];
+
+      await Promise.all([
+        ptrStore.set('www.example.com', 'A', '10.0.0.1'),
+        otherStore.set('api.example.com', 'A', '10.0.0.1'),
+        ptrStore.set('mail.example.com', 'A', '10.0.0.1'),
+      ]);
+
+      const names = ['api.example.com', 'mail.example.com', 'www.example.com'];
+      expect((await ptrs('10.0.0.1'))?.toSorted()).toEqual(names);
+      expect((await owners()).toSorted()).toEqual(names);
+
+      await Promise.all([ptrStore.delete('www.example.com'), otherStore.delete('api.example.com')]);
+
+      expect(await ptrs('10.0.0.1')).toEqual(['mail.example.com']);
+      expect(await owners()).toEqual(['mail.example.com']);
+    });
+
+    it('should never touch PTR records written by hand', async () => {
+      await ptrStore.set(reverseName('10.0.0.1')!, 'PTR', 'host.example.com');
+      await ptrStore.set('www.example.com', 'A', '10.0.0.1');
+      expect(await ptrs('10.0.0.1')).toEqual(['host.example.com']);
+
+      await ptrStore.delete('www.example.com', 'A');
+      expect(await ptrs('10.0.0.1')).toEqual(['host.example.com']);
+    });
+
+    it('should leave classless delegations alone', async () => {
+      await ptrStore.set(reverseName('10.0.0.1')!, 'CNAME', '1.0-63.0.0.10.in-addr.arpa');
+      await ptrStore.set('www.example.com', 'A', '10.0.0.1');
+
+      expect(await client.hget('arpa:in-addr:10:0:0:1', 'PTR')).toBeNull();
+    });
+
+    it('should not write PTR records for wildcards, or unless enabled', async () => {
+      await ptrStore.set('*.example.com', 'A', '10.0.0.1');
+      await store.set('www.example.com', 'A', '10.0.0.2');
+
+      expect(await keys('hash')).toEqual(['com:example:*', 'com:example:www']);
+    });
+  });
+
+  describe('cluster', () => {
+    it('should keep the keys of a zone in one slot with hash tags', async () => {
+      const tagged = new RedisStore({ client, keyPrefix: 'dns:', hashTagLabels: 2 });
+
+      await tagged.set('www.example.com', 'A', '10.0.0.1');
+      await tagged.set('example.com', 'MX', { preference: 10, exchange: 'mail.example.com' });
+      await tagged.set('*.api.example.com', 'A', '10.0.0.2');
+
+      expect(await keys()).toEqual(
+        ['dns:{com:example}', 'dns:{com:example}:api:*', 'dns:{com:example}:www'].toSorted(),
+      );
+      expect(new Set((await keys()).map(keySlot)).size).toEqual(1);
+      expect(await tagged.get('www.example.com', 'A')).toEqual({ A: ['10.0.0.1'] });
+      expect(await tagged.get('v1.api.example.com', 'A')).toEqual({ A: ['10.0.0.2'] });
+      expect(await tagged.exportZone('example.com')).toContain('www IN A 10.0.0.1');
+    });
+
+    it('should look wildcards up by walking the name index with hash tags', async () => {
+      const script = jest.spyOn(client, 'dinodnsWildcardLookup');
+      const tagged = new RedisStore({ client, hashTagLabels: 2, wildcardMode: 'rfc4592' });
+
+      await tagged.set('*.example.com', 'A', '10.0.0.1');
+      await tagged.set('www.example.com', 'TXT', 'hello');
+
+      expect(await tagged.get('mail.example.com', 'A')).toEqual({ A: ['10.0.0.1'] });
+      // an existing name blocks the wildcard
+      expect(await tagged.get('www.example.com', 'A')).toBeNull();
+      expect(script).not.toHaveBeenCalled();
+    });
+
+    it('should only look up keys of one slot at a time on a cluster', async () => {
+      // a standalone server answers the commands of a cluster, so the test needs none
+      Object.assign(client, { isCluster: true });
+      const lookup = jest.spyOn(client, 'dinodnsLookup');
+      await store.set('*.com', 'A', '10.0.0.1');
+
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: ['10.0.0.1'] });
+      for (const [numKeys, ...args] of lookup.mock.calls) {
+        expect(new Set(args.slice(0, numKeys).map(keySlot)).size).toEqual(1);
+      }
+    });
+
+    it('should refuse migrations that move keys across slots on a cluster', async () => {
+      Object.assign(client, { isCluster: true });
+
+      await expect(store.migrateToCanonicalNames()).rejects.toThrow('requires a standalone connection');
+      await expect(new RedisStore({ client, keyPrefix: 'dns:' }).migrateToPrefix()).rejects.toThrow(
+        'requires a standalone connection',
+      );
+    });
+
+    it('should move existing keys to their hash tagged keys', async () => {
+      await store.set('www.example.com', 'A', '10.0.0.1');
+      const tagged = new RedisStore({ client, hashTagLabels: 2 });
+
+      await expect(store.migrateToHashTags()).rejects.toThrow('requires hashTagLabels');
+      expect(await tagged.migrateToHashTags()).toEqual({ migrated: ['com:example:www'], skipped: [] });
+      expect(await keys()).toEqual(['{com:example}:www']);
+      expect(await tagged.get('www.example.com', 'A')).toEqual({ A: ['10.0.0.1'] });
+    });
+  });
+
+  describe('admin API', () => {
+    let server: http.Server;
+    let base: string;
+
+    const api = (path: string, token: string | null, init: { method?: string; body?: unknown } = {}) =>
+      fetch(base + path, {
+        method: init.method ?? 'GET',
+        headers: token ? { Authorization: `Bearer ${token}` } : {},
+        body: typeof init.body === 'string' || init.body === undefined ? init.body : JSON.stringify(init.body),
+      });
+
+    beforeEach(async () => {
+      const admin = new AdminApi(store, {
+        basePath: '/dns',
+        tokens: [
+          { token: 'root', actor: 'ops' },
+          { token: 'example', zones: ['example.com'] },
+          { token: 'reader', readOnly: true },
+        ],
+      });
+      server = http.createServer(admin.handler);
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      server.closeAllConnections();
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('should require a known bearer token', async () => {
+      expect((await api('/dns/names/www.example.com', null)).status).toEqual(401);
+      expect((await api('/dns/names/www.example.com', 'unknown')).status).toEqual(401);
+      expect((await api('/dns/names/www.example.com', 'root')).status).toEqual(404);
+    });
+
+    it('should answer malformed request paths with 400', async () => {
+      const response = await api('//', null);
+
+      expect(response.status).toEqual(400);
+      expect(await response.json()).toEqual({ error: 'Malformed request URL' });
+    });
+
+    it('should read and write record sets as ZoneDataMap objects', async () => {
+      const setAll = await api('/dns/names/www.example.com', 'root', {
+        method: 'PUT',
+        body: { A: ['10.0.0.1', '10.0.0.2'], TXT: ['hello'] },
+      });
+      expect(setAll.status).toEqual(204);
+      expect(await (await api('/dns/names/www.example.com', 'root')).json()).toEqual({
+        A: ['10.0.0.1', '10.0.0.2'],
+        TXT: ['hello'],
+      });
+
+      await api('/dns/names/www.example.com/A', 'root', { method: 'POST', body: '"10.0.0.3"' });
+      await api('/dns/names/www.example.com/A', 'root', { method: 'DELETE', body: '"10.0.0.1"' });
+      expect(await (await api('/dns/names/www.example.com/A', 'root')).json()).toEqual({ A: ['10.0.0.2', '10.0.0.3'] });
+
+      await api('/dns/names/www.example.com/MX?ttl=60', 'root', {
+        method: 'PUT',
+        body: [{ preference: 10, exchange: 'mail.example.com' }],
+      });
+      expect(JSON.parse((await client.hget('com:example:www', 'MX'))!)).toEqual({
+        ttl: 60,
+        records: [{ data: { preference: 10, exchange: 'mail.example.com' } }],
+      });
+
+      expect((await api('/dns/names/www.example.com', 'root', { method: 'DELETE' })).status).toEqual(204);
+      expect((await api('/dns/names/www.example.com', 'root')).status).toEqual(404);
+    });
+
+    it('should list, export and import zones', async () => {
+      const zone = '$ORIGIN example.com.\n$TTL 300\nwww IN A 10.0.0.1\n@ IN MX 10 mail.example.com.\n';
+      const imported = await api('/dns/zones/example.com/import', 'example', { method: 'PUT', body: zone });
+      expect(await imported.json()).toEqual({ records: 2 });
+
+      expect(await (await api('/dns/zones/example.com', 'example')).json()).toEqual({
+        'example.com': { MX: [{ preference: 10, exchange: 'mail.example.com' }] },
+        'www.example.com': { A: ['10.0.0.1'] },
+      });
+
+      const exported = await api('/dns/zones/example.com/export', 'example');
+      expect(exported.headers.get('content-type')).toContain('text/plain');
+      expect(await exported.text()).toContain('www 300 IN A 10.0.0.1');
+    });
+
+    it('should validate writes without making them in dry runs', async () => {
+      const valid = await api('/dns/names/www.example.com/A?dryRun=true', 'root', {
+        method: 'PUT',
+        body: ['10.0.0.1'],
+      });
+      expect(await valid.json()).toEqual({ issues: [] });
+      expect(await keys()).toEqual([]);
+
+      const invalid = await api('/dns/names/www.example.com/A?dryRun=true', 'root', {
+        method: 'PUT',
+        body: ['10.0.0'],
+      });
+      expect(invalid.status).toEqual(422);
+      expect(await invalid.json()).toMatchObject({
+        issues: [{ field: 'data[0]', message: 'must be an IPv4 address' }],
+      });
+
+      const zone = 'www IN A 10.0.0.1\nftp IN CNAME www\nftp IN TXT "hello"\n';
+      const checked = await api('/dns/zones/example.com/import?dryRun=true', 'root', { method: 'PUT', body: zone });
+      expect(await checked.json()).toEqual({
+        records: 3,
+        issues: [
+          { name: 'ftp.example.com', type: 'CNAME', field: 'type', message: "CNAME can't share its name with TXT" },
+        ],
+      });
+      expect((await api('/dns/zones/example.com/import', 'root', { method: 'PUT', body: zone })).status).toEqual(422);
+      expect(await keys()).toEqual([]);
+    });
+
+    it('should keep tokens to their zones and permissions', async () => {
+      const write = (token: string, name: string) =>
+        api(`/dns/names/${name}/A`, token, { method: 'PUT', body: ['10.0.0.1'] });
+
+      expect((await write('example', 'www.example.com')).status).toEqual(204);
+      expect((await write('example', 'WWW.Example.com.')).status).toEqual(204);
+      expect((await write('example', 'www.example.org')).status).toEqual(403);
+      expect((await write('example', 'badexample.com')).status).toEqual(403);
+      expect((await api('/dns/zones/example.org', 'example')).status).toEqual(403);
+
+      expect((await write('reader', 'www.example.com')).status).toEqual(403);
+      expect((await api('/dns/names/www.example.com', 'reader')).status).toEqual(200);
+
+      const escape = '$ORIGIN example.org.\nwww IN A 10.0.0.1\n';
+      expect((await api('/dns/zones/example.com/import', 'example', { method: 'PUT', body: escape })).status).toEqual(
+        403,
+      );
+    });
+
+    it('should turn down malformed requests', async () => {
+      const badJson = await api('/dns/names/www.example.com', 'root', { method: 'PUT', body: '{' });
+      expect(badJson.status).toEqual(400);
+      expect((await api('/dns/names/www.example.com/BOGUS', 'root')).status).toEqual(400);
+      expect((await api('/dns/names/www.example.com', 'root', { method: 'PUT', body: { BOGUS: [] } })).status).toEqual(
+        400,
+      );
+      expect(
+        (await api('/dns/zones/example.com/import?mode=upsert', 'root', { method: 'PUT', body: '' })).status,
+      ).toEqual(400);
+      expect((await api('/dns/unknown', 'root')).status).toEqual(404);
+      expect((await api('/elsewhere', 'root')).status).toEqual(404);
+    });
+  });
+
+  describe('metrics', () => {
+    let metrics: jest.Mocked<StoreMetrics>;
+    let measuredStore: RedisStore;
+
+    const query = async (name: string, type: RecordType = 'A') => {
+      const req = new DNSRequest(
+        { type: 'query', id: 0, flags: 0, questions: [{ type, name }] },
+        { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+      );
+      await measuredStore.handler(req, req.toAnswer(), () => {});
+    };
+
+    beforeEach(async () => {
+      metrics = { lookup: jest.fn(), query: jest.fn(), write: jest.fn(), error: jest.fn() };
+      measuredStore = new RedisStore({ client, metrics });
+      await store.set('www.example.com', 'A', ARecords);
+      await store.set('*.example.com', 'TXT', ['wildcard']);
+    });
+
+    it('should report lookups by type and outcome with their round trips', async () => {
+      await measuredStore.get('www.example.com', 'A');
+      await measuredStore.get('mail.example.com', 'TXT');
+      await measuredStore.get('www.example.com', 'MX', false);
+      await measuredStore.get('www.example.com');
+
+      expect(metrics.lookup.mock.calls.map(([e]) => [e.type, e.outcome, e.roundTrips])).toEqual([
+        ['A', 'exact', 1],
+        ['TXT', 'wildcard', 1],
+        ['MX', 'miss', 1],
+        ['ANY', 'exact', 1],
+      ]);
+      expect(metrics.lookup.mock.calls[0][0].duration).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should count the round trips of a query, including those of its lookups', async () => {
+      await query('www.example.com');
+      await query('nowhere.example.org');
+
+      expect(metrics.query).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'A', rcode: 'NOERROR', stale: false }),
+      );
+      expect(metrics.query).toHaveBeenCalledWith(expect.objectContaining({ rcode: null }));
+      const [answered] = metrics.query.mock.calls[0];
+      expect(answered.roundTrips).toBeGreaterThanOrEqual(metrics.lookup.mock.calls[0][0].roundTrips);
+    });
+
+    it('should report writes and failures', async () => {
+      await measuredStore.set('ftp.example.com', 'A', '10.0.0.1');
+      await measuredStore.append('ftp.example.com', 'A', '10.0.0.2');
+      await measuredStore.delete('ftp.example.com');
+      await expect(measuredStore.set('ftp.example.com', 'A', 'not an address')).rejects.toThrow(RecordValidationError);
+      jest.spyOn(client, 'dinodnsLookup').mockRejectedValue(new Error('Connection is closed.'));
+      await expect(measuredStore.get('www.example.com')).rejects.toThrow('Connection is closed.');
+
+      expect(metrics.write.mock.calls.map(([e]) => e.operation)).toEqual(['set', 'append', 'delete']);
+      expect(metrics.write.mock.calls[0][0].roundTrips).toBeGreaterThan(0);
+      expect(metrics.error.mock.calls.map(([e]) => e.operation)).toEqual(['set', 'lookup']);
+    });
+
+    it('should expose them in the Prometheus text format', async () => {
+      const prometheus = new PrometheusMetrics();
+      measuredStore = new RedisStore({ client, metrics: prometheus });
+      await query('www.example.com');
+
+      const text = prometheus.metrics();
+      expect(text).toContain('dinodns_redis_lookups_total{type="A",outcome="exact"} 1\n');
+      expect(text).toContain('dinodns_redis_queries_total{type="A",rcode="NOERROR",stale="false"} 1\n');
+      expect(text).toContain('dinodns_redis_query_round_trips_count{type="A"} 1\n');
+    });
+  });
+
+  describe('end to end', () => {
+    let stores: RedisStore[];
+
+    const open = (options: Partial<ConstructorParameters<typeof RedisStore>[0]> = {}) => {
+      const store = new RedisStore({ client, ...options });
+      stores.push(store);
+
+      return store;
+    };
+
+    beforeEach(() => {
+      stores = [];
+    });
+
+    afterEach(async () => {
+      await Promise.all(stores.map((store) => store.close()));
+    });
+
+    it.each(['legacy', 'rfc4592'] as const)('should write and look up records in %s mode', async (wildcardMode) => {
+      const store = open({ wildcardMode });
+      await store.set('www.example.com', 'A', ['10.0.0.1', '10.0.0.2'], { ttl: 60 });
+      await store.append('www.example.com', 'A', '10.0.0.3');
+      await store.set('*.example.com', 'TXT', 'wildcard');
+      await store.delete('www.example.com', 'A', '10.0.0.2');
+
+      expect(await store.getRecords('WWW.example.com', 'A')).toEqual({
+        A: [
+          { data: '10.0.0.1', ttl: 60 },
+          { data: '10.0.0.3', ttl: 60 },
+        ],
+      });
+      expect(await store.get('mail.example.com', 'TXT')).toEqual({ TXT: ['wildcard'] });
+      expect(await store.resolve('mail.example.com')).toEqual('*.example.com');
+
+      await store.delete('www.example.com');
+      expect(await store.get('www.example.com', 'A')).toBeNull();
+    });
+
+    it('should import, replace and export zones', async () => {
+      const store = open({ wildcardMode: 'rfc4592' });
+      await store.set('stale.example.com', 'A', '10.0.0.9');
+      await store.importZone('$TTL 300\n@ NS ns1\nns1 A 10.0.0.1\nwww CNAME ns1\n', {
+        origin: 'example.com',
+        mode: 'replace',
+      });
+
+      expect(await store.listNames('example.com')).toEqual(['example.com', 'ns1.example.com', 'www.example.com']);
+      expect(await store.exportZone('example.com')).toContain('www 300 IN CNAME ns1.example.com.');
+      expect(await store.rebuildNameIndex()).toEqual(3);
+    });
+
+    it('should keep a history to roll back and tail', async () => {
+      const store = open({ history: {} });
+      await store.set('www.example.com', 'A', '10.0.0.1');
+      const before = Date.now();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await store.set('www.example.com', 'A', '10.0.0.2', { actor: 'alice' });
+
+      expect((await store.readHistory('www.example.com')).map((entry) => entry.actor ?? null)).toEqual([null, 'alice']);
+      expect(await store.rollback('www.example.com', before)).toEqual(1);
+      expect(await store.get('www.example.com', 'A')).toEqual({ A: ['10.0.0.1'] });
+
+      const controller = new AbortController();
+      const tailed = (async () => {
+        for await (const entry of store.tailHistory({ signal: controller.signal })) {
+          controller.abort();
+
+          return entry.actor;
+        }
+      })();
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await store.set('www.example.com', 'A', '10.0.0.3', { actor: 'bob' });
+
+      expect(await tailed).toEqual('bob');
+    });
+
+    it('should evict cached answers written through other stores', async () => {
+      const reader = open({ cache: { ttl: 60 } });
+      const writer = open();
+      await writer.set('www.example.com', 'A', '10.0.0.1');
+      expect(await reader.get('www.example.com', 'A')).toEqual({ A: ['10.0.0.1'] });
+
+      await writer.set('www.example.com', 'A', '10.0.0.2');
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(await reader.get('www.example.com', 'A')).toEqual({ A: ['10.0.0.2'] });
+    });
+
+    it('should answer DNS queries', async () => {
+      const store = open({ negativeAnswers: true });
+      await store.importZone(
+        '$TTL 300\n@ SOA ns1 hostmaster 1 7200 3600 1209600 300\nwww A 10.0.0.1\nalias CNAME www\n',
+        { origin: 'example.com' },
+      );
+      const query = async (name: string) => {
+        const req = new DNSRequest(
+          { type: 'query', id: 0, flags: 0, questions: [{ type: 'A', name }] },
+          { remoteAddress: '127.0.0.1', remotePort: 12345, type: SupportedNetworkType.UDP },
+        );
+        const res = req.toAnswer();
+        await store.handler(req, res, () => {});
+
+        return res.packet;
+      };
+
+      expect((await query('alias.example.com')).answers?.map((a) => a.data)).toEqual(['www.example.com', '10.0.0.1']);
+      expect((await query('missing.example.com')).rcode).toEqual('NX_DOMAIN');
+    });
   });
 });
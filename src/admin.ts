@@ -0,0 +1,453 @@
+import * as http from 'http';
+import { createHash, timingSafeEqual } from 'crypto';
+import { EventEmitter } from 'events';
+import { SupportedRecordType, ZoneData, ZoneDataMap } from 'dinodns/types';
+import type { RedisStore } from './index';
+import { RecordValidationError, WriteConflictError, ZoneFileError } from './errors';
+import { StoredDataIssue, isSupportedRecordType, validateZoneRecords } from './validation';
+import { WriteOptions } from './records';
+import { parseZone } from './zonefile';
+
+/** A bearer token the admin API accepts, and what it may do. */
+export type AdminToken = {
+  token: string;
+
+  /** The zones the token may read and change, including the names below them. Defaults to every zone. */
+  zones?: string[];
+
+  /** Whether the token may only read. Defaults to false. */
+  readOnly?: boolean;
+
+  /** Who writes made with the token are recorded as in the history. */
+  actor?: string;
+};
+
+export type AdminApiOptions = {
+  tokens: AdminToken[];
+
+  /** The path the API is served under, such as `/dns`. Defaults to the root. */
+  basePath?: string;
+
+  /** The largest request body accepted, in bytes. Defaults to 1 MiB. */
+  maxBodySize?: number;
+};
+
+/** A request the API turns down, with the status it answers. */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+    public readonly issues?: StoredDataIssue[],
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The SHA-256 digest of a token, so that tokens of any length compare in constant time.
+ * @param token The token
+ */
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * Read a request body, up to a size limit.
+ * @param req The request
+ * @param limit The largest body accepted, in bytes
+ */
+function readBody(req: http.IncomingMessage, limit: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // the rest is still read, so the response isn't cut off
+      if (size <= limit) {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () =>
+      size > limit
+        ? reject(new HttpError(413, `Request body exceeds ${limit} bytes`))
+        : resolve(Buffer.concat(chunks).toString('utf8')),
+    );
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Decode a path segment.
+ * @param segment The segment, percent-encoded
+ */
+function decodeSegment(segment: string): string {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new HttpError(400, `Malformed path segment ${segment}`);
+  }
+}
+
+/**
+ * Parse a JSON request body.
+ * @param body The body
+ */
+function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+/**
+ * A REST API to manage the records of a store over HTTP, with bearer tokens scoped to zones. Record
+ * sets are read and written as `ZoneDataMap` objects, such as `{ "A": ["192.0.2.1"] }`:
+ *
+ * - `GET /zones/:zone` lists the records of a zone, by name.
+ * - `GET /zones/:zone/export` and `PUT /zones/:zone/import?mode=merge|replace` move zone files.
+ * - `GET`, `PUT` and `DELETE /names/:name` read, replace and delete the record sets of a name.
+ * - `GET`, `PUT`, `POST` and `DELETE /names/:name/:type` do the same for one record set, where
+ *   `POST` appends a record and `DELETE` takes an optional record to delete alone.
+ * - `GET /validate` audits the stored records the token may read.
+ *
+ * Writes accept `?dryRun=true` to only validate them, and name routes accept `?view=` and `?ttl=`.
+ * Emits `error` when a request fails for a reason other than the request itself.
+ */
+export class AdminApi extends EventEmitter {
+  private tokens: { digest: Buffer; token: AdminToken }[];
+  private basePath = '';
+  private maxBodySize = 1024 * 1024;
+
+  constructor(
+    private readonly store: RedisStore,
+    options: AdminApiOptions,
+  ) {
+    super();
+
+    this.tokens = options.tokens.map((token) => ({ digest: digest(token.token), token }));
+    if (options.basePath) {
+      this.basePath = options.basePath.replace(/\/+$/, '');
+    }
+
+    if (options.maxBodySize !== undefined) {
+      this.maxBodySize = options.maxBodySize;
+    }
+  }
+
+  /**
+   * Serve a request. Requests outside `basePath` are passed to `next` if given, so the API can be
+   * mounted in a framework, and answered with 404 otherwise.
+   */
+  handler = (req: http.IncomingMessage, res: http.ServerResponse, next?: () => void): void => {
+    let url: URL;
+    try {
+      url = new URL(req.url ?? '/', 'http://localhost');
+    } catch {
+      return this.fail(res, new HttpError(400, 'Malformed request URL'));
+    }
+
+    if (url.pathname !== this.basePath && !url.pathname.startsWith(this.basePath + '/')) {
+      if (next) {
+        return next();
+      }
+
+      return this.send(res, 404, { error: 'Not found' });
+    }
+
+    this.route(req, res, url).catch((err: unknown) => this.fail(res, err));
+  };
+
+  /**
+   * Authenticate a request and run the route it asks for.
+   * @param req The request
+   * @param res The response
+   * @param url The parsed request URL
+   */
+  private async route(req: http.IncomingMessage, res: http.ServerResponse, url: URL): Promise<void> {
+    const token = this.authenticate(req);
+    const segments = url.pathname.slice(this.basePath.length).split('/').filter(Boolean).map(decodeSegment);
+    const [resource, name, type, ...rest] = segments;
+    const method = req.method ?? 'GET';
+    const dryRun = url.searchParams.get('dryRun') === 'true';
+
+    if (resource === 'validate' && segments.length === 1 && method === 'GET') {
+      const issues = await this.store.validateAll();
+
+      return this.send(res, 200, {
+        issues: issues.filter((issue) => this.inScope(token, issue.name)),
+      });
+    }
+
+    if (resource === 'zones' && name && rest.length === 0) {
+      this.authorize(token, name, method !== 'GET');
+      if (!type && method === 'GET') {
+        return this.send(res, 200, await this.zone(name));
+      }
+
+      if (type === 'export' && method === 'GET') {
+        const text = await this.store.exportZone(name);
+        res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' }).end(text);
+
+        return;
+      }
+
+      if (type === 'import' && method === 'PUT') {
+        return this.send(res, 200, await this.importZone(req, url, token, name, dryRun));
+      }
+    }
+
+    if (resource === 'names' && name && rest.length === 0) {
+      if (!(type === undefined || isSupportedRecordType(type))) {
+        throw new HttpError(400, `Unsupported record type ${type}`);
+      }
+
+      this.authorize(token, name, method !== 'GET');
+      const handled = await this.names(req, res, url, token, name, type, dryRun);
+      if (handled) {
+        return;
+      }
+    }
+
+    throw new HttpError(404, 'Not found');
+  }
+
+  /**
+   * Serve the routes of a name and its record sets.
+   * @returns Whether the method and path matched a route
+   */
+  private async names(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    url: URL,
+    token: AdminToken,
+    name: string,
+    type: SupportedRecordType | undefined,
+    dryRun: boolean,
+  ): Promise<boolean> {
+    const view = url.searchParams.get('view') ?? undefined;
+    const ttl = url.searchParams.get('ttl');
+    const options: WriteOptions = {
+      view,
+      actor: token.actor,
+      dryRun,
+      ...(ttl === null ? {} : { ttl: Number(ttl) }),
+    };
+
+    switch (req.method) {
+      case 'GET': {
+        const data = await this.store.get(name, type, false, view);
+        if (!data) {
+          throw new HttpError(404, `No records for ${name}`);
+        }
+
+        this.send(res, 200, data);
+
+        return true;
+      }
+
+      case 'PUT': {
+        const body = parseJson(await readBody(req, this.maxBodySize));
+        const recordSets = type ? { [type]: body } : this.recordSets(body);
+        for (const [rType, data] of Object.entries(recordSets) as [SupportedRecordType, unknown][]) {
+          await this.store.set(name, rType, data as ZoneData[SupportedRecordType], options);
+        }
+
+        this.written(res, dryRun);
+
+        return true;
+      }
+
+      case 'POST': {
+        if (!type) {
+          return false;
+        }
+
+        const data = parseJson(await readBody(req, this.maxBodySize));
+        await this.store.append(name, type, data as ZoneData[SupportedRecordType], options);
+        this.written(res, dryRun);
+
+        return true;
+      }
+
+      case 'DELETE': {
+        const body = await readBody(req, this.maxBodySize);
+        const data = type && body ? (parseJson(body) as ZoneData[SupportedRecordType]) : undefined;
+        if (!dryRun) {
+          await this.store.delete(name, type, data, view, token.actor);
+        }
+
+        this.written(res, dryRun);
+
+        return true;
+      }
+
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * The records of a zone as a `ZoneDataMap` per name.
+   * @param zone The zone apex
+   */
+  private async zone(zone: string): Promise<Record<string, Partial<ZoneDataMap>>> {
+    const names: Record<string, Partial<Record<SupportedRecordType, unknown[]>>> = {};
+    for (const record of await this.store.listRecords(zone)) {
+      const recordSets = (names[record.name] ??= {});
+      (recordSets[record.type] ??= []).push(record.data);
+    }
+
+    return names as Record<string, Partial<ZoneDataMap>>;
+  }
+
+  /**
+   * Validate a zone file from the request body and import it, unless it is a dry run.
+   * @returns How many records were imported, or the issues found in a dry run
+   */
+  private async importZone(
+    req: http.IncomingMessage,
+    url: URL,
+    token: AdminToken,
+    zone: string,
+    dryRun: boolean,
+  ): Promise<{ records: number; issues?: StoredDataIssue[] }> {
+    const mode = url.searchParams.get('mode') ?? 'merge';
+    if (mode !== 'merge' && mode !== 'replace') {
+      throw new HttpError(400, `Unknown import mode ${mode}`);
+    }
+
+    const text = await readBody(req, this.maxBodySize);
+    const records = parseZone(text, { origin: zone });
+    for (const record of records) {
+      // `$ORIGIN` may move names out of the zone
+      this.authorize(token, record.name, true);
+    }
+
+    const issues = validateZoneRecords(records);
+    if (dryRun) {
+      return { records: records.length, issues };
+    }
+
+    if (issues.length > 0) {
+      throw new HttpError(422, 'Invalid records in zone file', issues);
+    }
+
+    await this.store.importZone(text, { origin: zone, mode, actor: token.actor });
+
+    return { records: records.length };
+  }
+
+  /**
+   * Check that a `PUT /names/:name` body maps record types to record sets.
+   * @param body The parsed body
+   */
+  private recordSets(body: unknown): Record<string, unknown> {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new HttpError(400, 'Request body must map record types to records');
+    }
+
+    const unsupported = Object.keys(body).filter((type) => !isSupportedRecordType(type));
+    if (unsupported.length > 0) {
+      throw new HttpError(400, `Unsupported record type ${unsupported.join(', ')}`);
+    }
+
+    return body as Record<string, unknown>;
+  }
+
+  /**
+   * Find the token a request carries in its `Authorization` header.
+   * @param req The request
+   */
+  private authenticate(req: http.IncomingMessage): AdminToken {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(req.headers.authorization ?? '');
+    const presented = match ? digest(match[1]) : null;
+    const found = presented && this.tokens.find((candidate) => timingSafeEqual(candidate.digest, presented));
+    if (!found) {
+      throw new HttpError(401, 'Missing or unknown bearer token');
+    }
+
+    return found.token;
+  }
+
+  /**
+   * Check that a token may read, or change, a name.
+   * @param token The token
+   * @param name The name, or zone apex
+   * @param write Whether the request changes the name
+   */
+  private authorize(token: AdminToken, name: string, write: boolean): void {
+    if (!this.inScope(token, name)) {
+      throw new HttpError(403, `Token may not access ${name}`);
+    }
+
+    if (write && token.readOnly) {
+      throw new HttpError(403, 'Token is read-only');
+    }
+  }
+
+  /**
+   * Whether a name is at or below one of the zones of a token.
+   * @param token The token
+   * @param name The name
+   */
+  private inScope(token: AdminToken, name: string): boolean {
+    if (!token.zones) {
+      return true;
+    }
+
+    const key = this.store.nameToKey(name);
+
+    return token.zones.some((zone) => {
+      const zoneKey = this.store.nameToKey(zone);
+
+      return zoneKey === '' || key === zoneKey || key.startsWith(zoneKey + ':');
+    });
+  }
+
+  /**
+   * Answer a write: 204, or 200 with no issues for a dry run, which would have failed otherwise.
+   * @param res The response
+   * @param dryRun Whether the write was a dry run
+   */
+  private written(res: http.ServerResponse, dryRun: boolean): void {
+    if (dryRun) {
+      return this.send(res, 200, { issues: [] });
+    }
+
+    res.writeHead(204).end();
+  }
+
+  /**
+   * Answer a request that failed with the status its error calls for.
+   * @param res The response
+   * @param err The error
+   */
+  private fail(res: http.ServerResponse, err: unknown): void {
+    if (err instanceof HttpError) {
+      this.send(res, err.status, { error: err.message, ...(err.issues ? { issues: err.issues } : {}) });
+    } else if (err instanceof RecordValidationError) {
+      this.send(res, 422, { error: err.message, issues: err.issues });
+    } else if (err instanceof ZoneFileError) {
+      this.send(res, 400, { error: err.message });
+    } else if (err instanceof WriteConflictError) {
+      this.send(res, 409, { error: err.message });
+    } else {
+      this.send(res, 500, { error: 'Internal error' });
+      if (this.listenerCount('error') > 0) {
+        this.emit('error', err);
+      }
+    }
+  }
+
+  /**
+   * Answer with a JSON body.
+   * @param res The response
+   * @param status The status code
+   * @param body The body
+   */
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    const json = JSON.stringify(body);
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(json);
+  }
+}
@@ -0,0 +1,127 @@
+/** The commands a store queues in a MULTI transaction. */
+export type BackendTransaction = {
+  del(...keys: string[]): unknown;
+  hset(key: string, field: string, value: string): unknown;
+  zadd(key: string, score: number, member: string): unknown;
+  zrem(key: string, ...members: string[]): unknown;
+
+  /** Runs the queued commands atomically, resolving with an `[error, result]` pair for each. */
+  exec(): Promise<[Error | null, unknown][] | null>;
+};
+
+/** A stream entry, as XRANGE and XREAD return it. */
+export type StreamEntry = [id: string, fields: string[]];
+
+/**
+ * The Redis commands the store sends, which is all a backend has to answer. ioredis clients and
+ * clusters are backends as they are, with the store's Lua scripts registered on them through
+ * `defineCommand`. Other backends, such as `MemoryRedis`, implement the script commands
+ * themselves and leave `defineCommand` out.
+ */
+export type RedisBackend = {
+  readonly isCluster: boolean;
+
+  hget(key: string, field: string): Promise<string | null>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  hmget(key: string, ...fields: string[]): Promise<(string | null)[]>;
+  hkeys(key: string): Promise<string[]>;
+  hset(key: string, object: Record<string, string>): Promise<number>;
+  hset(key: string, field: string, value: string): Promise<number>;
+  hdel(key: string, ...fields: string[]): Promise<number>;
+
+  del(...keys: string[]): Promise<number>;
+  exists(...keys: string[]): Promise<number>;
+  type(key: string): Promise<string>;
+  renamenx(key: string, newKey: string): Promise<number>;
+  scan(cursor: string, countToken: 'COUNT', count: number): Promise<[cursor: string, keys: string[]]>;
+  scan(
+    cursor: string,
+    patternToken: 'MATCH',
+    pattern: string,
+    countToken: 'COUNT',
+    count: number,
+  ): Promise<[cursor: string, keys: string[]]>;
+  scan(
+    cursor: string,
+    patternToken: 'MATCH',
+    pattern: string,
+    countToken: 'COUNT',
+    count: number,
+    typeToken: 'TYPE',
+    type: string,
+  ): Promise<[cursor: string, keys: string[]]>;
+
+  zadd(key: string, score: number, member: string): Promise<number>;
+  zrem(key: string, ...members: string[]): Promise<number>;
+  zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    limitToken: 'LIMIT',
+    offset: number,
+    count: number,
+  ): Promise<string[]>;
+
+  rpush(key: string, ...elements: string[]): Promise<number>;
+  ltrim(key: string, start: number, stop: number): Promise<'OK'>;
+  lrange(key: string, start: number, stop: number): Promise<string[]>;
+
+  xadd(
+    key: string,
+    maxlenToken: 'MAXLEN',
+    approximately: '~',
+    threshold: number,
+    id: string,
+    ...fieldValues: string[]
+  ): Promise<string | null>;
+  xtrim(key: string, minidToken: 'MINID', approximately: '~', threshold: number): Promise<number>;
+  xrange(key: string, start: string, end: string, countToken: 'COUNT', count: number): Promise<StreamEntry[]>;
+  xread(
+    blockToken: 'BLOCK',
+    milliseconds: number,
+    streamsToken: 'STREAMS',
+    key: string,
+    id: string,
+  ): Promise<[key: string, entries: StreamEntry[]][] | null>;
+
+  publish(channel: string, message: string): Promise<number>;
+  subscribe(...channels: string[]): Promise<unknown>;
+  on(event: 'ready', listener: () => void): unknown;
+  on(event: 'message', listener: (channel: string, message: string) => void): unknown;
+
+  multi(): BackendTransaction;
+
+  /** A new connection to the same data, for subscriptions and blocking reads. */
+  duplicate(): RedisBackend;
+  quit(): Promise<unknown>;
+  disconnect(): void;
+
+  defineCommand?(name: string, definition: { lua: string; numberOfKeys?: number; readOnly?: boolean }): void;
+  dinodnsLookup(numKeys: number, ...args: string[]): Promise<[number, string[]] | null>;
+  dinodnsWildcardLookup(numKeys: number, ...args: string[]): Promise<[string, string[]] | null>;
+  dinodnsCompareAndSet(key: string, field: string, expected: string, next: string): Promise<0 | 1>;
+  dinodnsCompareAndSetHashes(numKeys: number, ...args: string[]): Promise<0 | 1>;
+};
+
+/** The hash fields a write touched on one key, before and after the write. */
+export type KeyChange = {
+  key: string;
+  before: Record<string, string>;
+  after: Record<string, string>;
+};
+
+/**
+ * What the parts of a store kept in modules of their own, like its history or its views, share
+ * with it: the connection and how it maps names to the keys used in Redis. The functions are bound
+ * to the store.
+ */
+export type StoreContext = {
+  /** The store's connection, which counts round trips when the store reports metrics */
+  readonly client: RedisBackend;
+
+  /** Map a store key to the key used in Redis, with the prefix and hash tag of the store. */
+  readonly redisKey: (key: string) => string;
+
+  readonly nameToKey: (name: string) => string;
+  readonly keyToName: (key: string) => string;
+};
@@ -0,0 +1,60 @@
+import { CircuitBreaker } from './breaker';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+  let states: jest.Mock;
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    now = 0;
+    states = jest.fn();
+    breaker = new CircuitBreaker(3, 1000, states, () => now);
+  });
+
+  it('should open after enough failures in a row', () => {
+    breaker.failure();
+    breaker.failure();
+    breaker.success();
+    breaker.failure();
+    breaker.failure();
+    expect(breaker.allow()).toBe(true);
+
+    breaker.failure();
+    expect(breaker.current).toEqual('open');
+    expect(breaker.allow()).toBe(false);
+    expect(states.mock.calls).toEqual([['open']]);
+  });
+
+  it('should let a single trial call through after the reset timeout', () => {
+    breaker.failure();
+    breaker.failure();
+    breaker.failure();
+
+    now = 999;
+    expect(breaker.allow()).toBe(false);
+
+    now = 1000;
+    expect(breaker.allow()).toBe(true);
+    expect(breaker.current).toEqual('half-open');
+    expect(breaker.allow()).toBe(false);
+
+    breaker.success();
+    expect(breaker.current).toEqual('closed');
+    expect(states.mock.calls).toEqual([['open'], ['half-open'], ['closed']]);
+  });
+
+  it('should open again when the trial call fails', () => {
+    breaker.failure();
+    breaker.failure();
+    breaker.failure();
+    now = 1000;
+    breaker.allow();
+    breaker.failure();
+
+    expect(breaker.current).toEqual('open');
+    expect(breaker.allow()).toBe(false);
+
+    now = 2000;
+    expect(breaker.allow()).toBe(true);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * The state of a circuit breaker: `closed` lets calls through, `open` fails them without trying,
+ * and `half-open` lets a single trial call through to find out whether to close again.
+ */
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Stops calling a failing dependency after a number of failures in a row, and tries it again
+ * once a while has passed.
+ */
+export class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trial = false;
+
+  /**
+   * @param failureThreshold How many failures in a row open the breaker
+   * @param resetTimeout How long the breaker stays open before a trial call, in milliseconds
+   * @param onChange Called with the new state whenever it changes
+   * @param now The clock
+   */
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeout: number,
+    private readonly onChange: (state: BreakerState) => void,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  get current(): BreakerState {
+    return this.state;
+  }
+
+  /**
+   * Whether a call may go through. An open breaker goes half-open once the reset timeout has
+   * passed, and a half-open breaker lets one call through at a time.
+   */
+  allow(): boolean {
+    if (this.state === 'open' && this.now() - this.openedAt >= this.resetTimeout) {
+      this.transition('half-open');
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trial) {
+        return false;
+      }
+
+      this.trial = true;
+    }
+
+    return this.state !== 'open';
+  }
+
+  /**
+   * Record a call that succeeded, which closes the breaker.
+   */
+  success(): void {
+    this.failures = 0;
+    this.trial = false;
+    this.transition('closed');
+  }
+
+  /**
+   * Record a call that failed, which opens the breaker after enough failures in a row, or right
+   * away if it was the trial call of a half-open breaker.
+   */
+  failure(): void {
+    this.failures++;
+    this.trial = false;
+    if (this.state === 'half-open' || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(state: BreakerState): void {
+    if (this.state !== state) {
+      this.state = state;
+      this.onChange(state);
+    }
+  }
+}
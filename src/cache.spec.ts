@@ -0,0 +1,100 @@
+import { AnswerCache } from './cache';
+
+describe('AnswerCache', () => {
+  let now: number;
+  let cache: AnswerCache<string | null>;
+
+  beforeEach(() => {
+    now = 0;
+    cache = new AnswerCache(3, 60, () => now);
+  });
+
+  it('should return cached values, including nulls', () => {
+    cache.set('a', 'com:example', 'value');
+    cache.set('b', 'com:example:missing', null);
+
+    expect(cache.get('a')).toEqual({ value: 'value' });
+    expect(cache.get('b')).toEqual({ value: null });
+    expect(cache.get('c')).toBeUndefined();
+  });
+
+  it('should count hits and misses', () => {
+    cache.set('a', 'com:example', 'value');
+    cache.get('a');
+    cache.get('a');
+    cache.get('b');
+
+    expect(cache.stats()).toEqual({ hits: 2, misses: 1, size: 1 });
+  });
+
+  it('should evict the least recently used entry when full', () => {
+    cache.set('a', 'com:a', 'a');
+    cache.set('b', 'com:b', 'b');
+    cache.set('c', 'com:c', 'c');
+    cache.get('a');
+    cache.set('d', 'com:d', 'd');
+
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('a')).toEqual({ value: 'a' });
+    expect(cache.get('c')).toEqual({ value: 'c' });
+    expect(cache.get('d')).toEqual({ value: 'd' });
+  });
+
+  it('should expire entries after the ttl', () => {
+    cache.set('a', 'com:example', 'value');
+
+    now = 59_999;
+    expect(cache.get('a')).toEqual({ value: 'value' });
+
+    now = 60_000;
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats().size).toEqual(0);
+  });
+
+  it('should not cache anything with no room for entries', () => {
+    cache = new AnswerCache(0, 60, () => now);
+    cache.set('a', 'com:example', 'value');
+
+    expect(cache.get('a')).toBeUndefined();
+  });
+
+  describe('invalidate', () => {
+    beforeEach(() => {
+      cache = new AnswerCache(10, 60, () => now);
+      cache.set('apex', 'com:example', 'apex');
+      cache.set('www', 'com:example:www', 'www');
+      cache.set('deep', 'com:example:b:a', 'deep');
+      cache.set('other', 'net:example', 'other');
+    });
+
+    it('should evict the written name, its descendants and its ancestors', () => {
+      cache.invalidate('com:example:b');
+
+      expect(cache.get('deep')).toBeUndefined();
+      expect(cache.get('apex')).toBeUndefined();
+      expect(cache.get('www')).toEqual({ value: 'www' });
+      expect(cache.get('other')).toEqual({ value: 'other' });
+    });
+
+    it('should evict every name below the parent of a written wildcard', () => {
+      cache.invalidate('com:example:*');
+
+      expect(cache.get('apex')).toBeUndefined();
+      expect(cache.get('www')).toBeUndefined();
+      expect(cache.get('deep')).toBeUndefined();
+      expect(cache.get('other')).toEqual({ value: 'other' });
+    });
+
+    it('should evict everything for the root wildcard', () => {
+      cache.invalidate('*');
+
+      expect(cache.stats().size).toEqual(0);
+    });
+
+    it('should not confuse names sharing a prefix', () => {
+      cache.invalidate('com:exam');
+
+      expect(cache.stats().size).toEqual(4);
+    });
+  });
+});
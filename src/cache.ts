@@ -0,0 +1,118 @@
+export type AnswerCacheOptions = {
+  /** The most entries the cache holds before evicting the least recently used. Defaults to 10000. */
+  maxEntries?: number;
+
+  /** How long an entry may be served, in seconds. Defaults to 60. */
+  ttl?: number;
+};
+
+export type CacheStats = {
+  /** Lookups answered from the cache */
+  hits: number;
+
+  /** Lookups that went to Redis */
+  misses: number;
+
+  /** The number of cached entries, including expired ones that weren't evicted yet */
+  size: number;
+};
+
+type CacheEntry<V> = {
+  key: string;
+  value: V;
+  expires: number;
+};
+
+/**
+ * Whether a write to one store key may change what a lookup of another key returns. Writes to a
+ * name affect the name itself, the names below it, which it may enclose or stop enclosing, and the
+ * names above it, which it may turn into empty non-terminals. A wildcard affects every name below
+ * its parent, and the root wildcard affects every name.
+ * @param written The key that was written
+ * @param cached The key of a cached lookup
+ */
+function affects(written: string, cached: string): boolean {
+  const base = written === '*' ? '' : written.endsWith(':*') ? written.slice(0, -2) : written;
+  if (base === '') {
+    return true;
+  }
+
+  return cached === base || cached.startsWith(base + ':') || base.startsWith(cached + ':');
+}
+
+/**
+ * A least recently used cache of lookup results, bounded by entry count and age. Every entry
+ * belongs to a store key so that writes can evict the lookups they affect.
+ */
+export class AnswerCache<V> {
+  private entries = new Map<string, CacheEntry<V>>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private readonly maxEntries: number,
+    private readonly ttl: number,
+    private readonly now: () => number = Date.now,
+  ) {}
+
+  /**
+   * Look up an entry, counting a hit or a miss.
+   * @param id The entry id
+   * @returns The cached value in a wrapper, so cached nulls can be told apart from misses
+   */
+  get(id: string): { value: V } | undefined {
+    const entry = this.entries.get(id);
+    if (!entry || entry.expires <= this.now()) {
+      this.entries.delete(id);
+      this.misses++;
+
+      return undefined;
+    }
+
+    // maps iterate in insertion order, so re-inserting marks the entry as most recently used
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    this.hits++;
+
+    return { value: entry.value };
+  }
+
+  /**
+   * Cache a value, evicting the least recently used entry if the cache is full.
+   * @param id The entry id
+   * @param key The store key the value was read for
+   * @param value The value to cache
+   */
+  set(id: string, key: string, value: V): void {
+    if (this.maxEntries <= 0) {
+      return;
+    }
+
+    this.entries.delete(id);
+    if (this.entries.size >= this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+
+    this.entries.set(id, { key, value, expires: this.now() + this.ttl * 1000 });
+  }
+
+  /**
+   * Evict every entry a write to a key may have changed.
+   * @param written The key that was written
+   */
+  invalidate(written: string): void {
+    for (const [id, entry] of this.entries) {
+      if (affects(written, entry.key)) {
+        this.entries.delete(id);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  stats(): CacheStats {
+    return { hits: this.hits, misses: this.misses, size: this.entries.size };
+  }
+}
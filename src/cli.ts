@@ -0,0 +1,415 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import Redis from 'ioredis';
+import type { RedisOptions } from 'ioredis';
+import { SupportedRecordType, ZoneData } from 'dinodns/types';
+import { RedisStore, WildcardMode } from './index';
+import { ZoneRecord, parseZone, serializeRecord } from './zonefile';
+import { isSupportedRecordType } from './validation';
+
+const USAGE = `Usage: dinodns-redis <command> [options]
+
+Commands:
+  get <name> [type]                 Show the records answering a name, and the key they come from
+  set <name> <type> <data>...       Replace a record set, one record per data argument
+  append <name> <type> <data>       Add a record to a record set
+  delete <name> [type] [data]       Delete a name, a record set, or one record
+  ls <zone>                         List the names of a zone and their record types
+  import <file> --origin <zone>     Import a zone file, or - for standard input
+  export <zone> [file]              Export a zone file, to standard output by default
+  diff <file> --origin <zone>       Show how the store differs from a zone file
+
+Record data is written as in a zone file, such as "10 mail.example.com." for MX. Names in it are absolute.
+
+Options:
+  --json                    Print JSON instead of text
+  --ttl <seconds>           The TTL of written records
+  --view <view>             Read or write a view instead of the default view
+  --actor <name>            Who makes the write, for the history
+  --exact                   Don't answer get from wildcards
+  --mode <merge|replace>    How import treats the stored zone. Defaults to merge.
+  --url <url>               redis:// or rediss:// URL to connect to     (REDIS_URL)
+  --host <host>             Redis host, defaults to localhost           (REDIS_HOST)
+  --port <port>             Redis port, defaults to 6379                (REDIS_PORT)
+  --username <username>     Redis username                              (REDIS_USERNAME)
+  --password <password>     Redis password                              (REDIS_PASSWORD)
+  --db <number>             Redis database                              (REDIS_DB)
+  --tls                     Connect with TLS                            (REDIS_TLS=1)
+  --key-prefix <prefix>     The keyPrefix of the store                  (DINODNS_KEY_PREFIX)
+  --wildcard-mode <mode>    The wildcardMode of the store               (DINODNS_WILDCARD_MODE)
+  -h, --help                Show this help
+`;
+
+const OPTIONS = {
+  json: { type: 'boolean' },
+  ttl: { type: 'string' },
+  view: { type: 'string' },
+  actor: { type: 'string' },
+  exact: { type: 'boolean' },
+  origin: { type: 'string' },
+  mode: { type: 'string' },
+  url: { type: 'string' },
+  host: { type: 'string' },
+  port: { type: 'string' },
+  username: { type: 'string' },
+  password: { type: 'string' },
+  db: { type: 'string' },
+  tls: { type: 'boolean' },
+  'key-prefix': { type: 'string' },
+  'wildcard-mode': { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+} as const;
+
+/** The flags the CLI accepts, as `parseArgs` returns them. */
+export type CliFlags = {
+  json?: boolean;
+  ttl?: string;
+  view?: string;
+  actor?: string;
+  exact?: boolean;
+  origin?: string;
+  mode?: string;
+  url?: string;
+  host?: string;
+  port?: string;
+  username?: string;
+  password?: string;
+  db?: string;
+  tls?: boolean;
+  'key-prefix'?: string;
+  'wildcard-mode'?: string;
+  help?: boolean;
+};
+
+/** Where the CLI writes its output and reads standard input from. */
+export type CliIO = {
+  stdout: (text: string) => void;
+  stderr: (text: string) => void;
+  stdin: () => Promise<string>;
+};
+
+/** A mistake in the command line, answered with the usage and exit code 2. */
+class UsageError extends Error {}
+
+/**
+ * Work out how to connect to Redis from the flags, falling back to the environment. A URL sets
+ * every setting it carries, and the other flags override it.
+ * @param flags The parsed flags
+ * @param env The environment
+ */
+export function connectionOptions(flags: CliFlags, env: NodeJS.ProcessEnv): RedisOptions {
+  const options: RedisOptions = {};
+  const url = flags.url ?? env.REDIS_URL;
+  if (url) {
+    const parsed = new URL(url);
+    options.host = parsed.hostname;
+    options.port = parsed.port ? Number(parsed.port) : undefined;
+    options.username = parsed.username ? decodeURIComponent(parsed.username) : undefined;
+    options.password = parsed.password ? decodeURIComponent(parsed.password) : undefined;
+    options.db = parsed.pathname.length > 1 ? Number(parsed.pathname.slice(1)) : undefined;
+    options.tls = parsed.protocol === 'rediss:' ? {} : undefined;
+  }
+
+  const host = flags.host ?? env.REDIS_HOST;
+  const port = flags.port ?? env.REDIS_PORT;
+  const username = flags.username ?? env.REDIS_USERNAME;
+  const password = flags.password ?? env.REDIS_PASSWORD;
+  const db = flags.db ?? env.REDIS_DB;
+
+  return {
+    ...options,
+    ...(host ? { host } : {}),
+    ...(port ? { port: Number(port) } : {}),
+    ...(username ? { username } : {}),
+    ...(password ? { password } : {}),
+    ...(db ? { db: Number(db) } : {}),
+    ...(flags.tls || env.REDIS_TLS === '1' ? { tls: {} } : {}),
+  };
+}
+
+/**
+ * Parse record data written as in a zone file.
+ * @param name The owner name
+ * @param type The record type
+ * @param text The record data
+ */
+function parseData(name: string, type: SupportedRecordType, text: string): ZoneData[SupportedRecordType] {
+  const [record] = parseZone(`${name.replace(/\.$/, '')}. IN ${type} ${text}`, { origin: '.' });
+
+  return record.data;
+}
+
+/**
+ * Check a record type argument.
+ * @param type The argument
+ */
+function recordType(type: string | undefined): SupportedRecordType {
+  const upper = type?.toUpperCase() ?? '';
+  if (!isSupportedRecordType(upper)) {
+    throw new UsageError(type ? `Unsupported record type ${type}` : 'Missing record type');
+  }
+
+  return upper;
+}
+
+/**
+ * Check that the positional arguments of a command are there.
+ * @param args The arguments after the command
+ * @param min How many are required
+ * @param max How many are allowed
+ */
+function expectArgs(args: string[], min: number, max = min): void {
+  if (args.length < min || args.length > max) {
+    throw new UsageError(`Expected ${min === max ? min : `${min} to ${max}`} arguments, got ${args.length}`);
+  }
+}
+
+/**
+ * The records two lists differ in, comparing records by name, type and data, and by TTL where the
+ * zone file gives one.
+ * @param file The records of the zone file
+ * @param stored The records in the store, with their effective TTLs
+ */
+function diffRecords(file: ZoneRecord[], stored: ZoneRecord[]): { added: ZoneRecord[]; removed: ZoneRecord[] } {
+  const identity = (record: ZoneRecord) => serializeRecord({ ...record, ttl: undefined });
+  const storedTtls = new Map(stored.map((record) => [identity(record), record.ttl]));
+  const fileTtls = new Map(file.map((record) => [identity(record), record.ttl]));
+  const changed = (record: ZoneRecord) => {
+    const ttl = fileTtls.get(identity(record));
+
+    return ttl !== undefined && ttl !== storedTtls.get(identity(record));
+  };
+
+  return {
+    added: file.filter((record) => !storedTtls.has(identity(record)) || changed(record)),
+    removed: stored.filter((record) => !fileTtls.has(identity(record)) || changed(record)),
+  };
+}
+
+/**
+ * Run one command against a store.
+ * @param store The store
+ * @param args The command and its positional arguments
+ * @param flags The parsed flags
+ * @param io Where output goes and standard input comes from
+ * @returns The exit code: 0, or 1 if nothing was found or a diff found differences
+ */
+export async function runCommand(store: RedisStore, args: string[], flags: CliFlags, io: CliIO): Promise<number> {
+  const [command, ...rest] = args;
+  const print = (value: unknown, text: string) =>
+    io.stdout(flags.json ? JSON.stringify(value, null, 2) + '\n' : text ? text + '\n' : '');
+  const ttl = flags.ttl === undefined ? undefined : Number(flags.ttl);
+  const options = { ttl, view: flags.view, actor: flags.actor };
+
+  switch (command) {
+    case 'get': {
+      expectArgs(rest, 1, 2);
+      const [name, type] = rest;
+      const rType = type === undefined ? undefined : recordType(type);
+      const records = await store.getRecords(name, rType, !flags.exact, flags.view);
+      if (!records) {
+        print({ name, key: null, records: null }, `No records for ${name}`);
+
+        return 1;
+      }
+
+      const source = await store.findSource(name, rType, !flags.exact, flags.view);
+      const key = source?.key ?? null;
+
+      const lines = Object.entries(records).flatMap(([rType, resolved]) =>
+        resolved.map((r) => serializeRecord({ name, type: rType as SupportedRecordType, ttl: r.ttl, data: r.data })),
+      );
+      const answered = key === null ? 'unknown' : `${store.keyToName(key)} (${key})`;
+      const where = source?.view ? ` in view ${source.view}` : '';
+      print(
+        { name, key, view: source?.view, records },
+        [`${name} answered by ${answered}${where}`, ...lines].join('\n'),
+      );
+
+      return 0;
+    }
+
+    case 'set': {
+      const [name, type, ...data] = rest;
+      expectArgs(rest, 3, Infinity);
+      const rType = recordType(type);
+      const records = data.map((text) => parseData(name, rType, text));
+      await store.set(name, rType, records, options);
+      print({ name, type: rType, records: records.length }, `Set ${records.length} ${rType} records at ${name}`);
+
+      return 0;
+    }
+
+    case 'append': {
+      expectArgs(rest, 3);
+      const [name, type, data] = rest;
+      const rType = recordType(type);
+      await store.append(name, rType, parseData(name, rType, data), options);
+      print({ name, type: rType, records: 1 }, `Appended a ${rType} record to ${name}`);
+
+      return 0;
+    }
+
+    case 'delete': {
+      expectArgs(rest, 1, 3);
+      const [name, type, data] = rest;
+      const rType = type === undefined ? undefined : recordType(type);
+      const rData = rType && data !== undefined ? parseData(name, rType, data) : undefined;
+      await store.delete(name, rType, rData, flags.view, flags.actor);
+      print(
+        { name, type: rType ?? null },
+        `Deleted ${rData ? 'a record' : rType ? `the ${rType} records` : 'every record'} of ${name}`,
+      );
+
+      return 0;
+    }
+
+    case 'ls': {
+      expectArgs(rest, 1);
+      const records = await store.listRecords(rest[0]);
+      const names = new Map<string, string[]>();
+      for (const record of records) {
+        const types = names.get(record.name) ?? [];
+        names.set(record.name, types.includes(record.type) ? types : [...types, record.type]);
+      }
+
+      const width = Math.max(0, ...[...names.keys()].map((name) => name.length));
+      print(records, [...names].map(([name, types]) => `${name.padEnd(width)}  ${types.join(', ')}`).join('\n'));
+
+      return 0;
+    }
+
+    case 'import': {
+      expectArgs(rest, 1);
+      if (!flags.origin) {
+        throw new UsageError('import needs --origin');
+      }
+
+      const mode = flags.mode ?? 'merge';
+      if (mode !== 'merge' && mode !== 'replace') {
+        throw new UsageError(`Unknown import mode ${mode}`);
+      }
+
+      const text = rest[0] === '-' ? await io.stdin() : await fs.readFile(rest[0], 'utf8');
+      const records = await store.importZone(text, { origin: flags.origin, mode, actor: flags.actor });
+      print({ records: records.length }, `Imported ${records.length} records into ${flags.origin}`);
+
+      return 0;
+    }
+
+    case 'export': {
+      expectArgs(rest, 1, 2);
+      const [zone, file] = rest;
+      const text = await store.exportZone(zone);
+      if (file) {
+        await fs.writeFile(file, text);
+      } else {
+        io.stdout(text);
+      }
+
+      return 0;
+    }
+
+    case 'diff': {
+      expectArgs(rest, 1);
+      if (!flags.origin) {
+        throw new UsageError('diff needs --origin');
+      }
+
+      const text = rest[0] === '-' ? await io.stdin() : await fs.readFile(rest[0], 'utf8');
+      const diff = diffRecords(parseZone(text, { origin: flags.origin }), await store.listRecords(flags.origin));
+      print(
+        diff,
+        [
+          ...diff.removed.map((record) => `- ${serializeRecord(record)}`),
+          ...diff.added.map((record) => `+ ${serializeRecord(record)}`),
+        ].join('\n'),
+      );
+
+      return diff.added.length + diff.removed.length > 0 ? 1 : 0;
+    }
+
+    default:
+      throw new UsageError(command ? `Unknown command ${command}` : 'Missing command');
+  }
+}
+
+/**
+ * Read standard input to the end.
+ */
+function readStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    process.stdin.on('data', (chunk: Buffer) => chunks.push(chunk));
+    process.stdin.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    process.stdin.on('error', reject);
+  });
+}
+
+/**
+ * Run the CLI.
+ * @param argv The arguments, without the node executable and script
+ * @param env The environment to read connection settings from
+ * @param io Where output goes and standard input comes from
+ * @returns The exit code
+ */
+export async function main(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  io: CliIO = {
+    stdout: (text) => process.stdout.write(text),
+    stderr: (text) => process.stderr.write(text),
+    stdin: readStdin,
+  },
+): Promise<number> {
+  let parsed: { values: CliFlags; positionals: string[] };
+  try {
+    parsed = parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+  } catch (err) {
+    io.stderr(`${(err as Error).message}\n\n${USAGE}`);
+
+    return 2;
+  }
+
+  const { values: flags, positionals } = parsed;
+  if (flags.help || positionals.length === 0) {
+    (flags.help ? io.stdout : io.stderr)(USAGE);
+
+    return flags.help ? 0 : 2;
+  }
+
+  const wildcardMode = flags['wildcard-mode'] ?? env.DINODNS_WILDCARD_MODE;
+  if (wildcardMode !== undefined && wildcardMode !== 'legacy' && wildcardMode !== 'rfc4592') {
+    io.stderr(`Unknown wildcard mode ${wildcardMode}\n`);
+
+    return 2;
+  }
+
+  // a one-off command fails on the first connection error, which the failed command reports
+  const client = new Redis({ ...connectionOptions(flags, env), lazyConnect: true, retryStrategy: () => null });
+  let connectionError: Error | undefined;
+  client.on('error', (err: Error) => (connectionError = err));
+  const store = new RedisStore({
+    client,
+    keyPrefix: flags['key-prefix'] ?? env.DINODNS_KEY_PREFIX,
+    wildcardMode: wildcardMode as WildcardMode | undefined,
+  });
+  try {
+    return await runCommand(store, positionals, flags, io);
+  } catch (err) {
+    const message = connectionError ? `Can't connect to Redis: ${connectionError.message}` : (err as Error).message;
+    io.stderr(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : `${message}\n`);
+
+    return err instanceof UsageError ? 2 : 1;
+  } finally {
+    await store.close();
+    client.disconnect();
+  }
+}
+
+if (require.main === module) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
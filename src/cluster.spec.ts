@@ -0,0 +1,68 @@
+import Redis, { Cluster } from 'ioredis';
+import { RedisStore } from '.';
+import { hashTag, keySlot, removeHashTag } from './cluster';
+
+// the automock leaves out the exports ioredis defines as getters, Cluster among them
+jest.mock('ioredis', () => Object.assign(jest.createMockFromModule<object>('ioredis'), { Cluster: jest.fn() }));
+
+describe('cluster', () => {
+  describe('keySlot', () => {
+    it('should hash keys as Redis Cluster does', () => {
+      expect(keySlot('foo')).toEqual(12182);
+      expect(keySlot('bar')).toEqual(5061);
+      expect(keySlot('123456789')).toEqual(0x31c3 % 16384);
+    });
+
+    it('should only hash the hash tag of a key', () => {
+      expect(keySlot('{user1000}.following')).toEqual(keySlot('user1000'));
+      expect(keySlot('{com:example}:www')).toEqual(keySlot('{com:example}'));
+      // an empty tag doesn't count, and only the first one does
+      expect(keySlot('{}foo')).not.toEqual(keySlot('foo'));
+      expect(keySlot('foo{bar}{zap}')).toEqual(keySlot('bar'));
+    });
+  });
+
+  describe('hashTag', () => {
+    it('should wrap the top labels in a hash tag', () => {
+      expect(hashTag('com:example:www', 2)).toEqual('{com:example}:www');
+      expect(hashTag('com:example', 2)).toEqual('{com:example}');
+      expect(hashTag('com', 2)).toEqual('{com}');
+      expect(hashTag('com:example:mail:*', 3)).toEqual('{com:example:mail}:*');
+    });
+
+    it("should leave the root and the store's own keys alone", () => {
+      expect(hashTag('', 2)).toEqual('');
+      expect(hashTag('#names', 2)).toEqual('#names');
+    });
+  });
+
+  describe('removeHashTag', () => {
+    it('should undo hashTag', () => {
+      for (const key of ['com:example:www', 'com:example', 'com', '']) {
+        expect(removeHashTag(hashTag(key, 2))).toEqual(key);
+      }
+    });
+  });
+
+  describe('connections', () => {
+    it('should connect to a cluster through the given nodes', () => {
+      jest
+        .mocked(Cluster)
+        .mockImplementation(() => ({ isCluster: true, defineCommand: jest.fn() }) as unknown as Cluster);
+
+      new RedisStore({ cluster: { nodes: [{ host: 'redis-1', port: 7000 }], options: { scaleReads: 'slave' } } });
+
+      expect(Cluster).toHaveBeenCalledWith([{ host: 'redis-1', port: 7000 }], {
+        scaleReads: 'slave',
+        keyPrefix: undefined,
+      });
+    });
+
+    it('should connect to the master of a Sentinel deployment', () => {
+      const sentinel = { sentinels: [{ host: 'sentinel-1', port: 26379 }], name: 'dns' };
+      new RedisStore({ sentinel, keyPrefix: 'dns:' });
+
+      expect(Redis).toHaveBeenLastCalledWith(expect.objectContaining({ ...sentinel, keyPrefix: undefined }));
+    });
+  });
+});
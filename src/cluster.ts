@@ -0,0 +1,85 @@
+import type { Cluster } from 'ioredis';
+import type { RedisBackend } from './backend';
+
+/** CRC16-CCITT (XMODEM) by byte, as Redis Cluster hashes keys with it. */
+const CRC16_TABLE = (() => {
+  const table = new Uint16Array(256);
+  for (let i = 0; i < 256; i++) {
+    let crc = i << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+    }
+
+    table[i] = crc & 0xffff;
+  }
+
+  return table;
+})();
+
+/**
+ * The CRC16 checksum Redis Cluster hashes keys with.
+ * @param data The bytes to hash
+ */
+export function crc16(data: Buffer): number {
+  let crc = 0;
+  for (const byte of data) {
+    crc = ((crc << 8) & 0xffff) ^ CRC16_TABLE[((crc >> 8) ^ byte) & 0xff];
+  }
+
+  return crc;
+}
+
+/**
+ * The cluster hash slot of a key. Only the hash tag is hashed if the key has one: the part between
+ * its first `{` and the next `}`, unless that is empty.
+ * @param key The Redis key
+ */
+export function keySlot(key: string): number {
+  const start = key.indexOf('{');
+  const end = start === -1 ? -1 : key.indexOf('}', start + 1);
+  const hashed = end > start + 1 ? key.slice(start + 1, end) : key;
+
+  return crc16(Buffer.from(hashed)) % 16384;
+}
+
+/**
+ * Wrap the top labels of a store key in a hash tag, so that every key sharing them lands in the
+ * same hash slot: `com:example:www` becomes `{com:example}:www` with two labels. The store's own
+ * keys, starting with `#`, and the root key are left alone.
+ * @param key The store key
+ * @param labels How many labels the tag holds
+ */
+export function hashTag(key: string, labels: number): string {
+  if (key === '' || key.startsWith('#')) {
+    return key;
+  }
+
+  const parts = key.split(':');
+  const rest = parts.slice(labels);
+
+  return `{${parts.slice(0, labels).join(':')}}${rest.length > 0 ? `:${rest.join(':')}` : ''}`;
+}
+
+/**
+ * Turn a key written by {@link hashTag} back into the store key.
+ * @param key The hash tagged key
+ */
+export function removeHashTag(key: string): string {
+  return key.replace(/^\{([^}]*)\}/, '$1');
+}
+
+/**
+ * Whether a client is connected to a cluster.
+ * @param client The client
+ */
+export function isCluster(client: RedisBackend): client is RedisBackend & Cluster {
+  return client.isCluster;
+}
+
+/**
+ * The connections to SCAN to see every key: each master of a cluster, or the one client.
+ * @param client The client
+ */
+export function scanTargets(client: RedisBackend): RedisBackend[] {
+  return isCluster(client) ? client.nodes('master') : [client];
+}
@@ -0,0 +1,82 @@
+import type { ValidationIssue } from './validation';
+
+/**
+ * Thrown when a read-modify-write operation keeps losing the race against other writers
+ * to the same record set and runs out of attempts.
+ */
+export class WriteConflictError extends Error {
+  constructor(
+    public readonly key: string,
+    public readonly field: string,
+    public readonly attempts: number,
+  ) {
+    super(`Gave up writing ${field} on ${key} after ${attempts} conflicting attempts`);
+    this.name = 'WriteConflictError';
+  }
+}
+
+/**
+ * Thrown when a zone file can't be parsed. Carries the line the offending entry starts on.
+ */
+export class ZoneFileError extends Error {
+  constructor(
+    message: string,
+    public readonly line: number,
+  ) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'ZoneFileError';
+  }
+}
+
+/**
+ * Thrown when the handler gives up on a lookup that takes longer than its lookup timeout.
+ */
+export class LookupTimeoutError extends Error {
+  constructor(public readonly timeout: number) {
+    super(`Lookup timed out after ${timeout} ms`);
+    this.name = 'LookupTimeoutError';
+  }
+}
+
+/**
+ * Thrown when `set` or `append` is handed records that don't fit their type. Lists every issue
+ * found, each naming the field at fault.
+ */
+export class RecordValidationError extends Error {
+  constructor(
+    public readonly owner: string,
+    public readonly rType: string,
+    public readonly issues: ValidationIssue[],
+  ) {
+    super(`Invalid ${rType} records for ${owner}: ${issues.map((i) => `${i.field} ${i.message}`).join('; ')}`);
+    this.name = 'RecordValidationError';
+  }
+}
+
+/**
+ * Thrown when a value the store keeps in Redis, such as a TSIG key or a journal entry, doesn't
+ * decode to the shape the store wrote.
+ */
+export class StoredValueError extends Error {
+  constructor(
+    public readonly kind: string,
+    public readonly raw: string,
+  ) {
+    super(`Malformed ${kind} in Redis: ${raw.length > 80 ? `${raw.slice(0, 80)}...` : raw}`);
+    this.name = 'StoredValueError';
+  }
+}
+
+/**
+ * Thrown when a view is given a network that isn't a CIDR network or an address, in the `views`
+ * option or through `setView`.
+ */
+export class ViewNetworkError extends Error {
+  constructor(
+    public readonly view: string,
+    public readonly network: string,
+  ) {
+    super(`Invalid network ${network} for view ${view}`);
+    this.name = 'ViewNetworkError';
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * The parts of fengari, a Lua interpreter written in JavaScript, that the tests run the store's
+ * scripts with. The functions follow the Lua C API they are named after.
+ */
+declare module 'fengari' {
+  /** A Lua interpreter and its stack. */
+  export type LuaState = { readonly __luaState: unique symbol };
+
+  /** A Lua string, as its bytes. */
+  export type LuaString = Uint8Array;
+
+  /** A function Lua can call, taking its arguments from the stack and returning how many results it pushed. */
+  export type LuaFunction = (L: LuaState) => number;
+
+  export function to_luastring(str: string): LuaString;
+
+  export const lua: {
+    readonly LUA_OK: number;
+    readonly LUA_REGISTRYINDEX: number;
+    readonly LUA_TNIL: number;
+    readonly LUA_TBOOLEAN: number;
+    readonly LUA_TNUMBER: number;
+    readonly LUA_TSTRING: number;
+    readonly LUA_TTABLE: number;
+
+    lua_absindex(L: LuaState, index: number): number;
+    lua_gettop(L: LuaState): number;
+    lua_pop(L: LuaState, n: number): void;
+    lua_type(L: LuaState, index: number): number;
+    lua_toboolean(L: LuaState, index: number): boolean;
+    lua_tonumber(L: LuaState, index: number): number;
+    lua_tojsstring(L: LuaState, index: number): string;
+
+    lua_pushboolean(L: LuaState, value: boolean): void;
+    lua_pushnil(L: LuaState): void;
+    lua_pushinteger(L: LuaState, value: number): void;
+    lua_pushnumber(L: LuaState, value: number): void;
+    lua_pushstring(L: LuaState, value: LuaString): void;
+    lua_pushjsfunction(L: LuaState, fn: LuaFunction): void;
+
+    lua_createtable(L: LuaState, narr: number, nrec: number): void;
+    lua_geti(L: LuaState, index: number, i: number): number;
+    lua_seti(L: LuaState, index: number, i: number): void;
+    lua_setfield(L: LuaState, index: number, key: LuaString): void;
+    lua_rawgeti(L: LuaState, index: number, i: number): number;
+    lua_setglobal(L: LuaState, name: LuaString): void;
+
+    lua_pcall(L: LuaState, nargs: number, nresults: number, msgh: number): number;
+  };
+
+  export const lauxlib: {
+    luaL_newstate(): LuaState;
+    luaL_loadstring(L: LuaState, source: LuaString): number;
+    luaL_ref(L: LuaState, index: number): number;
+    luaL_error(L: LuaState, message: LuaString): number;
+  };
+
+  export const lualib: {
+    luaL_openlibs(L: LuaState): void;
+  };
+}
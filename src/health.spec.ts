@@ -0,0 +1,179 @@
+import * as net from 'net';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { StoredValueError } from './errors';
+import { HealthChecker, ResolvedHealthCheck, decodeHealthState, probe, resolveHealthCheck } from './health';
+import type { RedisStore } from './index';
+
+describe('health', () => {
+  let tcpServer: net.Server;
+  let httpServer: http.Server;
+  let tcpPort: number;
+  let httpPort: number;
+  let status: number;
+
+  /** A port nothing listens on, found by closing a server that listened on it */
+  const closedPort = async () => {
+    const server = net.createServer();
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+    await new Promise((resolve) => server.close(resolve));
+
+    return port;
+  };
+
+  beforeAll(async () => {
+    tcpServer = net.createServer((socket) => socket.destroy());
+    httpServer = http.createServer((_req, res) => res.writeHead(status).end());
+    await new Promise<void>((resolve) => tcpServer.listen(0, '127.0.0.1', resolve));
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+    tcpPort = (tcpServer.address() as AddressInfo).port;
+    httpPort = (httpServer.address() as AddressInfo).port;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => tcpServer.close(resolve));
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  beforeEach(() => {
+    status = 200;
+  });
+
+  describe('resolveHealthCheck', () => {
+    it('should check the address of the record by default', () => {
+      expect(resolveHealthCheck({ type: 'tcp', port: 443 }, '10.0.0.1')).toEqual({
+        id: 'tcp://10.0.0.1:443',
+        type: 'tcp',
+        host: '10.0.0.1',
+        port: 443,
+        path: '/',
+        expectedStatus: 200,
+        interval: 30,
+        timeout: 5,
+        healthyThreshold: 2,
+        unhealthyThreshold: 3,
+      });
+      expect(resolveHealthCheck({ type: 'http', path: '/health' }, '::1')?.id).toEqual('http://[::1]:80/health');
+    });
+
+    it('should check the target and port of SRV records by default', () => {
+      const srv = { target: 'backend.example.com', port: 8080 };
+
+      expect(resolveHealthCheck({ type: 'tcp' }, srv)?.id).toEqual('tcp://backend.example.com:8080');
+      expect(resolveHealthCheck({ type: 'tcp', host: '10.0.0.2', port: 22 }, srv)?.id).toEqual('tcp://10.0.0.2:22');
+    });
+
+    it('should give up on checks without a target', () => {
+      expect(resolveHealthCheck({ type: 'tcp' }, '10.0.0.1')).toEqual(null);
+      expect(resolveHealthCheck({ type: 'http' }, { exchange: 'mail.example.com', preference: 10 })).toEqual(null);
+    });
+  });
+
+  describe('decodeHealthState', () => {
+    it('should decode stored states and refuse anything else', () => {
+      expect(decodeHealthState('{"healthy":false,"checkedAt":1}')).toEqual({ healthy: false, checkedAt: 1 });
+      expect(() => decodeHealthState('{"healthy":"no","checkedAt":1}')).toThrow(StoredValueError);
+      expect(() => decodeHealthState('true')).toThrow(StoredValueError);
+    });
+  });
+
+  describe('probe', () => {
+    const check = (type: 'tcp' | 'http', port: number, expectedStatus = 200) =>
+      resolveHealthCheck({ type, port, expectedStatus, timeout: 1 }, '127.0.0.1') as ResolvedHealthCheck;
+
+    it('should pass when a TCP connection is accepted', async () => {
+      expect(await probe(check('tcp', tcpPort))).toBe(true);
+      expect(await probe(check('tcp', await closedPort()))).toBe(false);
+    });
+
+    it('should pass when the HTTP status is the expected one', async () => {
+      expect(await probe(check('http', httpPort))).toBe(true);
+      expect(await probe(check('http', httpPort, 204))).toBe(false);
+
+      status = 503;
+      expect(await probe(check('http', httpPort))).toBe(false);
+      expect(await probe(check('http', await closedPort()))).toBe(false);
+    });
+  });
+
+  describe('HealthChecker', () => {
+    let check: ResolvedHealthCheck;
+    let store: { listHealthChecks: jest.Mock; setHealth: jest.Mock };
+    let checker: HealthChecker;
+    let changes: jest.Mock;
+
+    beforeEach(() => {
+      check = resolveHealthCheck(
+        { type: 'http', port: httpPort, interval: 10, healthyThreshold: 2, unhealthyThreshold: 2 },
+        '127.0.0.1',
+      ) as ResolvedHealthCheck;
+      store = { listHealthChecks: jest.fn(async () => [check]), setHealth: jest.fn() };
+      checker = new HealthChecker(store as unknown as RedisStore, { refreshInterval: 60 });
+      changes = jest.fn();
+      checker.on('healthChanged', changes);
+    });
+
+    it('should write the health of every endpoint once per interval', async () => {
+      await checker.tick(0);
+      await checker.tick(5000);
+      await checker.tick(10000);
+
+      expect(store.setHealth.mock.calls).toEqual([
+        [check.id, { healthy: true, checkedAt: 0 }],
+        [check.id, { healthy: true, checkedAt: 10000 }],
+      ]);
+    });
+
+    it('should change the health of an endpoint after the thresholds', async () => {
+      await checker.tick(0);
+      status = 500;
+      await checker.tick(10000);
+      expect(changes).not.toHaveBeenCalled();
+
+      await checker.tick(20000);
+      expect(changes).toHaveBeenCalledWith({ id: check.id, healthy: false });
+      expect(store.setHealth).toHaveBeenLastCalledWith(check.id, { healthy: false, checkedAt: 20000 });
+
+      status = 200;
+      await checker.tick(30000);
+      await checker.tick(40000);
+      expect(changes).toHaveBeenLastCalledWith({ id: check.id, healthy: true });
+    });
+
+    it('should reload the checks after the refresh interval', async () => {
+      await checker.tick(0);
+      await checker.tick(30000);
+      expect(store.listHealthChecks).toHaveBeenCalledTimes(1);
+
+      await checker.tick(60000);
+      expect(store.listHealthChecks).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not start a tick before the previous one is done', async () => {
+      jest.useFakeTimers();
+      let finish = () => {};
+      const tick = jest
+        .spyOn(checker, 'tick')
+        .mockImplementation(() => new Promise<void>((resolve) => (finish = resolve)));
+
+      try {
+        checker.start();
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(tick).toHaveBeenCalledTimes(1);
+
+        finish();
+        await jest.advanceTimersByTimeAsync(1000);
+        expect(tick).toHaveBeenCalledTimes(2);
+
+        checker.stop();
+        finish();
+        await jest.advanceTimersByTimeAsync(5000);
+        expect(tick).toHaveBeenCalledTimes(2);
+      } finally {
+        checker.stop();
+        jest.useRealTimers();
+      }
+    });
+  });
+});
@@ -0,0 +1,368 @@
+import * as net from 'net';
+import * as http from 'http';
+import { EventEmitter } from 'events';
+import { SupportedRecordType } from 'dinodns/types';
+import { StoredValueError } from './errors';
+import { RecordMap, ResolvedRecord, StoredRecordSet, decodeRecordSet } from './records';
+import { StoreContext } from './backend';
+import type { RedisStore } from './index';
+
+/** The key of the hash holding the health of the endpoints records are checked against, by check id. */
+const HEALTH_KEY = '#health';
+
+/** What the health of the endpoints needs from its store, besides the connection. */
+export type HealthContext = StoreContext & {
+  /** List the Redis keys of the record hashes of the default view and of the views the handler answers from. */
+  readonly recordHashes: () => Promise<string[]>;
+};
+
+/**
+ * How to tell whether the endpoint behind a record is up: a TCP connection, or an HTTP GET
+ * answered with the expected status. The host defaults to the record's address, or to the target
+ * of an SRV record, and the port to the SRV record's port, or to 80 for HTTP.
+ */
+export type HealthCheck = {
+  type: 'tcp' | 'http';
+  host?: string;
+  port?: number;
+
+  /** The path HTTP checks request. Defaults to `/`. */
+  path?: string;
+
+  /** The status HTTP checks expect. Defaults to 200. */
+  expectedStatus?: number;
+
+  /** How often the endpoint is checked, in seconds. Defaults to 30. */
+  interval?: number;
+
+  /** How long a check may take before it fails, in seconds. Defaults to 5. */
+  timeout?: number;
+
+  /** How many checks in a row have to pass for a down endpoint to be up. Defaults to 2. */
+  healthyThreshold?: number;
+
+  /** How many checks in a row have to fail for an up endpoint to be down. Defaults to 3. */
+  unhealthyThreshold?: number;
+};
+
+/** A health check with its target and defaults filled in. */
+export type ResolvedHealthCheck = Required<HealthCheck> & {
+  /** Identifies the endpoint and how it is checked, and keys its health state */
+  id: string;
+};
+
+/** The health of an endpoint, as the checker last wrote it. */
+export type HealthState = {
+  healthy: boolean;
+
+  /** When the endpoint was last checked, in milliseconds since the epoch */
+  checkedAt: number;
+};
+
+export type HealthCheckerOptions = {
+  /** How often the checks are reloaded from the store, in seconds. Defaults to 60. */
+  refreshInterval?: number;
+};
+
+/**
+ * Decode the health of an endpoint as `setHealth` stores it.
+ * @param raw The stored JSON
+ * @throws {StoredValueError} If it isn't a health state
+ */
+export function decodeHealthState(raw: string): HealthState {
+  const parsed: unknown = JSON.parse(raw);
+  const state = parsed as Partial<HealthState> | null;
+  if (typeof state?.healthy !== 'boolean' || typeof state.checkedAt !== 'number') {
+    throw new StoredValueError('health state', raw);
+  }
+
+  return state as HealthState;
+}
+
+/**
+ * Fill in the target and defaults of a health check.
+ * @param check The health check
+ * @param data The data of the record it is attached to
+ * @returns The resolved check, or null if it has no target
+ */
+export function resolveHealthCheck(check: HealthCheck, data: unknown): ResolvedHealthCheck | null {
+  const srv = data && typeof data === 'object' ? (data as { target?: string; port?: number }) : {};
+  const host = check.host ?? (typeof data === 'string' ? data : srv.target);
+  const port = check.port ?? srv.port ?? (check.type === 'http' ? 80 : undefined);
+  if (!host || !port) {
+    return null;
+  }
+
+  const path = check.path ?? '/';
+  const authority = `${host.includes(':') ? `[${host}]` : host}:${port}`;
+
+  return {
+    id: check.type === 'http' ? `http://${authority}${path}` : `tcp://${authority}`,
+    type: check.type,
+    host,
+    port,
+    path,
+    expectedStatus: check.expectedStatus ?? 200,
+    interval: check.interval ?? 30,
+    timeout: check.timeout ?? 5,
+    healthyThreshold: check.healthyThreshold ?? 2,
+    unhealthyThreshold: check.unhealthyThreshold ?? 3,
+  };
+}
+
+/**
+ * Check an endpoint once.
+ * @param check The health check
+ * @returns Whether the check passed
+ */
+export function probe(check: ResolvedHealthCheck): Promise<boolean> {
+  return new Promise((resolve) => {
+    if (check.type === 'tcp') {
+      const socket = net.connect({ host: check.host, port: check.port, timeout: check.timeout * 1000 });
+      socket.once('connect', () => {
+        socket.destroy();
+        resolve(true);
+      });
+      socket.once('timeout', () => socket.destroy(new Error('timeout')));
+      socket.once('error', () => resolve(false));
+
+      return;
+    }
+
+    const req = http.get(
+      { host: check.host, port: check.port, path: check.path, timeout: check.timeout * 1000, agent: false },
+      (res) => {
+        res.resume();
+        resolve(res.statusCode === check.expectedStatus);
+      },
+    );
+    req.once('timeout', () => req.destroy(new Error('timeout')));
+    req.once('error', () => resolve(false));
+  });
+}
+
+/**
+ * The health of the endpoints the records of a store are checked against, as `HealthChecker`
+ * writes it under `#health`, and the records the handler leaves out because of it.
+ */
+export class EndpointHealth {
+  private context: HealthContext;
+
+  /**
+   * @param context The store the records belong to
+   */
+  constructor(context: HealthContext) {
+    this.context = context;
+  }
+
+  /**
+   * List the health checks attached to the stored records of every view, one per endpoint, using
+   * SCAN so Redis isn't blocked. Keys other than record hashes, and record sets that don't decode,
+   * are skipped, so data written around the store can't stop health checking.
+   */
+  async listChecks(): Promise<ResolvedHealthCheck[]> {
+    const { client, recordHashes } = this.context;
+    const checks = new Map<string, ResolvedHealthCheck>();
+    for (const hash of await recordHashes()) {
+      const data = await client.hgetall(hash);
+      for (const raw of Object.values(data)) {
+        let recordSet: StoredRecordSet<SupportedRecordType>;
+        try {
+          recordSet = decodeRecordSet(raw);
+        } catch {
+          continue;
+        }
+
+        for (const { data, check } of recordSet.records) {
+          const resolved = check && resolveHealthCheck(check, data);
+          if (resolved && !checks.has(resolved.id)) {
+            checks.set(resolved.id, resolved);
+          }
+        }
+      }
+    }
+
+    return [...checks.values()];
+  }
+
+  /**
+   * Record the health of an endpoint.
+   * @param id The id of the endpoint's health check
+   * @param state The endpoint's health
+   */
+  async set(id: string, state: HealthState): Promise<void> {
+    await this.context.client.hset(this.context.redisKey(HEALTH_KEY), id, JSON.stringify(state));
+  }
+
+  /**
+   * The health of an endpoint, or null if it wasn't checked yet.
+   * @param id The id of the endpoint's health check
+   */
+  async get(id: string): Promise<HealthState | null> {
+    const raw = await this.context.client.hget(this.context.redisKey(HEALTH_KEY), id);
+
+    return raw ? decodeHealthState(raw) : null;
+  }
+
+  /**
+   * Leave out the records whose endpoints are down, and keep those whose health is unknown. Backup records are only kept when no other
+   * record of their set is up, and when every record is down, the other records are kept anyway,
+   * since an answer that may work beats none.
+   * @param records The records found for a name
+   */
+  async filter(records: RecordMap): Promise<RecordMap> {
+    const checks = new Map<ResolvedRecord, ResolvedHealthCheck>();
+    for (const recordSet of Object.values(records) as ResolvedRecord[][]) {
+      for (const record of recordSet) {
+        const check = record.check && resolveHealthCheck(record.check, record.data);
+        if (check) {
+          checks.set(record, check);
+        }
+      }
+    }
+
+    const backups = (Object.values(records) as ResolvedRecord[][]).some((recordSet) => recordSet.some((r) => r.backup));
+    if (checks.size === 0 && !backups) {
+      return records;
+    }
+
+    const ids = [...new Set([...checks.values()].map((check) => check.id))];
+    const states = ids.length > 0 ? await this.context.client.hmget(this.context.redisKey(HEALTH_KEY), ...ids) : [];
+    const down = new Set(
+      ids.filter((_id, i) => {
+        const state = states[i];
+        if (state === null) {
+          return false;
+        }
+
+        // a state that doesn't decode is unknown, and keeps the endpoint served like an unchecked one
+        try {
+          return !decodeHealthState(state).healthy;
+        } catch {
+          return false;
+        }
+      }),
+    );
+    const isUp = (record: ResolvedRecord) => !down.has(checks.get(record)?.id ?? '');
+
+    return Object.fromEntries(
+      Object.entries(records).map(([rType, recordSet]: [string, ResolvedRecord[]]) => {
+        const primaries = recordSet.filter((r) => !r.backup);
+        const candidates = [primaries.filter(isUp), recordSet.filter((r) => r.backup && isUp(r)), primaries];
+
+        return [rType, candidates.find((c) => c.length > 0) ?? recordSet];
+      }),
+    );
+  }
+}
+
+/**
+ * Runs the health checks attached to the records of a store and writes the health of their
+ * endpoints back to it, for the store's handler to leave out records that are down. Every
+ * endpoint is checked once per interval of its check, however many records share it. The first
+ * check of an endpoint decides its health, later ones change it after the thresholds.
+ *
+ * Emits `healthChanged` with `{ id, healthy }` when an endpoint goes up or down, and `error` when
+ * the store can't be read or written.
+ */
+export class HealthChecker extends EventEmitter {
+  private refreshInterval = 60;
+  private checks: ResolvedHealthCheck[] = [];
+  private refreshedAt = -Infinity;
+  private states = new Map<string, { healthy: boolean; passed: number; failed: number }>();
+  private due = new Map<string, number>();
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly store: RedisStore,
+    options: HealthCheckerOptions = {},
+  ) {
+    super();
+
+    if (options.refreshInterval !== undefined) {
+      this.refreshInterval = options.refreshInterval;
+    }
+  }
+
+  /**
+   * Check endpoints every second, as their intervals come due.
+   */
+  start(): void {
+    if (!this.timer) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Stop checking endpoints.
+   */
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run the next tick a second from now. Each tick schedules the next one once it is done, so
+   * slow checks never overlap.
+   */
+  private schedule(): void {
+    const timer = setTimeout(() => {
+      this.tick()
+        .catch((err) => this.emit('error', err))
+        .finally(() => {
+          // unless stopped, or stopped and started again, while the tick ran
+          if (this.timer === timer) {
+            this.schedule();
+          }
+        });
+    }, 1000);
+    this.timer = timer;
+  }
+
+  /**
+   * Reload the checks from the store if they are due, and run the checks that are due.
+   * @param now The current time, in milliseconds since the epoch
+   */
+  async tick(now = Date.now()): Promise<void> {
+    if (now - this.refreshedAt >= this.refreshInterval * 1000) {
+      this.checks = await this.store.listHealthChecks();
+      this.refreshedAt = now;
+    }
+
+    const due = this.checks.filter((check) => (this.due.get(check.id) ?? 0) <= now);
+    for (const check of due) {
+      // scheduled before the check runs, so slow checks aren't started again by the next tick
+      this.due.set(check.id, now + check.interval * 1000);
+    }
+
+    await Promise.all(due.map((check) => this.run(check, now)));
+  }
+
+  /**
+   * Run one check and record its outcome.
+   * @param check The health check
+   * @param now The current time, in milliseconds since the epoch
+   */
+  private async run(check: ResolvedHealthCheck, now: number): Promise<void> {
+    const passed = await probe(check);
+    const previous = this.states.get(check.id);
+    const state = {
+      healthy: previous?.healthy ?? passed,
+      passed: passed ? (previous?.passed ?? 0) + 1 : 0,
+      failed: passed ? 0 : (previous?.failed ?? 0) + 1,
+    };
+
+    if (state.passed >= check.healthyThreshold) {
+      state.healthy = true;
+    } else if (state.failed >= check.unhealthyThreshold) {
+      state.healthy = false;
+    }
+
+    this.states.set(check.id, state);
+    await this.store.setHealth(check.id, { healthy: state.healthy, checkedAt: now });
+
+    if (previous && previous.healthy !== state.healthy) {
+      this.emit('healthChanged', { id: check.id, healthy: state.healthy });
+    }
+  }
+}
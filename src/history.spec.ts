@@ -0,0 +1,46 @@
+import { changedRecordSets, decodeChange, encodeChange, toHistoryEntry } from './history';
+
+describe('history', () => {
+  describe('changedRecordSets', () => {
+    it('should list the record sets a write changed', () => {
+      const before = { A: '["10.0.0.1"]', TXT: '["kept"]', MX: '[{"preference":10,"exchange":"mail"}]' };
+      const after = { A: '["10.0.0.2"]', TXT: '["kept"]', AAAA: '["::1"]' };
+
+      expect(changedRecordSets('example.com', before, after, 'alice')).toEqual([
+        { name: 'example.com', type: 'A', before: '["10.0.0.1"]', after: '["10.0.0.2"]', actor: 'alice' },
+        { name: 'example.com', type: 'MX', before: before.MX, after: undefined, actor: 'alice' },
+        { name: 'example.com', type: 'AAAA', before: undefined, after: '["::1"]', actor: 'alice' },
+      ]);
+    });
+  });
+
+  describe('encodeChange', () => {
+    it('should leave out what is missing', () => {
+      const fields = encodeChange({ name: 'example.com', type: 'A', after: '["10.0.0.1"]' });
+
+      expect(fields).toEqual(['name', 'example.com', 'type', 'A', 'after', '["10.0.0.1"]']);
+      expect(decodeChange(fields)).toEqual({ name: 'example.com', type: 'A', after: '["10.0.0.1"]' });
+    });
+  });
+
+  describe('toHistoryEntry', () => {
+    it('should decode the record sets and the timestamp', () => {
+      const fields = encodeChange({
+        name: 'example.com',
+        type: 'A',
+        before: '{"ttl":60,"records":[{"data":"10.0.0.1"}]}',
+        actor: 'bob',
+      });
+
+      expect(toHistoryEntry('1700000000000-3', fields)).toEqual({
+        id: '1700000000000-3',
+        timestamp: 1700000000000,
+        name: 'example.com',
+        type: 'A',
+        before: { ttl: 60, records: [{ data: '10.0.0.1' }] },
+        after: null,
+        actor: 'bob',
+      });
+    });
+  });
+});
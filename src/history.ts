@@ -0,0 +1,340 @@
+import { SupportedRecordType } from 'dinodns/types';
+import { sortBy as _sortBy } from 'lodash';
+import { StoredRecordSet, decodeRecordSet, encodeRecordSet } from './records';
+import { KeyChange, StoreContext } from './backend';
+import { SerialScheme, bumpSerial } from './serial';
+
+export type HistoryOptions = {
+  /** About how many changes the history keeps, as Redis trims streams approximately. Defaults to 100000. */
+  maxEntries?: number;
+
+  /** How long changes are kept, in seconds. Defaults to keeping them until `maxEntries` is reached. */
+  maxAge?: number;
+};
+
+export type HistoryQuery = {
+  /** Only changes made after this time, in milliseconds since the epoch */
+  since?: Date | number;
+
+  /** Only changes made up to this time, in milliseconds since the epoch */
+  until?: Date | number;
+
+  /** The most changes to return, the latest ones. Defaults to all of them. */
+  limit?: number;
+};
+
+export type RollbackOptions = {
+  /** Whether to roll back every name at or below the given one, as a zone. Defaults to false. */
+  zone?: boolean;
+
+  /** Who makes the rollback, for the history. */
+  actor?: string;
+};
+
+export type TailHistoryOptions = {
+  /** The stream id to tail from, exclusive. Defaults to `$`, the changes made from now on. */
+  since?: string;
+
+  /** Stops tailing when aborted. */
+  signal?: AbortSignal;
+};
+
+/** The stream the history of record set changes is appended to. */
+const HISTORY_KEY = '#history';
+
+/**
+ * The prefix of the streams holding the history of each name, followed by its key. Their entries
+ * repeat those of `HISTORY_KEY`, with the same ids unless two stores write the name at once.
+ */
+const HISTORY_KEY_PREFIX = '#history:';
+
+/** What the history needs from its store, besides the connection. */
+export type HistoryContext = StoreContext & {
+  /** Write one record set as it is stored, or delete it with null, like any other write. */
+  readonly writeField: (key: string, rType: SupportedRecordType, raw: string | null, actor?: string) => Promise<void>;
+
+  /** How the store raises serials, if it manages them. */
+  readonly serialScheme?: SerialScheme;
+};
+
+/** A change to one record set, as the history stream holds it. */
+export type HistoryEntry = {
+  /** The id of the stream entry */
+  id: string;
+
+  /** When the change was written, in milliseconds since the epoch */
+  timestamp: number;
+
+  name: string;
+  type: SupportedRecordType;
+
+  /** The record set before the change, or null if there was none */
+  before: StoredRecordSet | null;
+
+  /** The record set after the change, or null if it was deleted */
+  after: StoredRecordSet | null;
+
+  /** Who made the change, if the write named them */
+  actor?: string;
+};
+
+/** A change to one record set, with the record sets as they are stored. */
+export type RawChange = {
+  name: string;
+  type: SupportedRecordType;
+  before?: string;
+  after?: string;
+  actor?: string;
+};
+
+/**
+ * The record sets a write to one name changed.
+ * @param name The name the write went to
+ * @param before The hash fields the write touched, before it
+ * @param after The same fields after the write, missing if they were deleted
+ * @param actor Who made the write
+ */
+export function changedRecordSets(
+  name: string,
+  before: Record<string, string>,
+  after: Record<string, string>,
+  actor?: string,
+): RawChange[] {
+  const types = [...new Set([...Object.keys(before), ...Object.keys(after)])] as SupportedRecordType[];
+
+  return types
+    .filter((type) => before[type] !== after[type])
+    .map((type) => ({ name, type, before: before[type], after: after[type], actor }));
+}
+
+/**
+ * The fields of the stream entry for a change. Missing record sets and actors are left out.
+ * @param change The change
+ */
+export function encodeChange(change: RawChange): string[] {
+  return Object.entries(change).flatMap(([field, value]) => (value === undefined ? [] : [field, value as string]));
+}
+
+/**
+ * Read a change back from its stream entry.
+ * @param fields The fields of the stream entry, as a flat list of names and values
+ */
+export function decodeChange(fields: string[]): RawChange {
+  const change: Record<string, string> = {};
+  for (let i = 0; i < fields.length; i += 2) {
+    change[fields[i]] = fields[i + 1];
+  }
+
+  return change as RawChange;
+}
+
+/**
+ * Turn a stream entry into a history entry.
+ * @param id The id of the stream entry
+ * @param fields The fields of the stream entry
+ */
+export function toHistoryEntry(id: string, fields: string[]): HistoryEntry {
+  const { name, type, before, after, actor } = decodeChange(fields);
+
+  return {
+    id,
+    timestamp: Number(id.split('-')[0]),
+    name,
+    type,
+    before: before === undefined ? null : decodeRecordSet(before),
+    after: after === undefined ? null : decodeRecordSet(after),
+    ...(actor === undefined ? {} : { actor }),
+  };
+}
+
+/**
+ * The history of the record set changes of a store, kept in Redis streams. The history is read,
+ * and rolled back to, whether or not the store records it.
+ */
+export class ChangeHistory {
+  private context: HistoryContext;
+  private options?: HistoryOptions & { maxEntries: number };
+
+  /**
+   * @param context The store the history belongs to
+   * @param options The retention, or undefined if the store doesn't record its changes
+   */
+  constructor(context: HistoryContext, options?: HistoryOptions) {
+    this.context = context;
+    if (options) {
+      this.options = { maxEntries: options.maxEntries ?? 100000, maxAge: options.maxAge };
+    }
+  }
+
+  /** Whether changes are recorded. */
+  get enabled(): boolean {
+    return this.options !== undefined;
+  }
+
+  /**
+   * Append the record sets a write changed to the history, and trim it to its retention.
+   * @param changes The hash fields the write touched by key, before and after the write
+   * @param actor Who made the write
+   */
+  async record(changes: KeyChange[], actor?: string): Promise<void> {
+    if (!this.options) {
+      return;
+    }
+
+    const { client, redisKey, keyToName } = this.context;
+    const { maxEntries, maxAge } = this.options;
+    const streams = new Set([redisKey(HISTORY_KEY)]);
+    for (const { key, before, after } of changes) {
+      const nameKey = redisKey(HISTORY_KEY_PREFIX + key);
+      for (const change of changedRecordSets(keyToName(key), before, after, actor)) {
+        const fields = encodeChange(change);
+        const id = await client.xadd(redisKey(HISTORY_KEY), 'MAXLEN', '~', maxEntries, '*', ...fields);
+        // the entry keeps its id in the stream of the name, unless a store writing the name at the
+        // same moment added a later entry there first
+        await client
+          .xadd(nameKey, 'MAXLEN', '~', maxEntries, id!, ...fields)
+          .catch(() => client.xadd(nameKey, 'MAXLEN', '~', maxEntries, '*', ...fields));
+        streams.add(nameKey);
+      }
+    }
+
+    if (maxAge !== undefined) {
+      for (const stream of streams) {
+        await client.xtrim(stream, 'MINID', '~', Date.now() - maxAge * 1000);
+      }
+    }
+  }
+
+  /**
+   * Read the changes in the history, oldest first, in pages so large histories don't block Redis.
+   * @param key The history, `HISTORY_KEY`, or the history of a name below `HISTORY_KEY_PREFIX`
+   * @param start The stream id to start from, inclusive
+   * @param end The stream id to end at, inclusive
+   */
+  private async *range(key: string, start: string, end: string): AsyncGenerator<{ id: string; fields: string[] }> {
+    const { client, redisKey } = this.context;
+    let from = start;
+    for (;;) {
+      const page = await client.xrange(redisKey(key), from, end, 'COUNT', 1000);
+      for (const [id, fields] of page) {
+        yield { id, fields };
+      }
+
+      if (page.length < 1000) {
+        return;
+      }
+
+      from = `(${page[page.length - 1][0]}`;
+    }
+  }
+
+  /**
+   * Read the history of a name: the changes to its record sets, oldest first. Only the stream of
+   * the name is read.
+   * @param name The domain name
+   * @param query Optionally, the time span to read, and how many changes at most
+   */
+  async read(name: string, query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    const entries: HistoryEntry[] = [];
+    for await (const { id, fields } of this.range(
+      HISTORY_KEY_PREFIX + this.context.nameToKey(name),
+      query.since === undefined ? '-' : `${Number(query.since) + 1}`,
+      query.until === undefined ? '+' : `${Number(query.until)}`,
+    )) {
+      entries.push(toHistoryEntry(id, fields));
+    }
+
+    return query.limit === undefined ? entries : entries.slice(-query.limit);
+  }
+
+  /**
+   * Restore the record sets of a name, or of every name in a zone, to what they held at a point in
+   * time, by undoing the changes made since.
+   * @param name The domain name, or the zone apex
+   * @param at The point in time, in milliseconds since the epoch
+   * @param options Whether to roll back the zone, and who makes the rollback
+   * @returns The number of record sets restored
+   */
+  async rollback(name: string, at: Date | number, options: RollbackOptions = {}): Promise<number> {
+    const { client, redisKey, nameToKey, writeField } = this.context;
+    const origin = nameToKey(name);
+    const restored = new Map<string, Map<SupportedRecordType, string | null>>();
+    // a name has a history of its own, a zone is found in the whole history
+    const history = options.zone ? HISTORY_KEY : HISTORY_KEY_PREFIX + origin;
+    for await (const { fields } of this.range(history, `${Number(at) + 1}`, '+')) {
+      const change = decodeChange(fields);
+      const key = nameToKey(change.name);
+      const inScope = key === origin || (options.zone && (origin === '' || key.startsWith(`${origin}:`)));
+      const types = restored.get(key) ?? new Map<SupportedRecordType, string | null>();
+      if (inScope && !types.has(change.type)) {
+        types.set(change.type, change.before ?? null);
+        restored.set(key, types);
+      }
+    }
+
+    // the SOA last: the serial isn't rolled back, it keeps rising past the one the zone has now
+    const writes = [...restored].flatMap(([key, types]) => [...types].map(([rType, raw]) => ({ key, rType, raw })));
+    let count = 0;
+    for (const { key, rType, raw } of _sortBy(writes, ({ rType }) => rType === 'SOA')) {
+      const current = await client.hget(redisKey(key), rType);
+      const next = rType === 'SOA' && raw !== null && current !== null ? this.keepSerial(raw, current) : raw;
+      if (current !== next) {
+        await writeField(key, rType, next, options.actor);
+        count++;
+      }
+    }
+
+    return count;
+  }
+
+  /**
+   * The SOA record set a rollback restores, with the current serial, raised if the serial scheme
+   * is set and the rest of the record set changes.
+   * @param raw The stored SOA record set to restore
+   * @param current The stored SOA record set the zone has now
+   */
+  private keepSerial(raw: string, current: string): string {
+    const restored = decodeRecordSet<'SOA'>(raw);
+    const { serial } = decodeRecordSet<'SOA'>(current).records[0].data;
+    restored.records[0] = { ...restored.records[0], data: { ...restored.records[0].data, serial } };
+    const next = encodeRecordSet(restored);
+
+    return next !== current && this.context.serialScheme
+      ? bumpSerial(next, this.context.serialScheme, new Date())[0]
+      : next;
+  }
+
+  /**
+   * Follow the history as changes are made, on a dedicated connection. Ends when `signal` aborts, or
+   * when the loop consuming it does.
+   * @param options Where to start, and the signal to stop at
+   */
+  async *tail(options: TailHistoryOptions = {}): AsyncGenerator<HistoryEntry> {
+    const { signal } = options;
+    const connection = this.context.client.duplicate();
+    const abort = () => connection.disconnect();
+    signal?.addEventListener('abort', abort);
+
+    try {
+      let last = options.since ?? '$';
+      while (!signal?.aborted) {
+        const streams = await connection
+          .xread('BLOCK', 0, 'STREAMS', this.context.redisKey(HISTORY_KEY), last)
+          .catch((err: unknown) => {
+            if (signal?.aborted) {
+              return null;
+            }
+
+            throw err;
+          });
+        for (const [id, fields] of streams?.[0]?.[1] ?? []) {
+          last = id;
+          yield toHistoryEntry(id, fields);
+        }
+      }
+    } finally {
+      signal?.removeEventListener('abort', abort);
+      connection.disconnect();
+    }
+  }
+}
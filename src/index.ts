@@ -1,22 +1,509 @@
 import { Store } from 'dinodns/plugins/storage';
-import { SupportedAnswer, Handler, SupportedRecordType, ZoneData, ZoneDataMap } from 'dinodns/types';
-import Redis from 'ioredis';
-import type { RedisOptions } from 'ioredis';
-import { RecordType } from 'dns-packet';
-import { isEqual as _isEqual } from 'lodash';
+import {
+  DNSRequest,
+  DNSResponse,
+  SupportedAnswer,
+  Handler,
+  SupportedRecordType,
+  ZoneData,
+  ZoneDataMap,
+} from 'dinodns/types';
+import Redis, { Cluster } from 'ioredis';
+import type { ClusterNode, ClusterOptions, RedisOptions } from 'ioredis';
+import * as dnsPacket from 'dns-packet';
+import { AUTHORITATIVE_ANSWER, RecordType } from 'dns-packet';
+import { groupBy as _groupBy, isEqual as _isEqual, omit as _omit, pick as _pick, uniqWith as _uniqWith } from 'lodash';
 import { EventEmitter } from 'events';
+import { AsyncLocalStorage } from 'async_hooks';
+import { performance } from 'perf_hooks';
+import { SupportedNetworkType } from 'dinodns/common';
+import {
+  DEFAULT_TTL,
+  RecordMap,
+  ResolvedRecord,
+  StoredRecordSet,
+  WriteOptions,
+  decodeRecordSet,
+  encodeRecordSet,
+  hoistTtl,
+  metadataOf,
+  resolveRecordSet,
+} from './records';
+import { registerScripts } from './scripts';
+import { KeyChange, RedisBackend, StoreContext } from './backend';
+import { LookupTimeoutError, RecordValidationError, WriteConflictError } from './errors';
+import {
+  MigrationOptions,
+  MigrationResult,
+  NameMigrationResult,
+  PrefixMigrationOptions,
+  isRecordHash,
+  migrateToHashTags,
+  migrateToCanonicalNames,
+  migrateToPrefix,
+} from './migrations';
+import { ZoneRecord, normalizeOrigin, parseZone, serializeZone } from './zonefile';
+import { compareKeys, keyToName, nameToKey } from './names';
+import { AnswerCache, AnswerCacheOptions, CacheStats } from './cache';
+import {
+  UPDATE_OPCODE,
+  UpdateMessage,
+  UpdateRcode,
+  ZoneSnapshot,
+  applyUpdates,
+  checkPrerequisites,
+  prescanUpdates,
+  updateMessageOf,
+} from './update';
+import { TsigError, TsigKey, decodeTsigKey, encodeTsig, signResponse, verifyTsig } from './tsig';
+import { JournalEntry, JournalOptions, JournalRecord, ZoneJournal, collectDiffs, incrementalTransfer } from './journal';
+import { SerialScheme, bumpSerial, serialGreater } from './serial';
+import { AnswerPolicy, Random, decodeAnswerPolicy, selectRecords } from './selection';
+import { EndpointHealth, HealthState, ResolvedHealthCheck } from './health';
+import { StoreViews, VIEW_KEY_PREFIX, ViewOptions } from './views';
+import { BreakerState, CircuitBreaker } from './breaker';
+import { PtrMaintainer } from './ptr';
+import { hashTag, isCluster, keySlot, removeHashTag, scanTargets } from './cluster';
+import { LookupOutcome, StoreMetrics, WriteOperation, countRoundTrips } from './metrics';
+import {
+  ChangeHistory,
+  HistoryEntry,
+  HistoryOptions,
+  HistoryQuery,
+  RollbackOptions,
+  TailHistoryOptions,
+} from './history';
+import {
+  StoredDataIssue,
+  isSupportedRecordType,
+  validateCname,
+  validateName,
+  validateRecord,
+  validateWriteOptions,
+} from './validation';
+
+export {
+  COMPARE_AND_SET_HASHES_SCRIPT,
+  COMPARE_AND_SET_SCRIPT,
+  LOOKUP_SCRIPT,
+  WILDCARD_LOOKUP_SCRIPT,
+} from './scripts';
+export {
+  LookupTimeoutError,
+  RecordValidationError,
+  StoredValueError,
+  ViewNetworkError,
+  WriteConflictError,
+  ZoneFileError,
+} from './errors';
+export { StoredDataIssue, ValidationIssue } from './validation';
+export { BreakerState } from './breaker';
+export {
+  MigrationOptions,
+  MigrationResult,
+  NameMigrationResult,
+  PrefixMigrationOptions,
+  migrateToCanonicalNames,
+  migrateToHashTags,
+  migrateToPrefix,
+} from './migrations';
+export { hashTag, keySlot } from './cluster';
+export { ZoneRecord, ParseZoneOptions, SerializeZoneOptions, parseZone, serializeZone } from './zonefile';
+export { AnswerCacheOptions, CacheStats } from './cache';
+export { JournalEntry, JournalOptions, JournalRecord, ZoneDiff } from './journal';
+export { HistoryEntry, HistoryOptions, HistoryQuery, RollbackOptions, TailHistoryOptions } from './history';
+export { reverseName } from './ptr';
+export { SerialScheme, nextSerial, serialGreater } from './serial';
+export { AnswerPolicy, Random } from './selection';
+export { ViewNetwork, ViewOptions, matchView, parseNetwork, parseViewNetworks } from './views';
+export {
+  HealthCheck,
+  HealthChecker,
+  HealthCheckerOptions,
+  HealthState,
+  ResolvedHealthCheck,
+  probe,
+  resolveHealthCheck,
+} from './health';
+export { AdminApi, AdminApiOptions, AdminToken } from './admin';
+export { BackendTransaction, RedisBackend, StreamEntry } from './backend';
+export { MemoryDatabase, MemoryRedis, MemoryTransaction } from './memory';
+export {
+  ErrorEvent,
+  LookupEvent,
+  LookupOutcome,
+  PROMETHEUS_CONTENT_TYPE,
+  PrometheusMetrics,
+  PrometheusMetricsOptions,
+  QueryEvent,
+  StoreMetrics,
+  WriteEvent,
+  WriteOperation,
+} from './metrics';
+export {
+  UpdateMessage,
+  UpdateRcode,
+  UpdateRecord,
+  UpdateSerializer,
+  decodeUpdate,
+  encodeUpdate,
+  updateMessageOf,
+} from './update';
+export {
+  TsigError,
+  TsigKey,
+  TsigRecord,
+  computeMac,
+  decodeTsig,
+  decodeTsigKey,
+  encodeTsig,
+  signMessage,
+  signResponse,
+  verifyTsig,
+} from './tsig';
+export {
+  DEFAULT_TTL,
+  RecordMap,
+  RecordMetadata,
+  ResolvedRecord,
+  StoredRecord,
+  StoredRecordSet,
+  WriteOptions,
+} from './records';
 
 export type RedisStoreOptions = {
-  /** An optional redis client */
-  client?: Redis;
+  /** An optional redis client, connected to a single server or to a cluster */
+  client?: RedisBackend;
+
+  /** Connects to a Redis Cluster through the given nodes, instead of to a single server. */
+  cluster?: {
+    nodes: ClusterNode[];
+    options?: ClusterOptions;
+  };
+
+  /** Connects to the master of a Sentinel deployment, instead of to a fixed server. */
+  sentinel?: SentinelOptions;
+
+  /**
+   * Wraps the top labels of every key in a hash tag, so that the keys of names sharing them land in
+   * the same cluster hash slot: with 2, `www.example.com` is stored under `{com:example}:www`. Zones
+   * at least this many labels deep then keep all their keys in one slot. Disabled by default.
+   */
+  hashTagLabels?: number;
 
   /** Whether the store should emit cache requests. Defaults to true. */
   shouldCache?: boolean;
+
+  /** The TTL used for records stored without one, in seconds. Defaults to 300. */
+  defaultTtl?: number;
+
+  /**
+   * How wildcard lookups are performed. `script` resolves the exact match and the whole wildcard
+   * walk in a single round trip with a server-side Lua script, `walk` sends one command per
+   * candidate key. Defaults to `script`.
+   */
+  lookupStrategy?: LookupStrategy;
+
+  /**
+   * How many times `append` and `delete` retry when another writer changes the same record set
+   * between their read and their write. Defaults to 100.
+   */
+  maxWriteAttempts?: number;
+
+  /**
+   * A prefix prepended to every key the store reads or writes, including wildcard keys and the
+   * root wildcard, so that several stores can share one database. Include the separator, e.g.
+   * `staging:`. The prefix is applied by the store rather than passed to ioredis, so it also
+   * applies to clients passed in with `client`.
+   */
+  keyPrefix?: string;
+
+  /**
+   * Whether the handler answers NXDOMAIN or NODATA for names below a zone apex, that is a name
+   * holding an SOA record, that it has no records for. The zone's SOA is added to the authority
+   * section so resolvers can cache the negative answer. Defaults to true.
+   */
+  negativeAnswers?: boolean;
+
+  /**
+   * How many CNAMEs the handler follows when a name has a CNAME instead of the requested type.
+   * With 0, only the CNAME itself is answered. Defaults to 8.
+   */
+  maxCnameChain?: number;
+
+  /**
+   * Whether the handler adds in-store A and AAAA records for the targets of MX, NS and SRV
+   * answers to the additional section. Defaults to true.
+   */
+  additionalRecords?: boolean;
+
+  /**
+   * How wildcards are matched. `legacy` answers from the closest ancestor wildcard whenever the
+   * queried name has no records of the requested type. `rfc4592` only synthesizes answers for
+   * names that don't exist, from the wildcard of the closest existing ancestor, and treats names
+   * with descendants as existing. Defaults to `legacy`.
+   */
+  wildcardMode?: WildcardMode;
+
+  /**
+   * Whether the root wildcard `*` answers names nothing else matches. Defaults to true in
+   * `legacy` mode and to false in `rfc4592` mode.
+   */
+  rootWildcard?: boolean;
+
+  /**
+   * Enables an in-process LRU cache of lookup results, bounded by entry count and age. Entries are
+   * evicted when any store sharing the database writes to the names they depend on. Disabled by
+   * default.
+   */
+  cache?: AnswerCacheOptions;
+
+  /**
+   * The channel writes are announced on, so that caching stores sharing the database evict what
+   * the write affects, or false to not announce writes. Defaults to `<keyPrefix>dinodns:invalidate`.
+   */
+  invalidationChannel?: string | false;
+
+  /**
+   * Whether `updateHandler` applies UPDATE messages that aren't signed with a TSIG key. Defaults
+   * to false, which refuses them.
+   */
+  allowUnsignedUpdates?: boolean;
+
+  /**
+   * Keeps a journal of the changes written to each zone, which `transferHandler` answers IXFR
+   * queries from. Disabled by default.
+   */
+  journal?: JournalOptions;
+
+  /**
+   * Appends every change to a record set to a Redis stream, with who made it, for `readHistory`,
+   * `rollback` and `tailHistory`. Disabled by default.
+   */
+  history?: HistoryOptions;
+
+  /**
+   * Keeps a PTR record pointing back at every name written to A and AAAA records, and removes it
+   * once the name no longer has the address. PTR records the store didn't write are left alone.
+   * Disabled by default.
+   */
+  managePtr?: boolean;
+
+  /** The addresses of the secondaries `transferHandler` answers. Defaults to none. */
+  allowTransfer?: string[];
+
+  /**
+   * Raises the SOA serial of the enclosing zone on every write, atomically with the write, using
+   * the given scheme. Writes to the SOA itself are left alone. Disabled by default.
+   */
+  serialScheme?: SerialScheme;
+
+  /** Whether to emit a `zoneChanged` event after every write to a zone. Defaults to false. */
+  emitZoneChanged?: boolean;
+
+  /**
+   * How the handler picks and orders the records of A, AAAA and SRV sets that have no policy of
+   * their own set with `setAnswerPolicy`. Defaults to `ordered`.
+   */
+  answerPolicy?: AnswerPolicy;
+
+  /** The source of random numbers for the `random` and `weighted` policies. Defaults to `Math.random`. */
+  random?: Random;
+
+  /**
+   * Enables split-horizon views: the handler answers each query from the view the client's
+   * address belongs to, by the networks given here and those stored with `setView`, and from the
+   * default view otherwise. Disabled by default.
+   */
+  views?: ViewOptions;
+
+  /**
+   * Makes the handler time lookups out, stop sending them to Redis after repeated failures, and
+   * serve the last answers it gave while Redis is unavailable (RFC 8767), or SERVFAIL. Disabled by
+   * default, which lets lookups take as long as Redis does and errors propagate.
+   */
+  resilience?: ResilienceOptions;
+
+  /**
+   * Whether `set` and `append` check records against the schema of their type, and that a CNAME
+   * doesn't share its name with other data, throwing a `RecordValidationError` otherwise. Defaults
+   * to true.
+   */
+  validateWrites?: boolean;
+
+  /**
+   * Reports lookups by record type and outcome, queries, writes and errors, with their latency and
+   * the Redis round trips they took, to a `PrometheusMetrics` or any other `StoreMetrics`.
+   * Disabled by default.
+   */
+  metrics?: StoreMetrics;
 } & RedisOptions;
 
+export type SentinelOptions = Required<Pick<RedisOptions, 'sentinels' | 'name'>> &
+  Pick<RedisOptions, 'role' | 'sentinelUsername' | 'sentinelPassword' | 'enableTLSForSentinelMode' | 'sentinelTLS'>;
+
+export type ResilienceOptions = {
+  /** How long the handler waits for the lookups of a query, in milliseconds. Defaults to 1000. */
+  lookupTimeout?: number;
+
+  /** How many failed or timed out queries in a row open the circuit breaker. Defaults to 5. */
+  failureThreshold?: number;
+
+  /** How long the breaker stays open before a query tries Redis again, in milliseconds. Defaults to 10000. */
+  resetTimeout?: number;
+
+  /** The TTL stale answers are served with at most, in seconds. Defaults to 30. */
+  staleTtl?: number;
+
+  /** How long answers are kept to be served stale, in seconds. Defaults to 86400. */
+  maxStaleAge?: number;
+
+  /** The most answers kept to be served stale. Defaults to 10000. */
+  maxStaleEntries?: number;
+};
+
+/** The payload of the `zoneChanged` event. */
+export type ZoneChange = {
+  /** The zone apex */
+  zone: string;
+
+  /** The zone's serial after the write */
+  serial: number;
+
+  /** The view the zone belongs to, unless it's the default view */
+  view?: string;
+};
+
+export type LookupStrategy = 'script' | 'walk';
+
+export type WildcardMode = 'legacy' | 'rfc4592';
+
+/**
+ * The key of the sorted set listing every key that holds data, which `rfc4592` mode uses to find
+ * empty non-terminals. `#` never appears in a key derived from a host name.
+ */
+const NAME_INDEX_KEY = '#names';
+
+/** The key of the hash holding the TSIG keys UPDATE messages may be signed with, by key name. */
+const TSIG_KEYS_KEY = '#tsig';
+
+/** The key of the hash holding the answer policies set on record sets, by `<key>/<type>`. */
+const ANSWER_POLICIES_KEY = '#policies';
+
+/** The record types `answerPolicy` applies to. */
+const BALANCED_TYPES: SupportedRecordType[] = ['A', 'AAAA', 'SRV'];
+
+/** The names of the response codes, for the metrics. */
+const RCODE_NAMES: Record<number, string> = Object.fromEntries(
+  Object.entries(UpdateRcode).map(([name, rcode]) => [rcode, name]),
+);
+
+/** The apex of a zone the store is authoritative for, found through its SOA record. */
+export type ZoneApex = {
+  /** The name of the apex */
+  name: string;
+
+  /** The store key of the apex */
+  key: string;
+
+  /** The zone's SOA record */
+  soa: ResolvedRecord<'SOA'>;
+};
+
+export type ImportZoneOptions = {
+  /** The origin relative names in the zone file are completed with. */
+  origin: string;
+
+  /** Whether to merge the zone into the stored data or replace the stored zone. Defaults to `merge`. */
+  mode?: 'replace' | 'merge';
+
+  /** Who makes the import, for the history. */
+  actor?: string;
+};
+
+/** What the handler answers a query with, worked out before the response is touched. */
+type QueryResult = {
+  rcode: number;
+  answers: SupportedAnswer[];
+  additionals?: SupportedAnswer[];
+
+  /** The SOA of negative answers, which are authoritative */
+  authorities?: SupportedAnswer[];
+
+  /** Whether the answer is served stale */
+  stale?: boolean;
+};
+
+/**
+ * Set the RCODE of a response. dinodns' rcode setter and its `errors` helpers don't know every
+ * code, or set the wrong one, so the bits are set directly.
+ * @param res The response
+ * @param rcode The response code
+ */
+function setRcode(res: DNSResponse, rcode: number): void {
+  res.packet.flags = (res.packet.flags & 0xfff0) | rcode;
+}
+
+/**
+ * Wait for a promise, giving up after a timeout.
+ * @param promise The promise
+ * @param timeout The timeout, in milliseconds
+ */
+function withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const expired = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new LookupTimeoutError(timeout)), timeout);
+  });
+
+  return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Escape the glob characters SCAN's MATCH option interprets.
+ * @param value The literal to escape
+ */
+function escapeGlob(value: string): string {
+  return value.replace(/[*?[\]\\]/g, '\\$&');
+}
+
 export class RedisStore extends EventEmitter implements Store {
-  private client: Redis;
+  private client: RedisBackend;
+  private hashTagLabels = 0;
   private shouldCache = true;
+  private defaultTtl = DEFAULT_TTL;
+  private lookupStrategy: LookupStrategy = 'script';
+  private maxWriteAttempts = 100;
+  private keyPrefix = '';
+  private negativeAnswers = true;
+  private maxCnameChain = 8;
+  private additionalRecords = true;
+  private wildcardMode: WildcardMode = 'legacy';
+  private rootWildcard = true;
+  private cache?: AnswerCache<Record<string, string> | null>;
+  private invalidationChannel: string | false = 'dinodns:invalidate';
+  private subscriber?: RedisBackend;
+  private allowUnsignedUpdates = false;
+  private journal: ZoneJournal;
+  private history: ChangeHistory;
+  private ptrs?: PtrMaintainer;
+  private health: EndpointHealth;
+  private allowTransfer: string[] = [];
+  private serialScheme?: SerialScheme;
+  private emitZoneChanged = false;
+  private answerPolicy: AnswerPolicy = { mode: 'ordered' };
+  private random: Random = Math.random;
+  private rotations = new Map<string, number>();
+  private options: RedisStoreOptions;
+  private views: StoreViews;
+  private fallback?: RedisStore;
+  private resilience?: Required<ResilienceOptions>;
+  private breaker?: CircuitBreaker;
+  private stale?: AnswerCache<QueryResult | null>;
+  private validateWrites = true;
+  private metrics?: StoreMetrics;
+
+  /** The round trip counters of the queries, lookups and writes in progress, outermost first */
+  private roundTrips = new AsyncLocalStorage<{ count: number }[]>();
 
   constructor(options: RedisStoreOptions) {
     super();
@@ -25,228 +512,2207 @@ export class RedisStore extends EventEmitter implements Store {
       throw new Error('RedisStore requires options');
     }
 
+    this.options = options;
+
     if (options.shouldCache) {
       this.shouldCache = options.shouldCache;
     }
 
-    if (options.client) {
-      this.client = options.client;
+    if (options.defaultTtl !== undefined) {
+      this.defaultTtl = options.defaultTtl;
+    }
 
-      return;
+    if (options.lookupStrategy) {
+      this.lookupStrategy = options.lookupStrategy;
+    }
+
+    if (options.maxWriteAttempts !== undefined) {
+      this.maxWriteAttempts = options.maxWriteAttempts;
+    }
+
+    if (options.negativeAnswers !== undefined) {
+      this.negativeAnswers = options.negativeAnswers;
+    }
+
+    if (options.maxCnameChain !== undefined) {
+      this.maxCnameChain = options.maxCnameChain;
+    }
+
+    if (options.additionalRecords !== undefined) {
+      this.additionalRecords = options.additionalRecords;
+    }
+
+    if (options.wildcardMode) {
+      this.wildcardMode = options.wildcardMode;
+    }
+
+    this.rootWildcard = options.rootWildcard ?? this.wildcardMode === 'legacy';
+
+    if (options.allowUnsignedUpdates !== undefined) {
+      this.allowUnsignedUpdates = options.allowUnsignedUpdates;
+    }
+
+    this.journal = new ZoneJournal(
+      this.context({ defaultTtl: this.defaultTtl, findZone: (name) => this.findZone(name) }),
+      options.journal,
+    );
+
+    if (options.managePtr) {
+      this.ptrs = new PtrMaintainer(
+        this.context({
+          maxWriteAttempts: this.maxWriteAttempts,
+          modify: (key, rType, update, actor) => this.modify(key, rType, update, actor),
+        }),
+      );
+    }
+
+    this.history = new ChangeHistory(
+      this.context({
+        writeField: (key, rType, raw, actor) => this.writeField(key, rType, raw, actor),
+        serialScheme: options.serialScheme,
+      }),
+      options.history,
+    );
+
+    this.health = new EndpointHealth(this.context({ recordHashes: () => this.recordHashes() }));
+
+    if (options.allowTransfer) {
+      this.allowTransfer = options.allowTransfer;
     }
 
-    this.client = new Redis(options);
+    if (options.serialScheme) {
+      this.serialScheme = options.serialScheme;
+    }
+
+    if (options.emitZoneChanged !== undefined) {
+      this.emitZoneChanged = options.emitZoneChanged;
+    }
+
+    if (options.answerPolicy) {
+      this.answerPolicy = options.answerPolicy;
+    }
+
+    if (options.random) {
+      this.random = options.random;
+    }
+
+    if (options.keyPrefix) {
+      this.keyPrefix = options.keyPrefix;
+    }
+
+    if (options.hashTagLabels) {
+      this.hashTagLabels = options.hashTagLabels;
+    }
+
+    this.invalidationChannel = options.invalidationChannel ?? this.keyPrefix + this.invalidationChannel;
+    this.views = new StoreViews(
+      this.context({
+        invalidationChannel: this.invalidationChannel,
+        invalidate: (key) => this.invalidate(key),
+        createStore: (view) => this.createViewStore(view),
+      }),
+      options.views,
+    );
+
+    if (options.resilience) {
+      this.resilience = {
+        lookupTimeout: options.resilience.lookupTimeout ?? 1000,
+        failureThreshold: options.resilience.failureThreshold ?? 5,
+        resetTimeout: options.resilience.resetTimeout ?? 10000,
+        staleTtl: options.resilience.staleTtl ?? 30,
+        maxStaleAge: options.resilience.maxStaleAge ?? 86400,
+        maxStaleEntries: options.resilience.maxStaleEntries ?? 10000,
+      };
+      this.breaker = new CircuitBreaker(this.resilience.failureThreshold, this.resilience.resetTimeout, (state) =>
+        this.emit('breakerStateChanged', state),
+      );
+      this.stale = new AnswerCache(this.resilience.maxStaleEntries, this.resilience.maxStaleAge);
+    }
+
+    if (options.validateWrites !== undefined) {
+      this.validateWrites = options.validateWrites;
+    }
+
+    // the prefix is applied by the store itself, so keep ioredis from applying it a second time
+    this.client =
+      options.client ??
+      (options.cluster
+        ? new Cluster(options.cluster.nodes, { ...options.cluster.options, keyPrefix: undefined })
+        : new Redis({ ...options, ...options.sentinel, keyPrefix: undefined }));
+    registerScripts(this.client);
+
+    if (options.metrics) {
+      this.metrics = options.metrics;
+      this.client = countRoundTrips(this.client, () => {
+        for (const counter of this.roundTrips.getStore() ?? []) {
+          counter.count++;
+        }
+      });
+    }
+
+    if (options.cache) {
+      this.cache = new AnswerCache(options.cache.maxEntries ?? 10000, options.cache.ttl ?? 60);
+    }
+
+    if ((this.cache || this.views.enabled) && this.invalidationChannel) {
+      this.subscribe(this.invalidationChannel);
+    }
+  }
+
+  /**
+   * Listen for writes announced by other stores on a dedicated connection, and evict what they
+   * affect. The caches are cleared whenever the connection is (re-)established, since announcements
+   * may have been missed while it was down.
+   * @param channel The invalidation channel
+   */
+  private subscribe(channel: string): void {
+    const subscriber = this.client.duplicate();
+    subscriber.on('ready', () => {
+      this.cache?.clear();
+      this.views.evict('*');
+    });
+    subscriber.on('message', (_channel: string, key: string) => this.evict(key));
+    subscriber.subscribe(channel).catch((err) => this.emit('error', err));
+    this.subscriber = subscriber;
+  }
+
+  /**
+   * Close the connection the store opened to receive cache invalidations. The client passed in
+   * with `client` is left open.
+   */
+  async close(): Promise<void> {
+    await this.subscriber?.quit();
+    this.subscriber = undefined;
+  }
+
+  /**
+   * Hit and miss counters of the lookup cache, or null if caching is disabled.
+   */
+  cacheStats(): CacheStats | null {
+    return this.cache?.stats() ?? null;
   }
 
   async get<T extends SupportedRecordType>(
     name: string,
     rType?: T,
     wildcards = true,
+    view?: string,
   ): Promise<Partial<ZoneDataMap> | null> {
-    let key = this.nameToKey(name);
-    // first attempt to get the data from the exact match
-    if (rType) {
-      const data = await this.client.hget(key, rType);
-      if (data) {
-        return {
-          [rType]: JSON.parse(data),
-        };
-      }
-    } else {
-      // if no type is provided, get all the data
-      const data = await this.client.hgetall(key);
+    if (view) {
+      return this.views.store(view).get(name, rType, wildcards);
+    }
 
-      if (data && Object.keys(data).length > 0) {
-        return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, JSON.parse(v)]));
-      }
+    const data = await this.lookup(name, rType, wildcards);
+    if (!data) {
+      return null;
     }
 
-    // if wildcards are enabled, try to get the data from the wildcard
-    if (!wildcards) {
+    return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, decodeRecordSet(v).records.map((r) => r.data)]));
+  }
+
+  /**
+   * Retrieve records along with their effective TTLs. Matching follows the same rules as `get`.
+   * @param name The domain name to query for
+   * @param rType The record type. If not provided, all record types are returned.
+   * @param wildcards Whether to enable wildcard matching. Defaults to `true`.
+   * @param view The view to read from, falling back to the default view. Defaults to the default view.
+   */
+  async getRecords<T extends SupportedRecordType>(
+    name: string,
+    rType?: T,
+    wildcards = true,
+    view?: string,
+  ): Promise<RecordMap | null> {
+    if (view) {
+      return this.views.store(view).getRecords(name, rType, wildcards);
+    }
+
+    const data = await this.lookup(name, rType, wildcards);
+    if (!data) {
       return null;
     }
 
-    while (key !== '') {
-      key = key
-        .split(':') // already reverse sorted, split by colon
-        .toSpliced(-1, 1) // remove the least specific domain part
-        .join(':'); // rejoin the parts
+    return Object.fromEntries(
+      Object.entries(data).map(([k, v]) => [k, resolveRecordSet(decodeRecordSet(v), this.defaultTtl)]),
+    );
+  }
 
-      const wildcardKey = key + ':*';
+  /**
+   * Find the raw hash fields answering a name, trying the exact match first and then
+   * walking up the wildcard keys. Views look names they have no records for up in the default view.
+   * @param name The domain name to query for
+   * @param rType The record type, or all types if not provided
+   * @param wildcards Whether to enable wildcard matching
+   */
+  private async lookup(
+    name: string,
+    rType: SupportedRecordType | undefined,
+    wildcards: boolean,
+  ): Promise<Record<string, string> | null> {
+    if (this.fallback) {
+      return (await this.read(name, rType, wildcards)) ?? this.fallback.lookup(name, rType, wildcards);
+    }
 
-      if (rType) {
-        const data = await this.client.hget(wildcardKey, rType);
-        if (data) {
-          return {
-            [rType]: JSON.parse(data),
-          };
-        }
-      } else {
-        const data = await this.client.hgetall(wildcardKey);
-        if (data && Object.keys(data).length > 0) {
-          return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, JSON.parse(v)]));
-        }
-      }
+    if (!this.cache) {
+      return this.read(name, rType, wildcards);
     }
 
-    // last check for the root wildcard
-    if (wildcards) {
-      const wildcardKey = '*';
-      if (rType) {
-        const data = await this.client.hget(wildcardKey, rType);
-        if (data) {
-          return JSON.parse(data);
-        }
-      } else {
-        const data = await this.client.hgetall(wildcardKey);
-        if (data && Object.keys(data).length > 0) {
-          return Object.fromEntries(Object.entries(data).map(([k, v]) => [k, JSON.parse(v)]));
-        }
-      }
+    const key = this.nameToKey(name);
+    const id = `${key}/${rType ?? ''}/${wildcards}`;
+    const cached = this.cache.get(id);
+    if (cached) {
+      return cached.value;
     }
 
-    return null;
+    const data = await this.read(name, rType, wildcards);
+    this.cache.set(id, key, data);
+
+    return data;
   }
 
   /**
-   * Resolve a queried domain name to the raw or wildcard domain name
-   * stored in the database.
-   * @param name
+   * Read the raw hash fields answering a name from Redis. See `lookup`.
+   * @param name The domain name to query for
+   * @param rType The record type, or all types if not provided
+   * @param wildcards Whether to enable wildcard matching
    */
-  async resolve(name: string): Promise<string | null> {
-    let key = this.nameToKey(name);
-    const data = await this.client.hgetall(key);
-    if (data && Object.keys(data).length > 0) {
-      return key;
+  private async read(name: string, rType: SupportedRecordType | undefined, wildcards: boolean) {
+    try {
+      const { value: match, duration, roundTrips } = await this.measure(() => this.find(name, rType, wildcards));
+      if (this.metrics) {
+        const outcome: LookupOutcome = !match?.data
+          ? 'miss'
+          : match.key === this.nameToKey(name)
+            ? 'exact'
+            : 'wildcard';
+        this.metrics.lookup({ type: rType ?? 'ANY', outcome, duration, roundTrips });
+      }
+
+      return match?.data ?? null;
+    } catch (err) {
+      this.metrics?.error({ operation: 'lookup', error: err });
+      throw err;
     }
+  }
 
-    while (key !== '') {
-      key = key
-        .split(':') // already reverse sorted, split by colon
-        .toSpliced(-1, 1) // remove the least specific domain part
-        .join(':'); // rejoin the parts
+  /**
+   * Find the key answering a name in this store, with its raw hash fields. See `lookup`.
+   * @param name The domain name to query for
+   * @param rType The record type, or all types if not provided
+   * @param wildcards Whether to enable wildcard matching
+   */
+  private async find(
+    name: string,
+    rType: SupportedRecordType | undefined,
+    wildcards: boolean,
+  ): Promise<{ key: string; data: Record<string, string> | null } | null> {
+    return wildcards && this.wildcardMode === 'rfc4592'
+      ? this.match(name, rType)
+      : this.findFirst(this.candidateKeys(name, wildcards, this.rootWildcard), rType);
+  }
 
-      const wildcardKey = key + ':*';
-      const data = await this.client.hgetall(wildcardKey);
-      if (data && Object.keys(data).length > 0) {
-        return wildcardKey.split(':').toReversed().join('.');
+  /**
+   * Find the key `getRecords` answers a name from, bypassing the lookup cache. Unlike `resolve`, it
+   * follows every matching rule, the record type and the root wildcard included.
+   * @param name The domain name to query for
+   * @param rType The record type. If not provided, any record type answers.
+   * @param wildcards Whether to enable wildcard matching. Defaults to `true`.
+   * @param view The view to read from, falling back to the default view. Defaults to the default view.
+   * @returns The answering key, with the view if the view's own records answer, or null if nothing does
+   */
+  async findSource(
+    name: string,
+    rType?: SupportedRecordType,
+    wildcards = true,
+    view?: string,
+  ): Promise<{ key: string; view?: string } | null> {
+    if (view) {
+      const match = await this.views.store(view).find(name, rType, wildcards);
+      if (match?.data) {
+        return { key: match.key, view };
       }
     }
 
-    return null;
+    const match = await this.find(name, rType, wildcards);
+
+    return match?.data ? { key: match.key } : null;
   }
 
   /**
-   * Stores data in the Redis store as a JSON array string. New data is appended to old data.
-   * @param name The domain pattern to set. Accepts wildcards.
-   * @param rType The data type
-   * @param data The data to store
-   * @returns
+   * Run some work, timing it and counting the commands it sends to Redis if metrics are enabled.
+   * Counting nests, so the commands of a lookup count towards the query it is made for too.
+   * @param work The work
+   * @returns What the work returned, how long it took in seconds and how many commands it sent
    */
-  async set<T extends SupportedRecordType>(name: string, rType: T, data: ZoneData[T] | ZoneData[T][]): Promise<void> {
-    const key = this.nameToKey(name);
-    if (!Array.isArray(data)) {
-      data = [data];
+  private async measure<T>(work: () => Promise<T>): Promise<{ value: T; duration: number; roundTrips: number }> {
+    if (!this.metrics) {
+      return { value: await work(), duration: 0, roundTrips: 0 };
     }
 
-    await this.client.hset(key, rType, JSON.stringify(data));
+    const counter = { count: 0 };
+    const start = performance.now();
+    const value = await this.roundTrips.run([...(this.roundTrips.getStore() ?? []), counter], work);
+
+    return { value, duration: (performance.now() - start) / 1000, roundTrips: counter.count };
   }
 
   /**
-   * Appends data to the Redis store as a JSON array string.
-   * @param name
-   * @param rType
-   * @param data
+   * Run a write, reporting it or its failure to the metrics.
+   * @param operation The write operation
+   * @param work The write
    */
-  async append<T extends SupportedRecordType>(name: string, rType: T, data: ZoneData[T]): Promise<void> {
-    const key = this.nameToKey(name);
-    const existingData = await this.client.hget(key, rType);
-    if (existingData) {
-      const parsedData = JSON.parse(existingData);
-      const newData = [...parsedData, data];
-      await this.client.hset(key, rType, JSON.stringify(newData));
+  private async measureWrite<T>(operation: WriteOperation, work: () => Promise<T>): Promise<T> {
+    try {
+      const { value, duration, roundTrips } = await this.measure(work);
+      this.metrics?.write({ operation, duration, roundTrips });
 
-      return;
+      return value;
+    } catch (err) {
+      this.metrics?.error({ operation, error: err });
+      throw err;
     }
-
-    await this.client.hset(key, rType, JSON.stringify([data]));
   }
 
-  async delete<T extends SupportedRecordType>(name: string, rType?: T, rData?: ZoneData[T]): Promise<void> {
+  /**
+   * Find the key answering a name following RFC 4592: the name itself if it exists, else the
+   * wildcard below its closest encloser, the closest existing ancestor. A name exists if it holds
+   * data or has descendants that do, so empty non-terminals block wildcards too.
+   * @param name The domain name to query for
+   * @param rType The record type, or all types if not provided
+   * @returns The answering key with its data, null if it has none of the requested type, or null
+   * altogether if the name doesn't exist
+   */
+  private async match(
+    name: string,
+    rType?: SupportedRecordType,
+  ): Promise<{ key: string; data: Record<string, string> | null } | null> {
     const key = this.nameToKey(name);
+    const labels = key.split(':');
+    const ancestors = labels.slice(1).map((_, i) => labels.slice(0, labels.length - i - 1).join(':'));
 
-    if (rType && rData) {
-      const existingData = await this.client.hget(key, rType);
-      if (existingData) {
-        const parsedData = JSON.parse(existingData);
-        const newData = parsedData.filter((d: ZoneData[T]) => !_isEqual(d, rData));
-        if (newData.length === 0) {
-          await this.client.hdel(key, rType);
-
-          return;
-        }
+    // the script derives wildcard keys from the keys it is given, which hash tags and clusters don't allow
+    if (this.lookupStrategy === 'walk' || this.hashTagLabels > 0 || isCluster(this.client)) {
+      if (await this.keyExists(key)) {
+        return { key, data: await this.fetch(key, rType) };
+      }
 
-        await this.client.hset(key, rType, JSON.stringify(newData));
+      for (const ancestor of ancestors) {
+        if (await this.keyExists(ancestor)) {
+          const source = ancestor + ':*';
+          if (!(await this.client.exists(this.redisKey(source)))) {
+            return null;
+          }
 
-        return;
+          return { key: source, data: await this.fetch(source, rType) };
+        }
       }
-    }
 
-    if (rType) {
-      await this.client.hdel(key, rType);
+      if (this.rootWildcard && (await this.client.exists(this.redisKey('*')))) {
+        return { key: '*', data: await this.fetch('*', rType) };
+      }
 
-      return;
+      return null;
     }
 
-    await this.client.del(key);
+    const keys = [NAME_INDEX_KEY, key, ...ancestors].map((k) => this.redisKey(k));
+    const result = await this.client.dinodnsWildcardLookup(
+      keys.length,
+      ...keys,
+      rType ?? '',
+      this.rootWildcard ? this.redisKey('*') : '',
+    );
+    if (!result) {
+      return null;
+    }
 
-    return;
-  }
+    const [matched, values] = result;
+    const data: Record<string, string> = {};
+    for (let i = 0; i < values.length; i += 2) {
+      data[values[i]] = values[i + 1];
+    }
 
-  nameToKey(name: string): string {
-    return name.split('.').toReversed().join(':');
+    return { key: this.storeKey(matched), data: values.length > 0 ? data : null };
   }
 
-  handler: Handler = async (req, res, next) => {
-    if (res.finished) {
-      return next();
+  /**
+   * Whether a key holds data or is an empty non-terminal, a key with descendants in the name index.
+   * @param key The store key
+   */
+  private async keyExists(key: string): Promise<boolean> {
+    if (await this.client.exists(this.redisKey(key))) {
+      return true;
     }
 
-    const { name, type } = req.packet.questions[0];
-    const result = await this.get(name, type as Exclude<RecordType, 'OPT'>);
-    if (result) {
-      const answers: SupportedAnswer[] = Object.entries(result)
-        .map(([key, value]) => {
-          return value.map((data) => {
-            return {
-              name: name,
-              type: key,
-              ttl: 300,
-              data,
-            } as SupportedAnswer;
+    const member = this.indexMember(key);
+    const descendants = await this.client.zrangebylex(
+      this.redisKey(NAME_INDEX_KEY),
+      `[${member}:`,
+      `(${member};`,
+      'LIMIT',
+      0,
+      1,
+    );
+
+    return descendants.length > 0;
+  }
+
+  /**
+   * List the keys that may answer a name, most specific first: the exact key, then the wildcard
+   * key of every ancestor, then the root wildcard.
+   * @param name The domain name to query for
+   * @param wildcards Whether to include wildcard keys
+   * @param root Whether to include the root wildcard `*`
+   */
+  private candidateKeys(name: string, wildcards: boolean, root = true): string[] {
+    const key = this.nameToKey(name);
+    if (!wildcards) {
+      return [key];
+    }
+
+    // already reverse sorted, so dropping labels from the end walks up the hierarchy
+    const labels = key.split(':');
+    const keys = [key];
+    for (let i = labels.length - 1; i > 0; i--) {
+      keys.push([...labels.slice(0, i), '*'].join(':'));
+    }
+
+    if (root) {
+      keys.push('*');
+    }
+
+    return keys;
+  }
+
+  /**
+   * Find the first of the given keys holding data.
+   * @param keys The keys to try, in order
+   * @param rType The field to read, or all fields if not provided
+   */
+  private async findFirst(
+    keys: string[],
+    rType?: SupportedRecordType,
+  ): Promise<{ key: string; data: Record<string, string> } | null> {
+    if (this.lookupStrategy === 'walk') {
+      for (const key of keys) {
+        const data = await this.fetch(key, rType);
+        if (data) {
+          return { key, data };
+        }
+      }
+
+      return null;
+    }
+
+    // a script may only touch keys of one hash slot on a cluster, so the keys are tried in runs of one slot each
+    const runs: string[][] = [];
+    for (const key of keys) {
+      const run = runs[runs.length - 1];
+      if (run && (!isCluster(this.client) || keySlot(this.redisKey(run[0])) === keySlot(this.redisKey(key)))) {
+        run.push(key);
+      } else {
+        runs.push([key]);
+      }
+    }
+
+    for (const run of runs) {
+      const result = await this.client.dinodnsLookup(run.length, ...run.map((k) => this.redisKey(k)), rType ?? '');
+      if (result) {
+        const [index, values] = result;
+        const data: Record<string, string> = {};
+        for (let i = 0; i < values.length; i += 2) {
+          data[values[i]] = values[i + 1];
+        }
+
+        // Lua arrays are 1-indexed
+        return { key: run[index - 1], data };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Fetch either one field or every field of a hash.
+   * @param key The hash key
+   * @param rType The field to fetch, or all fields if not provided
+   */
+  private async fetch(key: string, rType?: SupportedRecordType): Promise<Record<string, string> | null> {
+    if (rType) {
+      const data = await this.client.hget(this.redisKey(key), rType);
+
+      return data ? { [rType]: data } : null;
+    }
+
+    const data = await this.client.hgetall(this.redisKey(key));
+
+    return data && Object.keys(data).length > 0 ? data : null;
+  }
+
+  /**
+   * Resolve a queried domain name to the raw or wildcard domain name
+   * stored in the database.
+   * @param name
+   */
+  async resolve(name: string): Promise<string | null> {
+    if (this.wildcardMode === 'rfc4592') {
+      const match = await this.match(name);
+      if (!match) {
+        return null;
+      }
+
+      return match.key === this.nameToKey(name) ? match.key : this.keyToName(match.key);
+    }
+
+    const keys = this.candidateKeys(name, true, false);
+    const match = await this.findFirst(keys);
+    if (!match) {
+      return null;
+    }
+
+    if (match.key === keys[0]) {
+      return match.key;
+    }
+
+    return this.keyToName(match.key);
+  }
+
+  /**
+   * Find the zone a name belongs to: the closest enclosing name, the name itself included,
+   * that holds an SOA record.
+   * @param name The domain name
+   * @returns The zone apex, or null if the name isn't below any stored zone
+   */
+  async findZone(name: string): Promise<ZoneApex | null> {
+    const labels = this.nameToKey(name).split(':');
+    const keys = labels.map((_, i) => labels.slice(0, labels.length - i).join(':'));
+    const match = await this.findFirst(keys, 'SOA');
+    if (!match) {
+      return null;
+    }
+
+    const [soa] = resolveRecordSet(decodeRecordSet<'SOA'>(match.data.SOA), this.defaultTtl);
+
+    return { name: this.keyToName(match.key), key: match.key, soa };
+  }
+
+  /**
+   * Whether a name owns any records, directly or through a wildcard inside its zone.
+   * @param name The domain name
+   * @param zone The zone the name belongs to
+   */
+  private async nameExists(name: string, zone: ZoneApex): Promise<boolean> {
+    if (this.wildcardMode === 'rfc4592') {
+      // the closest encloser of a name in the zone is the apex at the highest, so any wildcard
+      // that matches is inside the zone
+      return (await this.match(name)) !== null;
+    }
+
+    // without the name index, finding an empty non-terminal takes a SCAN of the whole database, so
+    // legacy mode answers them NXDOMAIN
+    const keys = this.candidateKeys(name, true, false).filter(
+      (key, i) => i === 0 || key.slice(0, -2) === zone.key || key.startsWith(zone.key + ':'),
+    );
+
+    return (await this.findFirst(keys)) !== null;
+  }
+
+  /**
+   * Stores data in the Redis store as a JSON array string, overwriting any data stored for the type.
+   * @param name The domain pattern to set. Accepts wildcards.
+   * @param rType The data type
+   * @param data The data to store
+   * @param options Optionally, a TTL that applies to the whole record set, the view to write to and who makes the write
+   * @returns
+   */
+  async set<T extends SupportedRecordType>(
+    name: string,
+    rType: T,
+    data: ZoneData[T] | ZoneData[T][],
+    options: WriteOptions = {},
+  ): Promise<void> {
+    if (options.view) {
+      return this.views.store(options.view).set(name, rType, data, _omit(options, 'view'));
+    }
+
+    return this.measureWrite('set', async () => {
+      const key = this.nameToKey(name);
+      const records = (Array.isArray(data) ? data : [data]) as ZoneData[T][];
+      await this.validateWrite(name, key, rType, data, options, false);
+      if (options.dryRun) {
+        return;
+      }
+
+      const recordSet: StoredRecordSet<T> = {
+        ttl: options.ttl,
+        records: records.map((d) => ({ data: d, ...metadataOf(options) })),
+      };
+      await this.writeField(key, rType, encodeRecordSet(recordSet), options.actor);
+    });
+  }
+
+  /**
+   * Overwrite or delete one record set, raising the serial of its zone if serials are managed.
+   * @param key The hash key
+   * @param rType The hash field
+   * @param raw The encoded record set, or null to delete it
+   * @param actor Who makes the write
+   */
+  private async writeField(key: string, rType: SupportedRecordType, raw: string | null, actor?: string): Promise<void> {
+    const zone = await this.zoneToBump(key, rType);
+    if (zone) {
+      await this.modifyWithSerial(
+        key,
+        zone,
+        (hash) => (raw === null ? _omit(hash, rType) : { ...hash, [rType]: raw }),
+        actor,
+      );
+
+      return;
+    }
+
+    const before = await this.journalSnapshot(key, rType);
+    if (raw === null) {
+      await this.client.hdel(this.redisKey(key), rType);
+    } else {
+      await this.client.hset(this.redisKey(key), rType, raw);
+    }
+
+    await this.afterWrite([{ key, before, after: raw === null ? {} : { [rType]: raw } }], undefined, actor);
+  }
+
+  /**
+   * Appends data to the Redis store as a JSON array string. Safe to call from concurrent writers.
+   * @param name
+   * @param rType
+   * @param data
+   * @param options Optionally, a TTL for the appended record alone, the view to write to and who makes the write
+   */
+  async append<T extends SupportedRecordType>(
+    name: string,
+    rType: T,
+    data: ZoneData[T],
+    options: WriteOptions = {},
+  ): Promise<void> {
+    if (options.view) {
+      return this.views.store(options.view).append(name, rType, data, _omit(options, 'view'));
+    }
+
+    return this.measureWrite('append', async () => {
+      const key = this.nameToKey(name);
+      await this.validateWrite(name, key, rType, data, options, true);
+      if (options.dryRun) {
+        return;
+      }
+
+      await this.modify<T>(
+        key,
+        rType,
+        (recordSet) => {
+          const next = recordSet ?? { records: [] };
+          next.records.push({ data, ttl: options.ttl, ...metadataOf(options) });
+
+          return next;
+        },
+        options.actor,
+      );
+    });
+  }
+
+  async delete<T extends SupportedRecordType>(
+    name: string,
+    rType?: T,
+    rData?: ZoneData[T],
+    view?: string,
+    actor?: string,
+  ): Promise<void> {
+    if (view) {
+      return this.views.store(view).delete(name, rType, rData, undefined, actor);
+    }
+
+    return this.measureWrite('delete', async () => {
+      const key = this.nameToKey(name);
+
+      if (rType && rData) {
+        await this.modify<T>(
+          key,
+          rType,
+          (recordSet) => {
+            if (!recordSet) {
+              return undefined;
+            }
+
+            recordSet.records = recordSet.records.filter((r) => !_isEqual(r.data, rData));
+
+            return recordSet.records.length > 0 ? recordSet : null;
+          },
+          actor,
+        );
+
+        return;
+      }
+
+      const zone = await this.zoneToBump(key, rType);
+      if (zone) {
+        await this.modifyWithSerial(key, zone, (hash) => (rType ? _omit(hash, rType) : {}), actor);
+
+        return;
+      }
+
+      const before = await this.journalSnapshot(key, rType);
+      if (rType) {
+        await this.client.hdel(this.redisKey(key), rType);
+      } else {
+        await this.client.del(this.redisKey(key));
+      }
+
+      await this.afterWrite([{ key, before, after: {} }], undefined, actor);
+    });
+  }
+
+  /**
+   * Check a write against the schema of the record type, and that it keeps a CNAME alone at its
+   * name, unless `validateWrites` is off.
+   * @param name The owner name
+   * @param key The hash key
+   * @param rType The record type
+   * @param data The data written, a single record or, for `set`, an array of them
+   * @param options The write options
+   * @param append Whether the data is appended to the record set rather than replacing it
+   * @throws {RecordValidationError} If the write is invalid
+   */
+  private async validateWrite(
+    name: string,
+    key: string,
+    rType: SupportedRecordType,
+    data: unknown,
+    options: WriteOptions,
+    append: boolean,
+  ): Promise<void> {
+    if (!this.validateWrites && !options.dryRun) {
+      return;
+    }
+
+    const records = !append && Array.isArray(data) ? data : [data];
+    const types = await this.client.hkeys(this.redisKey(key));
+    const cnames = rType === 'CNAME' ? records.length + (append && types.includes('CNAME') ? 1 : 0) : 0;
+    const issues = [
+      ...validateName(name),
+      ...(records === data
+        ? records.flatMap((d, i) => validateRecord(rType, d, `data[${i}]`))
+        : validateRecord(rType, data)),
+      ...validateWriteOptions(options),
+      ...validateCname([...new Set([...types, rType])], cnames),
+    ];
+
+    if (issues.length > 0) {
+      throw new RecordValidationError(name, rType, issues);
+    }
+  }
+
+  /**
+   * Atomically read, modify and write back one record set. The write only goes through if the
+   * field still holds what was read, otherwise the update is retried against the fresh value.
+   * @param key The hash key
+   * @param rType The hash field
+   * @param update Receives the current record set, or null if there is none. Returns the record
+   * set to write, null to delete the field, or undefined to leave it untouched.
+   * @param actor Who makes the write
+   */
+  private async modify<T extends SupportedRecordType>(
+    key: string,
+    rType: T,
+    update: (recordSet: StoredRecordSet<T> | null) => StoredRecordSet<T> | null | undefined,
+    actor?: string,
+  ): Promise<void> {
+    const zone = await this.zoneToBump(key, rType);
+    if (zone) {
+      await this.modifyWithSerial(
+        key,
+        zone,
+        (hash) => {
+          const next = update(hash[rType] ? decodeRecordSet<T>(hash[rType]) : null);
+          if (next === undefined) {
+            return undefined;
+          }
+
+          return next ? { ...hash, [rType]: encodeRecordSet(next) } : _omit(hash, rType);
+        },
+        actor,
+      );
+
+      return;
+    }
+
+    for (let attempt = 0; attempt < this.maxWriteAttempts; attempt++) {
+      const current = await this.client.hget(this.redisKey(key), rType);
+      const next = update(current ? decodeRecordSet<T>(current) : null);
+      if (next === undefined) {
+        return;
+      }
+
+      const written = await this.client.dinodnsCompareAndSet(
+        this.redisKey(key),
+        rType,
+        current ?? '',
+        next ? encodeRecordSet(next) : '',
+      );
+      if (written) {
+        await this.afterWrite(
+          [{ key, before: current ? { [rType]: current } : {}, after: next ? { [rType]: encodeRecordSet(next) } : {} }],
+          undefined,
+          actor,
+        );
+
+        return;
+      }
+    }
+
+    throw new WriteConflictError(key, rType, this.maxWriteAttempts);
+  }
+
+  /**
+   * Find the zone whose serial a write to a key has to raise: the enclosing zone, unless serials
+   * aren't managed or the write goes to the SOA itself, or deletes the apex altogether.
+   * @param key The written key
+   * @param rType The written field, or undefined if the whole key is written
+   */
+  private async zoneToBump(key: string, rType?: string): Promise<ZoneApex | null> {
+    if (!this.serialScheme) {
+      return null;
+    }
+
+    const zone = await this.findZone(this.keyToName(key));
+    if (!zone || (zone.key === key && (rType === 'SOA' || rType === undefined))) {
+      return null;
+    }
+
+    return zone;
+  }
+
+  /**
+   * Atomically modify a hash and raise the serial of its zone: both hashes are read, and written
+   * back with a compare-and-set script that fails if either changed in the meantime, in which case
+   * the update is retried against the fresh contents.
+   * @param key The hash key
+   * @param zone The zone the key belongs to
+   * @param update Receives the current hash contents. Returns the contents to write, or undefined to
+   * leave the hash and the serial untouched, as does returning the contents unchanged.
+   * @param actor Who makes the write
+   */
+  private async modifyWithSerial(
+    key: string,
+    zone: ZoneApex,
+    update: (hash: Record<string, string>) => Record<string, string> | undefined,
+    actor?: string,
+  ): Promise<void> {
+    const keys = key === zone.key ? [key] : [key, zone.key];
+    for (let attempt = 0; attempt < this.maxWriteAttempts; attempt++) {
+      const current: Record<string, string>[] = [];
+      for (const k of keys) {
+        current.push(await this.client.hgetall(this.redisKey(k)));
+      }
+
+      const updated = update({ ...current[0] });
+      if (updated === undefined || _isEqual(updated, current[0])) {
+        return;
+      }
+
+      const next = [updated, ...current.slice(1).map((hash) => ({ ...hash }))];
+      const apex = next[next.length - 1];
+      let serial: number | undefined;
+      if (apex.SOA) {
+        [apex.SOA, serial] = bumpSerial(apex.SOA, this.serialScheme!, new Date());
+      }
+
+      const written = await this.client.dinodnsCompareAndSetHashes(
+        keys.length,
+        ...keys.map((k) => this.redisKey(k)),
+        ...current.map((hash) => JSON.stringify(hash)),
+        ...next.map((hash) => JSON.stringify(hash)),
+      );
+      if (written) {
+        const changes = keys.map((k, i) => ({ key: k, before: current[i], after: next[i] }));
+        await this.afterWrite(changes, serial === undefined ? undefined : { zone: zone.name, serial }, actor);
+
+        return;
+      }
+    }
+
+    throw new WriteConflictError(key, 'SOA', this.maxWriteAttempts);
+  }
+
+  /**
+   * Bring what depends on the stored records up to date after a write: the name index, the
+   * lookup caches, the journal, the history, managed PTR records and `zoneChanged` listeners.
+   * @param changes The hash fields the write touched by key
+   * @param change The zone change, if the write raised a serial
+   * @param actor Who made the write
+   */
+  private async afterWrite(changes: KeyChange[], change?: ZoneChange, actor?: string): Promise<void> {
+    for (const { key, after } of changes) {
+      await (Object.keys(after).length > 0 ? this.indexKey(key) : this.unindexKey(key));
+      await this.invalidate(key);
+    }
+
+    await this.journal.record(changes);
+    await this.history.record(changes, actor);
+    await this.ptrs?.maintain(changes, actor);
+    if (change) {
+      this.emitChange(change);
+    } else {
+      await this.announceZoneChanges(changes.map(({ key }) => key));
+    }
+  }
+
+  /**
+   * Emit `zoneChanged` for the zones written keys belong to, with their current serials.
+   * @param keys The written keys
+   */
+  private async announceZoneChanges(keys: string[]): Promise<void> {
+    if (!this.emitZoneChanged) {
+      return;
+    }
+
+    const zones = new Map<string, ZoneApex>();
+    for (const key of keys) {
+      const zone = await this.findZone(this.keyToName(key));
+      if (zone) {
+        zones.set(zone.key, zone);
+      }
+    }
+
+    for (const zone of zones.values()) {
+      this.emitChange({ zone: zone.name, serial: zone.soa.data.serial ?? 0 });
+    }
+  }
+
+  /**
+   * Emit a `zoneChanged` event if enabled.
+   * @param change The zone change
+   */
+  private emitChange(change: ZoneChange): void {
+    if (this.emitZoneChanged) {
+      this.emit('zoneChanged', change);
+    }
+  }
+
+  /**
+   * Import an RFC 1035 master file.
+   *
+   * In `merge` mode the records are added to what is stored, skipping records that are already
+   * present. In `replace` mode every name at or below the origin is deleted first, and the
+   * deletion and the import are applied in a single transaction.
+   * @param text The zone file contents
+   * @param options The origin relative names are completed with, and the import mode
+   * @returns The imported records
+   */
+  async importZone(text: string, options: ImportZoneOptions): Promise<ZoneRecord[]> {
+    return this.measureWrite('importZone', async () => {
+      const { mode = 'merge' } = options;
+      const records = parseZone(text, { origin: options.origin });
+
+      const groups = new Map<string, Map<SupportedRecordType, StoredRecordSet>>();
+      for (const record of records) {
+        const key = this.nameToKey(record.name);
+        const types = groups.get(key) ?? new Map<SupportedRecordType, StoredRecordSet>();
+        const recordSet = types.get(record.type) ?? { records: [] };
+        recordSet.records.push({ data: record.data, ttl: record.ttl });
+        types.set(record.type, recordSet);
+        groups.set(key, types);
+      }
+
+      if (mode === 'replace') {
+        const indexed = this.wildcardMode === 'rfc4592';
+        const replaced = await this.recordKeys(options.origin);
+        await this.validateImport(groups, new Set(replaced));
+        const before = new Map<string, Record<string, string>>();
+        for (const key of this.journal.enabled || this.history.enabled || this.ptrs ? replaced : []) {
+          before.set(key, await this.journalSnapshot(key));
+        }
+
+        const tx = this.client.multi();
+        // a cluster transaction can't span hash slots, so the name index is updated in its own
+        const index = isCluster(this.client) ? this.client.multi() : tx;
+        for (const key of replaced) {
+          tx.del(this.redisKey(key));
+          if (indexed) {
+            index.zrem(this.redisKey(NAME_INDEX_KEY), this.indexMember(key));
+          }
+        }
+
+        for (const [key, types] of groups) {
+          for (const [rType, recordSet] of types) {
+            tx.hset(this.redisKey(key), rType, encodeRecordSet(hoistTtl(recordSet)));
+          }
+
+          if (indexed) {
+            index.zadd(this.redisKey(NAME_INDEX_KEY), 0, this.indexMember(key));
+          }
+        }
+
+        await tx.exec();
+        if (index !== tx) {
+          await index.exec();
+        }
+        // evicts every name at and below the origin
+        await this.invalidate(this.nameToKey(normalizeOrigin(options.origin)));
+        const changes = [...new Set([...replaced, ...groups.keys()])].map((key) => ({
+          key,
+          before: before.get(key) ?? {},
+          after: Object.fromEntries(
+            [...(groups.get(key) ?? [])].map(([rType, recordSet]) => [rType, encodeRecordSet(hoistTtl(recordSet))]),
+          ),
+        }));
+        await this.journal.record(changes);
+        await this.history.record(changes, options.actor);
+        await this.ptrs?.maintain(changes, options.actor);
+        await this.announceZoneChanges([...groups.keys()]);
+
+        return records;
+      }
+
+      await this.validateImport(groups, new Set());
+      for (const [key, types] of groups) {
+        for (const [rType, incoming] of types) {
+          await this.modify(
+            key,
+            rType,
+            (recordSet) => {
+              const next = recordSet ?? { records: [] };
+              const added = incoming.records.filter((r) => !next.records.some((e) => _isEqual(e.data, r.data)));
+              if (added.length === 0) {
+                return undefined;
+              }
+
+              next.records.push(...added);
+
+              return recordSet ? next : hoistTtl(next);
+            },
+            options.actor,
+          );
+        }
+      }
+
+      return records;
+    });
+  }
+
+  /**
+   * Check the record sets of an import the way `set` checks them, and that every CNAME stays alone
+   * at its name once they are written, unless `validateWrites` is off.
+   * @param groups The record sets to write, by key
+   * @param replaced The keys the import empties before writing to them
+   * @throws {RecordValidationError} If a record set is invalid, before anything is written
+   */
+  private async validateImport(
+    groups: Map<string, Map<SupportedRecordType, StoredRecordSet>>,
+    replaced: Set<string>,
+  ): Promise<void> {
+    if (!this.validateWrites) {
+      return;
+    }
+
+    for (const [key, types] of groups) {
+      const name = this.keyToName(key);
+      const stored = replaced.has(key) ? {} : await this.client.hgetall(this.redisKey(key));
+      for (const [rType, recordSet] of types) {
+        const merged = [...(stored.CNAME ? decodeRecordSet(stored.CNAME).records : []), ...recordSet.records];
+        const cnames =
+          rType === 'CNAME'
+            ? _uniqWith(
+                merged.map((r) => r.data),
+                _isEqual,
+              ).length
+            : 0;
+        const issues = [
+          ...validateName(name),
+          ...recordSet.records.flatMap((record, i) => [
+            ...validateRecord(rType, record.data, `data[${i}]`),
+            ...validateWriteOptions(record).map((issue) => ({ ...issue, field: `records[${i}].${issue.field}` })),
+          ]),
+          ...validateCname([...new Set([...Object.keys(stored), ...types.keys()])], cnames),
+        ];
+
+        if (issues.length > 0) {
+          throw new RecordValidationError(name, rType, issues);
+        }
+      }
+    }
+  }
+
+  /**
+   * Export every name at or below an origin as an RFC 1035 master file.
+   * @param origin The zone apex to export
+   */
+  async exportZone(origin: string): Promise<string> {
+    const records: ZoneRecord[] = [];
+    for (const key of await this.zoneKeys(origin)) {
+      const data = await this.fetch(key);
+      for (const [rType, raw] of Object.entries(data ?? {})) {
+        const recordSet = decodeRecordSet(raw);
+        for (const r of recordSet.records) {
+          records.push({
+            name: this.keyToName(key),
+            type: rType as SupportedRecordType,
+            ttl: r.ttl ?? recordSet.ttl,
+            data: r.data,
           });
-        })
-        .flat();
+        }
+      }
+    }
+
+    return serializeZone(records, { origin, defaultTtl: this.defaultTtl });
+  }
+
+  /**
+   * List the names of a zone that hold records, in canonical order (RFC 4034, section 6.1). Names
+   * at or below another zone apex belong to that zone and are left out. Keys are listed with SCAN,
+   * so Redis isn't blocked.
+   * @param zone The zone apex
+   */
+  async listNames(zone: string): Promise<string[]> {
+    return [...(await this.zoneContents(zone)).keys()].map((key) => this.keyToName(key));
+  }
+
+  /**
+   * List the records of a zone with their effective TTLs, ordered by name like `listNames`.
+   * @param zone The zone apex
+   */
+  async listRecords(zone: string): Promise<ZoneRecord[]> {
+    const records: ZoneRecord[] = [];
+    for (const [key, data] of await this.zoneContents(zone)) {
+      for (const [rType, raw] of Object.entries(data)) {
+        for (const { data, ttl } of resolveRecordSet(decodeRecordSet(raw), this.defaultTtl)) {
+          records.push({ name: this.keyToName(key), type: rType as SupportedRecordType, ttl, data });
+        }
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Read the hashes of every name in a zone, leaving out the names of zones below it.
+   * @param zone The zone apex
+   * @returns The hashes by store key, in canonical order
+   */
+  private async zoneContents(zone: string): Promise<Map<string, Record<string, string>>> {
+    const zoneKey = this.nameToKey(normalizeOrigin(zone));
+    const contents = new Map<string, Record<string, string>>();
+    for (const key of (await this.zoneKeys(zone)).sort(compareKeys)) {
+      const data = await this.fetch(key);
+      if (data) {
+        contents.set(key, data);
+      }
+    }
+
+    const cuts = [...contents].filter(([key, data]) => key !== zoneKey && data.SOA).map(([key]) => key);
+    for (const key of contents.keys()) {
+      if (cuts.some((cut) => key === cut || key.startsWith(cut + ':'))) {
+        contents.delete(key);
+      }
+    }
+
+    return contents;
+  }
+
+  /**
+   * Read what a write is about to change, for the journal, the history and managed PTR records.
+   * Nothing is read unless one of them is enabled.
+   * @param key The store key
+   * @param rType The field the write goes to, or every field if not provided
+   */
+  private async journalSnapshot(key: string, rType?: SupportedRecordType): Promise<Record<string, string>> {
+    return this.journal.enabled || this.history.enabled || this.ptrs ? ((await this.fetch(key, rType)) ?? {}) : {};
+  }
+
+  /**
+   * Read the history of a name: the changes to its record sets, oldest first. Only the stream of
+   * the name is read.
+   * @param name The domain name
+   * @param query Optionally, the time span to read, and how many changes at most
+   */
+  async readHistory(name: string, query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+    return this.history.read(name, query);
+  }
+
+  /**
+   * Restore the record sets of a name, or of every name in a zone, to what they held at a point in
+   * time, by undoing the changes made since. The restoring writes are added to the history in turn.
+   * Only changes the history still holds are undone.
+   * @param name The domain name, or the zone apex
+   * @param at The point in time, in milliseconds since the epoch
+   * @param options Whether to roll back the zone, and who makes the rollback
+   * @returns The number of record sets restored
+   */
+  async rollback(name: string, at: Date | number, options: RollbackOptions = {}): Promise<number> {
+    return this.measureWrite('rollback', () => this.history.rollback(name, at, options));
+  }
+
+  /**
+   * Follow the history as changes are made, on a dedicated connection. Ends when `signal` aborts, or
+   * when the loop consuming it does.
+   * @param options Where to start, and the signal to stop at
+   */
+  tailHistory(options: TailHistoryOptions = {}): AsyncGenerator<HistoryEntry> {
+    return this.history.tail(options);
+  }
+
+  /**
+   * Read the journal of a zone.
+   * @param zone The zone apex
+   * @returns The journal entries, oldest first
+   */
+  async readJournal(zone: string): Promise<JournalEntry[]> {
+    return this.journal.read(zone);
+  }
+
+  /**
+   * List the store keys of an origin and every name below it, using SCAN so Redis isn't blocked.
+   * Only hashes are listed, so keys of other types sharing the database, as they do below the
+   * root of an unprefixed store, are left alone. The apex key is always included, whether or not
+   * it exists.
+   * @param origin The zone apex
+   */
+  private async zoneKeys(origin: string): Promise<string[]> {
+    const zoneKey = this.nameToKey(normalizeOrigin(origin));
+    let match = escapeGlob(this.redisKey(zoneKey)) + ':*';
+    if (zoneKey === '') {
+      match = escapeGlob(this.keyPrefix) + '*';
+    } else if (zoneKey.split(':').length < this.hashTagLabels) {
+      // names below the origin have more labels in their hash tag
+      match = escapeGlob(`${this.keyPrefix}{${zoneKey}:`) + '*';
+    }
+
+    const keys = new Set<string>(zoneKey === '' ? [] : [zoneKey]);
+    for (const node of scanTargets(this.client)) {
+      let cursor = '0';
+      do {
+        const [next, batch] = await node.scan(cursor, 'MATCH', match, 'COUNT', 100, 'TYPE', 'hash');
+        cursor = next;
+        for (const key of batch) {
+          // the store's own keys start with `#`
+          if (!key.startsWith(this.redisKey('#'))) {
+            keys.add(this.storeKey(key));
+          }
+        }
+      } while (cursor !== '0');
+    }
+
+    return [...keys];
+  }
+
+  /**
+   * List the keys of an origin and every name below it that hold record sets: hashes whose fields
+   * are all record type names. Hashes written other than through a store are left out.
+   * @param origin The zone apex
+   */
+  private async recordKeys(origin: string): Promise<string[]> {
+    const keys: string[] = [];
+    for (const key of await this.zoneKeys(origin)) {
+      if (await isRecordHash(this.client, this.redisKey(key))) {
+        keys.push(key);
+      }
+    }
+
+    return keys;
+  }
+
+  /**
+   * List the Redis keys of the record hashes of the default view and, if the handler answers from
+   * views, of every view with networks.
+   */
+  private async recordHashes(): Promise<string[]> {
+    const hashes = (await this.recordKeys('.')).map((key) => this.redisKey(key));
+    if (this.views.enabled) {
+      for (const view of Object.keys(await this.views.networks())) {
+        hashes.push(...(await this.views.store(view).recordHashes()));
+      }
+    }
+
+    return hashes;
+  }
+
+  /**
+   * Add a key to the name index `rfc4592` mode uses to find empty non-terminals.
+   * @param key The store key
+   */
+  private async indexKey(key: string): Promise<void> {
+    if (this.wildcardMode === 'rfc4592') {
+      await this.client.zadd(this.redisKey(NAME_INDEX_KEY), 0, this.indexMember(key));
+    }
+  }
+
+  /**
+   * Remove a key from the name index once it no longer holds any data.
+   * @param key The store key
+   */
+  private async unindexKey(key: string): Promise<void> {
+    if (this.wildcardMode === 'rfc4592' && !(await this.client.exists(this.redisKey(key)))) {
+      await this.client.zrem(this.redisKey(NAME_INDEX_KEY), this.indexMember(key));
+    }
+  }
+
+  /**
+   * Evict the cached lookups a write to a key may have changed, here and, through the invalidation
+   * channel, in every other store sharing the database. Writing the root wildcard `*` evicts
+   * everything. Answers kept to be served stale stay until fresh answers replace them.
+   * @param key The written key
+   */
+  private async invalidate(key: string): Promise<void> {
+    this.evict(key);
+    if (this.invalidationChannel) {
+      await this.client.publish(this.invalidationChannel, key);
+    }
+  }
+
+  /**
+   * Evict what a write to a key may have changed from the caches.
+   * @param key The written key
+   */
+  private evict(key: string): void {
+    this.cache?.invalidate(key);
+    this.views.evict(key);
+  }
+
+  /**
+   * Rebuild the name index `rfc4592` mode uses to find empty non-terminals from the keys in the
+   * database. Run it when switching an existing store to `rfc4592` mode, or after writing to the
+   * database other than through a store in that mode. Only hashes whose fields are all record
+   * type names are indexed.
+   * @returns The number of indexed keys
+   */
+  async rebuildNameIndex(): Promise<number> {
+    const keys = await this.recordKeys('');
+
+    const tx = this.client.multi();
+    tx.del(this.redisKey(NAME_INDEX_KEY));
+    for (const key of keys) {
+      tx.zadd(this.redisKey(NAME_INDEX_KEY), 0, this.indexMember(key));
+    }
+
+    await tx.exec();
+    await this.invalidate('*');
+
+    return keys.length;
+  }
+
+  /**
+   * Audit the stored data against the checks `set` and `append` make, to find what was written
+   * before they did or other than through a store. Uses SCAN so Redis isn't blocked. Data stored
+   * in views isn't audited.
+   * @returns Every issue found, naming the record set and field at fault
+   */
+  async validateAll(): Promise<StoredDataIssue[]> {
+    const issues: StoredDataIssue[] = [];
+    for (const key of await this.zoneKeys('')) {
+      const name = this.keyToName(key);
+      const hash = await this.client.hgetall(this.redisKey(key));
+      for (const [type, raw] of Object.entries(hash)) {
+        if (!isSupportedRecordType(type)) {
+          issues.push({ name, type, field: 'type', message: 'is not a supported record type' });
+          continue;
+        }
+
+        let recordSet: StoredRecordSet<SupportedRecordType>;
+        try {
+          recordSet = decodeRecordSet(raw);
+        } catch {
+          issues.push({ name, type, field: 'data', message: 'is not valid JSON' });
+          continue;
+        }
+
+        const found = [
+          ...validateName(name),
+          ...validateWriteOptions({ ttl: recordSet.ttl }),
+          ...recordSet.records.flatMap((record, i) => [
+            ...validateRecord(type, record.data, `data[${i}]`),
+            ...validateWriteOptions(record).map((issue) => ({ ...issue, field: `records[${i}].${issue.field}` })),
+          ]),
+          ...(type === 'CNAME' ? validateCname(Object.keys(hash), recordSet.records.length) : []),
+        ];
+        issues.push(...found.map((issue) => ({ name, type, ...issue })));
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Convert a domain name into its store key. Names are canonicalized first: lowercased, with
+   * any trailing dot dropped, escapes resolved and internationalized labels in punycode.
+   * @param name The domain name
+   */
+  nameToKey(name: string): string {
+    return nameToKey(name);
+  }
+
+  /**
+   * The inverse of `nameToKey`.
+   * @param key A store key
+   */
+  keyToName(key: string): string {
+    return keyToName(key);
+  }
+
+  /**
+   * What a part of the store kept in a module of its own needs from it. The connection is looked up
+   * on use, as the store only opens it once its options are read.
+   * @param extra What the part needs besides the connection and the key mapping
+   */
+  private context<T extends object>(extra: T): StoreContext & T {
+    const client = () => this.client;
+
+    return {
+      get client() {
+        return client();
+      },
+      redisKey: (key: string) => this.redisKey(key),
+      nameToKey: (name: string) => this.nameToKey(name),
+      keyToName: (key: string) => this.keyToName(key),
+      ...extra,
+    };
+  }
+
+  /**
+   * Map a store key to the key actually used in Redis by applying the configured prefix, and the
+   * hash tag if `hashTagLabels` is set.
+   * @param key The store key, as returned by `nameToKey`
+   */
+  private redisKey(key: string): string {
+    return this.keyPrefix + (this.hashTagLabels > 0 ? hashTag(key, this.hashTagLabels) : key);
+  }
+
+  /**
+   * Map a key used in Redis back to the store key.
+   * @param key The Redis key
+   */
+  private storeKey(key: string): string {
+    const unprefixed = key.slice(this.keyPrefix.length);
+
+    return this.hashTagLabels > 0 ? removeHashTag(unprefixed) : unprefixed;
+  }
+
+  /**
+   * The member a key goes by in the name index: the prefixed key, without any hash tag, so that
+   * the descendants of a key are found by their common prefix.
+   * @param key The store key
+   */
+  private indexMember(key: string): string {
+    return this.keyPrefix + key;
+  }
+
+  /**
+   * Move the keys of an unprefixed store sharing this database under this store's `keyPrefix`,
+   * and in `rfc4592` mode rebuild the name indexes of the store and its views, whose members hold
+   * the prefix. See {@link migrateToPrefix}.
+   * @param options Migration options
+   */
+  async migrateToPrefix(options: PrefixMigrationOptions = {}): Promise<MigrationResult> {
+    if (!this.keyPrefix) {
+      throw new Error('RedisStore: migrateToPrefix requires a keyPrefix');
+    }
+
+    if (isCluster(this.client)) {
+      throw new Error('RedisStore: migrateToPrefix requires a standalone connection');
+    }
+
+    const result = await migrateToPrefix(this.client, this.keyPrefix, options);
+    if (!options.dryRun && result.migrated.length > 0) {
+      if (this.wildcardMode === 'rfc4592') {
+        await this.rebuildNameIndex();
+        for (const view of Object.keys(await this.views.networks())) {
+          await this.views.store(view).rebuildNameIndex();
+        }
+      } else {
+        await this.invalidate('*');
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Merge keys written before names were canonicalized into their canonical keys.
+   * See {@link migrateToCanonicalNames}.
+   * @param options Migration options
+   */
+  async migrateToCanonicalNames(options: MigrationOptions = {}): Promise<NameMigrationResult> {
+    if (isCluster(this.client)) {
+      throw new Error('RedisStore: migrateToCanonicalNames requires a standalone connection');
+    }
+
+    const result = await migrateToCanonicalNames(this.client, this.keyPrefix, options);
+    if (!options.dryRun && result.merged.length > 0) {
+      await (this.wildcardMode === 'rfc4592' ? this.rebuildNameIndex() : this.invalidate('*'));
+    }
+
+    return result;
+  }
+
+  /**
+   * Move the hashes written before `hashTagLabels` was set, including those of views, to their
+   * hash tagged keys. See {@link migrateToHashTags}.
+   * @param options Migration options
+   */
+  async migrateToHashTags(options: MigrationOptions = {}): Promise<MigrationResult> {
+    if (this.hashTagLabels === 0) {
+      throw new Error('RedisStore: migrateToHashTags requires hashTagLabels');
+    }
+
+    const result = await migrateToHashTags(this.client, this.keyPrefix, this.hashTagLabels, options);
+    for (const view of Object.keys(await this.views.networks())) {
+      const prefix = this.redisKey(`${VIEW_KEY_PREFIX}${view}:`);
+      const { migrated, skipped } = await migrateToHashTags(this.client, prefix, this.hashTagLabels, options);
+      result.migrated.push(...migrated);
+      result.skipped.push(...skipped);
+    }
+
+    // the name index holds untagged keys, so only the cache is stale
+    if (!options.dryRun && result.migrated.length > 0) {
+      await this.invalidate('*');
+    }
+
+    return result;
+  }
+
+  handler: Handler = async (req, res, next) => {
+    if (res.finished || ((req.packet.flags >> 11) & 0xf) === UPDATE_OPCODE) {
+      return next();
+    }
+
+    let result: QueryResult | null;
+    try {
+      const measured = await this.measure(() =>
+        this.resilience ? this.resolveOrServeStale(req, this.resilience) : this.resolveQuery(req),
+      );
+      result = measured.value;
+      this.metrics?.query({
+        type: req.packet.questions[0].type,
+        rcode: result ? (RCODE_NAMES[result.rcode] ?? String(result.rcode)) : null,
+        stale: result?.stale ?? false,
+        duration: measured.duration,
+        roundTrips: measured.roundTrips,
+      });
+    } catch (err) {
+      this.metrics?.error({ operation: 'query', error: err });
+      throw err;
+    }
+
+    if (result) {
+      this.respond(res, result);
+    }
+
+    next();
+  };
+
+  /**
+   * Work out the answer to a query from the view the client belongs to, without touching the
+   * response, so that a lookup the handler gave up on can't answer late.
+   * @param req The query
+   * @returns The answer, or null if the store has nothing to say about the name
+   */
+  private async resolveQuery(req: DNSRequest): Promise<QueryResult | null> {
+    if (this.views.enabled) {
+      const view = await this.views.match(req);
+      if (view) {
+        return this.views.store(view).resolveQuery(req);
+      }
+    }
+
+    const { name, type } = req.packet.questions[0];
+    const answers = await this.chase(name, type as Exclude<RecordType, 'OPT'>);
+    if (answers.length > 0) {
+      const additionals = this.additionalRecords ? await this.glue(answers) : undefined;
+
+      return { rcode: UpdateRcode.NOERROR, answers, additionals };
+    }
+
+    if (this.negativeAnswers) {
+      // the zones of a view come first, then those of the default view
+      for (const store of this.fallback ? [this, this.fallback] : [this]) {
+        const zone = await store.findZone(name);
+        if (zone) {
+          return store.answerNegative(name, zone);
+        }
+      }
+    }
+
+    return null;
+  }
 
-      res.answer(answers);
+  /**
+   * Resolve a query within the lookup timeout while the circuit breaker lets lookups through, and
+   * keep the answer to serve it stale later (RFC 8767). When the lookup fails, times out or isn't
+   * tried, the last answer to the query is served with its TTLs capped at `staleTtl`, or SERVFAIL
+   * if there is none.
+   * @param req The query
+   * @param resilience The resilience options
+   */
+  private async resolveOrServeStale(
+    req: DNSRequest,
+    resilience: Required<ResilienceOptions>,
+  ): Promise<QueryResult | null> {
+    const { name, type } = req.packet.questions[0];
+    const view = this.views.enabled ? this.views.matchKnown(req) : null;
+    const id = `${view ?? ''}/${this.nameToKey(name)}/${type}`;
+
+    if (this.breaker!.allow()) {
+      try {
+        const result = await withTimeout(this.resolveQuery(req), resilience.lookupTimeout);
+        this.breaker!.success();
+        this.stale!.set(id, this.nameToKey(name), result);
+
+        return result;
+      } catch (err) {
+        this.breaker!.failure();
+        this.metrics?.error({ operation: 'query', error: err });
+      }
+    }
+
+    const stale = this.stale!.get(id);
+    if (!stale) {
+      return { rcode: UpdateRcode.SERVFAIL, answers: [] };
+    }
+
+    if (!stale.value) {
+      return null;
+    }
+
+    const cap = (records?: SupportedAnswer[]) =>
+      records?.map((r) => ({ ...r, ttl: Math.min(r.ttl ?? this.defaultTtl, resilience.staleTtl) }));
+
+    return {
+      ...stale.value,
+      answers: cap(stale.value.answers)!,
+      additionals: cap(stale.value.additionals),
+      authorities: cap(stale.value.authorities),
+      stale: true,
+    };
+  }
+
+  /**
+   * Send the answer to a query, and offer positive answers to caches in front of the store.
+   * @param res The response
+   * @param result The answer
+   */
+  private respond(res: DNSResponse, result: QueryResult): void {
+    if (result.additionals) {
+      res.packet.additionals = result.additionals;
+    }
+
+    if (result.answers.length > 0) {
+      res.answer(result.answers);
+    } else {
+      if (result.authorities) {
+        res.packet.authorities = result.authorities;
+        res.packet.addFlag(AUTHORITATIVE_ANSWER);
+      }
+
+      setRcode(res, result.rcode);
+      res.resolve();
+    }
 
-      if (this.shouldCache) {
+    // caches in front of the store don't know which view an answer is for, and stale answers
+    // shouldn't outlive the outage
+    if (result.answers.length > 0 && this.shouldCache && !this.views.enabled && !result.stale) {
+      const groups = _groupBy(result.answers, (a) => `${a.name}/${a.type}`);
+      for (const group of Object.values(groups)) {
         this.emitCacheRequest(
-          name,
-          type,
-          answers.map((a) => a.data),
+          group[0].name,
+          group[0].type,
+          group.map((a) => a.data),
+          Math.min(...group.map((a) => a.ttl ?? this.defaultTtl)),
         );
       }
     }
+  }
+
+  /**
+   * Create the store holding the records of a view. It shares the client and the options of this
+   * store, and reads names it has no records for from this store.
+   * @param name The view name
+   */
+  private createViewStore(name: string): RedisStore {
+    const store = new RedisStore({
+      ...this.options,
+      client: this.client,
+      keyPrefix: this.redisKey(`${VIEW_KEY_PREFIX}${name}:`),
+      invalidationChannel: this.invalidationChannel,
+      cache: undefined,
+      views: undefined,
+      resilience: undefined,
+    });
+    store.fallback = this;
+    // endpoints are checked once for every view, so the views share the health of the default view
+    store.health = this.health;
+    store.on('zoneChanged', (change: ZoneChange) => this.emit('zoneChanged', { ...change, view: name }));
+    store.on('error', (err) => this.emit('error', err));
+
+    return store;
+  }
+
+  /**
+   * Store the CIDR networks whose clients are answered from a view, in addition to those given in
+   * the `views` option, for every store sharing the database.
+   * @param view The view name
+   * @param networks The networks, e.g. `10.0.0.0/8`
+   * @throws {ViewNetworkError} If a network isn't a CIDR network or an address
+   */
+  async setView(view: string, networks: string[]): Promise<void> {
+    await this.views.set(view, networks);
+  }
+
+  /**
+   * Remove the networks stored for a view. Its records are kept.
+   * @param view The view name
+   */
+  async deleteView(view: string): Promise<void> {
+    await this.views.delete(view);
+  }
+
+  /**
+   * Answer a question, following CNAMEs stored for the name when it has no records of the
+   * requested type. Every CNAME on the way is part of the answer. Chasing stops at a loop,
+   * after `maxCnameChain` hops, or at a name with no records in the store.
+   * @param name The queried name
+   * @param type The queried type
+   */
+  private async chase(name: string, type: SupportedRecordType): Promise<SupportedAnswer[]> {
+    const answers: SupportedAnswer[] = [];
+    const seen = new Set<string>();
+    let current = name;
+
+    for (let hops = 0; ; hops++) {
+      // legacy wildcards answer per type, so a CNAME of the name itself must win over the records
+      // of a wildcard, which only the exact key tells
+      const [result, ownCname] = await Promise.all([
+        this.getRecords(current, type),
+        type !== 'CNAME' && this.wildcardMode === 'legacy' ? this.getRecords(current, 'CNAME', false) : null,
+      ]);
+      if (result && !ownCname?.CNAME?.length) {
+        const healthy = await this.health.filter(result);
+        answers.push(...this.toAnswers(current, await this.applyAnswerPolicy(current, type, healthy)));
+        break;
+      }
+
+      if (type === 'CNAME') {
+        break;
+      }
+
+      const cname = ownCname?.CNAME?.length ? ownCname : await this.getRecords(current, 'CNAME');
+      if (!cname?.CNAME?.length) {
+        break;
+      }
+
+      answers.push(...this.toAnswers(current, cname));
+      seen.add(this.nameToKey(current));
+
+      const target = cname.CNAME[0].data;
+      if (hops >= this.maxCnameChain || seen.has(this.nameToKey(target))) {
+        break;
+      }
+
+      current = target;
+    }
+
+    return answers;
+  }
+
+  /**
+   * Pick and order the records of the queried type following the policy set on the name, or the
+   * default policy for its type.
+   * @param name The owner name
+   * @param type The queried type
+   * @param records The records found for the name
+   */
+  private async applyAnswerPolicy(name: string, type: SupportedRecordType, records: RecordMap): Promise<RecordMap> {
+    const recordSet: ResolvedRecord[] | undefined = records[type];
+    if (!recordSet || recordSet.length < 2) {
+      return records;
+    }
+
+    const id = `${this.nameToKey(name)}/${type}`;
+    const policy =
+      (await this.getAnswerPolicy(name, type)) ??
+      (BALANCED_TYPES.includes(type) ? this.answerPolicy : { mode: 'ordered' });
+    const offset = this.rotations.get(id) ?? 0;
+    if (policy.mode === 'rotate') {
+      this.rotations.set(id, (offset + 1) % recordSet.length);
+    }
+
+    return { ...records, [type]: selectRecords(recordSet, policy, offset, this.random) };
+  }
+
+  /**
+   * Collect in-store A and AAAA records for the names MX, NS and SRV answers point at, to be sent
+   * in the additional section.
+   * @param answers The answers to find glue for
+   */
+  private async glue(answers: SupportedAnswer[]): Promise<SupportedAnswer[]> {
+    const targets = new Set<string>();
+    for (const answer of answers) {
+      if (answer.type === 'MX') {
+        targets.add(answer.data.exchange);
+      } else if (answer.type === 'NS') {
+        targets.add(answer.data);
+      } else if (answer.type === 'SRV') {
+        targets.add(answer.data.target);
+      }
+    }
+
+    const additionals: SupportedAnswer[] = [];
+    for (const target of targets) {
+      const result = await this.getRecords(target);
+      if (result) {
+        additionals.push(...this.toAnswers(target, _pick(await this.health.filter(result), ['A', 'AAAA'])));
+      }
+    }
+
+    return additionals;
+  }
+
+  /**
+   * Turn records into answers owned by the given name.
+   * @param name The owner name
+   * @param records The records, keyed by type
+   */
+  private toAnswers(name: string, records: RecordMap): SupportedAnswer[] {
+    return Object.entries(records)
+      .map(([key, value]) => {
+        return value.map(({ data, ttl }) => {
+          return {
+            name: name,
+            type: key,
+            ttl,
+            data,
+          } as SupportedAnswer;
+        });
+      })
+      .flat();
+  }
+
+  /**
+   * Build an authoritative negative answer (RFC 2308): NODATA if the name exists without the
+   * requested type, NXDOMAIN otherwise. The zone's SOA goes in the authority section, with its
+   * TTL capped at the SOA minimum so it doubles as the negative caching TTL.
+   * @param name The queried name
+   * @param zone The zone the name belongs to
+   */
+  private async answerNegative(name: string, zone: ZoneApex): Promise<QueryResult> {
+    const exists = await this.nameExists(name, zone);
+    const { data, ttl } = zone.soa;
+
+    return {
+      rcode: exists ? UpdateRcode.NOERROR : UpdateRcode.NXDOMAIN,
+      answers: [],
+      authorities: [{ name: zone.name, type: 'SOA', ttl: Math.min(ttl, data.minimum ?? ttl), data }],
+    };
+  }
+
+  /**
+   * A handler for zone transfers, to be used alongside `handler`. AXFR queries are answered with
+   * the whole zone, over TCP only. IXFR queries are answered with the changes since the client's
+   * serial if the journal reaches back to it, with the whole zone if it doesn't, and with just the
+   * SOA over UDP, which makes clients retry over TCP. Only the addresses in `allowTransfer` may
+   * transfer zones.
+   */
+  transferHandler: Handler = async (req, res, next) => {
+    const question = req.packet.questions[0];
+    if (res.finished || !question || (question.type !== 'AXFR' && question.type !== 'IXFR')) {
+      return next();
+    }
+
+    const tcp = req.connection.type === SupportedNetworkType.TCP;
+    if (!this.allowTransfer.includes(req.connection.remoteAddress) || (question.type === 'AXFR' && !tcp)) {
+      setRcode(res, UpdateRcode.REFUSED);
+      res.resolve();
+
+      return next();
+    }
+
+    const zone = await this.findZone(question.name);
+    if (!zone || zone.key !== this.nameToKey(question.name)) {
+      setRcode(res, UpdateRcode.NOTAUTH);
+      res.resolve();
+
+      return next();
+    }
+
+    const soa: JournalRecord = { name: zone.name, type: 'SOA', ttl: zone.soa.ttl, data: zone.soa.data };
+    let answers: ZoneRecord[] | null = null;
+    if (question.type === 'IXFR') {
+      const client = req.packet.authorities.find((a) => a.type === 'SOA');
+      if (!client) {
+        setRcode(res, UpdateRcode.FORMERR);
+        res.resolve();
+
+        return next();
+      }
+
+      const serial = (client as { data: ZoneData['SOA'] }).data.serial ?? 0;
+      if (!tcp || !serialGreater(zone.soa.data.serial ?? 0, serial)) {
+        answers = [soa];
+      } else {
+        answers = incrementalTransfer(collectDiffs(await this.readJournal(zone.name)), serial, soa);
+      }
+    }
+
+    answers ??= [soa, ...(await this.listRecords(zone.name)).filter((r) => r.type !== 'SOA'), soa];
+    res.packet.addFlag(AUTHORITATIVE_ANSWER);
+    res.answer(answers.map((r) => ({ ...r, ttl: r.ttl ?? this.defaultTtl }) as SupportedAnswer));
+    next();
+  };
+
+  /**
+   * Set how the handler picks and orders the records of a set, overriding `answerPolicy`. Policies
+   * apply to the name as queried, so names answered from a wildcard need one of their own.
+   * @param name The owner name
+   * @param rType The record type
+   * @param policy The policy, or null to go back to the default
+   */
+  async setAnswerPolicy(name: string, rType: SupportedRecordType, policy: AnswerPolicy | null): Promise<void> {
+    const field = `${this.nameToKey(name)}/${rType}`;
+    if (policy) {
+      await this.client.hset(this.redisKey(ANSWER_POLICIES_KEY), field, JSON.stringify(policy));
+    } else {
+      await this.client.hdel(this.redisKey(ANSWER_POLICIES_KEY), field);
+    }
+  }
+
+  /**
+   * The policy set on a record set with `setAnswerPolicy`, or null if it uses the default.
+   * @param name The owner name
+   * @param rType The record type
+   */
+  async getAnswerPolicy(name: string, rType: SupportedRecordType): Promise<AnswerPolicy | null> {
+    const raw = await this.client.hget(this.redisKey(ANSWER_POLICIES_KEY), `${this.nameToKey(name)}/${rType}`);
+
+    return raw ? decodeAnswerPolicy(raw) : null;
+  }
+
+  /**
+   * List the health checks attached to the stored records of every view, one per endpoint, using
+   * SCAN so Redis isn't blocked. `HealthChecker` runs them. Keys other than record hashes, and record sets that
+   * don't decode, are skipped, so data written around the store can't stop health checking.
+   */
+  async listHealthChecks(): Promise<ResolvedHealthCheck[]> {
+    return this.health.listChecks();
+  }
+
+  /**
+   * Record the health of an endpoint, which the handler answers from. Used by `HealthChecker`.
+   * @param id The id of the endpoint's health check
+   * @param state The endpoint's health
+   */
+  async setHealth(id: string, state: HealthState): Promise<void> {
+    await this.health.set(id, state);
+  }
+
+  /**
+   * The health of an endpoint, or null if it wasn't checked yet.
+   * @param id The id of the endpoint's health check
+   */
+  async getHealth(id: string): Promise<HealthState | null> {
+    return this.health.get(id);
+  }
+
+  /**
+   * Store a TSIG key UPDATE messages may be signed with. The key is kept in Redis, so every store
+   * sharing the database accepts it.
+   * @param key The key
+   */
+  async setTsigKey(key: TsigKey): Promise<void> {
+    await this.client.hset(this.redisKey(TSIG_KEYS_KEY), this.nameToKey(key.name), JSON.stringify(key));
+  }
+
+  /**
+   * Remove a TSIG key.
+   * @param name The key name
+   */
+  async deleteTsigKey(name: string): Promise<void> {
+    await this.client.hdel(this.redisKey(TSIG_KEYS_KEY), this.nameToKey(name));
+  }
+
+  /**
+   * Look up a TSIG key by name.
+   * @param name The key name
+   */
+  private async getTsigKey(name: string): Promise<TsigKey | undefined> {
+    const raw = await this.client.hget(this.redisKey(TSIG_KEYS_KEY), this.nameToKey(name));
+
+    return raw ? decodeTsigKey(raw) : undefined;
+  }
+
+  /**
+   * A handler for RFC 2136 UPDATE messages, to be used alongside `handler`. Messages have to be
+   * decoded with an `UpdateSerializer`. Other opcodes are passed on.
+   *
+   * The zone must be a zone apex in the store. Messages must be signed with a TSIG key stored with
+   * `setTsigKey` that may update the zone, unless `allowUnsignedUpdates` is set. The prerequisites
+   * are checked and the updates applied in a single atomic step, and responses to signed messages
+   * are signed.
+   */
+  updateHandler: Handler = async (req, res, next) => {
+    if (res.finished || ((req.packet.flags >> 11) & 0xf) !== UPDATE_OPCODE) {
+      return next();
+    }
+
+    const message = updateMessageOf(req.packet.raw);
+    if (!message || message instanceof Error) {
+      this.respondToUpdate(res, message ? UpdateRcode.FORMERR : UpdateRcode.NOTIMP);
+
+      return next();
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    let key: TsigKey | undefined;
+    if (message.tsig) {
+      key = await this.getTsigKey(message.tsig.record.keyName);
+      const error = verifyTsig(message.tsig.signed, message.tsig.record, key, now);
+      if (error !== TsigError.NOERROR) {
+        this.respondToUpdate(res, UpdateRcode.NOTAUTH, message, key, error);
+
+        return next();
+      }
+    } else if (!this.allowUnsignedUpdates) {
+      this.respondToUpdate(res, UpdateRcode.REFUSED);
+
+      return next();
+    }
+
+    let rcode: number;
+    try {
+      rcode = await this.measureWrite('update', () => this.applyUpdate(message, key));
+    } catch {
+      rcode = UpdateRcode.SERVFAIL;
+    }
 
+    this.respondToUpdate(res, rcode, message, key);
     next();
   };
 
-  async emitCacheRequest<T extends SupportedRecordType>(zone: string, rType: T, records: ZoneData[T][]) {
+  /**
+   * Check an UPDATE message's zone and prerequisites and apply its updates, atomically: the
+   * records of every name involved are read, the update is evaluated against them, and the result
+   * is written with a compare-and-set script that fails if any of them changed in the meantime,
+   * in which case the whole evaluation is retried.
+   * @param message The UPDATE message
+   * @param key The TSIG key the message was signed with, if any
+   * @returns The response code
+   */
+  private async applyUpdate(message: UpdateMessage, key?: TsigKey): Promise<number> {
+    if (message.zone.length !== 1 || message.zone[0].type !== 'SOA') {
+      return UpdateRcode.FORMERR;
+    }
+
+    const zoneName = message.zone[0].name;
+    const zoneKey = this.nameToKey(zoneName);
+    const zoneClass = message.zone[0].class ?? 'IN';
+    const zone = await this.findZone(zoneName);
+    if (!zone || zone.key !== zoneKey) {
+      return UpdateRcode.NOTAUTH;
+    }
+
+    if (key?.zones && !key.zones.some((z) => this.nameToKey(z) === zoneKey)) {
+      return UpdateRcode.REFUSED;
+    }
+
+    const keys = [
+      ...new Set([zoneKey, ...[...message.prerequisites, ...message.updates].map((rr) => this.nameToKey(rr.name))]),
+    ];
+    for (let attempt = 0; attempt < this.maxWriteAttempts; attempt++) {
+      const current: Record<string, string>[] = [];
+      for (const key of keys) {
+        current.push(await this.client.hgetall(this.redisKey(key)));
+      }
+
+      const snapshot: ZoneSnapshot = new Map(
+        keys.map((key, i) => [
+          key,
+          new Map(Object.entries(current[i]).map(([rType, raw]) => [rType, decodeRecordSet(raw)])),
+        ]),
+      );
+
+      const rcode =
+        checkPrerequisites(message.prerequisites, zoneKey, zoneClass, snapshot) ||
+        prescanUpdates(message.updates, zoneKey, zoneClass);
+      if (rcode !== UpdateRcode.NOERROR) {
+        return rcode;
+      }
+
+      applyUpdates(message.updates, zoneKey, zoneClass, snapshot);
+
+      const next = keys.map((key) =>
+        Object.fromEntries(
+          [...(snapshot.get(key) ?? [])].map(([rType, recordSet]) => [rType, encodeRecordSet(hoistTtl(recordSet))]),
+        ),
+      );
+      if (keys.every((_, i) => _isEqual(current[i], next[i]))) {
+        return UpdateRcode.NOERROR;
+      }
+
+      // RFC 2136 requires the serial to be raised if the update didn't do so itself
+      let serial: number | undefined;
+      if (next[0].SOA && next[0].SOA === current[0].SOA) {
+        [next[0].SOA, serial] = bumpSerial(next[0].SOA, this.serialScheme ?? 'increment', new Date());
+      }
+
+      const changed = keys.filter((_, i) => !_isEqual(current[i], next[i]));
+
+      const written = await this.client.dinodnsCompareAndSetHashes(
+        keys.length,
+        ...keys.map((key) => this.redisKey(key)),
+        ...current.map((hash) => JSON.stringify(hash)),
+        ...next.map((hash, i) => (changed.includes(keys[i]) ? JSON.stringify(hash) : '')),
+      );
+      if (written) {
+        await this.afterWrite(
+          changed.map((key) => ({ key, before: current[keys.indexOf(key)], after: next[keys.indexOf(key)] })),
+          serial === undefined ? undefined : { zone: zone.name, serial },
+          key?.name,
+        );
+
+        return UpdateRcode.NOERROR;
+      }
+    }
+
+    throw new WriteConflictError(zoneKey, 'UPDATE', this.maxWriteAttempts);
+  }
+
+  /**
+   * Send the response to an UPDATE message. Only the zone section of the message is echoed. If the
+   * message was signed, a TSIG record is added to the response.
+   * @param res The response
+   * @param rcode The response code
+   * @param message The UPDATE message, if it could be decoded
+   * @param key The TSIG key the message was signed with, if it is known
+   * @param tsigError The TSIG error code
+   */
+  private respondToUpdate(
+    res: DNSResponse,
+    rcode: number,
+    message?: UpdateMessage,
+    key?: TsigKey,
+    tsigError: number = TsigError.NOERROR,
+  ): void {
+    setRcode(res, rcode);
+
+    if (message?.tsig) {
+      const now = Math.floor(Date.now() / 1000);
+      const tsig = signResponse(dnsPacket.encode(res.packet.raw), message.tsig.record, key, tsigError, now);
+      res.packet.additionals = [{ name: tsig.keyName, type: 'TSIG', class: 'ANY', ttl: 0, data: encodeTsig(tsig) }];
+    }
+
+    res.resolve();
+  }
+
+  async emitCacheRequest<T extends SupportedRecordType>(zone: string, rType: T, records: ZoneData[T][], ttl?: number) {
     this.emit('cacheRequest', {
       zoneName: zone,
       recordType: rType,
       records: records,
+      ttl: ttl ?? this.defaultTtl,
     });
   }
 }
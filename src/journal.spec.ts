@@ -0,0 +1,127 @@
+import { StoredValueError } from './errors';
+import {
+  JournalEntry,
+  JournalRecord,
+  collectDiffs,
+  decodeJournalEntry,
+  diffHashes,
+  incrementalTransfer,
+} from './journal';
+
+describe('journal', () => {
+  const soa = (serial: number): JournalRecord => ({
+    name: 'example.com',
+    type: 'SOA',
+    ttl: 3600,
+    data: {
+      mname: 'ns1.example.com',
+      rname: 'hostmaster.example.com',
+      serial,
+      refresh: 7200,
+      retry: 900,
+      expire: 1209600,
+      minimum: 60,
+    },
+  });
+  const a = (address: string, ttl = 300): JournalRecord => ({ name: 'www.example.com', type: 'A', ttl, data: address });
+  const bump = (from: number, to: number): JournalEntry => ({ deleted: [soa(from)], added: [soa(to)] });
+
+  describe('diffHashes', () => {
+    it('should list the records a write removed and added, with their effective TTLs', () => {
+      const before = { A: JSON.stringify(['127.0.0.1', '127.0.0.2']), TXT: JSON.stringify(['old']) };
+      const after = { A: JSON.stringify({ records: [{ data: '127.0.0.2' }, { data: '127.0.0.3', ttl: 60 }] }) };
+
+      expect(diffHashes('www.example.com', before, after, 300)).toEqual({
+        deleted: [a('127.0.0.1'), { name: 'www.example.com', type: 'TXT', ttl: 300, data: 'old' }],
+        added: [a('127.0.0.3', 60)],
+      });
+    });
+
+    it('should treat a changed TTL as a removal and an addition', () => {
+      const diff = diffHashes(
+        'www.example.com',
+        { A: '["127.0.0.1"]' },
+        { A: '{"ttl":60,"records":[{"data":"127.0.0.1"}]}' },
+        300,
+      );
+
+      expect(diff).toEqual({ deleted: [a('127.0.0.1')], added: [a('127.0.0.1', 60)] });
+    });
+  });
+
+  describe('decodeJournalEntry', () => {
+    it('should decode stored entries and refuse anything else', () => {
+      const entry: JournalEntry = { deleted: [], added: [soa(2)] };
+
+      expect(decodeJournalEntry(JSON.stringify(entry))).toEqual(entry);
+      expect(() => decodeJournalEntry(JSON.stringify({ added: [] }))).toThrow(StoredValueError);
+      expect(() => decodeJournalEntry(JSON.stringify({ deleted: [], added: [{ name: 'example.com' }] }))).toThrow(
+        StoredValueError,
+      );
+    });
+  });
+
+  describe('collectDiffs', () => {
+    it('should group the writes between SOA changes into diffs', () => {
+      const entries: JournalEntry[] = [
+        { deleted: [], added: [soa(1), a('127.0.0.1')] },
+        { deleted: [], added: [a('127.0.0.2')] },
+        bump(1, 2),
+        { deleted: [a('127.0.0.1')], added: [a('127.0.0.3')] },
+        { deleted: [soa(2)], added: [soa(3), a('127.0.0.4')] },
+        { deleted: [], added: [a('127.0.0.5')] },
+      ];
+
+      expect(collectDiffs(entries)).toEqual([
+        { from: soa(1), to: soa(2), deleted: [], added: [a('127.0.0.2')] },
+        { from: soa(2), to: soa(3), deleted: [a('127.0.0.1')], added: [a('127.0.0.3'), a('127.0.0.4')] },
+      ]);
+    });
+
+    it('should drop the writes before the first SOA change', () => {
+      const entries: JournalEntry[] = [{ deleted: [a('127.0.0.1')], added: [] }, bump(1, 2), bump(2, 3)];
+
+      expect(collectDiffs(entries)).toEqual([{ from: soa(2), to: soa(3), deleted: [], added: [] }]);
+    });
+
+    it('should cancel out records added and removed within a version', () => {
+      const entries: JournalEntry[] = [
+        bump(1, 2),
+        { deleted: [], added: [a('127.0.0.2')] },
+        { deleted: [a('127.0.0.2'), a('127.0.0.1')], added: [] },
+        { deleted: [], added: [a('127.0.0.1')] },
+        bump(2, 3),
+      ];
+
+      expect(collectDiffs(entries)).toEqual([{ from: soa(2), to: soa(3), deleted: [], added: [] }]);
+    });
+  });
+
+  describe('incrementalTransfer', () => {
+    const diffs = collectDiffs([
+      bump(1, 2),
+      { deleted: [a('127.0.0.1')], added: [] },
+      bump(2, 3),
+      { deleted: [], added: [a('127.0.0.2')] },
+      bump(3, 4),
+    ]);
+
+    it('should list the diffs since the client serial between the current SOA', () => {
+      expect(incrementalTransfer(diffs, 2, soa(4))).toEqual([
+        soa(4),
+        soa(2),
+        a('127.0.0.1'),
+        soa(3),
+        soa(3),
+        soa(4),
+        a('127.0.0.2'),
+        soa(4),
+      ]);
+    });
+
+    it('should give up when the journal doesn t reach the client serial or the current SOA', () => {
+      expect(incrementalTransfer(diffs, 1, soa(4))).toEqual(null);
+      expect(incrementalTransfer(diffs, 2, soa(5))).toEqual(null);
+    });
+  });
+});
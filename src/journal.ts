@@ -0,0 +1,249 @@
+import { ZoneData } from 'dinodns/types';
+import { isEqual as _isEqual } from 'lodash';
+import { StoredValueError } from './errors';
+import { decodeRecordSet, resolveRecordSet } from './records';
+import { ZoneRecord, normalizeOrigin } from './zonefile';
+import { KeyChange, StoreContext } from './backend';
+import type { ZoneApex } from './index';
+
+export type JournalOptions = {
+  /** The most writes kept per zone, oldest first out. Defaults to 1000. */
+  maxEntries?: number;
+};
+
+/** A record with its effective TTL, as it is transferred. */
+export type JournalRecord = Required<ZoneRecord>;
+
+/** One write to a zone, as the records it removed and the records it added. */
+export type JournalEntry = {
+  deleted: JournalRecord[];
+  added: JournalRecord[];
+};
+
+/** The changes between two versions of a zone, as IXFR transfers them (RFC 1995). */
+export type ZoneDiff = {
+  from: JournalRecord;
+  to: JournalRecord;
+  deleted: JournalRecord[];
+  added: JournalRecord[];
+};
+
+/** The prefix of the lists journaling the changes to a zone, followed by the key of the apex. */
+const JOURNAL_KEY_PREFIX = '#journal:';
+
+/** What the journal needs from its store, besides the connection. */
+export type JournalContext = StoreContext & {
+  /** The TTL of records stored without one */
+  readonly defaultTtl: number;
+
+  readonly findZone: (name: string) => Promise<ZoneApex | null>;
+};
+
+/**
+ * Whether a decoded value is a journal record.
+ * @param value The value
+ */
+function isJournalRecord(value: unknown): value is JournalRecord {
+  const record = value as Partial<JournalRecord> | null;
+
+  return (
+    typeof record?.name === 'string' &&
+    typeof record.type === 'string' &&
+    typeof record.ttl === 'number' &&
+    record.data !== undefined
+  );
+}
+
+/**
+ * Decode a journal entry as the store appends it to a zone's journal.
+ * @param raw The stored JSON
+ * @throws {StoredValueError} If it isn't a journal entry
+ */
+export function decodeJournalEntry(raw: string): JournalEntry {
+  const parsed: unknown = JSON.parse(raw);
+  const entry = parsed as Partial<Record<keyof JournalEntry, unknown>> | null;
+  if (
+    !Array.isArray(entry?.deleted) ||
+    !Array.isArray(entry.added) ||
+    !entry.deleted.every(isJournalRecord) ||
+    !entry.added.every(isJournalRecord)
+  ) {
+    throw new StoredValueError('journal entry', raw);
+  }
+
+  return entry as JournalEntry;
+}
+
+/**
+ * The records a write to one name removed and added. Records whose TTL changed are both.
+ * @param name The name the write went to
+ * @param before The hash fields the write touched, before it
+ * @param after The same fields after the write, missing if they were deleted
+ * @param defaultTtl The TTL of records stored without one
+ */
+export function diffHashes(
+  name: string,
+  before: Record<string, string>,
+  after: Record<string, string>,
+  defaultTtl: number,
+): JournalEntry {
+  const records = (hash: Record<string, string>) =>
+    Object.entries(hash).flatMap(([type, raw]) =>
+      resolveRecordSet(decodeRecordSet(raw), defaultTtl).map(({ data, ttl }) => ({ name, type, ttl, data })),
+    ) as JournalRecord[];
+  const old = records(before);
+  const current = records(after);
+
+  return {
+    deleted: old.filter((r) => !current.some((c) => _isEqual(c, r))),
+    added: current.filter((r) => !old.some((o) => _isEqual(o, r))),
+  };
+}
+
+/**
+ * Combine journal entries into the diffs between consecutive zone versions. A version ends at a
+ * write that changes the SOA, and every write before it since the previous SOA change belongs to
+ * it. Writes before the first SOA change are dropped, since the journal may have been trimmed in
+ * the middle of their version, as are writes after the last one, which no serial announces yet.
+ * @param entries The journal entries, oldest first
+ */
+export function collectDiffs(entries: JournalEntry[]): ZoneDiff[] {
+  const diffs: ZoneDiff[] = [];
+  let pending: JournalEntry | null = null;
+
+  for (const entry of entries) {
+    const from = entry.deleted.find((r) => r.type === 'SOA');
+    const to = entry.added.find((r) => r.type === 'SOA');
+
+    if (pending) {
+      for (const r of entry.deleted.filter((r) => r.type !== 'SOA')) {
+        // a record added and deleted again within a version was never there as far as secondaries know
+        const i = pending.added.findIndex((a) => _isEqual(a, r));
+        if (i >= 0) {
+          pending.added.splice(i, 1);
+        } else {
+          pending.deleted.push(r);
+        }
+      }
+
+      for (const r of entry.added.filter((r) => r.type !== 'SOA')) {
+        const i = pending.deleted.findIndex((d) => _isEqual(d, r));
+        if (i >= 0) {
+          pending.deleted.splice(i, 1);
+        } else {
+          pending.added.push(r);
+        }
+      }
+
+      if (from && to) {
+        diffs.push({ from, to, ...pending });
+      }
+    }
+
+    if (from || to) {
+      pending = { deleted: [], added: [] };
+    }
+  }
+
+  return diffs;
+}
+
+/**
+ * Build the answer of an incremental transfer: the current SOA, each diff from the client's
+ * serial on as the old SOA, the deleted records, the new SOA and the added records, and the
+ * current SOA again (RFC 1995, section 4).
+ * @param diffs The diffs of the zone, oldest first
+ * @param serial The client's serial
+ * @param soa The current SOA
+ * @returns The records, or null if the journal doesn't reach back to the client's serial
+ */
+export function incrementalTransfer(diffs: ZoneDiff[], serial: number, soa: JournalRecord): JournalRecord[] | null {
+  const start = diffs.findIndex((diff) => (diff.from.data as ZoneData['SOA']).serial === serial);
+  if (start < 0) {
+    return null;
+  }
+
+  const chain = diffs.slice(start);
+  for (const [i, diff] of chain.entries()) {
+    const next = i + 1 < chain.length ? chain[i + 1].from : soa;
+    if ((diff.to.data as ZoneData['SOA']).serial !== (next.data as ZoneData['SOA']).serial) {
+      return null;
+    }
+  }
+
+  return [soa, ...chain.flatMap((diff) => [diff.from, ...diff.deleted, diff.to, ...diff.added]), soa];
+}
+
+/**
+ * The journals of the zones of a store, one Redis list per zone, which IXFR queries are answered
+ * from. The journals are read whether or not the store keeps them.
+ */
+export class ZoneJournal {
+  private context: JournalContext;
+  private maxEntries?: number;
+
+  /**
+   * @param context The store the journal belongs to
+   * @param options The retention, or undefined if the store doesn't keep journals
+   */
+  constructor(context: JournalContext, options?: JournalOptions) {
+    this.context = context;
+    if (options) {
+      this.maxEntries = options.maxEntries ?? 1000;
+    }
+  }
+
+  /** Whether writes are added to the journals. */
+  get enabled(): boolean {
+    return this.maxEntries !== undefined;
+  }
+
+  /**
+   * Add the changes made by a write to the journals of the zones they belong to. The journal of a
+   * zone whose SOA is deleted is dropped along with it.
+   * @param changes The hash fields the write touched by key, before and after the write
+   */
+  async record(changes: KeyChange[]): Promise<void> {
+    if (this.maxEntries === undefined) {
+      return;
+    }
+
+    const { client, redisKey, keyToName, findZone, defaultTtl } = this.context;
+    const entries = new Map<string, JournalEntry>();
+    for (const { key, before, after } of changes) {
+      if (before.SOA && !after.SOA) {
+        await client.del(redisKey(JOURNAL_KEY_PREFIX + key));
+        continue;
+      }
+
+      const zone = after.SOA ? { key } : await findZone(keyToName(key));
+      const { deleted, added } = diffHashes(keyToName(key), before, after, defaultTtl);
+      if (!zone || deleted.length + added.length === 0) {
+        continue;
+      }
+
+      const entry = entries.get(zone.key) ?? { deleted: [], added: [] };
+      entry.deleted.push(...deleted);
+      entry.added.push(...added);
+      entries.set(zone.key, entry);
+    }
+
+    for (const [zoneKey, entry] of entries) {
+      const journalKey = redisKey(JOURNAL_KEY_PREFIX + zoneKey);
+      await client.rpush(journalKey, JSON.stringify(entry));
+      await client.ltrim(journalKey, -this.maxEntries, -1);
+    }
+  }
+
+  /**
+   * Read the journal of a zone.
+   * @param zone The zone apex
+   * @returns The journal entries, oldest first
+   */
+  async read(zone: string): Promise<JournalEntry[]> {
+    const { client, redisKey, nameToKey } = this.context;
+    const raw = await client.lrange(redisKey(JOURNAL_KEY_PREFIX + nameToKey(normalizeOrigin(zone))), 0, -1);
+
+    return raw.map(decodeJournalEntry);
+  }
+}
@@ -0,0 +1,141 @@
+import { MemoryRedis } from '.';
+import { globToRegExp } from './memory';
+
+describe('MemoryRedis', () => {
+  let client: MemoryRedis;
+
+  beforeEach(() => {
+    client = new MemoryRedis();
+  });
+
+  it('should keep hashes, and drop them once empty', async () => {
+    expect(await client.hset('h', 'a', '1')).toEqual(1);
+    expect(await client.hset('h', { a: '2', b: '3' })).toEqual(1);
+    expect(await client.hgetall('h')).toEqual({ a: '2', b: '3' });
+    expect(await client.hmget('h', 'b', 'c')).toEqual(['3', null]);
+    expect(await client.hdel('h', 'a', 'b', 'c')).toEqual(2);
+    expect(await client.exists('h')).toEqual(0);
+    expect(await client.hgetall('h')).toEqual({});
+  });
+
+  it('should refuse commands against keys of another type', async () => {
+    await client.rpush('list', 'a');
+
+    await expect(client.hget('list', 'a')).rejects.toThrow('WRONGTYPE');
+    await expect(client.zadd('list', 0, 'a')).rejects.toThrow('WRONGTYPE');
+    expect(await client.type('list')).toEqual('list');
+  });
+
+  it('should scan every key once, in batches, by pattern', async () => {
+    for (let i = 0; i < 25; i++) {
+      await client.hset(`k:${i}`, 'A', '1');
+    }
+    await client.zadd('#names', 0, 'k');
+
+    const seen: string[] = [];
+    let cursor = '0';
+    do {
+      const [next, keys] = await client.scan(cursor, 'MATCH', 'k:*', 'COUNT', 10);
+      // keys written during the scan don't upset it
+      await client.hset(`k:${seen.length}`, 'AAAA', '1');
+      seen.push(...keys);
+      cursor = next;
+    } while (cursor !== '0');
+
+    expect(seen.sort()).toEqual([...Array(25).keys()].map((i) => `k:${i}`).sort());
+    await client.rpush('k:list', 'a');
+    expect((await client.scan('0', 'MATCH', 'k:*', 'COUNT', 100, 'TYPE', 'list'))[1]).toEqual(['k:list']);
+  });
+
+  it('should match glob patterns as Redis does', () => {
+    expect(globToRegExp('{com:example}:*').test('{com:example}:www')).toBe(true);
+    expect(globToRegExp('h?llo').test('hello')).toBe(true);
+    expect(globToRegExp('h[ae]llo').test('hillo')).toBe(false);
+    expect(globToRegExp('h[^e]llo').test('hallo')).toBe(true);
+    expect(globToRegExp('a\\*b').test('a*b')).toBe(true);
+    expect(globToRegExp('a\\*b').test('axb')).toBe(false);
+  });
+
+  it('should range over sorted sets lexically', async () => {
+    for (const member of ['com', 'com:example', 'com:example:www', 'com:examples', 'org']) {
+      await client.zadd('z', 0, member);
+    }
+
+    expect(await client.zrangebylex('z', '[com:example:', '(com:example;', 'LIMIT', 0, 10)).toEqual([
+      'com:example:www',
+    ]);
+    expect(await client.zrangebylex('z', '(com', '+', 'LIMIT', 1, 2)).toEqual(['com:example:www', 'com:examples']);
+    expect(await client.zrem('z', 'org', 'net')).toEqual(1);
+  });
+
+  it('should keep trimmed lists and streams', async () => {
+    await client.rpush('l', 'a', 'b', 'c');
+    await client.ltrim('l', -2, -1);
+    expect(await client.lrange('l', 0, -1)).toEqual(['b', 'c']);
+
+    const ids: string[] = [];
+    for (const value of ['1', '2', '3']) {
+      ids.push((await client.xadd('s', 'MAXLEN', '~', 2, '*', 'v', value))!);
+    }
+
+    expect((await client.xrange('s', '-', '+', 'COUNT', 10)).map(([, fields]) => fields)).toEqual([
+      ['v', '2'],
+      ['v', '3'],
+    ]);
+    expect(await client.xrange('s', `(${ids[1]}`, '+', 'COUNT', 10)).toEqual([[ids[2], ['v', '3']]]);
+    expect(await client.xtrim('s', 'MINID', '~', Date.now() + 1000)).toEqual(2);
+
+    expect(await client.xadd('s', 'MAXLEN', '~', 2, '99999999999999-0', 'v', '4')).toEqual('99999999999999-0');
+    await expect(client.xadd('s', 'MAXLEN', '~', 2, ids[0], 'v', '5')).rejects.toThrow('equal or smaller');
+  });
+
+  it('should apply transactions as a whole', async () => {
+    await client.hset('h', 'a', '1');
+    await client.rpush('l', 'a');
+
+    const results = await client.multi().del('h').hset('l', 'a', '1').zadd('z', 0, 'm').exec();
+
+    expect(results.map(([err]) => err?.message.slice(0, 9) ?? null)).toEqual([null, 'WRONGTYPE', null]);
+    expect(await client.exists('h', 'z')).toEqual(1);
+  });
+
+  it('should run the store scripts', async () => {
+    await client.hset('com:example:*', 'A', 'wildcard');
+    await client.zadd('#names', 0, 'com:example:*');
+
+    expect(await client.dinodnsLookup(2, 'com:example:www', 'com:example:*', 'A')).toEqual([2, ['A', 'wildcard']]);
+    expect(await client.dinodnsLookup(1, 'com:example:www', '')).toBeNull();
+    expect(await client.dinodnsWildcardLookup(3, '#names', 'com:example:www', 'com:example', 'A', '')).toEqual([
+      'com:example:*',
+      ['A', 'wildcard'],
+    ]);
+
+    expect(await client.dinodnsCompareAndSet('com:example:*', 'A', 'stale', 'next')).toEqual(0);
+    expect(await client.dinodnsCompareAndSet('com:example:*', 'A', 'wildcard', '')).toEqual(1);
+    expect(await client.exists('com:example:*')).toEqual(0);
+
+    expect(await client.dinodnsCompareAndSetHashes(1, 'h', '{}', '{"A":"1"}')).toEqual(1);
+    expect(await client.dinodnsCompareAndSetHashes(1, 'h', '{}', '{"A":"2"}')).toEqual(0);
+    expect(await client.hgetall('h')).toEqual({ A: '1' });
+  });
+
+  it('should deliver messages and stream entries to other connections', async () => {
+    const subscriber = client.duplicate();
+    const received = new Promise((resolve) => subscriber.on('message', (...args) => resolve(args)));
+    await subscriber.subscribe('channel');
+
+    expect(await client.publish('channel', 'hello')).toEqual(1);
+    expect(await received).toEqual(['channel', 'hello']);
+
+    const reader = client.duplicate();
+    const read = reader.xread('BLOCK', 0, 'STREAMS', 's', '$');
+    const id = await client.xadd('s', 'MAXLEN', '~', 10, '*', 'v', '1');
+    expect(await read).toEqual([['s', [[id, ['v', '1']]]]]);
+
+    expect(await reader.xread('BLOCK', 10, 'STREAMS', 's', id!)).toBeNull();
+    const blocked = reader.xread('BLOCK', 0, 'STREAMS', 's', id!);
+    reader.disconnect();
+    await expect(blocked).rejects.toThrow('Connection is closed.');
+    await subscriber.quit();
+  });
+});
@@ -0,0 +1,735 @@
+import { EventEmitter } from 'events';
+import { BackendTransaction, RedisBackend, StreamEntry } from './backend';
+
+const WRONGTYPE = 'WRONGTYPE Operation against a key holding the wrong kind of value';
+
+/** A stream entry id as its milliseconds and sequence number, which sort in that order. */
+type StreamId = [ms: number, seq: number];
+
+/**
+ * Parse a stream entry id, or a range bound such as `-`, `+` or `1700000000000`. A bound without a
+ * sequence number covers every entry of its millisecond.
+ * @param id The id or bound
+ * @param end Whether the bound ends a range
+ */
+function parseStreamId(id: string, end = false): StreamId {
+  if (id === '-') {
+    return [0, 0];
+  }
+
+  if (id === '+') {
+    return [Infinity, Infinity];
+  }
+
+  const [ms, seq] = id.split('-');
+
+  return [Number(ms), seq === undefined ? (end ? Infinity : 0) : Number(seq)];
+}
+
+/**
+ * Compare two stream entry ids.
+ * @returns Negative, zero or positive as `a` sorts before, with or after `b`
+ */
+function compareStreamIds(a: StreamId, b: StreamId): number {
+  return a[0] !== b[0] ? a[0] - b[0] : a[1] - b[1];
+}
+
+/**
+ * Parse a ZRANGEBYLEX bound: `-`, `+`, or a member prefixed with `[` (inclusive) or `(` (exclusive).
+ * @param bound The bound
+ * @param end Whether the bound is the maximum
+ * @returns Whether a member is within the bound
+ */
+function parseLexBound(bound: string, end: boolean): (member: string) => boolean {
+  if (bound === '-' || bound === '+') {
+    return () => (bound === '+') === end;
+  }
+
+  const value = bound.slice(1);
+  if (bound.startsWith('[')) {
+    return end ? (member) => member <= value : (member) => member >= value;
+  }
+
+  if (bound.startsWith('(')) {
+    return end ? (member) => member < value : (member) => member > value;
+  }
+
+  throw new Error('ERR min or max not valid string range item');
+}
+
+/**
+ * Resolve a list index that may count from the end.
+ * @param index The index
+ * @param length The length of the list
+ */
+function listIndex(index: number, length: number): number {
+  return index < 0 ? Math.max(length + index, 0) : index;
+}
+
+/**
+ * Turn a glob-style SCAN pattern into a regular expression.
+ * @param pattern The pattern, with `*`, `?`, `[...]` and backslash escapes
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\/-]/g, '\\$&');
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const close = char === '[' ? pattern.indexOf(']', i + 2) : -1;
+    if (char === '\\' && i + 1 < pattern.length) {
+      source += escape(pattern[++i]);
+    } else if (char === '*') {
+      source += '[\\s\\S]*';
+    } else if (char === '?') {
+      source += '[\\s\\S]';
+    } else if (close !== -1) {
+      const set = pattern.slice(i + 1, close);
+      source += set.startsWith('^') ? `[^${escape(set.slice(1))}]` : `[${escape(set)}]`;
+      i = close;
+    } else {
+      source += escape(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * The data of an in-memory database, one map per data type, shared by every connection to it.
+ * The maps can be seeded and inspected directly in tests.
+ */
+export class MemoryDatabase {
+  readonly hashes = new Map<string, Map<string, string>>();
+
+  /** Sorted sets, as the score of each member */
+  readonly sortedSets = new Map<string, Map<string, number>>();
+  readonly lists = new Map<string, string[]>();
+  readonly streams = new Map<string, StreamEntry[]>();
+
+  /** Announces published messages and stream entries to the connections waiting for them */
+  readonly events = new EventEmitter().setMaxListeners(0);
+
+  /**
+   * The type of a key, as TYPE reports it.
+   * @param key The key
+   */
+  type(key: string): string {
+    if (this.hashes.has(key)) {
+      return 'hash';
+    }
+
+    if (this.sortedSets.has(key)) {
+      return 'zset';
+    }
+
+    if (this.lists.has(key)) {
+      return 'list';
+    }
+
+    return this.streams.has(key) ? 'stream' : 'none';
+  }
+
+  /** The maps of every type. */
+  maps(): Map<string, unknown>[] {
+    return [this.hashes, this.sortedSets, this.lists, this.streams];
+  }
+
+  /** Drop every key. */
+  flush(): void {
+    for (const map of this.maps()) {
+      map.clear();
+    }
+  }
+
+  /**
+   * Get a key of one type for reading, failing like Redis if it holds another type.
+   * @param map The map of the type
+   * @param key The key
+   */
+  read<T>(map: Map<string, T>, key: string): T | undefined {
+    const existing = map.get(key);
+    if (existing === undefined && this.type(key) !== 'none') {
+      throw new Error(WRONGTYPE);
+    }
+
+    return existing;
+  }
+
+  /**
+   * Get a key of one type for writing, creating it if it doesn't exist, and failing like Redis if
+   * it holds another type.
+   * @param map The map of the type
+   * @param key The key
+   * @param create Creates an empty value
+   */
+  write<T>(map: Map<string, T>, key: string, create: () => T): T {
+    let existing = this.read(map, key);
+    if (existing === undefined) {
+      existing = create();
+      map.set(key, existing);
+    }
+
+    return existing;
+  }
+
+  /** HSET, returning the number of fields added. */
+  hset(key: string, fields: Record<string, string>): number {
+    const hash = this.write(this.hashes, key, () => new Map<string, string>());
+    let added = 0;
+    for (const [field, value] of Object.entries(fields)) {
+      added += hash.has(field) ? 0 : 1;
+      hash.set(field, String(value));
+    }
+
+    return added;
+  }
+
+  /** HDEL, returning the number of fields removed. Removing the last field removes the key. */
+  hdel(key: string, fields: string[]): number {
+    const hash = this.read(this.hashes, key);
+    const removed = fields.filter((field) => hash?.delete(field)).length;
+    if (hash?.size === 0) {
+      this.hashes.delete(key);
+    }
+
+    return removed;
+  }
+
+  /** DEL, returning the number of keys removed. */
+  del(keys: string[]): number {
+    return keys.filter((key) => this.maps().some((map) => map.delete(key))).length;
+  }
+
+  /** ZADD, returning the number of members added. */
+  zadd(key: string, score: number, member: string): number {
+    const set = this.write(this.sortedSets, key, () => new Map<string, number>());
+    const added = set.has(member) ? 0 : 1;
+    set.set(member, Number(score));
+
+    return added;
+  }
+
+  /** ZREM, returning the number of members removed. Removing the last member removes the key. */
+  zrem(key: string, members: string[]): number {
+    const set = this.read(this.sortedSets, key);
+    const removed = members.filter((member) => set?.delete(member)).length;
+    if (set?.size === 0) {
+      this.sortedSets.delete(key);
+    }
+
+    return removed;
+  }
+
+  /**
+   * The entries of a stream between two ids, as XRANGE lists them.
+   * @param key The stream key
+   * @param start The first id, `-` for the first entry, or `(` and an id to start after it
+   * @param end The last id, `+` for the last entry, or `(` and an id to end before it
+   */
+  range(key: string, start: string, end: string): StreamEntry[] {
+    const exclusiveStart = start.startsWith('(');
+    const exclusiveEnd = end.startsWith('(');
+    const from = parseStreamId(exclusiveStart ? start.slice(1) : start);
+    const to = parseStreamId(exclusiveEnd ? end.slice(1) : end, true);
+
+    return (this.read(this.streams, key) ?? [])
+      .filter(([id]) => {
+        const low = compareStreamIds(parseStreamId(id), from);
+        const high = compareStreamIds(parseStreamId(id), to);
+
+        return (exclusiveStart ? low > 0 : low >= 0) && (exclusiveEnd ? high < 0 : high <= 0);
+      })
+      .map(([id, fields]): StreamEntry => [id, [...fields]]);
+  }
+
+  /**
+   * The members of a sorted set between two lexical bounds, as ZRANGEBYLEX lists them. As in
+   * Redis, this assumes every member has the same score, which those the store adds do.
+   * @param key The sorted set key
+   * @param min The minimum, `-`, or a member prefixed with `[` (inclusive) or `(` (exclusive)
+   * @param max The maximum, `+`, or a member prefixed the same way
+   */
+  rangeByLex(key: string, min: string, max: string): string[] {
+    const from = parseLexBound(min, false);
+    const to = parseLexBound(max, true);
+
+    return [...(this.read(this.sortedSets, key)?.keys() ?? [])].filter((member) => from(member) && to(member)).sort();
+  }
+
+  /**
+   * One field of a hash, or every field, as a flat list of fields and values, as the store's
+   * scripts read them.
+   * @param key The hash key
+   * @param field The field, or an empty string for every field
+   */
+  readFields(key: string, field: string): string[] {
+    const hash = this.read(this.hashes, key);
+    if (field !== '') {
+      const value = hash?.get(field);
+
+      return value === undefined ? [] : [field, value];
+    }
+
+    return [...(hash ?? [])].flat();
+  }
+}
+
+/** A MULTI transaction on a `MemoryRedis`, applied atomically by `exec`. */
+export class MemoryTransaction implements BackendTransaction {
+  private queued: (() => unknown)[] = [];
+
+  constructor(private readonly database: MemoryDatabase) {}
+
+  del(...keys: string[]): this {
+    return this.queue(() => this.database.del(keys));
+  }
+
+  hset(key: string, field: string, value: string): this {
+    return this.queue(() => this.database.hset(key, { [field]: value }));
+  }
+
+  zadd(key: string, score: number, member: string): this {
+    return this.queue(() => this.database.zadd(key, score, member));
+  }
+
+  zrem(key: string, ...members: string[]): this {
+    return this.queue(() => this.database.zrem(key, members));
+  }
+
+  /**
+   * Run the queued commands one after the other without yielding, so nothing runs in between. As
+   * in Redis, a failing command doesn't stop the others.
+   */
+  async exec(): Promise<[Error | null, unknown][]> {
+    const queued = this.queued;
+    this.queued = [];
+
+    return queued.map((command): [Error | null, unknown] => {
+      try {
+        return [null, command()];
+      } catch (err) {
+        return [err as Error, null];
+      }
+    });
+  }
+
+  private queue(command: () => unknown): this {
+    this.queued.push(command);
+
+    return this;
+  }
+}
+
+/**
+ * An in-memory stand-in for a Redis server, answering the commands the store sends, its scripts
+ * included, with the semantics Redis gives them. Every command applies atomically. Stores can run
+ * on one in unit tests, or embedded where there is no Redis server:
+ *
+ * ```typescript
+ * const store = new RedisStore({ client: new MemoryRedis() });
+ * ```
+ *
+ * Connections made with `duplicate` share the data, and can subscribe to channels and block on
+ * streams. Nothing is persisted.
+ */
+export class MemoryRedis extends EventEmitter implements RedisBackend {
+  readonly isCluster = false;
+  status: 'ready' | 'end' = 'ready';
+  private subscriptions = new Map<string, (message: string) => void>();
+  private closed = new AbortController();
+
+  constructor(readonly database = new MemoryDatabase()) {
+    super();
+    // as a connection does once it is established
+    process.nextTick(() => this.emit('ready'));
+  }
+
+  async hget(key: string, field: string): Promise<string | null> {
+    return this.database.read(this.database.hashes, key)?.get(field) ?? null;
+  }
+
+  async hgetall(key: string): Promise<Record<string, string>> {
+    return Object.fromEntries(this.database.read(this.database.hashes, key) ?? []);
+  }
+
+  async hmget(key: string, ...fields: string[]): Promise<(string | null)[]> {
+    const hash = this.database.read(this.database.hashes, key);
+
+    return fields.map((field) => hash?.get(field) ?? null);
+  }
+
+  async hkeys(key: string): Promise<string[]> {
+    return [...(this.database.read(this.database.hashes, key)?.keys() ?? [])];
+  }
+
+  async hset(key: string, object: Record<string, string>): Promise<number>;
+  async hset(key: string, field: string, value: string): Promise<number>;
+  async hset(key: string, field: string | Record<string, string>, value?: string): Promise<number> {
+    return this.database.hset(key, typeof field === 'string' ? { [field]: value! } : field);
+  }
+
+  async hdel(key: string, ...fields: string[]): Promise<number> {
+    return this.database.hdel(key, fields);
+  }
+
+  async del(...keys: string[]): Promise<number> {
+    return this.database.del(keys);
+  }
+
+  async exists(...keys: string[]): Promise<number> {
+    return keys.filter((key) => this.database.type(key) !== 'none').length;
+  }
+
+  async type(key: string): Promise<string> {
+    return this.database.type(key);
+  }
+
+  async renamenx(key: string, newKey: string): Promise<number> {
+    const map = this.database.maps().find((m) => m.has(key));
+    if (!map) {
+      throw new Error('ERR no such key');
+    }
+
+    if (this.database.type(newKey) !== 'none') {
+      return 0;
+    }
+
+    map.set(newKey, map.get(key));
+    map.delete(key);
+
+    return 1;
+  }
+
+  /**
+   * Iterate the keys in lexical order, `COUNT` at a time, filtering each batch by the `MATCH`
+   * pattern and the `TYPE`. The cursor holds the last key of the batch, so every key that exists
+   * throughout an iteration is returned exactly once.
+   */
+  async scan(cursor: string, countToken: 'COUNT', count: number): Promise<[string, string[]]>;
+  async scan(
+    cursor: string,
+    patternToken: 'MATCH',
+    pattern: string,
+    countToken: 'COUNT',
+    count: number,
+  ): Promise<[string, string[]]>;
+  async scan(
+    cursor: string,
+    patternToken: 'MATCH',
+    pattern: string,
+    countToken: 'COUNT',
+    count: number,
+    typeToken: 'TYPE',
+    type: string,
+  ): Promise<[string, string[]]>;
+  async scan(cursor: string, ...args: (string | number)[]): Promise<[string, string[]]> {
+    const option = (name: string) => {
+      const i = args.findIndex((arg) => String(arg).toUpperCase() === name);
+
+      return i === -1 ? undefined : String(args[i + 1]);
+    };
+    const pattern = option('MATCH');
+    const count = Number(option('COUNT') ?? 10);
+    const type = option('TYPE')?.toLowerCase();
+    const after = cursor === '0' ? null : cursor.slice(1);
+
+    const keys = this.database
+      .maps()
+      .flatMap((map) => [...map.keys()])
+      .filter((key) => after === null || key > after)
+      .sort();
+    const batch = keys.slice(0, count);
+    const regex = pattern === undefined ? null : globToRegExp(pattern);
+
+    return [
+      keys.length > count ? `>${batch[batch.length - 1]}` : '0',
+      batch.filter((key) => (!regex || regex.test(key)) && (!type || this.database.type(key) === type)),
+    ];
+  }
+
+  async zadd(key: string, score: number, member: string): Promise<number> {
+    return this.database.zadd(key, score, member);
+  }
+
+  async zrem(key: string, ...members: string[]): Promise<number> {
+    return this.database.zrem(key, members);
+  }
+
+  /** List members between two lexical bounds, as `MemoryDatabase.rangeByLex` does. */
+  async zrangebylex(
+    key: string,
+    min: string,
+    max: string,
+    limitToken?: 'LIMIT',
+    offset = 0,
+    count = -1,
+  ): Promise<string[]> {
+    const members = this.database.rangeByLex(key, min, max);
+
+    return limitToken ? members.slice(offset, count < 0 ? undefined : offset + count) : members;
+  }
+
+  async rpush(key: string, ...elements: string[]): Promise<number> {
+    const list = this.database.write(this.database.lists, key, () => []);
+    list.push(...elements.map(String));
+
+    return list.length;
+  }
+
+  async ltrim(key: string, start: number, stop: number): Promise<'OK'> {
+    const list = this.database.read(this.database.lists, key);
+    if (list) {
+      const kept = list.slice(listIndex(start, list.length), listIndex(stop, list.length) + 1);
+      if (kept.length > 0) {
+        this.database.lists.set(key, kept);
+      } else {
+        this.database.lists.delete(key);
+      }
+    }
+
+    return 'OK';
+  }
+
+  async lrange(key: string, start: number, stop: number): Promise<string[]> {
+    const list = this.database.read(this.database.lists, key) ?? [];
+
+    return list.slice(listIndex(start, list.length), listIndex(stop, list.length) + 1);
+  }
+
+  /**
+   * Add an entry to a stream, with the given id, or with `*` an id made of the time and a sequence
+   * number. Trims exactly.
+   */
+  async xadd(
+    key: string,
+    maxlenToken: 'MAXLEN',
+    approximately: '~',
+    threshold: number,
+    id: string,
+    ...fieldValues: string[]
+  ): Promise<string> {
+    const stream = this.database.write(this.database.streams, key, () => []);
+    const ms = Date.now();
+    const last = stream.length > 0 ? parseStreamId(stream[stream.length - 1][0]) : null;
+    let next = last && last[0] >= ms ? `${last[0]}-${last[1] + 1}` : `${ms}-0`;
+    if (id !== '*') {
+      if (last && compareStreamIds(parseStreamId(id), last) <= 0) {
+        throw new Error('ERR The ID specified in XADD is equal or smaller than the target stream top item');
+      }
+
+      next = id;
+    }
+
+    stream.push([next, fieldValues.map(String)]);
+    stream.splice(0, Math.max(stream.length - threshold, 0));
+    this.database.events.emit(`stream:${key}`);
+
+    return next;
+  }
+
+  /** Drop the entries older than an id. Trims exactly. */
+  async xtrim(key: string, minidToken: 'MINID', approximately: '~', threshold: number): Promise<number> {
+    const stream = this.database.read(this.database.streams, key);
+    if (!stream) {
+      return 0;
+    }
+
+    const min = parseStreamId(String(threshold));
+    const kept = stream.filter(([id]) => compareStreamIds(parseStreamId(id), min) >= 0);
+    this.database.streams.set(key, kept);
+
+    return stream.length - kept.length;
+  }
+
+  async xrange(
+    key: string,
+    start: string,
+    end: string,
+    countToken?: 'COUNT',
+    count = Infinity,
+  ): Promise<StreamEntry[]> {
+    return this.database.range(key, start, end).slice(0, countToken ? count : undefined);
+  }
+
+  /**
+   * Read the entries of a stream after an id, `$` being its last entry, waiting for one to be added
+   * if there are none, for up to the given milliseconds or, with 0, until the connection is closed.
+   */
+  async xread(
+    blockToken: 'BLOCK',
+    milliseconds: number,
+    streamsToken: 'STREAMS',
+    key: string,
+    id: string,
+  ): Promise<[string, StreamEntry[]][] | null> {
+    const stream = this.database.read(this.database.streams, key) ?? [];
+    const after = id === '$' ? (stream[stream.length - 1]?.[0] ?? '0-0') : id;
+
+    // checked and waited for without yielding in between, so no entry can slip past
+    let entries = this.database.range(key, `(${after}`, '+');
+    while (entries.length === 0) {
+      if (!(await this.waitFor(`stream:${key}`, milliseconds))) {
+        return null;
+      }
+
+      entries = this.database.range(key, `(${after}`, '+');
+    }
+
+    return [[key, entries]];
+  }
+
+  /**
+   * Wait for an event of the database, until a timeout or until the connection is closed.
+   * @param event The event
+   * @param milliseconds The timeout, or 0 to wait indefinitely
+   * @returns Whether the event happened in time
+   * @throws If the connection is closed first
+   */
+  private waitFor(event: string, milliseconds: number): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      const { signal } = this.closed;
+      if (signal.aborted) {
+        return reject(new Error('Connection is closed.'));
+      }
+
+      const settle = (happened: boolean | Error) => {
+        clearTimeout(timer);
+        this.database.events.off(event, onEvent);
+        signal.removeEventListener('abort', onAbort);
+        if (happened instanceof Error) {
+          reject(happened);
+        } else {
+          resolve(happened);
+        }
+      };
+      const onEvent = () => settle(true);
+      const onAbort = () => settle(new Error('Connection is closed.'));
+      const timer = milliseconds > 0 ? setTimeout(() => settle(false), milliseconds) : undefined;
+      this.database.events.on(event, onEvent);
+      signal.addEventListener('abort', onAbort);
+    });
+  }
+
+  async publish(channel: string, message: string): Promise<number> {
+    const event = `message:${channel}`;
+    // delivered after the command returns, as it would be to another connection
+    setImmediate(() => this.database.events.emit(event, message));
+
+    return this.database.events.listenerCount(event);
+  }
+
+  async subscribe(...channels: string[]): Promise<number> {
+    for (const channel of channels) {
+      if (!this.subscriptions.has(channel)) {
+        const deliver = (message: string) => this.emit('message', channel, message);
+        this.database.events.on(`message:${channel}`, deliver);
+        this.subscriptions.set(channel, deliver);
+      }
+    }
+
+    return this.subscriptions.size;
+  }
+
+  multi(): MemoryTransaction {
+    return new MemoryTransaction(this.database);
+  }
+
+  duplicate(): MemoryRedis {
+    return new MemoryRedis(this.database);
+  }
+
+  async quit(): Promise<'OK'> {
+    this.disconnect();
+
+    return 'OK';
+  }
+
+  /** Close the connection, ending its subscriptions and failing its blocked reads. */
+  disconnect(): void {
+    for (const [channel, deliver] of this.subscriptions) {
+      this.database.events.off(`message:${channel}`, deliver);
+    }
+
+    this.subscriptions.clear();
+    this.closed.abort();
+    this.status = 'end';
+    this.emit('end');
+  }
+
+  /** Runs the equivalent of `LOOKUP_SCRIPT`. */
+  async dinodnsLookup(numKeys: number, ...args: string[]): Promise<[number, string[]] | null> {
+    const field = args[numKeys];
+    for (const [i, key] of args.slice(0, numKeys).entries()) {
+      const values = this.database.readFields(key, field);
+      if (values.length > 0) {
+        // the script answers with a Lua index, counting from 1
+        return [i + 1, values];
+      }
+    }
+
+    return null;
+  }
+
+  /** Runs the equivalent of `WILDCARD_LOOKUP_SCRIPT`. */
+  async dinodnsWildcardLookup(numKeys: number, ...args: string[]): Promise<[string, string[]] | null> {
+    const [index, key, ...ancestors] = args.slice(0, numKeys);
+    const [field, root] = args.slice(numKeys);
+    const indexed = [...(this.database.read(this.database.sortedSets, index)?.keys() ?? [])];
+    const exists = (k: string) => this.database.type(k) !== 'none' || indexed.some((m) => m.startsWith(`${k}:`));
+
+    if (exists(key)) {
+      return [key, this.database.readFields(key, field)];
+    }
+
+    for (const ancestor of ancestors) {
+      if (exists(ancestor)) {
+        const source = `${ancestor}:*`;
+
+        return this.database.type(source) === 'none' ? null : [source, this.database.readFields(source, field)];
+      }
+    }
+
+    return root && this.database.type(root) !== 'none' ? [root, this.database.readFields(root, field)] : null;
+  }
+
+  /** Runs the equivalent of `COMPARE_AND_SET_SCRIPT`. */
+  async dinodnsCompareAndSet(key: string, field: string, expected: string, next: string): Promise<0 | 1> {
+    if ((this.database.read(this.database.hashes, key)?.get(field) ?? '') !== expected) {
+      return 0;
+    }
+
+    if (next === '') {
+      this.database.hdel(key, [field]);
+    } else {
+      this.database.hset(key, { [field]: next });
+    }
+
+    return 1;
+  }
+
+  /** Runs the equivalent of `COMPARE_AND_SET_HASHES_SCRIPT`. */
+  async dinodnsCompareAndSetHashes(numKeys: number, ...args: string[]): Promise<0 | 1> {
+    const keys = args.slice(0, numKeys);
+    for (const [i, key] of keys.entries()) {
+      const expected = Object.entries(JSON.parse(args[numKeys + i]) as Record<string, string>);
+      const current = this.database.read(this.database.hashes, key) ?? new Map<string, string>();
+      if (current.size !== expected.length || expected.some(([field, value]) => current.get(field) !== value)) {
+        return 0;
+      }
+    }
+
+    for (const [i, key] of keys.entries()) {
+      const next = args[2 * numKeys + i];
+      if (next !== '') {
+        const fields = JSON.parse(next) as Record<string, string>;
+        this.database.del([key]);
+        // an empty hash doesn't exist
+        if (Object.keys(fields).length > 0) {
+          this.database.hset(key, fields);
+        }
+      }
+    }
+
+    return 1;
+  }
+}
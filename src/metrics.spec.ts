@@ -0,0 +1,90 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { PROMETHEUS_CONTENT_TYPE, PrometheusMetrics, countRoundTrips } from './metrics';
+
+describe('metrics', () => {
+  describe('PrometheusMetrics', () => {
+    it('should count by labels and fill histogram buckets cumulatively', () => {
+      const metrics = new PrometheusMetrics({ durationBuckets: [0.001, 0.01], roundTripBuckets: [1, 2] });
+      metrics.lookup({ type: 'A', outcome: 'exact', duration: 0.0005, roundTrips: 1 });
+      metrics.lookup({ type: 'A', outcome: 'exact', duration: 0.005, roundTrips: 2 });
+      metrics.lookup({ type: 'A', outcome: 'miss', duration: 0.05, roundTrips: 3 });
+
+      const lines = metrics.metrics().split('\n');
+      expect(lines).toEqual(
+        expect.arrayContaining([
+          '# HELP dinodns_redis_lookups_total Lookups by record type and outcome.',
+          '# TYPE dinodns_redis_lookups_total counter',
+          'dinodns_redis_lookups_total{type="A",outcome="exact"} 2',
+          'dinodns_redis_lookups_total{type="A",outcome="miss"} 1',
+          '# TYPE dinodns_redis_lookup_duration_seconds histogram',
+          'dinodns_redis_lookup_duration_seconds_bucket{type="A",le="0.001"} 1',
+          'dinodns_redis_lookup_duration_seconds_bucket{type="A",le="0.01"} 2',
+          'dinodns_redis_lookup_duration_seconds_bucket{type="A",le="+Inf"} 3',
+          'dinodns_redis_lookup_duration_seconds_sum{type="A"} 0.0555',
+          'dinodns_redis_lookup_duration_seconds_count{type="A"} 3',
+          'dinodns_redis_lookup_round_trips_bucket{type="A",le="2"} 2',
+        ]),
+      );
+    });
+
+    it('should report writes, errors and queries passed on', () => {
+      const metrics = new PrometheusMetrics({ prefix: 'dns_' });
+      metrics.write({ operation: 'set', duration: 0.002, roundTrips: 3 });
+      metrics.error({ operation: 'lookup', error: new Error('Connection is closed.') });
+      metrics.query({ type: 'AAAA', rcode: null, stale: false, duration: 0.001, roundTrips: 1 });
+
+      const text = metrics.metrics();
+      expect(text).toContain('dns_writes_total{operation="set"} 1\n');
+      expect(text).toContain('dns_write_duration_seconds_count{operation="set"} 1\n');
+      expect(text).toContain('dns_errors_total{operation="lookup"} 1\n');
+      expect(text).toContain('dns_queries_total{type="AAAA",rcode="none",stale="false"} 1\n');
+    });
+
+    it('should serve the metrics over HTTP', async () => {
+      const metrics = new PrometheusMetrics();
+      metrics.error({ operation: 'query', error: null });
+      const server = http.createServer(metrics.handler);
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+      try {
+        const res = await fetch(`http://127.0.0.1:${(server.address() as AddressInfo).port}/metrics`);
+        expect(res.headers.get('content-type')).toEqual(PROMETHEUS_CONTENT_TYPE);
+        expect(await res.text()).toContain('dinodns_redis_errors_total{operation="query"} 1\n');
+      } finally {
+        server.closeAllConnections();
+        await new Promise((resolve) => server.close(resolve));
+      }
+    });
+  });
+
+  describe('countRoundTrips', () => {
+    it('should count commands, and batches once as they are executed', async () => {
+      const batch = { get: jest.fn().mockReturnThis(), exec: jest.fn(async () => []) };
+      const client = {
+        status: 'ready',
+        get: jest.fn(async () => 'value'),
+        multi: jest.fn(() => batch),
+        on: jest.fn(),
+        getAndTouch() {
+          // calls made by the client itself go around the wrapper
+          return this.get();
+        },
+      };
+      const onCommand = jest.fn();
+      const counted = countRoundTrips(client, onCommand);
+
+      expect(counted.status).toEqual('ready');
+      expect(await counted.get()).toEqual('value');
+      await counted.getAndTouch();
+      counted.on();
+      const tx = counted.multi();
+      tx.get();
+      tx.get();
+      expect(onCommand).toHaveBeenCalledTimes(2);
+
+      await tx.exec();
+      expect(onCommand).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import * as http from 'http';
+
+/**
+ * How a lookup was answered: by the name's own records, by a wildcard above it, or not at all.
+ * A name without records of the type asked for counts as a miss.
+ */
+export type LookupOutcome = 'exact' | 'wildcard' | 'miss';
+
+/** The store operations that write to Redis. `update` is a dynamic UPDATE message. */
+export type WriteOperation = 'set' | 'append' | 'delete' | 'importZone' | 'rollback' | 'update';
+
+/** One lookup of the records answering a name, from the handler or from `get` and `getRecords`. */
+export type LookupEvent = {
+  /** The record type looked up, or `ANY` for all of them */
+  type: string;
+  outcome: LookupOutcome;
+
+  /** How long the lookup took, in seconds */
+  duration: number;
+
+  /** How many commands the lookup sent to Redis */
+  roundTrips: number;
+};
+
+/** One query answered by the handler. Its lookups are reported on their own as well. */
+export type QueryEvent = {
+  /** The type of the question */
+  type: string;
+
+  /** The response code, such as `NOERROR` or `NXDOMAIN`, or null if the store passed the query on */
+  rcode: string | null;
+
+  /** Whether the answer was served stale */
+  stale: boolean;
+
+  /** How long answering took, in seconds */
+  duration: number;
+
+  /** How many commands answering sent to Redis */
+  roundTrips: number;
+};
+
+/** One write that succeeded. */
+export type WriteEvent = {
+  operation: WriteOperation;
+
+  /** How long the write took, in seconds */
+  duration: number;
+
+  /** How many commands the write sent to Redis */
+  roundTrips: number;
+};
+
+/** One operation that failed, including queries the handler answered stale or with SERVFAIL instead. */
+export type ErrorEvent = {
+  operation: WriteOperation | 'lookup' | 'query';
+  error: unknown;
+};
+
+/**
+ * What the store reports about its lookups, queries and writes. Implement it to feed any metrics
+ * system, or use `PrometheusMetrics`. Reporting must not throw.
+ */
+export type StoreMetrics = {
+  lookup(event: LookupEvent): void;
+  query(event: QueryEvent): void;
+  write(event: WriteEvent): void;
+  error(event: ErrorEvent): void;
+};
+
+export type PrometheusMetricsOptions = {
+  /** The prefix of every metric name. Defaults to `dinodns_redis_`. */
+  prefix?: string;
+
+  /** The upper bounds of the duration histogram buckets, in seconds. Defaults to 0.5 ms up to 1 s. */
+  durationBuckets?: number[];
+
+  /** The upper bounds of the round trip histogram buckets. Defaults to 1 up to 16. */
+  roundTripBuckets?: number[];
+};
+
+/** The content type of the Prometheus text exposition format. */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const DEFAULT_DURATION_BUCKETS = [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1];
+const DEFAULT_ROUND_TRIP_BUCKETS = [1, 2, 3, 4, 6, 8, 12, 16];
+
+type Labels = Record<string, string>;
+
+/**
+ * Escape a label value for the text format.
+ * @param value The label value
+ */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Format a set of labels, with any extra label appended, as `{name="value",...}`.
+ * @param labels The labels
+ * @param extra An extra label, such as the `le` of a histogram bucket
+ */
+function formatLabels(labels: Labels, extra?: [string, string]): string {
+  const pairs = Object.entries(labels);
+  if (extra) {
+    pairs.push(extra);
+  }
+
+  return pairs.length > 0 ? `{${pairs.map(([k, v]) => `${k}="${escapeLabel(v)}"`).join(',')}}` : '';
+}
+
+/**
+ * Format a sample value, the way Prometheus spells infinities.
+ * @param value The value
+ */
+function formatValue(value: number): string {
+  return value === Infinity ? '+Inf' : String(value);
+}
+
+/** A metric with one series per distinct set of labels. */
+abstract class Metric<T> {
+  protected series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+  ) {}
+
+  /**
+   * The series of a set of labels, created on first use.
+   * @param labels The labels
+   */
+  protected get(labels: Labels): T {
+    const id = JSON.stringify(labels);
+    let entry = this.series.get(id);
+    if (!entry) {
+      entry = { labels, value: this.create() };
+      this.series.set(id, entry);
+    }
+
+    return entry.value;
+  }
+
+  protected abstract create(): T;
+
+  abstract samples(): string[];
+
+  /** The metric in the text format, with its HELP and TYPE lines. */
+  format(type: string): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${type}`, ...this.samples()].join('\n');
+  }
+}
+
+class Counter extends Metric<{ count: number }> {
+  protected create() {
+    return { count: 0 };
+  }
+
+  inc(labels: Labels): void {
+    this.get(labels).count++;
+  }
+
+  samples(): string[] {
+    return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value.count}`);
+  }
+}
+
+class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly bounds: number[],
+  ) {
+    super(name, help);
+  }
+
+  protected create() {
+    return { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.get(labels);
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        series.buckets[i]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.bounds.map(
+        (bound, i) => `${this.name}_bucket${formatLabels(labels, ['le', formatValue(bound)])} ${value.buckets[i]}`,
+      ),
+      `${this.name}_bucket${formatLabels(labels, ['le', '+Inf'])} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]);
+  }
+}
+
+/**
+ * Keeps the store's metrics in memory and exposes them in the Prometheus text format, from
+ * `metrics()` or from `handler`, which can be mounted on any HTTP server.
+ */
+export class PrometheusMetrics implements StoreMetrics {
+  private lookups: Counter;
+  private lookupDuration: Histogram;
+  private lookupRoundTrips: Histogram;
+  private queries: Counter;
+  private queryDuration: Histogram;
+  private queryRoundTrips: Histogram;
+  private writes: Counter;
+  private writeDuration: Histogram;
+  private errors: Counter;
+
+  constructor(options: PrometheusMetricsOptions = {}) {
+    const prefix = options.prefix ?? 'dinodns_redis_';
+    const durations = options.durationBuckets ?? DEFAULT_DURATION_BUCKETS;
+    const roundTrips = options.roundTripBuckets ?? DEFAULT_ROUND_TRIP_BUCKETS;
+
+    this.lookups = new Counter(`${prefix}lookups_total`, 'Lookups by record type and outcome.');
+    this.lookupDuration = new Histogram(`${prefix}lookup_duration_seconds`, 'Lookup latency.', durations);
+    this.lookupRoundTrips = new Histogram(`${prefix}lookup_round_trips`, 'Redis commands per lookup.', roundTrips);
+    this.queries = new Counter(`${prefix}queries_total`, 'Queries answered by the handler, by type and rcode.');
+    this.queryDuration = new Histogram(`${prefix}query_duration_seconds`, 'Query latency.', durations);
+    this.queryRoundTrips = new Histogram(`${prefix}query_round_trips`, 'Redis commands per query.', roundTrips);
+    this.writes = new Counter(`${prefix}writes_total`, 'Writes by operation.');
+    this.writeDuration = new Histogram(`${prefix}write_duration_seconds`, 'Write latency.', durations);
+    this.errors = new Counter(`${prefix}errors_total`, 'Failed operations.');
+  }
+
+  lookup({ type, outcome, duration, roundTrips }: LookupEvent): void {
+    this.lookups.inc({ type, outcome });
+    this.lookupDuration.observe({ type }, duration);
+    this.lookupRoundTrips.observe({ type }, roundTrips);
+  }
+
+  query({ type, rcode, stale, duration, roundTrips }: QueryEvent): void {
+    this.queries.inc({ type, rcode: rcode ?? 'none', stale: String(stale) });
+    this.queryDuration.observe({ type }, duration);
+    this.queryRoundTrips.observe({ type }, roundTrips);
+  }
+
+  write({ operation, duration }: WriteEvent): void {
+    this.writes.inc({ operation });
+    this.writeDuration.observe({ operation }, duration);
+  }
+
+  error({ operation }: ErrorEvent): void {
+    this.errors.inc({ operation });
+  }
+
+  /** Every metric in the Prometheus text format. */
+  metrics(): string {
+    const counters = [this.lookups, this.queries, this.writes, this.errors];
+    const histograms = [
+      this.lookupDuration,
+      this.lookupRoundTrips,
+      this.queryDuration,
+      this.queryRoundTrips,
+      this.writeDuration,
+    ];
+
+    return (
+      [...counters.map((c) => c.format('counter')), ...histograms.map((h) => h.format('histogram'))].join('\n') + '\n'
+    );
+  }
+
+  /**
+   * Serve the metrics to Prometheus, as a `(req, res)` request listener.
+   */
+  handler = (_req: http.IncomingMessage, res: http.ServerResponse): void => {
+    res.writeHead(200, { 'Content-Type': PROMETHEUS_CONTENT_TYPE });
+    res.end(this.metrics());
+  };
+}
+
+/** Client methods that don't send a command. */
+const LOCAL_METHODS = new Set([
+  'on',
+  'once',
+  'off',
+  'emit',
+  'addListener',
+  'removeListener',
+  'removeAllListeners',
+  'duplicate',
+  'nodes',
+  'connect',
+  'disconnect',
+]);
+
+/** Client methods that start a batch of commands, sent in one round trip by its `exec`. */
+const BATCH_METHODS = new Set(['multi', 'pipeline']);
+
+/**
+ * Wrap a Redis client to call back on every command sent through it, counting pipelines and
+ * transactions once as they are executed. Methods run on the client itself, so commands it sends
+ * internally aren't counted twice.
+ * @param client The client
+ * @param onCommand Called on every round trip
+ */
+export function countRoundTrips<T extends object>(client: T, onCommand: () => void): T {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value: unknown = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function') {
+        return value;
+      }
+
+      const method = value as (...args: unknown[]) => unknown;
+      if (LOCAL_METHODS.has(property as string)) {
+        return method.bind(target);
+      }
+
+      if (BATCH_METHODS.has(property as string)) {
+        return (...args: unknown[]) => {
+          const batch = method.apply(target, args) as { exec: (...args: unknown[]) => Promise<unknown> };
+          const exec = batch.exec.bind(batch);
+          batch.exec = (...execArgs: unknown[]) => {
+            onCommand();
+
+            return exec(...execArgs);
+          };
+
+          return batch;
+        };
+      }
+
+      return (...args: unknown[]) => {
+        onCommand();
+
+        return method.apply(target, args);
+      };
+    },
+  });
+}
@@ -0,0 +1,164 @@
+import { MemoryRedis } from '.';
+import { migrateToCanonicalNames, migrateToHashTags, migrateToPrefix } from './migrations';
+
+describe('migrations', () => {
+  let client: MemoryRedis;
+
+  /** Every key of the database, sorted. */
+  const keys = () =>
+    client.database
+      .maps()
+      .flatMap((map) => [...map.keys()])
+      .sort();
+
+  // small SCAN batches, so keys moved during a migration turn up again in later batches
+  const batchSize = 2;
+
+  beforeEach(async () => {
+    client = new MemoryRedis();
+    await client.hset('com:example', { A: '["127.0.0.1"]' });
+    await client.hset('com:example:*', { A: '["127.0.0.2"]', MX: '[]' });
+    await client.hset('*', { TXT: '["hello"]' });
+    await client.hset('session:1234', { user: 'someone' });
+    await client.rpush('queue', '42');
+    await client.hset('staging:com:example', { A: '["127.0.0.9"]' });
+    await client.hset('net:example', { A: '["127.0.0.4"]' });
+  });
+
+  it('should move record hashes under the prefix', async () => {
+    const result = await migrateToPrefix(client, 'staging:', { batchSize });
+
+    expect(result.migrated.toSorted()).toEqual(['*', 'com:example:*', 'net:example'].toSorted());
+    expect(await client.exists('staging:*')).toEqual(1);
+    expect(await client.exists('staging:com:example:*')).toEqual(1);
+    expect(await client.exists('net:example')).toEqual(0);
+  });
+
+  it('should leave keys that are not record hashes alone', async () => {
+    await migrateToPrefix(client, 'staging:', { batchSize });
+
+    expect(await client.exists('session:1234', 'queue')).toEqual(2);
+  });
+
+  it('should not overwrite keys that already exist under the prefix', async () => {
+    const result = await migrateToPrefix(client, 'staging:', { batchSize });
+
+    expect(result.skipped).toEqual(['com:example']);
+    expect(await client.hget('staging:com:example', 'A')).toEqual('["127.0.0.9"]');
+    expect(await client.exists('com:example')).toEqual(1);
+  });
+
+  it("should move the store's own keys", async () => {
+    await client.zadd('#names', 0, 'com:example');
+    await client.hset('#tsig', { 'update-key': '{}' });
+    await client.rpush('#journal:com:example', '{}');
+
+    const result = await migrateToPrefix(client, 'staging:', { batchSize });
+
+    expect(result.migrated).toEqual(expect.arrayContaining(['#names', '#tsig', '#journal:com:example']));
+    expect(await client.exists('staging:#names', 'staging:#tsig', 'staging:#journal:com:example')).toEqual(3);
+  });
+
+  it('should leave the keys of other prefixes alone', async () => {
+    const result = await migrateToPrefix(client, 'prod:', { otherPrefixes: ['staging:'], batchSize });
+
+    expect(result.migrated.toSorted()).toEqual(['*', 'com:example', 'com:example:*', 'net:example'].toSorted());
+    expect(await client.hget('staging:com:example', 'A')).toEqual('["127.0.0.9"]');
+  });
+
+  it('should not change anything in a dry run', async () => {
+    const before = keys();
+    const renamenx = jest.spyOn(client, 'renamenx');
+    const result = await migrateToPrefix(client, 'staging:', { dryRun: true, batchSize });
+
+    expect(result.migrated.toSorted()).toEqual(['*', 'com:example', 'com:example:*', 'net:example'].toSorted());
+    expect(keys()).toEqual(before);
+    expect(renamenx).not.toHaveBeenCalled();
+  });
+
+  describe('canonical names', () => {
+    beforeEach(async () => {
+      client.database.flush();
+      await client.hset('com:example', { A: '["127.0.0.1"]' });
+      await client.hset('com:Example', { A: '{"ttl":60,"records":[{"data":"127.0.0.1"},{"data":"127.0.0.2"}]}' });
+      await client.hset(':com:example', { TXT: '["hello"]' });
+      await client.hset('COM:EXAMPLE:WWW', { AAAA: '["::1"]' });
+      await client.hset('staging:COM:Example', { A: '["127.0.0.9"]' });
+      await client.hset('Session:1234', { user: 'someone' });
+    });
+
+    it('should merge mixed-case and trailing dot keys into the canonical key', async () => {
+      const result = await migrateToCanonicalNames(client, '', { batchSize });
+
+      expect(result.merged).toEqual([
+        { from: ':com:example', to: 'com:example' },
+        { from: 'COM:EXAMPLE:WWW', to: 'com:example:www' },
+        { from: 'com:Example', to: 'com:example' },
+        { from: 'staging:COM:Example', to: 'staging:com:example' },
+      ]);
+      expect(keys()).toEqual(['Session:1234', 'com:example', 'com:example:www', 'staging:com:example']);
+      expect(await client.hgetall('com:example')).toEqual({
+        A: '{"records":[{"data":"127.0.0.1"},{"data":"127.0.0.2","ttl":60}]}',
+        TXT: '["hello"]',
+      });
+      expect(await client.hgetall('com:example:www')).toEqual({ AAAA: '["::1"]' });
+    });
+
+    it('should only migrate keys under the prefix', async () => {
+      const result = await migrateToCanonicalNames(client, 'staging:', { batchSize });
+
+      expect(result.merged).toEqual([{ from: 'COM:Example', to: 'com:example' }]);
+      expect(await client.exists('com:Example')).toEqual(1);
+      expect(await client.hgetall('staging:com:example')).toEqual({ A: '["127.0.0.9"]' });
+    });
+
+    it('should not change anything in a dry run', async () => {
+      const before = keys();
+      const multi = jest.spyOn(client, 'multi');
+      const result = await migrateToCanonicalNames(client, '', { dryRun: true, batchSize });
+
+      expect(result.merged).toHaveLength(4);
+      expect(keys()).toEqual(before);
+      expect(multi).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hash tags', () => {
+    beforeEach(async () => {
+      await client.hset('{com:example}:mail', { A: '["127.0.0.8"]' });
+      await client.hset('{com:example}', { A: '["127.0.0.7"]' });
+    });
+
+    it('should move record hashes to their hash tagged keys', async () => {
+      const result = await migrateToHashTags(client, '', 2, { batchSize });
+
+      expect(result.migrated.toSorted()).toEqual(
+        ['*', 'com:example:*', 'net:example', 'staging:com:example'].toSorted(),
+      );
+      expect(result.skipped).toEqual(['com:example']);
+      expect(await client.hgetall('{com:example}:*')).toEqual({ A: '["127.0.0.2"]', MX: '[]' });
+      expect(await client.exists('{*}', '{net:example}')).toEqual(2);
+      expect(await client.exists('net:example')).toEqual(0);
+      // already tagged, or not a record hash
+      expect(await client.hgetall('{com:example}:mail')).toEqual({ A: '["127.0.0.8"]' });
+      expect(await client.exists('session:1234')).toEqual(1);
+    });
+
+    it('should only migrate keys under the prefix', async () => {
+      const result = await migrateToHashTags(client, 'staging:', 2, { batchSize });
+
+      expect(result.migrated).toEqual(['staging:com:example']);
+      expect(await client.exists('staging:{com:example}')).toEqual(1);
+    });
+
+    it('should not change anything in a dry run', async () => {
+      const before = keys();
+      const hset = jest.spyOn(client, 'hset');
+      const result = await migrateToHashTags(client, '', 2, { dryRun: true, batchSize });
+
+      expect(result.migrated).toHaveLength(4);
+      expect(keys()).toEqual(before);
+      expect(hset).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,238 @@
+import type { RedisBackend } from './backend';
+import { isEqual as _isEqual } from 'lodash';
+import { StoredRecordSet, decodeRecordSet, encodeRecordSet, hoistTtl } from './records';
+import { canonicalizeKey } from './names';
+import { hashTag, scanTargets } from './cluster';
+
+/** Hash fields written by the store are record type names such as `A` or `NSEC3`. */
+const RECORD_TYPE_FIELD = /^[A-Z][A-Z0-9]*$/;
+
+export type MigrationOptions = {
+  /** Report what would be migrated without changing anything. Defaults to false. */
+  dryRun?: boolean;
+
+  /** How many keys to request per SCAN call. Defaults to 100. */
+  batchSize?: number;
+};
+
+export type PrefixMigrationOptions = MigrationOptions & {
+  /**
+   * The key prefixes of other stores sharing the database, whose keys are left alone. Their keys
+   * can't be told from those of the unprefixed store otherwise.
+   */
+  otherPrefixes?: string[];
+};
+
+export type MigrationResult = {
+  /** The original keys that were (or, in a dry run, would be) migrated. */
+  migrated: string[];
+
+  /** Keys that were left alone because the migrated key already exists. */
+  skipped: string[];
+};
+
+/**
+ * Decide whether a key looks like it was written by the store: a hash whose fields are
+ * all record type names.
+ * @param client The client to inspect the key with
+ * @param key The key to inspect
+ */
+export async function isRecordHash(client: RedisBackend, key: string): Promise<boolean> {
+  if ((await client.type(key)) !== 'hash') {
+    return false;
+  }
+
+  const fields = await client.hkeys(key);
+
+  return fields.length > 0 && fields.every((field) => RECORD_TYPE_FIELD.test(field));
+}
+
+/**
+ * Move the keys of an unprefixed store under a key prefix, so the store can be opened with
+ * `keyPrefix` afterwards. Keys are iterated with SCAN, so the database stays responsive, and
+ * renamed with RENAMENX, so existing prefixed keys are never overwritten.
+ *
+ * Hashes whose fields are all record type names are moved, as are the store's own keys, which
+ * start with `#`: the name index, TSIG keys, views, journals, history and so on. Keys under the
+ * `otherPrefixes` of other stores are left alone. Run the migration with `dryRun` first if the
+ * database holds other keys shaped like these.
+ *
+ * The members of the name index hold the prefix, so rebuild it afterwards in `rfc4592` mode.
+ * @param client The client connected to the database to migrate
+ * @param keyPrefix The prefix to move keys under
+ * @param options Migration options
+ */
+export async function migrateToPrefix(
+  client: RedisBackend,
+  keyPrefix: string,
+  options: PrefixMigrationOptions = {},
+): Promise<MigrationResult> {
+  const { dryRun = false, batchSize = 100, otherPrefixes = [] } = options;
+  const prefixes = [keyPrefix, ...otherPrefixes];
+  const result: MigrationResult = { migrated: [], skipped: [] };
+  const seen = new Set<string>();
+
+  let cursor = '0';
+  do {
+    const [next, keys] = await client.scan(cursor, 'COUNT', batchSize);
+    cursor = next;
+
+    for (const key of keys) {
+      // SCAN may return a key more than once
+      if (seen.has(key) || prefixes.some((prefix) => key.startsWith(prefix))) {
+        continue;
+      }
+
+      seen.add(key);
+      if (!key.startsWith('#') && !(await isRecordHash(client, key))) {
+        continue;
+      }
+
+      if (dryRun) {
+        result.migrated.push(key);
+        continue;
+      }
+
+      const renamed = await client.renamenx(key, keyPrefix + key);
+      if (renamed) {
+        result.migrated.push(key);
+      } else {
+        result.skipped.push(key);
+      }
+    }
+  } while (cursor !== '0');
+
+  return result;
+}
+
+export type NameMigrationResult = {
+  /** The non-canonical keys that were (or, in a dry run, would be) merged, and where into. */
+  merged: { from: string; to: string }[];
+};
+
+/**
+ * Merge two record sets, keeping each record's effective TTL and dropping duplicates.
+ * @param target The record set already stored under the canonical key
+ * @param source The record set being merged into it
+ */
+function mergeRecordSets(target: StoredRecordSet, source: StoredRecordSet): StoredRecordSet {
+  const records = [target, source].flatMap((set) => set.records.map((r) => ({ data: r.data, ttl: r.ttl ?? set.ttl })));
+  const merged = records.filter((r, i) => records.findIndex((e) => _isEqual(e.data, r.data)) === i);
+
+  return hoistTtl({ records: merged });
+}
+
+/**
+ * Merge the hashes of keys written before names were canonicalized, such as `com:Example` or the
+ * `:com:example` a trailing dot produced, into the canonical key, `com:example`. Records present
+ * under both keys are kept once.
+ *
+ * Each key is merged in a transaction, but the merge isn't safe against concurrent writers to the
+ * same names, so run it while nothing else writes to the store.
+ * @param client The client connected to the database to migrate
+ * @param keyPrefix The store's key prefix. Only keys under it are migrated.
+ * @param options Migration options
+ */
+export async function migrateToCanonicalNames(
+  client: RedisBackend,
+  keyPrefix = '',
+  options: MigrationOptions = {},
+): Promise<NameMigrationResult> {
+  const { dryRun = false, batchSize = 100 } = options;
+  const result: NameMigrationResult = { merged: [] };
+  const seen = new Set<string>();
+
+  let cursor = '0';
+  do {
+    const [next, keys] = await client.scan(cursor, 'COUNT', batchSize);
+    cursor = next;
+
+    for (const key of keys) {
+      // SCAN may return a key more than once
+      if (seen.has(key) || !key.startsWith(keyPrefix)) {
+        continue;
+      }
+
+      seen.add(key);
+      const canonical = keyPrefix + canonicalizeKey(key.slice(keyPrefix.length));
+      if (canonical === key || !(await isRecordHash(client, key))) {
+        continue;
+      }
+
+      result.merged.push({ from: key.slice(keyPrefix.length), to: canonical.slice(keyPrefix.length) });
+      if (dryRun) {
+        continue;
+      }
+
+      const tx = client.multi();
+      for (const [field, raw] of Object.entries(await client.hgetall(key))) {
+        const existing = await client.hget(canonical, field);
+        const recordSet = existing
+          ? mergeRecordSets(decodeRecordSet(existing), decodeRecordSet(raw))
+          : decodeRecordSet(raw);
+        tx.hset(canonical, field, encodeRecordSet(recordSet));
+      }
+
+      tx.del(key);
+      await tx.exec();
+    }
+  } while (cursor !== '0');
+
+  return result;
+}
+
+/**
+ * Move the hashes of a store under hash tagged keys, so the store can be opened with
+ * `hashTagLabels` afterwards. Every master of a cluster is scanned. Each hash is copied to its new
+ * key and deleted, since the new key may live in another hash slot, so run the migration while
+ * nothing else writes to the store. Keys whose new key already exists are left alone.
+ * @param client The client connected to the database or cluster to migrate
+ * @param keyPrefix The store's key prefix. Only keys under it are migrated.
+ * @param labels How many labels the hash tags hold
+ * @param options Migration options
+ */
+export async function migrateToHashTags(
+  client: RedisBackend,
+  keyPrefix: string,
+  labels: number,
+  options: MigrationOptions = {},
+): Promise<MigrationResult> {
+  const { dryRun = false, batchSize = 100 } = options;
+  const result: MigrationResult = { migrated: [], skipped: [] };
+  const seen = new Set<string>();
+
+  for (const node of scanTargets(client)) {
+    let cursor = '0';
+    do {
+      const [next, keys] = await node.scan(cursor, 'COUNT', batchSize);
+      cursor = next;
+
+      for (const key of keys) {
+        const storeKey = key.slice(keyPrefix.length);
+        const tagged = keyPrefix + hashTag(storeKey, labels);
+        // SCAN may return a key more than once
+        if (seen.has(key) || !key.startsWith(keyPrefix) || storeKey.startsWith('{') || tagged === key) {
+          continue;
+        }
+
+        seen.add(key);
+        if (!(await isRecordHash(client, key))) {
+          continue;
+        }
+
+        if (await client.exists(tagged)) {
+          result.skipped.push(key);
+          continue;
+        }
+
+        result.migrated.push(key);
+        if (!dryRun) {
+          await client.hset(tagged, await client.hgetall(key));
+          await client.del(key);
+        }
+      }
+    } while (cursor !== '0');
+  }
+
+  return result;
+}
@@ -0,0 +1,105 @@
+import { domainToASCII } from 'url';
+
+/**
+ * Canonicalize a single label. ASCII labels are lowercased, labels with other characters are
+ * converted to their punycode (IDNA) form, which is lowercase as well.
+ * @param label The label to canonicalize
+ */
+function canonicalizeLabel(label: string): string {
+  if (!/[\u0080-\uffff]/.test(label)) {
+    return label.toLowerCase();
+  }
+
+  // domainToASCII returns an empty string for labels it can't convert
+  return domainToASCII(label) || label.toLowerCase();
+}
+
+/**
+ * Split a domain name into its canonical labels, most specific first.
+ *
+ * Names are case-insensitive and compared in lowercase, a trailing dot marking a fully qualified
+ * name is ignored, `\.` and `\\` escape a dot or a backslash inside a label, `\DDD` escapes any
+ * octet by its decimal value, and internationalized labels are converted to punycode.
+ * @param name The domain name, absolute or not
+ */
+export function nameToLabels(name: string): string[] {
+  const labels: string[] = [];
+  let label = '';
+
+  for (let i = 0; i < name.length; i++) {
+    const char = name[i];
+    if (char === '\\') {
+      const digits = name.slice(i + 1, i + 4);
+      if (/^\d{3}$/.test(digits)) {
+        label += String.fromCharCode(Number(digits));
+        i += 3;
+      } else if (i + 1 < name.length) {
+        label += name[++i];
+      }
+    } else if (char === '.') {
+      labels.push(label);
+      label = '';
+    } else {
+      label += char;
+    }
+  }
+
+  // a trailing dot leaves an empty last label, the root, which is implied anyway
+  if (label !== '' || labels.length === 0) {
+    labels.push(label);
+  }
+
+  return labels.map(canonicalizeLabel);
+}
+
+/**
+ * Join labels back into a presentation format name, escaping dots and backslashes inside labels.
+ * @param labels The labels, most specific first
+ */
+export function labelsToName(labels: string[]): string {
+  return labels.map((label) => label.replace(/[.\\]/g, '\\$&')).join('.');
+}
+
+/**
+ * Convert a domain name into the store key for it: its canonical labels reversed and joined with
+ * colons, so that `www.Example.COM.` becomes `com:example:www`.
+ * @param name The domain name
+ */
+export function nameToKey(name: string): string {
+  return nameToLabels(name).toReversed().join(':');
+}
+
+/**
+ * The inverse of `nameToKey`.
+ * @param key A store key
+ */
+export function keyToName(key: string): string {
+  return labelsToName(key.split(':').toReversed());
+}
+
+/**
+ * The key a possibly non-canonical key, such as one written before names were canonicalized,
+ * should be stored under.
+ * @param key A store key
+ */
+export function canonicalizeKey(key: string): string {
+  return nameToKey(keyToName(key));
+}
+
+/**
+ * Compare two store keys in the canonical order of their names (RFC 4034, section 6.1): label by
+ * label from the most significant one, with a name sorting before the names below it.
+ * @param a A store key
+ * @param b Another store key
+ */
+export function compareKeys(a: string, b: string): number {
+  const left = a === '' ? [] : a.split(':');
+  const right = b === '' ? [] : b.split(':');
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) {
+      return left[i] < right[i] ? -1 : 1;
+    }
+  }
+
+  return left.length - right.length;
+}
@@ -0,0 +1,39 @@
+import { reverseName, reverseNamesOf } from './ptr';
+
+describe('ptr', () => {
+  describe('reverseName', () => {
+    it('should reverse IPv4 addresses under in-addr.arpa', () => {
+      expect(reverseName('192.0.2.10')).toEqual('10.2.0.192.in-addr.arpa');
+    });
+
+    it('should reverse the nibbles of IPv6 addresses under ip6.arpa', () => {
+      expect(reverseName('2001:db8::1')).toEqual(
+        '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa',
+      );
+      expect(reverseName('2001:DB8:0:0:0:0:0:1')).toEqual(reverseName('2001:db8::1'));
+      expect(reverseName('::ffff:192.0.2.10')).toEqual(
+        'a.0.2.0.0.0.0.c.f.f.f.f.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.ip6.arpa',
+      );
+    });
+
+    it('should give up on anything else', () => {
+      expect(reverseName('example.com')).toEqual(null);
+      expect(reverseName('10.0.0.256')).toEqual(null);
+    });
+  });
+
+  describe('reverseNamesOf', () => {
+    it('should list the reverse names of the A and AAAA records of a hash once each', () => {
+      const hash = {
+        A: JSON.stringify(['10.0.0.1', '10.0.0.1']),
+        AAAA: JSON.stringify({ ttl: 60, records: [{ data: '::1' }] }),
+        TXT: JSON.stringify(['10.0.0.2']),
+      };
+
+      expect(reverseNamesOf(hash)).toEqual([
+        '1.0.0.10.in-addr.arpa',
+        '1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.ip6.arpa',
+      ]);
+    });
+  });
+});
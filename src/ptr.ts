@@ -0,0 +1,225 @@
+import * as net from 'net';
+import { SupportedRecordType } from 'dinodns/types';
+import { StoredRecordSet, decodeRecordSet } from './records';
+import { KeyChange, StoreContext } from './backend';
+import { WriteConflictError } from './errors';
+
+/** The hash of the names each PTR record set the store maintains points at, by the key of its reverse name. */
+const PTR_OWNERS_KEY = '#ptr';
+
+/** What the PTR records need from their store, besides the connection. */
+export type PtrContext = StoreContext & {
+  /** How many times a write is retried when another writer changes the same data in between */
+  readonly maxWriteAttempts: number;
+
+  /** Read, modify and write back one record set atomically, like any other write. */
+  readonly modify: <T extends SupportedRecordType>(
+    key: string,
+    rType: T,
+    update: (recordSet: StoredRecordSet<T> | null) => StoredRecordSet<T> | null | undefined,
+    actor?: string,
+  ) => Promise<void>;
+};
+
+/**
+ * Write an IPv6 address out as its 32 hex digits, expanding `::` and any embedded IPv4 address.
+ * @param address A valid IPv6 address
+ */
+function expandIPv6(address: string): string {
+  let groups = address.split('%')[0].toLowerCase();
+  const embedded = /(\d+)\.(\d+)\.(\d+)\.(\d+)$/.exec(groups);
+  if (embedded) {
+    const [a, b, c, d] = embedded.slice(1).map(Number);
+    groups = `${groups.slice(0, embedded.index)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = groups.split('::');
+  const before = head ? head.split(':') : [];
+  const after = tail ? tail.split(':') : [];
+  const zeros = tail === undefined ? [] : Array<string>(8 - before.length - after.length).fill('0');
+
+  return [...before, ...zeros, ...after].map((group) => group.padStart(4, '0')).join('');
+}
+
+/**
+ * The name the PTR record of an address lives at: under `in-addr.arpa` for IPv4 (RFC 1035) and
+ * `ip6.arpa` for IPv6 (RFC 3596).
+ * @param address The address
+ * @returns The reverse name, or null if the address isn't valid
+ */
+export function reverseName(address: string): string | null {
+  switch (net.isIP(address.split('%')[0])) {
+    case 4:
+      return `${address.split('.').reverse().join('.')}.in-addr.arpa`;
+    case 6:
+      return `${expandIPv6(address).split('').reverse().join('.')}.ip6.arpa`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * The reverse names of the addresses in the A and AAAA record sets of a hash.
+ * @param hash The hash fields, by record type
+ */
+export function reverseNamesOf(hash: Record<string, string>): string[] {
+  const addresses = [hash.A, hash.AAAA].flatMap((raw) =>
+    raw ? decodeRecordSet<'A' | 'AAAA'>(raw).records.map((r) => r.data) : [],
+  );
+
+  return [...new Set(addresses.map(reverseName).filter((name): name is string => name !== null))];
+}
+
+/**
+ * Keeps a PTR record pointing back at every name written to A and AAAA records, and removes it
+ * once the name no longer has the address. The names each PTR record set points at for the store
+ * are kept under `#ptr`, so that PTR records the store didn't write are left alone.
+ */
+export class PtrMaintainer {
+  private context: PtrContext;
+
+  /**
+   * @param context The store whose writes the PTR records follow
+   */
+  constructor(context: PtrContext) {
+    this.context = context;
+  }
+
+  /**
+   * Point PTR records at the names that gained addresses in a write, and remove those of the names
+   * that lost them. Wildcards get no PTR records.
+   * @param changes The hash fields the write touched by key, before and after the write
+   * @param actor Who made the write
+   */
+  async maintain(changes: KeyChange[], actor?: string): Promise<void> {
+    for (const { key, before, after } of changes) {
+      const name = this.context.keyToName(key);
+      if (name.startsWith('*')) {
+        continue;
+      }
+
+      const old = reverseNamesOf(before);
+      const current = reverseNamesOf(after);
+      for (const reverse of old.filter((r) => !current.includes(r))) {
+        await this.release(reverse, name, actor);
+      }
+
+      for (const reverse of current.filter((r) => !old.includes(r))) {
+        await this.claim(reverse, name, actor);
+      }
+    }
+  }
+
+  /**
+   * The names the PTR records the store maintains at a reverse name point at.
+   * @param key The key of the reverse name
+   */
+  private async owners(key: string): Promise<string[]> {
+    const raw = await this.context.client.hget(this.context.redisKey(PTR_OWNERS_KEY), key);
+
+    return raw ? (JSON.parse(raw) as string[]) : [];
+  }
+
+  /**
+   * Change which names the PTR records the store maintains at a reverse name point at, retrying
+   * when another store changes them in the meantime.
+   * @param key The key of the reverse name
+   * @param update Returns the new names from the current ones
+   * @throws {WriteConflictError} If they keep changing
+   */
+  private async updateOwners(key: string, update: (owners: string[]) => string[]): Promise<void> {
+    const { client, redisKey, maxWriteAttempts } = this.context;
+    for (let attempt = 0; attempt < maxWriteAttempts; attempt++) {
+      const raw = (await client.hget(redisKey(PTR_OWNERS_KEY), key)) ?? '';
+      const owners = update(raw ? (JSON.parse(raw) as string[]) : []);
+      const next = owners.length > 0 ? JSON.stringify(owners) : '';
+      if (next === raw || (await client.dinodnsCompareAndSet(redisKey(PTR_OWNERS_KEY), key, raw, next))) {
+        return;
+      }
+    }
+
+    throw new WriteConflictError(key, 'PTR', maxWriteAttempts);
+  }
+
+  /**
+   * Add a PTR record pointing at a name, unless the reverse name holds PTR records the store didn't
+   * write, or a CNAME, as in classless delegations (RFC 2317).
+   *
+   * The name is recorded as an owner before the record is written, so that stores claiming the
+   * address at the same time take each other's records for the store's. Records that aren't owned
+   * when the owners are read again were written by hand, and the claim is dropped.
+   * @param reverse The reverse name of the address
+   * @param name The name the address was written to
+   * @param actor Who made the write
+   */
+  private async claim(reverse: string, name: string, actor?: string): Promise<void> {
+    const { client, redisKey, nameToKey, modify, maxWriteAttempts } = this.context;
+    const key = nameToKey(reverse);
+    if ((await this.owners(key)).includes(name) || (await client.hkeys(redisKey(key))).includes('CNAME')) {
+      return;
+    }
+
+    await this.updateOwners(key, (owners) => (owners.includes(name) ? owners : [...owners, name]));
+    for (let attempt = 0; attempt < maxWriteAttempts; attempt++) {
+      const owners = await this.owners(key);
+      let foreign: string[] = [];
+      await modify<'PTR'>(
+        key,
+        'PTR',
+        (recordSet) => {
+          const records = recordSet?.records ?? [];
+          foreign = records.map((r) => r.data).filter((data) => !owners.includes(data));
+          if (foreign.length > 0 || records.some((r) => r.data === name)) {
+            return undefined;
+          }
+
+          return { ttl: recordSet?.ttl, records: [...records, { data: name }] };
+        },
+        actor,
+      );
+      if (foreign.length === 0) {
+        return;
+      }
+
+      // records claimed since the owners were read are owned by now
+      const current = await this.owners(key);
+      if (foreign.some((data) => !current.includes(data))) {
+        await this.updateOwners(key, (names) => names.filter((owner) => owner !== name));
+
+        return;
+      }
+    }
+
+    throw new WriteConflictError(key, 'PTR', maxWriteAttempts);
+  }
+
+  /**
+   * Remove the PTR record pointing at a name, if the store wrote it. The record goes before its
+   * owner, so that claims never find it unowned.
+   * @param reverse The reverse name of the address
+   * @param name The name the address was removed from
+   * @param actor Who made the write
+   */
+  private async release(reverse: string, name: string, actor?: string): Promise<void> {
+    const key = this.context.nameToKey(reverse);
+    if (!(await this.owners(key)).includes(name)) {
+      return;
+    }
+
+    await this.context.modify<'PTR'>(
+      key,
+      'PTR',
+      (recordSet) => {
+        if (!recordSet?.records.some((r) => r.data === name)) {
+          return undefined;
+        }
+
+        const records = recordSet.records.filter((r) => r.data !== name);
+
+        return records.length > 0 ? { ...recordSet, records } : null;
+      },
+      actor,
+    );
+    await this.updateOwners(key, (owners) => owners.filter((owner) => owner !== name));
+  }
+}
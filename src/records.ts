@@ -0,0 +1,152 @@
+import { SupportedRecordType, ZoneData } from 'dinodns/types';
+import { HealthCheck } from './health';
+
+/** The TTL used for answers when neither the record nor the store provides one. */
+export const DEFAULT_TTL = 300;
+
+/** What a record carries besides its data and TTL, for the handler to pick the records it answers. */
+export type RecordMetadata = {
+  /** The weight of the record under the `weighted` answer policy */
+  weight?: number;
+
+  /** The health check deciding whether the record is answered */
+  check?: HealthCheck;
+
+  /** Whether the record is only answered when no other record of its set is healthy */
+  backup?: boolean;
+};
+
+/** A single record as it is held in a record set, with an optional TTL of its own. */
+export type StoredRecord<T extends SupportedRecordType = SupportedRecordType> = {
+  data: ZoneData[T];
+  ttl?: number;
+} & RecordMetadata;
+
+/**
+ * The decoded contents of one hash field. A set-level TTL applies to every record
+ * that doesn't carry its own.
+ */
+export type StoredRecordSet<T extends SupportedRecordType = SupportedRecordType> = {
+  ttl?: number;
+  records: StoredRecord<T>[];
+};
+
+/** A record with its effective TTL resolved, ready to be put in an answer. */
+export type ResolvedRecord<T extends SupportedRecordType = SupportedRecordType> = {
+  data: ZoneData[T];
+  ttl: number;
+} & RecordMetadata;
+
+/** Resolved records keyed by record type, the TTL-aware counterpart of `ZoneDataMap`. */
+export type RecordMap = Partial<{ [T in SupportedRecordType]: ResolvedRecord<T>[] }>;
+
+/** Options accepted by the write methods of the store. */
+export type WriteOptions = {
+  /** The TTL to store alongside the written records, in seconds. */
+  ttl?: number;
+
+  /** The view to write to instead of the default view. */
+  view?: string;
+
+  /** Who makes the write, for the history. */
+  actor?: string;
+
+  /** Only validate the write, even if `validateWrites` is off, without making it. */
+  dryRun?: boolean;
+} & RecordMetadata;
+
+/**
+ * The metadata of a record, leaving out what isn't set.
+ * @param record The record
+ */
+export function metadataOf(record: RecordMetadata): RecordMetadata {
+  const { weight, check, backup } = record;
+
+  return {
+    ...(weight !== undefined && { weight }),
+    ...(check !== undefined && { check }),
+    ...(backup !== undefined && { backup }),
+  };
+}
+
+/**
+ * Buffers in record data (TLSA certificates, DS digests, ...) are serialized by `JSON.stringify`
+ * as `{ type: 'Buffer', data: [...] }`. Turn them back into buffers when reading.
+ */
+function reviveBuffers(_key: string, value: unknown): unknown {
+  if (
+    value &&
+    typeof value === 'object' &&
+    (value as { type?: unknown }).type === 'Buffer' &&
+    Array.isArray((value as { data?: unknown }).data)
+  ) {
+    return Buffer.from((value as { data: number[] }).data);
+  }
+
+  return value;
+}
+
+/**
+ * Decode a hash field value into a record set.
+ *
+ * Two formats are understood: the original plain JSON array of record data, and the
+ * `{ ttl, records }` envelope that is written whenever TTL or other metadata is present.
+ * @param raw The raw hash field value
+ */
+export function decodeRecordSet<T extends SupportedRecordType>(raw: string): StoredRecordSet<T> {
+  const parsed: unknown = JSON.parse(raw, reviveBuffers);
+  if (Array.isArray(parsed)) {
+    return { records: (parsed as ZoneData[T][]).map((data) => ({ data })) };
+  }
+
+  return parsed as StoredRecordSet<T>;
+}
+
+/**
+ * Encode a record set for storage. Sets without any TTL or other metadata are written in the
+ * plain array format so that untouched data stays readable by older versions.
+ * @param recordSet The record set to encode
+ */
+export function encodeRecordSet<T extends SupportedRecordType>(recordSet: StoredRecordSet<T>): string {
+  const hasMetadata =
+    recordSet.ttl !== undefined ||
+    recordSet.records.some((r) => r.ttl !== undefined || Object.keys(metadataOf(r)).length > 0);
+  if (!hasMetadata) {
+    return JSON.stringify(recordSet.records.map((r) => r.data));
+  }
+
+  return JSON.stringify(recordSet);
+}
+
+/**
+ * Resolve the effective TTL of every record in a set.
+ * @param recordSet The record set to resolve
+ * @param defaultTtl The TTL to fall back to when neither the record nor the set has one
+ */
+export function resolveRecordSet<T extends SupportedRecordType>(
+  recordSet: StoredRecordSet<T>,
+  defaultTtl: number,
+): ResolvedRecord<T>[] {
+  return recordSet.records.map((r) => ({
+    data: r.data,
+    ttl: r.ttl ?? recordSet.ttl ?? defaultTtl,
+    ...metadataOf(r),
+  }));
+}
+
+/**
+ * Move a TTL shared by every record of a set up to the set itself, which keeps the stored
+ * form compact.
+ * @param recordSet The record set to normalize
+ */
+export function hoistTtl<T extends SupportedRecordType>(recordSet: StoredRecordSet<T>): StoredRecordSet<T> {
+  const ttls = new Set(recordSet.records.map((r) => r.ttl));
+  if (ttls.size !== 1 || recordSet.ttl !== undefined) {
+    return recordSet;
+  }
+
+  return {
+    ttl: recordSet.records[0].ttl,
+    records: recordSet.records.map((r) => ({ data: r.data, ...metadataOf(r) })),
+  };
+}
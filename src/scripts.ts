@@ -0,0 +1,174 @@
+import { Result } from 'ioredis';
+import type { RedisBackend } from './backend';
+
+/**
+ * Returns the first of `KEYS` that holds data, as `{ index, { field, value, ... } }`.
+ *
+ * `ARGV[1]` is the hash field to read, or an empty string to read every field of the hash.
+ * Keys are tried in order, so callers pass the exact key first and the least specific
+ * wildcard last.
+ */
+export const LOOKUP_SCRIPT = `
+local field = ARGV[1]
+for i, key in ipairs(KEYS) do
+  if field ~= '' then
+    local value = redis.call('HGET', key, field)
+    if value then
+      return { i, { field, value } }
+    end
+  else
+    local values = redis.call('HGETALL', key)
+    if #values > 0 then
+      return { i, values }
+    end
+  end
+end
+return false
+`;
+
+/**
+ * Replaces a hash field only if it still holds the value the caller last read, which lets
+ * read-modify-write operations detect concurrent writers and retry.
+ *
+ * `ARGV` holds the field, the expected value and the new value. An empty expected value means
+ * the field must not exist, and an empty new value deletes the field. Returns 1 on success and
+ * 0 when the field changed in the meantime.
+ */
+export const COMPARE_AND_SET_SCRIPT = `
+local current = redis.call('HGET', KEYS[1], ARGV[1])
+if (current or '') ~= ARGV[2] then
+  return 0
+end
+if ARGV[3] == '' then
+  redis.call('HDEL', KEYS[1], ARGV[1])
+else
+  redis.call('HSET', KEYS[1], ARGV[1], ARGV[3])
+end
+return 1
+`;
+
+/**
+ * Resolves a name following RFC 4592 in a single round trip. Returns `{ key, { field, value, ... } }`
+ * for the key that answers the name, or false if the name doesn't exist.
+ *
+ * `KEYS[1]` is the name index, a sorted set of every key holding data. `KEYS[2]` is the queried
+ * key and the remaining keys are its ancestors, most specific first. `ARGV[1]` is the hash field
+ * to read, or an empty string to read every field, and `ARGV[2]` is the root wildcard key, or an
+ * empty string if the root wildcard is disabled.
+ *
+ * A key exists if it holds data or has descendants in the index, the latter being an empty
+ * non-terminal. An existing queried key answers for itself, possibly without the requested field.
+ * Otherwise only the wildcard below the closest existing ancestor, the closest encloser, may answer.
+ */
+export const WILDCARD_LOOKUP_SCRIPT = `
+local index = KEYS[1]
+local field = ARGV[1]
+local function read(key)
+  if field ~= '' then
+    local value = redis.call('HGET', key, field)
+    if value then
+      return { field, value }
+    end
+    return {}
+  end
+  return redis.call('HGETALL', key)
+end
+local function exists(key)
+  if redis.call('EXISTS', key) == 1 then
+    return true
+  end
+  return #redis.call('ZRANGEBYLEX', index, '[' .. key .. ':', '(' .. key .. ';', 'LIMIT', 0, 1) > 0
+end
+if exists(KEYS[2]) then
+  return { KEYS[2], read(KEYS[2]) }
+end
+for i = 3, #KEYS do
+  if exists(KEYS[i]) then
+    local source = KEYS[i] .. ':*'
+    if redis.call('EXISTS', source) == 1 then
+      return { source, read(source) }
+    end
+    return false
+  end
+end
+if ARGV[2] ~= '' and redis.call('EXISTS', ARGV[2]) == 1 then
+  return { ARGV[2], read(ARGV[2]) }
+end
+return false
+`;
+
+/**
+ * Replaces the contents of several hashes at once, but only if every hash still holds what the
+ * caller last read, which lets multi-name updates apply atomically.
+ *
+ * For each of the n `KEYS`, `ARGV[i]` is the expected contents as a JSON object of fields and
+ * values, and `ARGV[n + i]` is the new contents in the same form, or an empty string to leave the
+ * hash untouched. Returns 1 on success and 0 when any hash changed in the meantime.
+ */
+export const COMPARE_AND_SET_HASHES_SCRIPT = `
+local n = #KEYS
+for i = 1, n do
+  local expected = cjson.decode(ARGV[i])
+  local current = redis.call('HGETALL', KEYS[i])
+  local count = 0
+  for _ in pairs(expected) do
+    count = count + 1
+  end
+  if #current ~= count * 2 then
+    return 0
+  end
+  for j = 1, #current, 2 do
+    if expected[current[j]] ~= current[j + 1] then
+      return 0
+    end
+  end
+end
+for i = 1, n do
+  if ARGV[n + i] ~= '' then
+    redis.call('DEL', KEYS[i])
+    for field, value in pairs(cjson.decode(ARGV[n + i])) do
+      redis.call('HSET', KEYS[i], field, value)
+    end
+  end
+end
+return 1
+`;
+
+declare module 'ioredis' {
+  interface RedisCommander<Context> {
+    /** Runs {@link LOOKUP_SCRIPT}. Expects the number of keys, the keys, then the hash field. */
+    dinodnsLookup(numKeys: number, ...args: string[]): Result<[number, string[]] | null, Context>;
+
+    /**
+     * Runs {@link WILDCARD_LOOKUP_SCRIPT}. Expects the number of keys, the index and the candidate
+     * keys, then the hash field and the root wildcard key.
+     */
+    dinodnsWildcardLookup(numKeys: number, ...args: string[]): Result<[string, string[]] | null, Context>;
+
+    /** Runs {@link COMPARE_AND_SET_SCRIPT} against a single hash field. */
+    dinodnsCompareAndSet(key: string, field: string, expected: string, next: string): Result<0 | 1, Context>;
+
+    /**
+     * Runs {@link COMPARE_AND_SET_HASHES_SCRIPT}. Expects the number of keys, the keys, the expected
+     * contents of every key, then the new contents of every key.
+     */
+    dinodnsCompareAndSetHashes(numKeys: number, ...args: string[]): Result<0 | 1, Context>;
+  }
+}
+
+/**
+ * Register the store's Lua scripts as custom commands on a client. ioredis sends them with
+ * EVALSHA and falls back to EVAL when the script isn't cached on the server yet. Backends without
+ * `defineCommand` implement the commands themselves.
+ * @param client The client to register the commands on
+ */
+export function registerScripts(client: RedisBackend): void {
+  if (!client.defineCommand) {
+    return;
+  }
+
+  client.defineCommand('dinodnsLookup', { lua: LOOKUP_SCRIPT, readOnly: true });
+  client.defineCommand('dinodnsWildcardLookup', { lua: WILDCARD_LOOKUP_SCRIPT, readOnly: true });
+  client.defineCommand('dinodnsCompareAndSet', { lua: COMPARE_AND_SET_SCRIPT, numberOfKeys: 1 });
+  client.defineCommand('dinodnsCompareAndSetHashes', { lua: COMPARE_AND_SET_HASHES_SCRIPT });
+}
@@ -0,0 +1,56 @@
+import { StoredValueError } from './errors';
+import { decodeAnswerPolicy, randomSubset, rotate, selectRecords, weightedSubset } from './selection';
+
+describe('selection', () => {
+  /** A source of random numbers returning the given ones in turn */
+  const sequence =
+    (...values: number[]) =>
+    () =>
+      values.shift() ?? 0;
+
+  it('should rotate records, wrapping around', () => {
+    expect(rotate([1, 2, 3], 0)).toEqual([1, 2, 3]);
+    expect(rotate([1, 2, 3], 1)).toEqual([2, 3, 1]);
+    expect(rotate([1, 2, 3], 4)).toEqual([2, 3, 1]);
+    expect(rotate([], 2)).toEqual([]);
+  });
+
+  it('should pick random records without picking any twice', () => {
+    expect(randomSubset([1, 2, 3], 2, sequence(0.5, 0.5))).toEqual([2, 3]);
+    expect(randomSubset([1, 2, 3], 5, sequence(0.99, 0.99, 0.99))).toEqual([3, 2, 1]);
+  });
+
+  it('should pick records in proportion to their weights', () => {
+    const records = [{ weight: 1 }, { weight: 2 }, {}];
+
+    expect(weightedSubset(records, 1, sequence(0.2))).toEqual([{ weight: 1 }]);
+    expect(weightedSubset(records, 1, sequence(0.5))).toEqual([{ weight: 2 }]);
+    expect(weightedSubset(records, 1, sequence(0.8))).toEqual([{}]);
+    expect(weightedSubset(records, 3, sequence(0.8, 0, 0))).toEqual([{}, { weight: 1 }, { weight: 2 }]);
+  });
+
+  it('should only pick records weighing 0 or less once the others are picked', () => {
+    const records = [{ weight: 0 }, { weight: -1 }, { weight: 1 }];
+
+    expect(weightedSubset(records, 1, sequence(0.99))).toEqual([{ weight: 1 }]);
+    expect(weightedSubset(records, 3, sequence(0.99, 0.99))).toEqual([{ weight: 1 }, { weight: -1 }, { weight: 0 }]);
+  });
+
+  it('should apply answer policies', () => {
+    const records: { data: string; weight?: number }[] = [{ data: 'a' }, { data: 'b', weight: 3 }];
+
+    expect(selectRecords(records, { mode: 'ordered' }, 1, sequence())).toEqual(records);
+    expect(selectRecords(records, { mode: 'rotate' }, 1, sequence())).toEqual([records[1], records[0]]);
+    expect(selectRecords(records, { mode: 'random' }, 0, sequence(0, 0))).toEqual(records);
+    expect(selectRecords(records, { mode: 'random', count: 1 }, 0, sequence(0.5))).toEqual([records[1]]);
+    expect(selectRecords(records, { mode: 'weighted' }, 0, sequence(0.3))).toEqual([records[1]]);
+    expect(selectRecords(records, { mode: 'weighted', count: 2 }, 0, sequence(0, 0))).toEqual(records);
+  });
+
+  it('should decode stored answer policies and refuse anything else', () => {
+    expect(decodeAnswerPolicy('{"mode":"weighted","count":2}')).toEqual({ mode: 'weighted', count: 2 });
+    expect(() => decodeAnswerPolicy('{"mode":"fastest"}')).toThrow(StoredValueError);
+    expect(() => decodeAnswerPolicy('{"mode":"random","count":"all"}')).toThrow(StoredValueError);
+    expect(() => decodeAnswerPolicy('[]')).toThrow(StoredValueError);
+  });
+});
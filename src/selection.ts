@@ -0,0 +1,127 @@
+import { StoredValueError } from './errors';
+
+/**
+ * How the handler picks and orders the records of a set it answers with:
+ *
+ * - `ordered` answers every record in the order it was stored.
+ * - `rotate` answers every record, starting one record further into the set on each query.
+ * - `random` answers `count` records picked at random, all of them by default, in random order.
+ * - `weighted` answers `count` records, one by default, picked at random in proportion to their
+ * weights. Records without a weight weigh 1, and records weighing 0 are only picked once every
+ * other record has been.
+ */
+export type AnswerPolicy =
+  { mode: 'ordered' } | { mode: 'rotate' } | { mode: 'random'; count?: number } | { mode: 'weighted'; count?: number };
+
+/** A source of random numbers in `[0, 1)`, like `Math.random`. */
+export type Random = () => number;
+
+/**
+ * Decode an answer policy as `setAnswerPolicy` stores it.
+ * @param raw The stored JSON
+ * @throws {StoredValueError} If it isn't a policy
+ */
+export function decodeAnswerPolicy(raw: string): AnswerPolicy {
+  const parsed: unknown = JSON.parse(raw);
+  const policy = parsed as { mode?: unknown; count?: unknown } | null;
+  const counted = policy?.mode === 'random' || policy?.mode === 'weighted';
+  if (
+    !(policy?.mode === 'ordered' || policy?.mode === 'rotate' || counted) ||
+    (policy.count !== undefined && !(counted && typeof policy.count === 'number'))
+  ) {
+    throw new StoredValueError('answer policy', raw);
+  }
+
+  return policy as AnswerPolicy;
+}
+
+/**
+ * The records of a set, starting at the given offset and wrapping around.
+ * @param records The records
+ * @param offset How many records to move from the front to the back
+ */
+export function rotate<T>(records: T[], offset: number): T[] {
+  const start = records.length > 0 ? offset % records.length : 0;
+
+  return [...records.slice(start), ...records.slice(0, start)];
+}
+
+/**
+ * Pick records at random, without picking any twice.
+ * @param records The records to pick from
+ * @param count How many records to pick
+ * @param random The source of random numbers
+ */
+export function randomSubset<T>(records: T[], count: number, random: Random): T[] {
+  const remaining = [...records];
+  const picked: T[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    picked.push(...remaining.splice(Math.floor(random() * remaining.length), 1));
+  }
+
+  return picked;
+}
+
+/**
+ * The weight a record is picked with. Negative weights count as 0.
+ * @param record The record
+ */
+function weightOf(record: { weight?: number }): number {
+  return Math.max(0, record.weight ?? 1);
+}
+
+/**
+ * Pick records at random in proportion to their weights, without picking any twice.
+ * @param records The records to pick from
+ * @param count How many records to pick
+ * @param random The source of random numbers
+ */
+export function weightedSubset<T extends { weight?: number }>(records: T[], count: number, random: Random): T[] {
+  const remaining = [...records];
+  const picked: T[] = [];
+
+  while (picked.length < count && remaining.length > 0) {
+    const total = remaining.reduce((sum, r) => sum + weightOf(r), 0);
+    if (total <= 0) {
+      picked.push(...randomSubset(remaining, count - picked.length, random));
+      break;
+    }
+
+    let target = random() * total;
+    let i = remaining.findIndex((r) => (target -= weightOf(r)) < 0);
+    while (i < 0 || weightOf(remaining[i]) === 0) {
+      // rounding can leave the target just short of the total, the last weighted record is meant then
+      i = (i < 0 ? remaining.length : i) - 1;
+    }
+
+    picked.push(...remaining.splice(i, 1));
+  }
+
+  return picked;
+}
+
+/**
+ * Apply an answer policy to a record set.
+ * @param records The records, in stored order
+ * @param policy The answer policy
+ * @param offset The rotation offset, counting the queries answered from the set
+ * @param random The source of random numbers
+ */
+export function selectRecords<T extends { weight?: number }>(
+  records: T[],
+  policy: AnswerPolicy,
+  offset: number,
+  random: Random,
+): T[] {
+  switch (policy.mode) {
+    case 'rotate':
+      return rotate(records, offset);
+    case 'random':
+      return randomSubset(records, policy.count ?? records.length, random);
+    case 'weighted':
+      return weightedSubset(records, policy.count ?? 1, random);
+    default:
+      return records;
+  }
+}
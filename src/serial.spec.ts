@@ -0,0 +1,40 @@
+import { bumpSerial, nextSerial, serialGreater } from './serial';
+
+describe('serial', () => {
+  const now = new Date('2026-10-18T12:00:00Z');
+  const unixtime = Math.floor(now.getTime() / 1000);
+
+  it('should compare serials in serial number arithmetic', () => {
+    expect(serialGreater(2, 1)).toBe(true);
+    expect(serialGreater(1, 2)).toBe(false);
+    expect(serialGreater(1, 1)).toBe(false);
+    expect(serialGreater(0, 0xffffffff)).toBe(true);
+    expect(serialGreater(0xffffffff, 0)).toBe(false);
+  });
+
+  it('should increment serials, wrapping around', () => {
+    expect(nextSerial(1, 'increment', now)).toEqual(2);
+    expect(nextSerial(0xffffffff, 'increment', now)).toEqual(0);
+  });
+
+  it('should use the time, unless the serial is ahead of it', () => {
+    expect(nextSerial(1, 'unixtime', now)).toEqual(unixtime);
+    expect(nextSerial(unixtime, 'unixtime', now)).toEqual(unixtime + 1);
+  });
+
+  it('should use the date and count the changes of the day', () => {
+    expect(nextSerial(2026101701, 'date', now)).toEqual(2026101800);
+    expect(nextSerial(2026101800, 'date', now)).toEqual(2026101801);
+    expect(nextSerial(2026101905, 'date', now)).toEqual(2026101906);
+  });
+
+  it('should raise the serial of a stored SOA, keeping its TTL', () => {
+    const soa = { mname: 'ns1.example.com', rname: 'hostmaster.example.com', serial: 7 };
+
+    expect(bumpSerial(JSON.stringify([soa]), 'increment', now)).toEqual([JSON.stringify([{ ...soa, serial: 8 }]), 8]);
+    expect(bumpSerial(JSON.stringify({ ttl: 3600, records: [{ data: soa }] }), 'increment', now)).toEqual([
+      JSON.stringify({ ttl: 3600, records: [{ data: { ...soa, serial: 8 } }] }),
+      8,
+    ]);
+  });
+});
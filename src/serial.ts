@@ -0,0 +1,53 @@
+import { ZoneData } from 'dinodns/types';
+import { decodeRecordSet, encodeRecordSet } from './records';
+
+/**
+ * How a zone's SOA serial is raised when the zone changes:
+ *
+ * - `increment` adds one.
+ * - `unixtime` uses the current time in seconds since the epoch.
+ * - `date` uses the current UTC date as `YYYYMMDDnn`, with `nn` counting the changes of the day.
+ *
+ * The time based schemes fall back to adding one when the serial is already ahead of the time.
+ */
+export type SerialScheme = 'increment' | 'unixtime' | 'date';
+
+/**
+ * Whether serial `a` is ahead of serial `b` in serial number arithmetic (RFC 1982), which lets
+ * serials wrap around.
+ * @param a A serial
+ * @param b Another serial
+ */
+export function serialGreater(a: number, b: number): boolean {
+  return a !== b && (a - b) >>> 0 < 2 ** 31;
+}
+
+/**
+ * The serial that follows another one.
+ * @param serial The current serial
+ * @param scheme The serial scheme
+ * @param now The current time
+ */
+export function nextSerial(serial: number, scheme: SerialScheme, now: Date): number {
+  const incremented = (serial + 1) % 2 ** 32;
+  const date = now.getUTCFullYear() * 1000000 + (now.getUTCMonth() + 1) * 10000 + now.getUTCDate() * 100;
+  const candidate = scheme === 'unixtime' ? Math.floor(now.getTime() / 1000) : scheme === 'date' ? date : incremented;
+
+  return serialGreater(candidate, serial) ? candidate : incremented;
+}
+
+/**
+ * Raise the serial of a stored SOA record set, keeping its TTLs.
+ * @param raw The stored SOA record set
+ * @param scheme The serial scheme
+ * @param now The current time
+ * @returns The stored form of the updated record set, and the new serial
+ */
+export function bumpSerial(raw: string, scheme: SerialScheme, now: Date): [string, number] {
+  const recordSet = decodeRecordSet<'SOA'>(raw);
+  const soa: ZoneData['SOA'] = recordSet.records[0].data;
+  const serial = nextSerial(soa.serial ?? 0, scheme, now);
+  recordSet.records[0] = { ...recordSet.records[0], data: { ...soa, serial } };
+
+  return [encodeRecordSet(recordSet), serial];
+}
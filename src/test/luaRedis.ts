@@ -0,0 +1,180 @@
+import { LuaState, lauxlib, lua, lualib, to_luastring } from 'fengari';
+import { MemoryRedis } from '../memory';
+
+/** A reply of a Redis command or script. */
+type Reply = string | number | null | Reply[];
+
+/**
+ * Push a value onto the Lua stack as Redis hands command replies to scripts: null as false, arrays
+ * as sequences and objects as tables.
+ */
+function pushValue(L: LuaState, value: unknown): void {
+  if (value === null || value === undefined) {
+    lua.lua_pushboolean(L, false);
+  } else if (typeof value === 'boolean') {
+    lua.lua_pushboolean(L, value);
+  } else if (typeof value === 'number') {
+    if (Number.isInteger(value)) {
+      lua.lua_pushinteger(L, value);
+    } else {
+      lua.lua_pushnumber(L, value);
+    }
+  } else if (typeof value === 'string') {
+    lua.lua_pushstring(L, to_luastring(value));
+  } else if (Array.isArray(value)) {
+    lua.lua_createtable(L, value.length, 0);
+    value.forEach((element, i) => {
+      pushValue(L, element);
+      lua.lua_seti(L, -2, i + 1);
+    });
+  } else {
+    lua.lua_createtable(L, 0, 0);
+    for (const [key, element] of Object.entries(value)) {
+      pushValue(L, element);
+      lua.lua_setfield(L, -2, to_luastring(key));
+    }
+  }
+}
+
+/**
+ * Read a value off the Lua stack as Redis turns a script's result into a reply: numbers as
+ * integers, tables as arrays up to their first nil, false as null and true as 1.
+ */
+function toReply(L: LuaState, index: number): Reply {
+  const at = lua.lua_absindex(L, index);
+  switch (lua.lua_type(L, at)) {
+    case lua.LUA_TNUMBER:
+      return Math.trunc(lua.lua_tonumber(L, at));
+    case lua.LUA_TSTRING:
+      return lua.lua_tojsstring(L, at);
+    case lua.LUA_TBOOLEAN:
+      return lua.lua_toboolean(L, at) ? 1 : null;
+    case lua.LUA_TTABLE: {
+      const reply: Reply[] = [];
+      while (lua.lua_geti(L, at, reply.length + 1) !== lua.LUA_TNIL) {
+        reply.push(toReply(L, -1));
+        lua.lua_pop(L, 1);
+      }
+
+      lua.lua_pop(L, 1);
+
+      return reply;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * A `MemoryRedis` that runs the store's scripts in a Lua interpreter, as Redis does, in place of
+ * its own versions of them. The scripts' `redis.call` runs the commands they use against the
+ * in-memory database, without yielding, so scripts stay atomic.
+ */
+export class LuaRedis extends MemoryRedis {
+  private readonly L = lauxlib.luaL_newstate();
+
+  constructor() {
+    super();
+    lualib.luaL_openlibs(this.L);
+    this.setLibrary('redis', { call: (L) => this.call(L) });
+    this.setLibrary('cjson', {
+      decode: (L) => {
+        pushValue(L, JSON.parse(lua.lua_tojsstring(L, 1)));
+
+        return 1;
+      },
+    });
+  }
+
+  /**
+   * Compile a script once and add it as a command, taking the number of keys first unless the
+   * definition gives it, as ioredis does.
+   */
+  defineCommand(name: string, { lua: source, numberOfKeys }: { lua: string; numberOfKeys?: number }): void {
+    const { L } = this;
+    if (lauxlib.luaL_loadstring(L, to_luastring(source)) !== lua.LUA_OK) {
+      throw new Error(lua.lua_tojsstring(L, -1));
+    }
+
+    const script = lauxlib.luaL_ref(L, lua.LUA_REGISTRYINDEX);
+    const run = async (...args: (string | number)[]): Promise<Reply> => {
+      const count = numberOfKeys ?? Number(args.shift());
+      pushValue(L, args.slice(0, count).map(String));
+      lua.lua_setglobal(L, to_luastring('KEYS'));
+      pushValue(L, args.slice(count).map(String));
+      lua.lua_setglobal(L, to_luastring('ARGV'));
+
+      lua.lua_rawgeti(L, lua.LUA_REGISTRYINDEX, script);
+      const status = lua.lua_pcall(L, 0, 1, 0);
+      const reply = status === lua.LUA_OK ? toReply(L, -1) : new Error(lua.lua_tojsstring(L, -1));
+      lua.lua_pop(L, 1);
+      if (reply instanceof Error) {
+        throw reply;
+      }
+
+      return reply;
+    };
+    Object.assign(this, { [name]: run });
+  }
+
+  /** Set a global table of functions. */
+  private setLibrary(name: string, functions: Record<string, (L: LuaState) => number>): void {
+    lua.lua_createtable(this.L, 0, 0);
+    for (const [key, fn] of Object.entries(functions)) {
+      lua.lua_pushjsfunction(this.L, fn);
+      lua.lua_setfield(this.L, -2, to_luastring(key));
+    }
+
+    lua.lua_setglobal(this.L, to_luastring(name));
+  }
+
+  /** `redis.call`, raising the command's error in the script if it fails. */
+  private call(L: LuaState): number {
+    const [command, key, ...args] = Array.from({ length: lua.lua_gettop(L) }, (_, i) => lua.lua_tojsstring(L, i + 1));
+    let reply: Reply;
+    try {
+      reply = this.runCommand(command.toUpperCase(), key, args);
+    } catch (err) {
+      return lauxlib.luaL_error(L, to_luastring((err as Error).message));
+    }
+
+    pushValue(L, reply);
+
+    return 1;
+  }
+
+  /** Run one of the commands the scripts use, synchronously. */
+  private runCommand(command: string, key: string, args: string[]): Reply {
+    const { database } = this;
+    switch (command) {
+      case 'HGET':
+        return database.read(database.hashes, key)?.get(args[0]) ?? null;
+      case 'HGETALL':
+        return database.readFields(key, '');
+      case 'HSET': {
+        const fields: Record<string, string> = {};
+        for (let i = 0; i < args.length; i += 2) {
+          fields[args[i]] = args[i + 1];
+        }
+
+        return database.hset(key, fields);
+      }
+      case 'HDEL':
+        return database.hdel(key, args);
+      case 'DEL':
+        return database.del([key, ...args]);
+      case 'EXISTS':
+        return [key, ...args].filter((k) => database.type(k) !== 'none').length;
+      case 'ZRANGEBYLEX': {
+        const [min, max, limit, offset, count] = args;
+        const members = database.rangeByLex(key, min, max);
+
+        return limit
+          ? members.slice(Number(offset), Number(count) < 0 ? undefined : Number(offset) + Number(count))
+          : members;
+      }
+      default:
+        throw new Error(`ERR unknown command '${command}'`);
+    }
+  }
+}
@@ -0,0 +1,127 @@
+import { StoredValueError } from './errors';
+import {
+  TsigError,
+  TsigKey,
+  computeMac,
+  decodeTsig,
+  decodeTsigKey,
+  encodeTsig,
+  signMessage,
+  signResponse,
+  verifyTsig,
+} from './tsig';
+
+describe('tsig', () => {
+  const key: TsigKey = {
+    name: 'update-key',
+    algorithm: 'hmac-sha256',
+    secret: Buffer.from('secret').toString('base64'),
+  };
+  const message = Buffer.from('000100000001000000000000', 'hex');
+  const now = 1_700_000_000;
+
+  /** Decode the TSIG record of a message signed by signMessage */
+  const unsign = (signed: Buffer) => {
+    const rdata = signed.subarray(message.length + 'update-key'.length + 2 + 10);
+
+    return decodeTsig('update-key', rdata);
+  };
+
+  it('should encode and decode TSIG RDATA', () => {
+    const tsig = unsign(signMessage(message, key, now));
+
+    expect(decodeTsig('update-key', encodeTsig(tsig))).toEqual(tsig);
+    expect(tsig).toMatchObject({ algorithm: 'hmac-sha256', timeSigned: now, fudge: 300, originalId: 1, error: 0 });
+    expect(tsig.mac).toHaveLength(32);
+  });
+
+  it('should reject RDATA whose algorithm name is truncated', () => {
+    const rdata = encodeTsig(unsign(signMessage(message, key, now)));
+
+    // a label without the terminating zero
+    expect(() => decodeTsig('update-key', rdata.subarray(0, 5))).toThrow('overflows the RDATA');
+    expect(() => decodeTsig('update-key', Buffer.alloc(0))).toThrow('overflows the RDATA');
+  });
+
+  it('should reject RDATA with an overlong label', () => {
+    expect(() => decodeTsig('update-key', Buffer.from([200, 0x61, 0x62, 0]))).toThrow('overflows the RDATA');
+    expect(() => decodeTsig('update-key', Buffer.from([64, ...Buffer.alloc(64, 0x61), 0]))).toThrow(
+      'overflows the RDATA',
+    );
+  });
+
+  it('should count the TSIG record in the additional section', () => {
+    expect(signMessage(message, key, now).readUInt16BE(10)).toEqual(1);
+  });
+
+  it('should verify messages signed with the key', () => {
+    const tsig = unsign(signMessage(message, key, now));
+
+    expect(verifyTsig(message, tsig, key, now + 300)).toEqual(TsigError.NOERROR);
+    expect(verifyTsig(message, tsig, { ...key, algorithm: 'HMAC-SHA256.' }, now)).toEqual(TsigError.NOERROR);
+  });
+
+  it('should reject unknown keys and algorithms', () => {
+    const tsig = unsign(signMessage(message, key, now));
+
+    expect(verifyTsig(message, tsig, undefined, now)).toEqual(TsigError.BADKEY);
+    expect(verifyTsig(message, tsig, { ...key, algorithm: 'hmac-sha1' }, now)).toEqual(TsigError.BADKEY);
+    expect(verifyTsig(message, { ...tsig, algorithm: 'gss-tsig' }, { ...key, algorithm: 'gss-tsig' }, now)).toEqual(
+      TsigError.BADKEY,
+    );
+  });
+
+  it('should reject wrong signatures and altered messages', () => {
+    const tsig = unsign(signMessage(message, key, now));
+    const altered = Buffer.from(message);
+    altered[3] = 1;
+
+    expect(verifyTsig(altered, tsig, key, now)).toEqual(TsigError.BADSIG);
+    expect(verifyTsig(message, tsig, { ...key, secret: 'b3RoZXI=' }, now)).toEqual(TsigError.BADSIG);
+  });
+
+  it('should reject messages signed outside the fudge', () => {
+    const tsig = unsign(signMessage(message, key, now));
+
+    expect(verifyTsig(message, tsig, key, now + 301)).toEqual(TsigError.BADTIME);
+    expect(verifyTsig(message, tsig, key, now - 301)).toEqual(TsigError.BADTIME);
+  });
+
+  it('should decode stored keys and refuse anything else', () => {
+    expect(decodeTsigKey(JSON.stringify({ ...key, zones: ['example.com'] }))).toEqual({
+      ...key,
+      zones: ['example.com'],
+    });
+    expect(() => decodeTsigKey(JSON.stringify({ name: 'update-key', secret: 'c2VjcmV0' }))).toThrow(StoredValueError);
+    expect(() => decodeTsigKey(JSON.stringify({ ...key, zones: 'example.com' }))).toThrow(StoredValueError);
+    expect(() => decodeTsigKey('null')).toThrow(StoredValueError);
+  });
+
+  describe('signResponse', () => {
+    const response = Buffer.from('000180000001000000000000', 'hex');
+
+    it('should sign responses over the request MAC', () => {
+      const request = unsign(signMessage(message, key, now));
+      const tsig = signResponse(response, request, key, TsigError.NOERROR, now + 1);
+
+      expect(tsig.timeSigned).toEqual(now + 1);
+      expect(tsig.mac).toEqual(computeMac(key, response, tsig, request.mac));
+    });
+
+    it('should leave responses to unauthenticated requests unsigned', () => {
+      const request = unsign(signMessage(message, key, now));
+
+      expect(signResponse(response, request, undefined, TsigError.BADKEY, now).mac).toHaveLength(0);
+      expect(signResponse(response, request, key, TsigError.BADSIG, now).mac).toHaveLength(0);
+    });
+
+    it('should echo the request time and add the server time for BADTIME', () => {
+      const request = unsign(signMessage(message, key, now));
+      const tsig = signResponse(response, request, key, TsigError.BADTIME, now + 1000);
+
+      expect(tsig.timeSigned).toEqual(now);
+      expect(tsig.otherData.readUIntBE(0, 6)).toEqual(now + 1000);
+      expect(tsig.mac).toHaveLength(32);
+    });
+  });
+});
@@ -0,0 +1,285 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { StoredValueError } from './errors';
+import { nameToLabels } from './names';
+
+/** A shared secret clients sign messages with (RFC 8945). */
+export type TsigKey = {
+  /** The key name, as sent by clients */
+  name: string;
+
+  /** The HMAC algorithm name, such as `hmac-sha256` */
+  algorithm: string;
+
+  /** The base64 encoded secret */
+  secret: string;
+
+  /** The zones the key may update. All zones if not provided. */
+  zones?: string[];
+};
+
+/** The decoded RDATA of a TSIG record, along with the key name it is owned by. */
+export type TsigRecord = {
+  keyName: string;
+  algorithm: string;
+  timeSigned: number;
+  fudge: number;
+  mac: Buffer;
+  originalId: number;
+  error: number;
+  otherData: Buffer;
+};
+
+/** The TSIG specific error codes carried in the TSIG record of a response. */
+export const TsigError = {
+  NOERROR: 0,
+  BADSIG: 16,
+  BADKEY: 17,
+  BADTIME: 18,
+} as const;
+
+/** Node digest names of the supported HMAC algorithms, by TSIG algorithm name. */
+const ALGORITHMS: Record<string, string> = {
+  'hmac-md5.sig-alg.reg.int': 'md5',
+  'hmac-sha1': 'sha1',
+  'hmac-sha224': 'sha224',
+  'hmac-sha256': 'sha256',
+  'hmac-sha384': 'sha384',
+  'hmac-sha512': 'sha512',
+};
+
+/**
+ * Decode a TSIG key as `setTsigKey` stores it.
+ * @param raw The stored JSON
+ * @throws {StoredValueError} If it isn't a key
+ */
+export function decodeTsigKey(raw: string): TsigKey {
+  const parsed: unknown = JSON.parse(raw);
+  const key = parsed as Partial<TsigKey> | null;
+  if (
+    typeof key?.name !== 'string' ||
+    typeof key.algorithm !== 'string' ||
+    typeof key.secret !== 'string' ||
+    (key.zones !== undefined && !(Array.isArray(key.zones) && key.zones.every((z) => typeof z === 'string')))
+  ) {
+    throw new StoredValueError('TSIG key', raw);
+  }
+
+  return key as TsigKey;
+}
+
+/**
+ * Encode a name in canonical wire format: lowercase and uncompressed.
+ * @param name The name to encode
+ */
+export function encodeCanonicalName(name: string): Buffer {
+  const labels = nameToLabels(name).filter((label) => label !== '');
+
+  return Buffer.concat([
+    ...labels.flatMap((label) => [Buffer.from([label.length]), Buffer.from(label, 'latin1')]),
+    Buffer.from([0]),
+  ]);
+}
+
+/**
+ * Decode an uncompressed wire format name, as used for the algorithm name of a TSIG record.
+ * @param buf The buffer to read from
+ * @param offset Where the name starts
+ * @returns The name and the offset right after it
+ * @throws {Error} If the name runs past the end of the buffer or has a label longer than 63 bytes
+ */
+function decodeUncompressedName(buf: Buffer, offset: number): [string, number] {
+  const labels: string[] = [];
+  for (;;) {
+    if (offset >= buf.length) {
+      throw new Error('Name overflows the RDATA');
+    }
+
+    const length = buf[offset];
+    if (length === 0) {
+      return [labels.join('.'), offset + 1];
+    }
+
+    if (length > 63 || offset + 1 + length > buf.length) {
+      throw new Error('Label overflows the RDATA');
+    }
+
+    labels.push(buf.toString('latin1', offset + 1, offset + 1 + length));
+    offset += length + 1;
+  }
+}
+
+/**
+ * Decode the RDATA of a TSIG record.
+ * @param keyName The owner name of the record, which is the key name
+ * @param rdata The record's RDATA, without the length prefix
+ */
+export function decodeTsig(keyName: string, rdata: Buffer): TsigRecord {
+  const [algorithm, offset] = decodeUncompressedName(rdata, 0);
+  const macSize = rdata.readUInt16BE(offset + 8);
+  const macEnd = offset + 10 + macSize;
+  const otherLength = rdata.readUInt16BE(macEnd + 4);
+
+  return {
+    keyName,
+    algorithm,
+    timeSigned: rdata.readUIntBE(offset, 6),
+    fudge: rdata.readUInt16BE(offset + 6),
+    mac: rdata.subarray(offset + 10, macEnd),
+    originalId: rdata.readUInt16BE(macEnd),
+    error: rdata.readUInt16BE(macEnd + 2),
+    otherData: rdata.subarray(macEnd + 6, macEnd + 6 + otherLength),
+  };
+}
+
+/**
+ * Encode the RDATA of a TSIG record.
+ * @param tsig The record to encode
+ */
+export function encodeTsig(tsig: TsigRecord): Buffer {
+  const fixed = Buffer.alloc(10);
+  fixed.writeUIntBE(tsig.timeSigned, 0, 6);
+  fixed.writeUInt16BE(tsig.fudge, 6);
+  fixed.writeUInt16BE(tsig.mac.length, 8);
+
+  const trailer = Buffer.alloc(6);
+  trailer.writeUInt16BE(tsig.originalId, 0);
+  trailer.writeUInt16BE(tsig.error, 2);
+  trailer.writeUInt16BE(tsig.otherData.length, 4);
+
+  return Buffer.concat([encodeCanonicalName(tsig.algorithm), fixed, tsig.mac, trailer, tsig.otherData]);
+}
+
+/**
+ * Compute the MAC of a message (RFC 8945, section 4.3).
+ * @param key The key to sign with
+ * @param message The message without its TSIG record, with its original ID and additional count
+ * @param tsig The TSIG fields covered by the MAC. `mac` is ignored.
+ * @param requestMac For a response, the MAC of the request it answers
+ */
+export function computeMac(key: TsigKey, message: Buffer, tsig: TsigRecord, requestMac?: Buffer): Buffer {
+  const variables = Buffer.alloc(16);
+  variables.writeUInt16BE(255, 0); // class ANY
+  variables.writeUInt32BE(0, 2); // TTL
+  variables.writeUIntBE(tsig.timeSigned, 6, 6);
+  variables.writeUInt16BE(tsig.fudge, 12);
+  variables.writeUInt16BE(tsig.error, 14);
+
+  const otherLength = Buffer.alloc(2);
+  otherLength.writeUInt16BE(tsig.otherData.length);
+
+  const hmac = createHmac(ALGORITHMS[normalizeAlgorithm(key.algorithm)], Buffer.from(key.secret, 'base64'));
+  if (requestMac) {
+    const macSize = Buffer.alloc(2);
+    macSize.writeUInt16BE(requestMac.length);
+    hmac.update(macSize).update(requestMac);
+  }
+
+  return hmac
+    .update(message)
+    .update(encodeCanonicalName(tsig.keyName))
+    .update(variables.subarray(0, 6))
+    .update(encodeCanonicalName(tsig.algorithm))
+    .update(variables.subarray(6))
+    .update(otherLength)
+    .update(tsig.otherData)
+    .digest();
+}
+
+/**
+ * Lowercase an algorithm name and drop its trailing dot.
+ * @param algorithm The algorithm name
+ */
+function normalizeAlgorithm(algorithm: string): string {
+  return algorithm.toLowerCase().replace(/\.$/, '');
+}
+
+/**
+ * Verify the TSIG record of a request (RFC 8945, section 5.2).
+ * @param message The request without its TSIG record, with its original ID and additional count
+ * @param tsig The request's TSIG record
+ * @param key The key named by the record, if it is known
+ * @param now The current time in seconds since the epoch
+ * @returns A TSIG error code, `NOERROR` if the request is authentic
+ */
+export function verifyTsig(message: Buffer, tsig: TsigRecord, key: TsigKey | undefined, now: number): number {
+  if (
+    !key ||
+    normalizeAlgorithm(key.algorithm) !== normalizeAlgorithm(tsig.algorithm) ||
+    !ALGORITHMS[normalizeAlgorithm(tsig.algorithm)]
+  ) {
+    return TsigError.BADKEY;
+  }
+
+  const expected = computeMac(key, message, tsig);
+  if (tsig.mac.length !== expected.length || !timingSafeEqual(tsig.mac, expected)) {
+    return TsigError.BADSIG;
+  }
+
+  if (Math.abs(now - tsig.timeSigned) > tsig.fudge) {
+    return TsigError.BADTIME;
+  }
+
+  return TsigError.NOERROR;
+}
+
+/**
+ * Build the TSIG record of a response. Responses to requests that failed with BADKEY or BADSIG
+ * carry an unsigned record, every other response is signed.
+ * @param message The response without its TSIG record
+ * @param request The request's TSIG record
+ * @param key The key the request was signed with, if it is known
+ * @param error The TSIG error code
+ * @param now The current time in seconds since the epoch
+ */
+export function signResponse(
+  message: Buffer,
+  request: TsigRecord,
+  key: TsigKey | undefined,
+  error: number,
+  now: number,
+): TsigRecord {
+  const tsig: TsigRecord = { ...request, timeSigned: now, mac: Buffer.alloc(0), error, otherData: Buffer.alloc(0) };
+  if (error === TsigError.BADTIME) {
+    // echo the client's time and add the server's, so the client can tell how far the clocks are apart
+    tsig.timeSigned = request.timeSigned;
+    tsig.otherData = Buffer.alloc(6);
+    tsig.otherData.writeUIntBE(now, 0, 6);
+  }
+
+  if (!key || error === TsigError.BADKEY || error === TsigError.BADSIG) {
+    return tsig;
+  }
+
+  return { ...tsig, mac: computeMac(key, message, tsig, request.mac) };
+}
+
+/**
+ * Sign a message, for clients: add a TSIG record to it and count it in the additional section.
+ * @param message The message to sign
+ * @param key The key to sign with
+ * @param now The current time in seconds since the epoch
+ * @param fudge The allowed clock difference, in seconds
+ */
+export function signMessage(message: Buffer, key: TsigKey, now: number, fudge = 300): Buffer {
+  const tsig: TsigRecord = {
+    keyName: key.name,
+    algorithm: key.algorithm,
+    timeSigned: now,
+    fudge,
+    mac: Buffer.alloc(0),
+    originalId: message.readUInt16BE(0),
+    error: TsigError.NOERROR,
+    otherData: Buffer.alloc(0),
+  };
+  const rdata = encodeTsig({ ...tsig, mac: computeMac(key, message, tsig) });
+
+  const fixed = Buffer.alloc(10);
+  fixed.writeUInt16BE(250, 0); // type TSIG
+  fixed.writeUInt16BE(255, 2); // class ANY
+  fixed.writeUInt16BE(rdata.length, 8);
+
+  const signed = Buffer.concat([message, encodeCanonicalName(key.name), fixed, rdata]);
+  signed.writeUInt16BE(message.readUInt16BE(10) + 1, 10);
+
+  return signed;
+}
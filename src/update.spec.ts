@@ -0,0 +1,274 @@
+import * as dnsPacket from 'dns-packet';
+import { TCPSerializer } from 'dinodns/common';
+import {
+  UpdateRcode,
+  UpdateRecord,
+  UpdateSerializer,
+  ZoneSnapshot,
+  applyUpdates,
+  checkPrerequisites,
+  decodeUpdate,
+  encodeUpdate,
+  prescanUpdates,
+  updateMessageOf,
+} from './update';
+import { StoredRecordSet } from './records';
+import { signMessage } from './tsig';
+
+describe('update', () => {
+  const soa = {
+    mname: 'ns1.example.com',
+    rname: 'hostmaster.example.com',
+    serial: 10,
+    refresh: 7200,
+    retry: 900,
+    expire: 1209600,
+    minimum: 60,
+  };
+
+  const records = (...data: unknown[]): StoredRecordSet => ({
+    records: data.map((d) => ({ data: d as StoredRecordSet['records'][0]['data'] })),
+  });
+
+  let snapshot: ZoneSnapshot;
+
+  beforeEach(() => {
+    snapshot = new Map([
+      [
+        'com:example',
+        new Map([
+          ['SOA', records(soa)],
+          ['NS', records('ns1.example.com', 'ns2.example.com')],
+        ]),
+      ],
+      ['com:example:www', new Map([['A', records('127.0.0.1', '127.0.0.2')]])],
+      ['com:example:alias', new Map([['CNAME', records('www.example.com')]])],
+    ]);
+  });
+
+  const rr = (name: string, type: string, cls: string, data?: unknown, ttl = 0): UpdateRecord => ({
+    name,
+    type,
+    class: cls,
+    ttl,
+    ...(data === undefined ? {} : { data }),
+  });
+
+  describe('decodeUpdate', () => {
+    const message = {
+      id: 42,
+      flags: 0,
+      zone: [{ name: 'example.com', type: 'SOA' as const, class: 'IN' as const }],
+      prerequisites: [rr('www.example.com', 'A', 'ANY'), rr('new.example.com', 'ANY', 'NONE')],
+      updates: [
+        rr('new.example.com', 'A', 'IN', '127.0.0.3', 300),
+        rr('new.example.com', 'TXT', 'IN', ['hello'], 300),
+        rr('www.example.com', 'A', 'NONE', '127.0.0.2'),
+        rr('old.example.com', 'ANY', 'ANY'),
+      ],
+    };
+
+    it('should decode what encodeUpdate encodes, including empty RDATA', () => {
+      const decoded = decodeUpdate(encodeUpdate(message));
+
+      expect(decoded.id).toEqual(42);
+      expect(decoded.zone).toEqual(message.zone);
+      expect(decoded.prerequisites).toEqual(message.prerequisites);
+      expect(decoded.updates).toEqual([
+        message.updates[0],
+        { ...message.updates[1], data: [Buffer.from('hello')] },
+        ...message.updates.slice(2),
+      ]);
+      expect(decoded.tsig).toBeUndefined();
+    });
+
+    it('should keep the part of the message a TSIG record signs', () => {
+      const unsigned = encodeUpdate(message);
+      const key = { name: 'key', algorithm: 'hmac-sha256', secret: 'c2VjcmV0' };
+      const decoded = decodeUpdate(signMessage(unsigned, key, 1_700_000_000));
+
+      expect(decoded.tsig?.record).toMatchObject({ keyName: 'key', algorithm: 'hmac-sha256', originalId: 42 });
+      expect(decoded.tsig?.signed).toEqual(unsigned);
+    });
+
+    it('should reject TSIG records that aren t the last record', () => {
+      const key = { name: 'key', algorithm: 'hmac-sha256', secret: 'c2VjcmV0' };
+      const signed = signMessage(encodeUpdate(message), key, 1_700_000_000);
+      const opt = Buffer.from('0000290200000000000000', 'hex');
+      const broken = Buffer.concat([signed, opt]);
+      broken.writeUInt16BE(2, 10);
+
+      expect(() => decodeUpdate(broken)).toThrow('TSIG must be the last record');
+    });
+
+    it('should reject truncated messages', () => {
+      const buf = encodeUpdate(message);
+
+      expect(() => decodeUpdate(buf.subarray(0, buf.length - 2))).toThrow();
+    });
+  });
+
+  describe('UpdateSerializer', () => {
+    const update = encodeUpdate({
+      id: 7,
+      flags: 0,
+      zone: [{ name: 'example.com', type: 'SOA', class: 'IN' }],
+      prerequisites: [],
+      updates: [rr('www.example.com', 'A', 'ANY')],
+    });
+
+    it('should decode UPDATE messages into their zone section', () => {
+      const packet = new UpdateSerializer().decode(update);
+
+      expect(packet.id).toEqual(7);
+      expect(packet.questions).toEqual([{ name: 'example.com', type: 'SOA', class: 'IN' }]);
+      expect(updateMessageOf(packet)).toMatchObject({ updates: [rr('www.example.com', 'A', 'ANY')] });
+    });
+
+    it('should hand every other message to the inner serializer', () => {
+      const query = dnsPacket.encode({ type: 'query', id: 1, questions: [{ name: 'example.com', type: 'A' }] });
+      const packet = new UpdateSerializer().decode(query);
+
+      expect(packet.questions).toEqual([{ name: 'example.com', type: 'A', class: 'IN' }]);
+      expect(updateMessageOf(packet)).toBeUndefined();
+    });
+
+    it('should record malformed UPDATE messages as errors', () => {
+      const packet = new UpdateSerializer().decode(update.subarray(0, update.length - 3));
+
+      expect(updateMessageOf(packet)).toBeInstanceOf(Error);
+    });
+
+    it('should strip the TCP length prefix', () => {
+      const length = Buffer.alloc(2);
+      length.writeUInt16BE(update.length);
+      const packet = new UpdateSerializer(new TCPSerializer()).decode(Buffer.concat([length, update]));
+
+      expect(packet.id).toEqual(7);
+      expect(updateMessageOf(packet)).not.toBeInstanceOf(Error);
+    });
+  });
+
+  describe('checkPrerequisites', () => {
+    const check = (...prerequisites: UpdateRecord[]) =>
+      checkPrerequisites(prerequisites, 'com:example', 'IN', snapshot);
+
+    it('should pass when every prerequisite holds', () => {
+      expect(
+        check(
+          rr('www.example.com', 'A', 'ANY'),
+          rr('www.example.com', 'ANY', 'ANY'),
+          rr('www.example.com', 'AAAA', 'NONE'),
+          rr('new.example.com', 'ANY', 'NONE'),
+          rr('www.example.com', 'A', 'IN', '127.0.0.2'),
+          rr('www.example.com', 'A', 'IN', '127.0.0.1'),
+        ),
+      ).toEqual(UpdateRcode.NOERROR);
+    });
+
+    it('should fail with the RCODE of the prerequisite that doesn t hold', () => {
+      expect(check(rr('www.example.com', 'AAAA', 'ANY'))).toEqual(UpdateRcode.NXRRSET);
+      expect(check(rr('new.example.com', 'ANY', 'ANY'))).toEqual(UpdateRcode.NXDOMAIN);
+      expect(check(rr('www.example.com', 'A', 'NONE'))).toEqual(UpdateRcode.YXRRSET);
+      expect(check(rr('www.example.com', 'ANY', 'NONE'))).toEqual(UpdateRcode.YXDOMAIN);
+    });
+
+    it('should require value dependent record sets to match exactly', () => {
+      expect(check(rr('www.example.com', 'A', 'IN', '127.0.0.1'))).toEqual(UpdateRcode.NXRRSET);
+      expect(check(rr('new.example.com', 'A', 'IN', '127.0.0.1'))).toEqual(UpdateRcode.NXRRSET);
+    });
+
+    it('should reject malformed prerequisites and names outside the zone', () => {
+      expect(check(rr('www.example.com', 'A', 'ANY', undefined, 60))).toEqual(UpdateRcode.FORMERR);
+      expect(check(rr('www.example.com', 'A', 'CH', '127.0.0.1'))).toEqual(UpdateRcode.FORMERR);
+      expect(check(rr('www.example.net', 'A', 'ANY'))).toEqual(UpdateRcode.NOTZONE);
+    });
+  });
+
+  describe('prescanUpdates', () => {
+    const prescan = (...updates: UpdateRecord[]) => prescanUpdates(updates, 'com:example', 'IN');
+
+    it('should accept well formed updates', () => {
+      expect(
+        prescan(
+          rr('new.example.com', 'A', 'IN', '127.0.0.3', 300),
+          rr('www.example.com', 'A', 'ANY'),
+          rr('www.example.com', 'ANY', 'ANY'),
+          rr('www.example.com', 'A', 'NONE', '127.0.0.1'),
+        ),
+      ).toEqual(UpdateRcode.NOERROR);
+    });
+
+    it('should reject malformed updates and names outside the zone', () => {
+      expect(prescan(rr('www.example.net', 'A', 'IN', '127.0.0.3'))).toEqual(UpdateRcode.NOTZONE);
+      expect(prescan(rr('www.example.com', 'ANY', 'IN', '127.0.0.3'))).toEqual(UpdateRcode.FORMERR);
+      expect(prescan(rr('www.example.com', 'A', 'ANY', undefined, 60))).toEqual(UpdateRcode.FORMERR);
+      expect(prescan(rr('www.example.com', 'A', 'NONE'))).toEqual(UpdateRcode.FORMERR);
+      expect(prescan(rr('www.example.com', 'A', 'CH', '127.0.0.3'))).toEqual(UpdateRcode.FORMERR);
+    });
+  });
+
+  describe('applyUpdates', () => {
+    const apply = (...updates: UpdateRecord[]) => applyUpdates(updates, 'com:example', 'IN', snapshot);
+
+    it('should add records, updating the TTL of duplicates', () => {
+      apply(rr('www.example.com', 'A', 'IN', '127.0.0.3', 300), rr('www.example.com', 'A', 'IN', '127.0.0.1', 60));
+
+      expect(snapshot.get('com:example:www')?.get('A')).toEqual({
+        records: [{ data: '127.0.0.1', ttl: 60 }, { data: '127.0.0.2' }, { data: '127.0.0.3', ttl: 300 }],
+      });
+    });
+
+    it('should store TXT strings as strings', () => {
+      apply(rr('new.example.com', 'TXT', 'IN', [Buffer.from('hello')], 300));
+
+      expect(snapshot.get('com:example:new')?.get('TXT')).toEqual({ records: [{ data: 'hello', ttl: 300 }] });
+    });
+
+    it('should delete record sets, names and single records', () => {
+      apply(
+        rr('www.example.com', 'A', 'NONE', '127.0.0.1'),
+        rr('alias.example.com', 'ANY', 'ANY'),
+        rr('example.com', 'ANY', 'ANY'),
+      );
+
+      expect(snapshot.get('com:example:www')?.get('A')).toEqual(records('127.0.0.2'));
+      expect(snapshot.get('com:example:alias')?.size).toEqual(0);
+      expect([...(snapshot.get('com:example')?.keys() ?? [])]).toEqual(['SOA', 'NS']);
+    });
+
+    it('should keep the last NS record of the apex and its SOA', () => {
+      apply(
+        rr('example.com', 'NS', 'NONE', 'ns1.example.com'),
+        rr('example.com', 'NS', 'NONE', 'ns2.example.com'),
+        rr('example.com', 'SOA', 'NONE', soa),
+      );
+
+      expect(snapshot.get('com:example')?.get('NS')).toEqual(records('ns2.example.com'));
+      expect(snapshot.get('com:example')?.has('SOA')).toBe(true);
+    });
+
+    it('should keep CNAMEs exclusive', () => {
+      apply(
+        rr('www.example.com', 'CNAME', 'IN', 'example.com', 300),
+        rr('alias.example.com', 'A', 'IN', '127.0.0.1', 300),
+        rr('alias.example.com', 'CNAME', 'IN', 'example.com', 300),
+      );
+
+      expect([...(snapshot.get('com:example:www')?.keys() ?? [])]).toEqual(['A']);
+      expect(snapshot.get('com:example:alias')).toEqual(
+        new Map([['CNAME', { records: [{ data: 'example.com', ttl: 300 }] }]]),
+      );
+    });
+
+    it('should only replace the SOA with a newer serial', () => {
+      apply(rr('example.com', 'SOA', 'IN', { ...soa, serial: 9 }, 3600));
+      expect(snapshot.get('com:example')?.get('SOA')).toEqual(records(soa));
+
+      apply(rr('example.com', 'SOA', 'IN', { ...soa, serial: 11 }, 3600));
+      expect(snapshot.get('com:example')?.get('SOA')).toEqual({
+        records: [{ data: { ...soa, serial: 11 }, ttl: 3600 }],
+      });
+    });
+  });
+});
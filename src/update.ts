@@ -0,0 +1,473 @@
+import * as dnsPacket from 'dns-packet';
+import type { Packet, Question, RecordType } from 'dns-packet';
+import { Serializer, TCPSerializer, UDPSerializer } from 'dinodns/common';
+import { isEqual as _isEqual } from 'lodash';
+import { StoredRecordSet } from './records';
+import { nameToKey } from './names';
+import { TsigRecord, decodeTsig } from './tsig';
+import { serialGreater } from './serial';
+
+/** The UPDATE opcode (RFC 2136). */
+export const UPDATE_OPCODE = 5;
+
+/** The response codes an UPDATE can be answered with (RFC 2136, section 2.2). */
+export const UpdateRcode = {
+  NOERROR: 0,
+  FORMERR: 1,
+  SERVFAIL: 2,
+  NXDOMAIN: 3,
+  NOTIMP: 4,
+  REFUSED: 5,
+  YXDOMAIN: 6,
+  YXRRSET: 7,
+  NXRRSET: 8,
+  NOTAUTH: 9,
+  NOTZONE: 10,
+} as const;
+
+/**
+ * A record of the prerequisite or update section. Its class carries the meaning of the record,
+ * so it can be `ANY` or `NONE`, and `data` is missing for records with empty RDATA.
+ */
+export type UpdateRecord = {
+  name: string;
+  type: string;
+  class: string;
+  ttl: number;
+  data?: unknown;
+};
+
+/** An UPDATE message, decoded from the wire. */
+export type UpdateMessage = {
+  id: number;
+  flags: number;
+  zone: Question[];
+  prerequisites: UpdateRecord[];
+  updates: UpdateRecord[];
+
+  /**
+   * The TSIG record the message is signed with, if any, along with the message it signs: the wire
+   * form without the TSIG record, with the original ID and additional count.
+   */
+  tsig?: { record: TsigRecord; signed: Buffer };
+};
+
+/** The record types that can't be added, as they only exist in questions. */
+const META_TYPES = ['ANY', 'AXFR', 'MAILA', 'MAILB'];
+
+/** The parts of dns-packet's codecs its type definitions leave out. */
+type Codec<T> = {
+  /** Returns the buffer, except for questions, which return the question */
+  encode(value: T, buf?: Buffer, offset?: number): Buffer;
+  decode: { (buf: Buffer, offset: number): T; bytes: number };
+  encodingLength(value: T): number;
+};
+
+const codecs = dnsPacket as unknown as {
+  question: Codec<Question>;
+  record(type: string): Codec<unknown>;
+};
+
+/** Class numbers, including NONE, which dns-packet doesn't know. */
+const CLASSES: Record<string, number> = { IN: 1, CH: 3, HS: 4, NONE: 254, ANY: 255 };
+
+/** UPDATE messages by the packet they were decoded into, for the handler to pick up. */
+const updateMessages = new WeakMap<Packet, UpdateMessage | Error>();
+
+/**
+ * Decode one resource record. The fixed part of a record starts with the same fields as a
+ * question, which lets dns-packet decode the name, type and class.
+ * @param buf The message
+ * @param offset Where the record starts
+ * @returns The record, its RDATA and the offset right after it
+ */
+function decodeRecord(buf: Buffer, offset: number): [UpdateRecord, Buffer, number] {
+  const header = codecs.question.decode(buf, offset);
+  offset += codecs.question.decode.bytes;
+
+  const ttl = buf.readUInt32BE(offset);
+  const length = buf.readUInt16BE(offset + 4);
+  if (offset + 6 + length > buf.length) {
+    throw new Error('Record overflows the message');
+  }
+
+  const record: UpdateRecord = {
+    name: header.name,
+    type: header.type,
+    // dns-packet doesn't know class NONE
+    class: (header.class as string) === 'UNKNOWN_254' ? 'NONE' : (header.class ?? 'IN'),
+    ttl,
+  };
+  const rdata = buf.subarray(offset + 6, offset + 6 + length);
+  if (length > 0) {
+    record.data = codecs.record(header.type).decode(buf, offset + 4);
+  }
+
+  return [record, rdata, offset + 6 + length];
+}
+
+/**
+ * Decode an UPDATE message (RFC 2136). Unlike `dns-packet`, this accepts records with empty
+ * RDATA, which UPDATE uses to delete record sets, and keeps what a TSIG signature covers.
+ * @param buf The message, without a TCP length prefix
+ */
+export function decodeUpdate(buf: Buffer): UpdateMessage {
+  const counts = [4, 6, 8, 10].map((offset) => buf.readUInt16BE(offset));
+  const message: UpdateMessage = {
+    id: buf.readUInt16BE(0),
+    flags: buf.readUInt16BE(2) & 0x7fff,
+    zone: [],
+    prerequisites: [],
+    updates: [],
+  };
+
+  let offset = 12;
+  for (let i = 0; i < counts[0]; i++) {
+    message.zone.push(codecs.question.decode(buf, offset));
+    offset += codecs.question.decode.bytes;
+  }
+
+  for (const [section, count] of [
+    [message.prerequisites, counts[1]],
+    [message.updates, counts[2]],
+  ] as const) {
+    for (let i = 0; i < count; i++) {
+      const [record, , next] = decodeRecord(buf, offset);
+      section.push(record);
+      offset = next;
+    }
+  }
+
+  for (let i = 0; i < counts[3]; i++) {
+    const start = offset;
+    const [record, rdata, next] = decodeRecord(buf, offset);
+    offset = next;
+    if (record.type !== 'TSIG') {
+      continue;
+    }
+
+    if (i !== counts[3] - 1) {
+      throw new Error('TSIG must be the last record of the message');
+    }
+
+    const tsig = decodeTsig(record.name, rdata);
+    const signed = Buffer.from(buf.subarray(0, start));
+    signed.writeUInt16BE(tsig.originalId, 0);
+    signed.writeUInt16BE(counts[3] - 1, 10);
+    message.tsig = { record: tsig, signed };
+  }
+
+  return message;
+}
+
+/**
+ * Encode one resource record, which may have empty RDATA.
+ * @param rr The record
+ */
+function encodeRecord(rr: UpdateRecord): Buffer {
+  const header = Buffer.alloc(codecs.question.encodingLength({ name: rr.name, type: rr.type as RecordType }) + 4);
+  codecs.question.encode({ name: rr.name, type: rr.type as RecordType }, header, 0);
+  header.writeUInt16BE(CLASSES[rr.class], header.length - 6);
+  header.writeUInt32BE(rr.ttl, header.length - 4);
+
+  // the record codecs write the RDATA length prefix themselves
+  return Buffer.concat([header, rr.data === undefined ? Buffer.alloc(2) : codecs.record(rr.type).encode(rr.data)]);
+}
+
+/**
+ * Encode an UPDATE message, for clients. The opcode is set regardless of the given flags, and a
+ * TSIG record isn't added: sign the result with `signMessage` to add one.
+ * @param message The message
+ */
+export function encodeUpdate(message: Omit<UpdateMessage, 'tsig'>): Buffer {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(message.id, 0);
+  header.writeUInt16BE((message.flags & ~0x7800) | (UPDATE_OPCODE << 11), 2);
+  header.writeUInt16BE(message.zone.length, 4);
+  header.writeUInt16BE(message.prerequisites.length, 6);
+  header.writeUInt16BE(message.updates.length, 8);
+
+  return Buffer.concat([
+    header,
+    ...message.zone.map((q) => {
+      const buf = Buffer.alloc(codecs.question.encodingLength(q));
+      codecs.question.encode(q, buf, 0);
+
+      return buf;
+    }),
+    ...[...message.prerequisites, ...message.updates].map(encodeRecord),
+  ]);
+}
+
+/**
+ * Find the UPDATE message a packet was decoded from by an {@link UpdateSerializer}.
+ * @param packet The decoded packet
+ * @returns The message, an error if it was malformed, or undefined if the packet wasn't decoded
+ * from an UPDATE message by an `UpdateSerializer`
+ */
+export function updateMessageOf(packet: Packet): UpdateMessage | Error | undefined {
+  return updateMessages.get(packet);
+}
+
+/**
+ * A serializer that decodes UPDATE messages itself and hands every other message to the wrapped
+ * serializer. `dns-packet` can't decode the empty RDATA UPDATE deletions use and drops the wire
+ * form TSIG signatures cover, so networks serving `RedisStore.updateHandler` need this serializer.
+ *
+ * The packet passed on to handlers only holds the zone section, as its question. The handler
+ * reads the rest of the message from the serializer.
+ */
+export class UpdateSerializer implements Serializer<Packet> {
+  /** Whether messages carry the two byte length prefix of DNS over TCP */
+  private readonly framed: boolean;
+
+  /**
+   * @param inner The serializer of the network, used for every other message and for responses.
+   * Defaults to a `UDPSerializer`.
+   */
+  constructor(private readonly inner: Serializer<Packet> = new UDPSerializer()) {
+    this.framed = inner instanceof TCPSerializer;
+  }
+
+  encode(packet: Packet): Buffer {
+    return this.inner.encode(packet);
+  }
+
+  decode(buffer: Buffer): Packet {
+    const buf = this.framed ? buffer.subarray(2) : buffer;
+    if (buf.length < 12 || ((buf.readUInt16BE(2) >> 11) & 0xf) !== UPDATE_OPCODE) {
+      return this.inner.decode(buffer);
+    }
+
+    const packet: Packet = {
+      type: 'query',
+      id: buf.readUInt16BE(0),
+      flags: buf.readUInt16BE(2) & 0x7fff,
+      questions: [],
+      answers: [],
+      authorities: [],
+      additionals: [],
+    };
+
+    try {
+      const message = decodeUpdate(buf);
+      packet.questions = message.zone;
+      updateMessages.set(packet, message);
+    } catch (err) {
+      updateMessages.set(packet, err instanceof Error ? err : new Error(String(err)));
+    }
+
+    return packet;
+  }
+}
+
+/** The record sets of the names an update touches, by store key and record type. */
+export type ZoneSnapshot = Map<string, Map<string, StoredRecordSet>>;
+
+/**
+ * Whether two records of a type have the same RDATA, compared in wire format so that different
+ * representations of the same data, such as a TXT string and a list holding it, compare equal.
+ * @param type The record type
+ * @param a The first record's data
+ * @param b The second record's data
+ */
+function sameRdata(type: string, a: unknown, b: unknown): boolean {
+  try {
+    const codec = codecs.record(type);
+
+    return codec.encode(a).equals(codec.encode(b));
+  } catch {
+    return _isEqual(a, b);
+  }
+}
+
+/**
+ * Convert record data decoded from the wire to the form the store writes. TXT strings are
+ * decoded as buffers, which are stored as strings, like zone file imports do.
+ * @param type The record type
+ * @param data The decoded data
+ */
+function toStoredData(type: string, data: unknown): unknown {
+  if (type !== 'TXT' || !Array.isArray(data)) {
+    return data;
+  }
+
+  const strings = data.map((s: Buffer | string) => s.toString());
+
+  return strings.length === 1 ? strings[0] : strings;
+}
+
+/**
+ * Whether a key is at or below the apex of a zone.
+ * @param key The store key
+ * @param zoneKey The store key of the zone apex
+ */
+function inZone(key: string, zoneKey: string): boolean {
+  return zoneKey === '' || key === zoneKey || key.startsWith(zoneKey + ':');
+}
+
+/**
+ * Evaluate the prerequisite section against the current records (RFC 2136, section 3.2).
+ * @param prerequisites The prerequisite records
+ * @param zoneKey The store key of the zone apex
+ * @param zoneClass The class of the zone
+ * @param snapshot The current records of the names the update touches
+ * @returns `NOERROR`, or the response code to fail the update with
+ */
+export function checkPrerequisites(
+  prerequisites: UpdateRecord[],
+  zoneKey: string,
+  zoneClass: string,
+  snapshot: ZoneSnapshot,
+): number {
+  const expected = new Map<string, { key: string; type: string; records: unknown[] }>();
+
+  for (const rr of prerequisites) {
+    if (rr.ttl !== 0) {
+      return UpdateRcode.FORMERR;
+    }
+
+    const key = nameToKey(rr.name);
+    if (!inZone(key, zoneKey)) {
+      return UpdateRcode.NOTZONE;
+    }
+
+    const types = snapshot.get(key);
+    if (rr.class === 'ANY' || rr.class === 'NONE') {
+      if (rr.data !== undefined) {
+        return UpdateRcode.FORMERR;
+      }
+
+      const exists = rr.type === 'ANY' ? (types?.size ?? 0) > 0 : (types?.has(rr.type) ?? false);
+      if (rr.class === 'ANY' && !exists) {
+        return rr.type === 'ANY' ? UpdateRcode.NXDOMAIN : UpdateRcode.NXRRSET;
+      }
+
+      if (rr.class === 'NONE' && exists) {
+        return rr.type === 'ANY' ? UpdateRcode.YXDOMAIN : UpdateRcode.YXRRSET;
+      }
+    } else if (rr.class === zoneClass) {
+      const id = `${key}/${rr.type}`;
+      const set = expected.get(id) ?? { key, type: rr.type, records: [] };
+      set.records.push(rr.data);
+      expected.set(id, set);
+    } else {
+      return UpdateRcode.FORMERR;
+    }
+  }
+
+  // value dependent prerequisites: the stored record set must be exactly the given records
+  for (const { key, type, records } of expected.values()) {
+    const stored =
+      snapshot
+        .get(key)
+        ?.get(type)
+        ?.records.map((r) => r.data) ?? [];
+    const matches = (a: unknown[], b: unknown[]) => a.every((x) => b.some((y) => sameRdata(type, x, y)));
+    if (stored.length === 0 || !matches(records, stored) || !matches(stored, records)) {
+      return UpdateRcode.NXRRSET;
+    }
+  }
+
+  return UpdateRcode.NOERROR;
+}
+
+/**
+ * Check the update section for records that can't be applied (RFC 2136, section 3.4.1).
+ * @param updates The update records
+ * @param zoneKey The store key of the zone apex
+ * @param zoneClass The class of the zone
+ * @returns `NOERROR`, or the response code to fail the update with
+ */
+export function prescanUpdates(updates: UpdateRecord[], zoneKey: string, zoneClass: string): number {
+  for (const rr of updates) {
+    if (!inZone(nameToKey(rr.name), zoneKey)) {
+      return UpdateRcode.NOTZONE;
+    }
+
+    const valid =
+      rr.class === zoneClass
+        ? !META_TYPES.includes(rr.type) && rr.data !== undefined
+        : rr.class === 'ANY'
+          ? rr.ttl === 0 && rr.data === undefined && (rr.type === 'ANY' || !META_TYPES.includes(rr.type))
+          : rr.class === 'NONE' && rr.ttl === 0 && rr.data !== undefined && !META_TYPES.includes(rr.type);
+    if (!valid) {
+      return UpdateRcode.FORMERR;
+    }
+  }
+
+  return UpdateRcode.NOERROR;
+}
+
+/**
+ * Apply the update section to the current records (RFC 2136, section 3.4.2). Records that can't
+ * coexist, such as a CNAME next to other records, are skipped, and the SOA and the NS records of
+ * the apex are never removed entirely.
+ * @param updates The update records, which must have passed `prescanUpdates`
+ * @param zoneKey The store key of the zone apex
+ * @param zoneClass The class of the zone
+ * @param snapshot The current records of the names the update touches, modified in place
+ */
+export function applyUpdates(
+  updates: UpdateRecord[],
+  zoneKey: string,
+  zoneClass: string,
+  snapshot: ZoneSnapshot,
+): void {
+  for (const rr of updates) {
+    const key = nameToKey(rr.name);
+    const types = snapshot.get(key) ?? new Map<string, StoredRecordSet>();
+    snapshot.set(key, types);
+    const apex = key === zoneKey;
+
+    if (rr.class === zoneClass) {
+      const data = toStoredData(rr.type, rr.data);
+      const hasOthers = [...types.keys()].some((type) => type !== 'CNAME');
+      if ((rr.type === 'CNAME' && hasOthers) || (rr.type !== 'CNAME' && types.has('CNAME'))) {
+        continue;
+      }
+
+      if (rr.type === 'SOA') {
+        const current = types.get('SOA')?.records[0]?.data as { serial: number } | undefined;
+        const serial = (data as { serial: number }).serial;
+        if (apex && (!current || serialGreater(serial, current.serial))) {
+          types.set('SOA', { records: [{ data: data as StoredRecordSet['records'][0]['data'], ttl: rr.ttl }] });
+        }
+
+        continue;
+      }
+
+      const recordSet = rr.type === 'CNAME' ? { records: [] } : (types.get(rr.type) ?? { records: [] });
+      const existing = recordSet.records.find((r) => sameRdata(rr.type, r.data, data));
+      if (existing) {
+        existing.ttl = rr.ttl;
+      } else {
+        recordSet.records.push({ data: data as StoredRecordSet['records'][0]['data'], ttl: rr.ttl });
+      }
+
+      types.set(rr.type, recordSet);
+    } else if (rr.class === 'ANY') {
+      for (const type of rr.type === 'ANY' ? [...types.keys()] : [rr.type]) {
+        if (!(apex && (type === 'SOA' || type === 'NS'))) {
+          types.delete(type);
+        }
+      }
+    } else if (rr.class === 'NONE' && rr.type !== 'SOA') {
+      const recordSet = types.get(rr.type);
+      if (!recordSet) {
+        continue;
+      }
+
+      const remaining = recordSet.records.filter((r) => !sameRdata(rr.type, r.data, rr.data));
+      if (remaining.length === 0 && apex && rr.type === 'NS') {
+        continue;
+      }
+
+      if (remaining.length === 0) {
+        types.delete(rr.type);
+      } else {
+        recordSet.records = remaining;
+      }
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import {
+  isSupportedRecordType,
+  validateCname,
+  validateName,
+  validateRecord,
+  validateWriteOptions,
+  validateZoneRecords,
+} from './validation';
+
+describe('validation', () => {
+  describe('validateRecord', () => {
+    it('should check addresses', () => {
+      expect(validateRecord('A', '10.0.0.1')).toEqual([]);
+      expect(validateRecord('A', '10.0.0.256')).toEqual([{ field: 'data', message: 'must be an IPv4 address' }]);
+      expect(validateRecord('AAAA', '2001:db8::1')).toEqual([]);
+      expect(validateRecord('AAAA', '10.0.0.1')).toEqual([{ field: 'data', message: 'must be an IPv6 address' }]);
+    });
+
+    it('should check domain names', () => {
+      expect(validateRecord('CNAME', 'www.example.com.')).toEqual([]);
+      expect(validateRecord('NS', '.')).toEqual([]);
+      expect(validateRecord('PTR', '_service._tcp.example.com')).toEqual([]);
+      expect(validateRecord('CNAME', 'bad name.example.com')).toEqual([
+        { field: 'data', message: 'must be a domain name' },
+      ]);
+      expect(validateRecord('CNAME', `${'a'.repeat(64)}.example.com`)).toHaveLength(1);
+      expect(validateRecord('CNAME', '-leading.example.com')).toHaveLength(1);
+      expect(validateRecord('CNAME', 'example..com')).toHaveLength(1);
+    });
+
+    it('should name the fields at fault', () => {
+      expect(validateRecord('MX', { preference: 10, exchange: 'mail.example.com' })).toEqual([]);
+      expect(validateRecord('MX', { preference: 70000, exchange: 'mail example' })).toEqual([
+        { field: 'data.preference', message: 'must be an integer from 0 to 65535' },
+        { field: 'data.exchange', message: 'must be a domain name' },
+      ]);
+      expect(validateRecord('SRV', { target: 'backend.example.com' }, 'data[2]')).toEqual([
+        { field: 'data[2].port', message: 'must be an integer from 0 to 65535' },
+      ]);
+      expect(validateRecord('MX', 'mail.example.com')).toEqual([{ field: 'data', message: 'must be an object' }]);
+    });
+
+    it('should check numeric ranges', () => {
+      const soa = { mname: 'ns1.example.com', rname: 'hostmaster.example.com', serial: 2 ** 32 };
+      expect(validateRecord('SOA', soa)).toEqual([
+        { field: 'data.serial', message: 'must be an integer from 0 to 4294967295' },
+      ]);
+      expect(validateRecord('CAA', { flags: 1.5, tag: 'issue', value: 'ca.example.net' })).toEqual([
+        { field: 'data.flags', message: 'must be an integer from 0 to 255' },
+      ]);
+    });
+
+    it('should check the strings of TXT records', () => {
+      expect(validateRecord('TXT', 'v=spf1 -all')).toEqual([]);
+      expect(validateRecord('TXT', ['first', Buffer.from('second')])).toEqual([]);
+      expect(validateRecord('TXT', ['first', 'x'.repeat(256)])).toEqual([
+        { field: 'data[1]', message: 'must be a string of at most 255 bytes' },
+      ]);
+    });
+
+    it('should expect buffers for the types without a schema', () => {
+      expect(validateRecord('NULL', Buffer.from('data'))).toEqual([]);
+      expect(validateRecord('LOC', 'data')).toEqual([{ field: 'data', message: 'must be a buffer' }]);
+    });
+  });
+
+  describe('validateName', () => {
+    it('should accept wildcards as the first label only', () => {
+      expect(validateName('*.example.com')).toEqual([]);
+      expect(validateName('*')).toEqual([]);
+      expect(validateName('www.*.example.com')).toEqual([{ field: 'name', message: 'must be a domain name' }]);
+    });
+  });
+
+  describe('validateWriteOptions', () => {
+    it('should check the ttl and weight', () => {
+      expect(validateWriteOptions({ ttl: 300, weight: 0.5 })).toEqual([]);
+      expect(validateWriteOptions({ ttl: -1, weight: -1 })).toEqual([
+        { field: 'ttl', message: 'must be an integer from 0 to 2147483647' },
+        { field: 'weight', message: 'must be a number from 0' },
+      ]);
+    });
+  });
+
+  describe('validateCname', () => {
+    it('should keep a CNAME alone at its name', () => {
+      expect(validateCname(['CNAME', 'RRSIG', 'NSEC'], 1)).toEqual([]);
+      expect(validateCname(['A', 'MX'], 0)).toEqual([]);
+      expect(validateCname(['CNAME', 'A', 'MX'], 1)).toEqual([
+        { field: 'type', message: "CNAME can't share its name with A, MX" },
+      ]);
+      expect(validateCname(['CNAME'], 2)).toEqual([{ field: 'data', message: 'a name has at most one CNAME' }]);
+    });
+  });
+
+  describe('validateZoneRecords', () => {
+    it('should check the record sets of a zone file by name', () => {
+      expect(
+        validateZoneRecords([
+          { name: 'www.example.com', type: 'A', ttl: 300, data: '10.0.0.1' },
+          { name: 'www.example.com', type: 'A', data: '10.0.0' },
+          { name: 'ftp.example.com', type: 'CNAME', data: 'www.example.com' },
+          { name: 'ftp.example.com', type: 'TXT', ttl: -1, data: 'hello' },
+        ]),
+      ).toEqual([
+        { name: 'www.example.com', type: 'A', field: 'data[1]', message: 'must be an IPv4 address' },
+        { name: 'ftp.example.com', type: 'CNAME', field: 'type', message: "CNAME can't share its name with TXT" },
+        {
+          name: 'ftp.example.com',
+          type: 'TXT',
+          field: 'records[0].ttl',
+          message: 'must be an integer from 0 to 2147483647',
+        },
+      ]);
+    });
+  });
+
+  describe('isSupportedRecordType', () => {
+    it('should know the supported record types', () => {
+      expect(isSupportedRecordType('SRV')).toBe(true);
+      expect(isSupportedRecordType('toString')).toBe(false);
+      expect(isSupportedRecordType('#meta')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import * as net from 'net';
+import { SupportedRecordType } from 'dinodns/types';
+import { groupBy as _groupBy } from 'lodash';
+import { WriteOptions } from './records';
+import type { ZoneRecord } from './zonefile';
+
+/** A problem with written or stored data, naming the field at fault, e.g. `data.exchange`. */
+export type ValidationIssue = {
+  field: string;
+  message: string;
+};
+
+/** A problem found in stored data by `validateAll`. */
+export type StoredDataIssue = ValidationIssue & {
+  /** The owner name of the record set */
+  name: string;
+
+  /** The record type, or whatever the hash field is named if it isn't one */
+  type: string;
+};
+
+/** Checks a value, returning what is wrong with it and its fields. */
+type Validator = (value: unknown, field: string) => ValidationIssue[];
+
+/** The types that may share a name with a CNAME (RFC 4035, section 2.5). */
+const CNAME_COMPANIONS = ['RRSIG', 'NSEC'];
+
+function check(test: (value: unknown) => boolean, message: string): Validator {
+  return (value, field) => (test(value) ? [] : [{ field, message }]);
+}
+
+function optional(validator: Validator): Validator {
+  return (value, field) => (value === undefined ? [] : validator(value, field));
+}
+
+function object(fields: Record<string, Validator>): Validator {
+  return (value, field) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value) || Buffer.isBuffer(value)) {
+      return [{ field, message: 'must be an object' }];
+    }
+
+    return Object.entries(fields).flatMap(([key, validator]) =>
+      validator((value as Record<string, unknown>)[key], `${field}.${key}`),
+    );
+  };
+}
+
+function list(validator: Validator): Validator {
+  return (value, field) =>
+    Array.isArray(value)
+      ? value.flatMap((item, i) => validator(item, `${field}[${i}]`))
+      : [{ field, message: 'must be an array' }];
+}
+
+function integer(max: number): Validator {
+  return check(
+    (v) => Number.isInteger(v) && (v as number) >= 0 && (v as number) <= max,
+    `must be an integer from 0 to ${max}`,
+  );
+}
+
+/**
+ * Whether a string is a domain name made of letters, digits, hyphens and underscores, the root
+ * `.` included. A trailing dot is allowed.
+ * @param value The string
+ */
+function isDomainName(value: string): boolean {
+  const name = value.endsWith('.') ? value.slice(0, -1) : value;
+  if (name === '') {
+    return true;
+  }
+
+  return name.length <= 253 && name.split('.').every((label) => /^[a-z0-9_]([a-z0-9_-]{0,61}[a-z0-9_])?$/i.test(label));
+}
+
+const uint8 = integer(0xff);
+const uint16 = integer(0xffff);
+const uint32 = integer(0xffffffff);
+const text = check((v) => typeof v === 'string', 'must be a string');
+const buffer = check((v) => Buffer.isBuffer(v), 'must be a buffer');
+const domainName = check((v) => typeof v === 'string' && isDomainName(v), 'must be a domain name');
+const characterString = check(
+  (v) => (typeof v === 'string' && Buffer.byteLength(v) <= 255) || (Buffer.isBuffer(v) && v.length <= 255),
+  'must be a string of at most 255 bytes',
+);
+
+const SCHEMAS: Record<SupportedRecordType, Validator> = {
+  A: check((v) => typeof v === 'string' && net.isIPv4(v), 'must be an IPv4 address'),
+  AAAA: check((v) => typeof v === 'string' && net.isIPv6(v), 'must be an IPv6 address'),
+  CNAME: domainName,
+  DNAME: domainName,
+  NS: domainName,
+  PTR: domainName,
+  MX: object({ preference: optional(uint16), exchange: domainName }),
+  SRV: object({ priority: optional(uint16), weight: optional(uint16), port: uint16, target: domainName }),
+  SOA: object({
+    mname: domainName,
+    rname: domainName,
+    serial: optional(uint32),
+    refresh: optional(uint32),
+    retry: optional(uint32),
+    expire: optional(uint32),
+    minimum: optional(uint32),
+  }),
+  TXT: (value, field) => (Array.isArray(value) ? list(characterString)(value, field) : characterString(value, field)),
+  CAA: object({
+    flags: optional(uint8),
+    issuerCritical: optional(check((v) => typeof v === 'boolean', 'must be a boolean')),
+    tag: check((v) => typeof v === 'string' && /^[a-z0-9]+$/i.test(v), 'must be a tag of letters and digits'),
+    value: text,
+  }),
+  HINFO: object({ cpu: characterString, os: characterString }),
+  NAPTR: object({
+    order: uint16,
+    preference: uint16,
+    flags: characterString,
+    services: characterString,
+    regexp: characterString,
+    replacement: domainName,
+  }),
+  RP: object({ mbox: domainName, txt: domainName }),
+  DS: object({ keyTag: uint16, algorithm: uint8, digestType: uint8, digest: buffer }),
+  DNSKEY: object({ flags: uint16, algorithm: uint8, key: buffer }),
+  TLSA: object({ usage: uint8, selector: uint8, matchingType: uint8, certificate: buffer }),
+  SSHFP: object({
+    algorithm: uint8,
+    hash: uint8,
+    fingerprint: check((v) => typeof v === 'string' && /^([0-9a-f]{2})+$/i.test(v), 'must be a hexadecimal string'),
+  }),
+  RRSIG: object({
+    typeCovered: text,
+    algorithm: uint8,
+    labels: uint8,
+    originalTTL: uint32,
+    expiration: uint32,
+    inception: uint32,
+    keyTag: uint16,
+    signersName: domainName,
+    signature: buffer,
+  }),
+  NSEC: object({ nextDomain: domainName, rrtypes: list(text) }),
+  NSEC3: object({
+    algorithm: uint8,
+    flags: uint8,
+    iterations: uint16,
+    salt: buffer,
+    nextDomain: buffer,
+    rrtypes: list(text),
+  }),
+  AFSDB: buffer,
+  APL: buffer,
+  AXFR: buffer,
+  CDNSKEY: buffer,
+  CDS: buffer,
+  CERT: buffer,
+  DHCID: buffer,
+  DLV: buffer,
+  HIP: buffer,
+  IPSECKEY: buffer,
+  IXFR: buffer,
+  KEY: buffer,
+  KX: buffer,
+  LOC: buffer,
+  NSEC3PARAM: buffer,
+  NULL: buffer,
+  SIG: buffer,
+  TA: buffer,
+  TKEY: buffer,
+  TSIG: buffer,
+  URI: buffer,
+};
+
+/**
+ * Whether a string names a record type the store can hold.
+ * @param type The type name
+ */
+export function isSupportedRecordType(type: string): type is SupportedRecordType {
+  return Object.prototype.hasOwnProperty.call(SCHEMAS, type);
+}
+
+/**
+ * Check the data of a record against the schema of its type.
+ * @param rType The record type
+ * @param data The record data
+ * @param field The name the data goes by in the issues. Defaults to `data`.
+ */
+export function validateRecord(rType: SupportedRecordType, data: unknown, field = 'data'): ValidationIssue[] {
+  return SCHEMAS[rType](data, field);
+}
+
+/**
+ * Check an owner name. Its first label may be the wildcard `*`.
+ * @param name The owner name
+ */
+export function validateName(name: string): ValidationIssue[] {
+  const base = name === '*' ? '' : name.startsWith('*.') ? name.slice(2) : name;
+
+  return isDomainName(base) ? [] : [{ field: 'name', message: 'must be a domain name' }];
+}
+
+/**
+ * Check the TTL and weight written alongside records.
+ * @param options The write options
+ */
+export function validateWriteOptions(options: WriteOptions): ValidationIssue[] {
+  return [
+    ...optional(integer(0x7fffffff))(options.ttl, 'ttl'),
+    ...optional(check((v) => typeof v === 'number' && v >= 0 && Number.isFinite(v), 'must be a number from 0'))(
+      options.weight,
+      'weight',
+    ),
+  ];
+}
+
+/**
+ * Check that a CNAME doesn't share its name with other data (RFC 1034, section 3.6.2), and that a
+ * name has at most one CNAME.
+ * @param types The record types at the name
+ * @param cnames How many CNAME records the name has
+ */
+export function validateCname(types: string[], cnames: number): ValidationIssue[] {
+  const others = types.filter((type) => type !== 'CNAME' && !CNAME_COMPANIONS.includes(type));
+  if (!types.includes('CNAME')) {
+    return [];
+  }
+
+  return [
+    ...(others.length > 0 ? [{ field: 'type', message: `CNAME can't share its name with ${others.join(', ')}` }] : []),
+    ...(cnames > 1 ? [{ field: 'data', message: 'a name has at most one CNAME' }] : []),
+  ];
+}
+
+/**
+ * Check the records of a zone file the way `set` checks record sets, before they are imported.
+ * @param records The records of the zone file
+ * @returns Every issue found, naming the record set and field at fault
+ */
+export function validateZoneRecords(records: ZoneRecord[]): StoredDataIssue[] {
+  const issues: StoredDataIssue[] = [];
+  for (const [name, owned] of Object.entries(_groupBy(records, (record) => record.name))) {
+    const types = _groupBy(owned, (record) => record.type);
+    for (const [type, recordSet] of Object.entries(types)) {
+      const found = [
+        ...validateName(name),
+        ...recordSet.flatMap((record, i) => [
+          ...validateRecord(record.type, record.data, `data[${i}]`),
+          ...validateWriteOptions(record).map((issue) => ({ ...issue, field: `records[${i}].${issue.field}` })),
+        ]),
+        ...(type === 'CNAME' ? validateCname(Object.keys(types), recordSet.length) : []),
+      ];
+      issues.push(...found.map((issue) => ({ name, type, ...issue })));
+    }
+  }
+
+  return issues;
+}
@@ -0,0 +1,80 @@
+import { Packet } from 'dns-packet';
+import { ViewNetworkError } from './errors';
+import { clientSubnetAddress, matchView, parseNetwork, parseViewNetworks } from './views';
+
+describe('views', () => {
+  describe('matchView', () => {
+    const networks = parseViewNetworks({
+      internal: ['10.0.0.0/8', 'fd00::/8'],
+      lab: ['10.1.0.0/16'],
+      admin: ['10.1.2.3'],
+    });
+
+    it('should pick the view with the most specific network containing the address', () => {
+      expect(matchView('10.2.0.1', networks)).toEqual('internal');
+      expect(matchView('10.1.0.1', networks)).toEqual('lab');
+      expect(matchView('10.1.2.3', networks)).toEqual('admin');
+      expect(matchView('fd12::1', networks)).toEqual('internal');
+    });
+
+    it('should match IPv4 clients of dual-stack sockets', () => {
+      expect(matchView('::ffff:10.2.0.1', networks)).toEqual('internal');
+    });
+
+    it('should match nothing outside every network', () => {
+      expect(matchView('192.0.2.1', networks)).toEqual(null);
+      expect(matchView('2001:db8::1', networks)).toEqual(null);
+      expect(matchView('not an address', networks)).toEqual(null);
+    });
+  });
+
+  describe('parseNetwork', () => {
+    it('should parse CIDR networks and addresses', () => {
+      expect(parseNetwork('10.0.0.0/8')).toMatchObject({ family: 'ipv4', prefix: 8 });
+      expect(parseNetwork('fd00::/8')).toMatchObject({ family: 'ipv6', prefix: 8 });
+      expect(parseNetwork('2001:db8::1')).toMatchObject({ family: 'ipv6', prefix: 128 });
+      expect(parseNetwork('0.0.0.0/0')!.list.check('192.0.2.1')).toBe(true);
+    });
+
+    it('should refuse anything else', () => {
+      for (const cidr of [
+        'bogus',
+        '10.0.0.0/',
+        '10.0.0.0/x',
+        '10.0.0.0/33',
+        'fd00::/129',
+        '10.0.0.0/8/8',
+        '10.0.0/8',
+      ]) {
+        expect(parseNetwork(cidr)).toEqual(null);
+      }
+
+      expect(() => parseViewNetworks({ lab: ['10.1.0.0/16', '10.1.0.0/-1'] })).toThrow(
+        new ViewNetworkError('lab', '10.1.0.0/-1'),
+      );
+    });
+  });
+
+  describe('clientSubnetAddress', () => {
+    it('should find the address of the EDNS Client Subnet option', () => {
+      const packet: Packet = {
+        type: 'query',
+        additionals: [
+          {
+            type: 'OPT',
+            name: '.',
+            udpPayloadSize: 4096,
+            extendedRcode: 0,
+            ednsVersion: 0,
+            flags: 0,
+            flag_do: false,
+            options: [{ code: 8, type: 'CLIENT_SUBNET', ip: '10.1.2.0', sourcePrefixLength: 24 }],
+          },
+        ],
+      };
+
+      expect(clientSubnetAddress(packet)).toEqual('10.1.2.0');
+      expect(clientSubnetAddress({ type: 'query' })).toEqual(undefined);
+    });
+  });
+});
@@ -0,0 +1,296 @@
+import * as net from 'net';
+import { Packet } from 'dns-packet';
+import { DNSRequest } from 'dinodns/types';
+import { ViewNetworkError } from './errors';
+import { StoreContext } from './backend';
+import type { RedisStore } from './index';
+
+/** The key of the hash holding the networks stored for each view, by view name. */
+const VIEWS_KEY = '#views';
+
+/**
+ * The prefix of the keys of a view, followed by the view name and a `:`. The keys of a view are
+ * the keys of the default view below this prefix, so the default view skips them like its other
+ * `#` keys.
+ */
+export const VIEW_KEY_PREFIX = '#view:';
+
+/** What the views need from their store, besides the connection. */
+export type ViewContext = StoreContext & {
+  /** The channel writes are announced on, or false if they aren't */
+  readonly invalidationChannel: string | false;
+
+  /** Evict what a write to a key changed, here and in every other store sharing the database. */
+  readonly invalidate: (key: string) => Promise<void>;
+
+  /** Create the store holding the records of a view. */
+  readonly createStore: (view: string) => RedisStore;
+};
+
+export type ViewOptions = {
+  /** The CIDR networks whose clients are answered from each view, by view name. */
+  networks?: Record<string, string[]>;
+
+  /**
+   * Whether the address in an EDNS Client Subnet option (RFC 7871) picks the view instead of the
+   * client's own address. Only enable this behind resolvers you trust, since clients can put any
+   * address there. Defaults to false.
+   */
+  clientSubnet?: boolean;
+};
+
+/**
+ * Turn an IPv4 address mapped into IPv6, as dual-stack sockets report IPv4 clients, back into
+ * plain IPv4.
+ * @param address The address
+ */
+function unmap(address: string): string {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+
+  return mapped ? mapped[1] : address;
+}
+
+/** A CIDR network, parsed into the list client addresses are checked against. */
+export type ViewNetwork = {
+  family: 'ipv4' | 'ipv6';
+  prefix: number;
+  list: net.BlockList;
+};
+
+/**
+ * Parse a CIDR network, such as `10.0.0.0/8`, or a single address.
+ * @param cidr The network
+ * @returns The parsed network, or null if it isn't one
+ */
+export function parseNetwork(cidr: string): ViewNetwork | null {
+  const [address, length, ...rest] = cidr.split('/');
+  const version = net.isIP(address);
+  if (version === 0 || rest.length > 0) {
+    return null;
+  }
+
+  const family = version === 6 ? 'ipv6' : 'ipv4';
+  const bits = version === 6 ? 128 : 32;
+  const prefix = length === undefined ? bits : /^\d{1,3}$/.test(length) ? Number(length) : NaN;
+  if (!(prefix <= bits)) {
+    return null;
+  }
+
+  const list = new net.BlockList();
+  list.addSubnet(address, prefix, family);
+
+  return { family, prefix, list };
+}
+
+/**
+ * Parse the networks of every view.
+ * @param networks The CIDR networks of each view
+ * @throws {ViewNetworkError} If a network isn't a CIDR network or an address
+ */
+export function parseViewNetworks(networks: Record<string, string[]>): Record<string, ViewNetwork[]> {
+  return Object.fromEntries(
+    Object.entries(networks).map(([view, cidrs]) => [
+      view,
+      cidrs.map((cidr) => {
+        const network = parseNetwork(cidr);
+        if (!network) {
+          throw new ViewNetworkError(view, cidr);
+        }
+
+        return network;
+      }),
+    ]),
+  );
+}
+
+/**
+ * The view a client address belongs to: the view with the most specific network containing it.
+ * @param address The client address
+ * @param networks The parsed networks of each view
+ * @returns The view name, or null if no network contains the address
+ */
+export function matchView(address: string, networks: Record<string, ViewNetwork[]>): string | null {
+  const client = unmap(address);
+  if (!net.isIP(client)) {
+    return null;
+  }
+
+  const family = net.isIP(client) === 6 ? 'ipv6' : 'ipv4';
+  let best: { view: string; prefix: number } | null = null;
+  for (const [view, list] of Object.entries(networks)) {
+    for (const network of list) {
+      if (network.family === family && network.list.check(client, family) && (!best || network.prefix > best.prefix)) {
+        best = { view, prefix: network.prefix };
+      }
+    }
+  }
+
+  return best?.view ?? null;
+}
+
+/**
+ * The address in the EDNS Client Subnet option of a query, if it has one.
+ * @param packet The query
+ */
+export function clientSubnetAddress(packet: Packet): string | undefined {
+  for (const additional of packet.additionals ?? []) {
+    if (additional.type === 'OPT') {
+      const option = additional.options.find((o) => o.code === 8);
+      if (option && 'ip' in option) {
+        return option.ip;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * The views of a store: the networks their clients are picked by, from the options and from
+ * Redis, and the stores holding their records. Views can be written to and their networks stored
+ * whether or not the handler answers from them.
+ */
+export class StoreViews {
+  private context: ViewContext;
+  private options?: ViewOptions;
+  private stores = new Map<string, RedisStore>();
+  private configured: Record<string, ViewNetwork[]> = {};
+  private known: Record<string, ViewNetwork[]> = {};
+
+  /** The networks of every view, kept while the invalidation channel announces changes to them */
+  private cached?: Promise<Record<string, ViewNetwork[]>>;
+
+  /**
+   * @param context The store the views belong to
+   * @param options The views the handler answers from, or undefined if it answers every client alike
+   * @throws {ViewNetworkError} If a network isn't a CIDR network or an address
+   */
+  constructor(context: ViewContext, options?: ViewOptions) {
+    this.context = context;
+    if (options) {
+      this.options = options;
+      this.configured = parseViewNetworks(options.networks ?? {});
+      this.known = this.configured;
+    }
+  }
+
+  /** Whether the handler answers each client from its view. */
+  get enabled(): boolean {
+    return this.options !== undefined;
+  }
+
+  /**
+   * The store holding the records of a view, created on first use.
+   * @param view The view name
+   */
+  store(view: string): RedisStore {
+    let store = this.stores.get(view);
+    if (!store) {
+      store = this.context.createStore(view);
+      this.stores.set(view, store);
+    }
+
+    return store;
+  }
+
+  /**
+   * The view a query is answered from.
+   * @param req The query
+   * @returns The view name, or null for the default view
+   */
+  async match(req: DNSRequest): Promise<string | null> {
+    return matchView(this.clientAddress(req), await this.networks());
+  }
+
+  /**
+   * The view a query is answered from by the networks last read, for stale answers while Redis is
+   * unavailable.
+   * @param req The query
+   * @returns The view name, or null for the default view
+   */
+  matchKnown(req: DNSRequest): string | null {
+    return matchView(this.clientAddress(req), this.known);
+  }
+
+  /**
+   * The address that picks the view of a query.
+   * @param req The query
+   */
+  private clientAddress(req: DNSRequest): string {
+    return (this.options?.clientSubnet && clientSubnetAddress(req.packet.raw)) || req.connection.remoteAddress;
+  }
+
+  /**
+   * The networks of every view, from the options and from Redis. Those from Redis are read once
+   * and kept until `set` or `delete` announces a change on the invalidation channel, or read for
+   * every query if there is none.
+   */
+  networks(): Promise<Record<string, ViewNetwork[]>> {
+    if (!this.context.invalidationChannel) {
+      return this.read();
+    }
+
+    if (!this.cached) {
+      const networks = this.read();
+      this.cached = networks;
+      // read again next time rather than keep the failure
+      networks.catch(() => {
+        if (this.cached === networks) {
+          this.cached = undefined;
+        }
+      });
+    }
+
+    return this.cached;
+  }
+
+  /**
+   * Read the networks of every view. Stored networks that don't parse, which `set` refuses to
+   * write, are left out.
+   */
+  private async read(): Promise<Record<string, ViewNetwork[]>> {
+    const networks: Record<string, ViewNetwork[]> = { ...this.configured };
+    for (const [view, raw] of Object.entries(await this.context.client.hgetall(this.context.redisKey(VIEWS_KEY)))) {
+      const stored = (JSON.parse(raw) as string[]).map(parseNetwork).filter((n): n is ViewNetwork => n !== null);
+      networks[view] = [...(networks[view] ?? []), ...stored];
+    }
+
+    // picks the view of stale answers while Redis is unavailable
+    this.known = networks;
+
+    return networks;
+  }
+
+  /**
+   * Drop the networks kept from Redis if a write to a key may have changed them: the view
+   * networks, or the root wildcard `*`, which stands for everything.
+   * @param key The written key
+   */
+  evict(key: string): void {
+    if (key === VIEWS_KEY || key === '*') {
+      this.cached = undefined;
+    }
+  }
+
+  /**
+   * Store the CIDR networks whose clients are answered from a view, in addition to those given in
+   * the options, for every store sharing the database.
+   * @param view The view name
+   * @param networks The networks, e.g. `10.0.0.0/8`
+   * @throws {ViewNetworkError} If a network isn't a CIDR network or an address
+   */
+  async set(view: string, networks: string[]): Promise<void> {
+    parseViewNetworks({ [view]: networks });
+    await this.context.client.hset(this.context.redisKey(VIEWS_KEY), view, JSON.stringify(networks));
+    await this.context.invalidate(VIEWS_KEY);
+  }
+
+  /**
+   * Remove the networks stored for a view. Its records are kept.
+   * @param view The view name
+   */
+  async delete(view: string): Promise<void> {
+    await this.context.client.hdel(this.context.redisKey(VIEWS_KEY), view);
+    await this.context.invalidate(VIEWS_KEY);
+  }
+}
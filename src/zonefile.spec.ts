@@ -0,0 +1,201 @@
+import { parseZone, serializeRecord, serializeZone, ZoneRecord } from './zonefile';
+import { ZoneFileError } from './errors';
+
+describe('zone files', () => {
+  describe('parseZone', () => {
+    it('should parse directives, relative names and multi-line records', () => {
+      const zone = `
+$ORIGIN example.com.
+$TTL 1h
+@   IN  SOA ns1 hostmaster (
+        2024010101 ; serial
+        2h         ; refresh
+        15m        ; retry
+        2w         ; expire
+        300 )      ; minimum
+    IN  NS  ns1
+    IN  NS  ns2.example.net.
+ns1 600 IN A 192.0.2.1
+www IN 60 A 192.0.2.2
+    AAAA 2001:db8::2
+*.dev   CNAME www
+$ORIGIN sub
+host A 192.0.2.3
+`;
+      const records = parseZone(zone, { origin: 'ignored.test' });
+
+      expect(records).toEqual([
+        {
+          name: 'example.com',
+          type: 'SOA',
+          ttl: 3600,
+          data: {
+            mname: 'ns1.example.com',
+            rname: 'hostmaster.example.com',
+            serial: 2024010101,
+            refresh: 7200,
+            retry: 900,
+            expire: 1209600,
+            minimum: 300,
+          },
+        },
+        { name: 'example.com', type: 'NS', ttl: 3600, data: 'ns1.example.com' },
+        { name: 'example.com', type: 'NS', ttl: 3600, data: 'ns2.example.net' },
+        { name: 'ns1.example.com', type: 'A', ttl: 600, data: '192.0.2.1' },
+        { name: 'www.example.com', type: 'A', ttl: 60, data: '192.0.2.2' },
+        { name: 'www.example.com', type: 'AAAA', ttl: 3600, data: '2001:db8::2' },
+        { name: '*.dev.example.com', type: 'CNAME', ttl: 3600, data: 'www.example.com' },
+        { name: 'host.sub.example.com', type: 'A', ttl: 3600, data: '192.0.2.3' },
+      ]);
+    });
+
+    it('should use the origin option until an $ORIGIN directive is seen', () => {
+      const records = parseZone('@ 300 A 192.0.2.1\nwww 300 A 192.0.2.2', { origin: 'example.com.' });
+      expect(records.map((r) => r.name)).toEqual(['example.com', 'www.example.com']);
+    });
+
+    it('should fall back to the last explicit ttl without a $TTL directive', () => {
+      const records = parseZone('a 120 A 192.0.2.1\nb A 192.0.2.2', { origin: 'example.com' });
+      expect(records.map((r) => r.ttl)).toEqual([120, 120]);
+
+      const untimed = parseZone('a A 192.0.2.1', { origin: 'example.com' });
+      expect(untimed[0].ttl).toBeUndefined();
+    });
+
+    it('should decode quoted strings and escapes', () => {
+      const records = parseZone('@ TXT "v=spf1 -all" "say \\"hi\\"; \\065" unquoted', { origin: 'example.com' });
+      expect(records[0].data).toEqual(['v=spf1 -all', 'say "hi"; A', 'unquoted']);
+
+      const single = parseZone('@ TXT "hello world"', { origin: 'example.com' });
+      expect(single[0].data).toEqual('hello world');
+    });
+
+    it('should report errors with the line they occur on', () => {
+      const parse = (zone: string) => () => parseZone(zone, { origin: 'example.com' });
+
+      expect(parse('a A 192.0.2.1\nb MX ten mail')).toThrow(new ZoneFileError('Expected a number, got "ten"', 2));
+      expect(parse('\n\na FOO bar')).toThrow(ZoneFileError);
+      expect(parse('a CH A 192.0.2.1')).toThrow('Unsupported class CH');
+      expect(parse('$INCLUDE other.zone')).toThrow('Unsupported directive $INCLUDE');
+      expect(parse('  A 192.0.2.1')).toThrow('The first record must have an owner name');
+      expect(parse('a SOA ns1 host ( 1 2 3 4 5')).toThrow('Unbalanced opening parenthesis');
+      expect(parse('a TXT "open')).toThrow('Unterminated quoted string');
+    });
+  });
+
+  describe('round trips', () => {
+    const origin = 'example.com';
+    const records: ZoneRecord[] = [
+      {
+        name: 'example.com',
+        type: 'SOA',
+        ttl: 3600,
+        data: {
+          mname: 'ns1.example.com',
+          rname: 'hostmaster.example.com',
+          serial: 1,
+          refresh: 7200,
+          retry: 900,
+          expire: 1209600,
+          minimum: 300,
+        },
+      },
+      { name: 'example.com', type: 'NS', ttl: 3600, data: 'ns1.example.com' },
+      { name: 'example.com', type: 'MX', ttl: 300, data: { preference: 10, exchange: 'mail.example.net' } },
+      { name: 'example.com', type: 'TXT', data: ['v=spf1 -all', 'quote " and \\ backslash'] },
+      { name: 'example.com', type: 'CAA', data: { flags: 0, tag: 'issue', value: 'letsencrypt.org' } },
+      { name: 'www.example.com', type: 'A', ttl: 60, data: '192.0.2.1' },
+      { name: 'www.example.com', type: 'AAAA', data: '2001:db8::1' },
+      { name: '*.dev.example.com', type: 'CNAME', data: 'www.example.com' },
+      { name: 'old.example.com', type: 'DNAME', data: 'new.example.com' },
+      { name: '1.2.0.192.in-addr.arpa', type: 'PTR', data: 'www.example.com' },
+      {
+        name: '_sip._tcp.example.com',
+        type: 'SRV',
+        data: { priority: 10, weight: 5, port: 5060, target: 'sip.example.com' },
+      },
+      { name: 'host.example.com', type: 'HINFO', data: { cpu: 'x86_64', os: 'Linux' } },
+      {
+        name: 'example.com',
+        type: 'NAPTR',
+        data: {
+          order: 100,
+          preference: 10,
+          flags: 'S',
+          services: 'SIP+D2U',
+          regexp: '',
+          replacement: '_sip._udp.example.com',
+        },
+      },
+      { name: 'example.com', type: 'RP', data: { mbox: 'admin.example.com', txt: 'info.example.com' } },
+      { name: 'host.example.com', type: 'SSHFP', data: { algorithm: 4, hash: 2, fingerprint: 'abcdef0123456789' } },
+      {
+        name: '_443._tcp.www.example.com',
+        type: 'TLSA',
+        data: { usage: 3, selector: 1, matchingType: 1, certificate: Buffer.from('0123456789abcdef', 'hex') },
+      },
+      {
+        name: 'sub.example.com',
+        type: 'DS',
+        data: { keyTag: 12345, algorithm: 13, digestType: 2, digest: Buffer.from('deadbeef', 'hex') },
+      },
+      { name: 'example.com', type: 'DNSKEY', data: { flags: 257, algorithm: 13, key: Buffer.from('a key') } },
+      { name: 'example.com', type: 'NSEC', data: { nextDomain: 'www.example.com', rrtypes: ['A', 'NS', 'SOA'] } },
+      {
+        name: 'example.com',
+        type: 'RRSIG',
+        data: {
+          typeCovered: 'A',
+          algorithm: 13,
+          labels: 2,
+          originalTTL: 300,
+          expiration: 1735689600,
+          inception: 1733011200,
+          keyTag: 12345,
+          signersName: 'example.com',
+          signature: Buffer.from('a signature'),
+        },
+      },
+      { name: 'example.com', type: 'NULL', data: Buffer.from('opaque') },
+      { name: 'elsewhere.example.net', type: 'A', data: '192.0.2.9' },
+    ];
+
+    it.each(records.map((r) => [r.type, r]))('should round-trip %s records', (_, record) => {
+      const text = serializeZone([record], { origin, defaultTtl: 300 });
+      const [parsed] = parseZone(text, { origin: 'unused.test' });
+
+      expect(parsed).toEqual({ ...record, ttl: record.ttl ?? 300 });
+    });
+
+    it('should round-trip a whole zone, writing the SOA and apex NS first', () => {
+      const text = serializeZone(records, { origin, defaultTtl: 300 });
+      const lines = text.split('\n');
+      expect(lines.slice(0, 4)).toEqual([
+        '$ORIGIN example.com.',
+        '$TTL 300',
+        '@ 3600 IN SOA ns1.example.com. hostmaster.example.com. 1 7200 900 1209600 300',
+        '@ 3600 IN NS ns1.example.com.',
+      ]);
+
+      const parsed = parseZone(text, { origin });
+      const expected = records.map((r) => ({ ...r, ttl: r.ttl ?? 300 }));
+      expect(parsed).toHaveLength(expected.length);
+      expect(parsed).toEqual(expect.arrayContaining(expected));
+    });
+  });
+
+  describe('serializeRecord', () => {
+    it('should write one record, absolute by default', () => {
+      const record: ZoneRecord = {
+        name: 'example.com',
+        type: 'MX',
+        ttl: 60,
+        data: { preference: 10, exchange: 'mail' },
+      };
+      expect(serializeRecord(record)).toEqual('example.com 60 IN MX 10 mail.');
+      expect(serializeRecord({ ...record, name: 'www.example.com', ttl: undefined }, 'example.com')).toEqual(
+        'www IN MX 10 mail.',
+      );
+    });
+  });
+});
@@ -0,0 +1,763 @@
+import { SupportedRecordType, ZoneData } from 'dinodns/types';
+import { ZoneFileError } from './errors';
+
+/** A single resource record read from or written to a zone file. Names are absolute, without a trailing dot. */
+export type ZoneRecord<T extends SupportedRecordType = SupportedRecordType> = {
+  name: string;
+  type: T;
+  ttl?: number;
+  data: ZoneData[T];
+};
+
+export type ParseZoneOptions = {
+  /** The initial origin that relative names are completed with. `$ORIGIN` directives override it. */
+  origin: string;
+
+  /** The TTL for records before any `$TTL` directive or explicit TTL is seen. */
+  defaultTtl?: number;
+};
+
+export type SerializeZoneOptions = {
+  /** The origin written as `$ORIGIN`. Names under it are written relative to it. */
+  origin: string;
+
+  /** Written as `$TTL`. Records without a TTL of their own are written without one. */
+  defaultTtl?: number;
+};
+
+type Token = { value: string };
+
+/** One logical entry of a zone file, possibly spanning several physical lines. */
+type Entry = { tokens: Token[]; blankOwner: boolean; line: number };
+
+/** The context record data is parsed in, for completing names and reporting errors. */
+type RDataContext = { origin: string; line: number };
+
+type RDataCodec<T extends SupportedRecordType> = {
+  parse(fields: Token[], ctx: RDataContext): ZoneData[T];
+  serialize(data: ZoneData[T]): string[];
+};
+
+const CLASSES = new Set(['IN', 'CH', 'HS', 'CS']);
+const TTL_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600, d: 86400, w: 604800 };
+
+/**
+ * Split a zone file into logical entries. Handles comments, quoted strings, escapes and
+ * parenthesized entries that span several lines.
+ * @param text The zone file contents
+ */
+function tokenize(text: string): Entry[] {
+  const entries: Entry[] = [];
+  let tokens: Token[] = [];
+  let current: string | null = null;
+  let inQuotes = false;
+  let depth = 0;
+  let line = 1;
+  let entryLine = 1;
+  let blankOwner = false;
+  let atLineStart = true;
+
+  const endToken = () => {
+    if (current !== null) {
+      tokens.push({ value: current });
+      current = null;
+    }
+  };
+
+  const endEntry = () => {
+    endToken();
+    if (tokens.length > 0) {
+      entries.push({ tokens, blankOwner, line: entryLine });
+    }
+
+    tokens = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (atLineStart) {
+      atLineStart = false;
+      entryLine = line;
+      blankOwner = c === ' ' || c === '\t';
+    }
+
+    if (c === '\\') {
+      // keep escapes verbatim, they are decoded per field
+      current = (current ?? '') + c + (text[i + 1] ?? '');
+      if (text[i + 1] === '\n') {
+        line++;
+      }
+
+      i++;
+      continue;
+    }
+
+    if (inQuotes) {
+      if (c === '"') {
+        inQuotes = false;
+      } else {
+        if (c === '\n') {
+          line++;
+        }
+
+        current += c;
+      }
+
+      continue;
+    }
+
+    switch (c) {
+      case '"':
+        endToken();
+        current = '';
+        inQuotes = true;
+        break;
+      case ';':
+        while (i + 1 < text.length && text[i + 1] !== '\n') {
+          i++;
+        }
+
+        break;
+      case '(':
+        endToken();
+        depth++;
+        break;
+      case ')':
+        endToken();
+        if (depth === 0) {
+          throw new ZoneFileError('Unbalanced closing parenthesis', line);
+        }
+
+        depth--;
+        break;
+      case '\n':
+        line++;
+        if (depth === 0) {
+          endEntry();
+          atLineStart = true;
+        } else {
+          endToken();
+        }
+
+        break;
+      case ' ':
+      case '\t':
+      case '\r':
+        endToken();
+        break;
+      default:
+        current = (current ?? '') + c;
+    }
+  }
+
+  if (inQuotes) {
+    throw new ZoneFileError('Unterminated quoted string', entryLine);
+  }
+
+  if (depth > 0) {
+    throw new ZoneFileError('Unbalanced opening parenthesis', entryLine);
+  }
+
+  endEntry();
+
+  return entries;
+}
+
+/**
+ * Decode `\X` and `\DDD` escapes in a character string.
+ * @param value The raw token value
+ */
+function decodeText(value: string): string {
+  return value.replace(/\\(\d{3}|[\s\S])/g, (_, escaped: string) =>
+    escaped.length === 3 ? String.fromCharCode(parseInt(escaped, 10)) : escaped,
+  );
+}
+
+/**
+ * Quote a character string, escaping quotes, backslashes and non-printable characters.
+ * @param value The string to quote
+ */
+function encodeText(value: string): string {
+  const escaped = value.replace(/["\\]/g, '\\$&').replace(/[^\x20-\x7e]/g, (c) => {
+    return '\\' + c.charCodeAt(0).toString().padStart(3, '0');
+  });
+
+  return `"${escaped}"`;
+}
+
+/**
+ * Normalize an origin to the form names are stored in: absolute, without a trailing dot.
+ * The root origin becomes the empty string.
+ * @param origin The origin, with or without a trailing dot
+ */
+export function normalizeOrigin(origin: string): string {
+  return origin.replace(/\.$/, '');
+}
+
+/**
+ * Complete a name from a zone file against the origin.
+ * @param name The name as written in the zone file
+ * @param origin The current origin
+ */
+function absoluteName(name: string, origin: string): string {
+  if (name === '@') {
+    return origin;
+  }
+
+  // an unescaped trailing dot marks an absolute name
+  if (/(^|[^\\])(\\\\)*\.$/.test(name)) {
+    return name.slice(0, -1);
+  }
+
+  return origin ? `${name}.${origin}` : name;
+}
+
+/**
+ * Write a name relative to the origin where possible.
+ * @param name An absolute name
+ * @param origin The origin
+ */
+function relativeName(name: string, origin: string): string {
+  if (name === origin) {
+    return '@';
+  }
+
+  if (origin === '') {
+    return name;
+  }
+
+  if (name.endsWith('.' + origin)) {
+    return name.slice(0, -origin.length - 1);
+  }
+
+  return fqdn(name);
+}
+
+/**
+ * Write an absolute name with its trailing dot.
+ * @param name An absolute name
+ */
+function fqdn(name: string): string {
+  return name === '' ? '.' : name + '.';
+}
+
+/**
+ * Parse a TTL, either in seconds or in BIND's unit notation such as `1h30m`.
+ * @param value The TTL token
+ * @param line The line to report errors on
+ */
+function parseTtl(value: string, line: number): number {
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10);
+  }
+
+  const parts = value.toLowerCase().match(/\d+[smhdw]/g);
+  if (!parts || parts.join('') !== value.toLowerCase()) {
+    throw new ZoneFileError(`Invalid TTL "${value}"`, line);
+  }
+
+  return parts.reduce((total, part) => total + parseInt(part, 10) * TTL_UNITS[part.slice(-1)], 0);
+}
+
+function isTtl(value: string): boolean {
+  return /^\d+$/.test(value) || /^(\d+[smhdw])+$/i.test(value);
+}
+
+function expectFields(fields: Token[], count: number, ctx: RDataContext, type: string) {
+  if (fields.length !== count) {
+    throw new ZoneFileError(`${type} expects ${count} fields, got ${fields.length}`, ctx.line);
+  }
+}
+
+function int(token: Token, ctx: RDataContext): number {
+  if (!/^\d+$/.test(token.value)) {
+    throw new ZoneFileError(`Expected a number, got "${token.value}"`, ctx.line);
+  }
+
+  return parseInt(token.value, 10);
+}
+
+function hex(tokens: Token[], ctx: RDataContext): Buffer {
+  const value = tokens.map((t) => t.value).join('');
+  if (!/^([0-9a-f]{2})*$/i.test(value)) {
+    throw new ZoneFileError(`Invalid hex data "${value}"`, ctx.line);
+  }
+
+  return Buffer.from(value, 'hex');
+}
+
+function base64(tokens: Token[], ctx: RDataContext): Buffer {
+  const value = tokens.map((t) => t.value).join('');
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(value)) {
+    throw new ZoneFileError(`Invalid base64 data "${value}"`, ctx.line);
+  }
+
+  return Buffer.from(value, 'base64');
+}
+
+/**
+ * Parse an RRSIG timestamp, either `YYYYMMDDHHmmSS` or seconds since the epoch.
+ * @param token The timestamp token
+ * @param ctx The parsing context
+ */
+function timestamp(token: Token, ctx: RDataContext): number {
+  const match = token.value.match(/^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/);
+  if (match) {
+    const [, y, mo, d, h, mi, s] = match.map(Number);
+
+    return Date.UTC(y, mo - 1, d, h, mi, s) / 1000;
+  }
+
+  return int(token, ctx);
+}
+
+function formatTimestamp(seconds: number): string {
+  return new Date(seconds * 1000).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+}
+
+/** Codec for record types whose data is a single domain name. */
+const nameCodec: { parse(fields: Token[], ctx: RDataContext): string; serialize(data: string): string[] } = {
+  parse: (fields, ctx) => {
+    expectFields(fields, 1, ctx, 'This record type');
+
+    return absoluteName(fields[0].value, ctx.origin);
+  },
+  serialize: (data) => [fqdn(data)],
+};
+
+/** Codec for the RFC 3597 generic `\# <length> <hex>` notation, used for opaque buffer types. */
+const genericCodec: RDataCodec<'NULL'> = {
+  parse: (fields, ctx) => {
+    if (fields[0]?.value !== '\\#' || fields.length < 2) {
+      throw new ZoneFileError('Expected generic record data in the form \\# <length> <hex>', ctx.line);
+    }
+
+    const data = hex(fields.slice(2), ctx);
+    if (data.length !== int(fields[1], ctx)) {
+      throw new ZoneFileError(`Generic record data is ${data.length} bytes, expected ${fields[1].value}`, ctx.line);
+    }
+
+    return data;
+  },
+  serialize: (data) => ['\\#', String(data.length), ...(data.length > 0 ? [data.toString('hex')] : [])],
+};
+
+const CODECS: { [T in SupportedRecordType]?: RDataCodec<T> } = {
+  A: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 1, ctx, 'A');
+
+      return fields[0].value;
+    },
+    serialize: (data) => [data],
+  },
+  AAAA: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 1, ctx, 'AAAA');
+
+      return fields[0].value;
+    },
+    serialize: (data) => [data],
+  },
+  CNAME: nameCodec,
+  DNAME: nameCodec,
+  NS: nameCodec,
+  PTR: nameCodec,
+  MX: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 2, ctx, 'MX');
+
+      return { preference: int(fields[0], ctx), exchange: absoluteName(fields[1].value, ctx.origin) };
+    },
+    serialize: (data) => [String(data.preference ?? 0), fqdn(data.exchange)],
+  },
+  SOA: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 7, ctx, 'SOA');
+      const [serial, refresh, retry, expire, minimum] = fields.slice(2).map((f) => parseTtl(f.value, ctx.line));
+
+      return {
+        mname: absoluteName(fields[0].value, ctx.origin),
+        rname: absoluteName(fields[1].value, ctx.origin),
+        serial,
+        refresh,
+        retry,
+        expire,
+        minimum,
+      };
+    },
+    serialize: (data) => [
+      fqdn(data.mname),
+      fqdn(data.rname),
+      ...[data.serial, data.refresh, data.retry, data.expire, data.minimum].map((n) => String(n ?? 0)),
+    ],
+  },
+  SRV: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 4, ctx, 'SRV');
+
+      return {
+        priority: int(fields[0], ctx),
+        weight: int(fields[1], ctx),
+        port: int(fields[2], ctx),
+        target: absoluteName(fields[3].value, ctx.origin),
+      };
+    },
+    serialize: (data) => [String(data.priority ?? 0), String(data.weight ?? 0), String(data.port), fqdn(data.target)],
+  },
+  TXT: {
+    parse: (fields, ctx) => {
+      if (fields.length === 0) {
+        throw new ZoneFileError('TXT expects at least one string', ctx.line);
+      }
+
+      const strings = fields.map((f) => decodeText(f.value));
+
+      return strings.length === 1 ? strings[0] : strings;
+    },
+    serialize: (data) => {
+      const strings = Array.isArray(data) ? data : [data];
+
+      return strings.map((s) => encodeText(s.toString()));
+    },
+  },
+  CAA: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 3, ctx, 'CAA');
+      const tag = fields[1].value.toLowerCase();
+      if (tag !== 'issue' && tag !== 'issuewild' && tag !== 'iodef') {
+        throw new ZoneFileError(`Unsupported CAA tag "${fields[1].value}"`, ctx.line);
+      }
+
+      return { flags: int(fields[0], ctx), tag, value: decodeText(fields[2].value) };
+    },
+    serialize: (data) => [String(data.flags ?? (data.issuerCritical ? 128 : 0)), data.tag, encodeText(data.value)],
+  },
+  HINFO: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 2, ctx, 'HINFO');
+
+      return { cpu: decodeText(fields[0].value), os: decodeText(fields[1].value) };
+    },
+    serialize: (data) => [encodeText(data.cpu), encodeText(data.os)],
+  },
+  NAPTR: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 6, ctx, 'NAPTR');
+
+      return {
+        order: int(fields[0], ctx),
+        preference: int(fields[1], ctx),
+        flags: decodeText(fields[2].value),
+        services: decodeText(fields[3].value),
+        regexp: decodeText(fields[4].value),
+        replacement: fields[5].value === '.' ? '' : absoluteName(fields[5].value, ctx.origin),
+      };
+    },
+    serialize: (data) => [
+      String(data.order),
+      String(data.preference),
+      encodeText(data.flags),
+      encodeText(data.services),
+      encodeText(data.regexp),
+      fqdn(data.replacement),
+    ],
+  },
+  RP: {
+    parse: (fields, ctx) => {
+      expectFields(fields, 2, ctx, 'RP');
+
+      return { mbox: absoluteName(fields[0].value, ctx.origin), txt: absoluteName(fields[1].value, ctx.origin) };
+    },
+    serialize: (data) => [fqdn(data.mbox), fqdn(data.txt)],
+  },
+  SSHFP: {
+    parse: (fields, ctx) => {
+      if (fields.length < 3) {
+        throw new ZoneFileError('SSHFP expects 3 fields', ctx.line);
+      }
+
+      return {
+        algorithm: int(fields[0], ctx),
+        hash: int(fields[1], ctx),
+        fingerprint: hex(fields.slice(2), ctx).toString('hex'),
+      };
+    },
+    serialize: (data) => [String(data.algorithm), String(data.hash), data.fingerprint],
+  },
+  TLSA: {
+    parse: (fields, ctx) => {
+      if (fields.length < 4) {
+        throw new ZoneFileError('TLSA expects 4 fields', ctx.line);
+      }
+
+      return {
+        usage: int(fields[0], ctx),
+        selector: int(fields[1], ctx),
+        matchingType: int(fields[2], ctx),
+        certificate: hex(fields.slice(3), ctx),
+      };
+    },
+    serialize: (data) => [
+      String(data.usage),
+      String(data.selector),
+      String(data.matchingType),
+      data.certificate.toString('hex'),
+    ],
+  },
+  DS: {
+    parse: (fields, ctx) => {
+      if (fields.length < 4) {
+        throw new ZoneFileError('DS expects 4 fields', ctx.line);
+      }
+
+      return {
+        keyTag: int(fields[0], ctx),
+        algorithm: int(fields[1], ctx),
+        digestType: int(fields[2], ctx),
+        digest: hex(fields.slice(3), ctx),
+      };
+    },
+    serialize: (data) => [
+      String(data.keyTag),
+      String(data.algorithm),
+      String(data.digestType),
+      data.digest.toString('hex'),
+    ],
+  },
+  DNSKEY: {
+    parse: (fields, ctx) => {
+      if (fields.length < 4) {
+        throw new ZoneFileError('DNSKEY expects 4 fields', ctx.line);
+      }
+
+      if (int(fields[1], ctx) !== 3) {
+        throw new ZoneFileError('DNSKEY protocol must be 3', ctx.line);
+      }
+
+      return { flags: int(fields[0], ctx), algorithm: int(fields[2], ctx), key: base64(fields.slice(3), ctx) };
+    },
+    serialize: (data) => [String(data.flags), '3', String(data.algorithm), data.key.toString('base64')],
+  },
+  NSEC: {
+    parse: (fields, ctx) => {
+      if (fields.length < 1) {
+        throw new ZoneFileError('NSEC expects a next domain name', ctx.line);
+      }
+
+      return {
+        nextDomain: absoluteName(fields[0].value, ctx.origin),
+        rrtypes: fields.slice(1).map((f) => f.value.toUpperCase()),
+      };
+    },
+    serialize: (data) => [fqdn(data.nextDomain), ...data.rrtypes],
+  },
+  RRSIG: {
+    parse: (fields, ctx) => {
+      if (fields.length < 9) {
+        throw new ZoneFileError('RRSIG expects 9 fields', ctx.line);
+      }
+
+      return {
+        typeCovered: fields[0].value.toUpperCase(),
+        algorithm: int(fields[1], ctx),
+        labels: int(fields[2], ctx),
+        originalTTL: int(fields[3], ctx),
+        expiration: timestamp(fields[4], ctx),
+        inception: timestamp(fields[5], ctx),
+        keyTag: int(fields[6], ctx),
+        signersName: absoluteName(fields[7].value, ctx.origin),
+        signature: base64(fields.slice(8), ctx),
+      };
+    },
+    serialize: (data) => [
+      data.typeCovered,
+      String(data.algorithm),
+      String(data.labels),
+      String(data.originalTTL),
+      formatTimestamp(data.expiration),
+      formatTimestamp(data.inception),
+      String(data.keyTag),
+      fqdn(data.signersName),
+      data.signature.toString('base64'),
+    ],
+  },
+};
+
+/** Opaque types that are read and written in the RFC 3597 generic notation. */
+const GENERIC_TYPES = [
+  'AFSDB',
+  'APL',
+  'CDNSKEY',
+  'CDS',
+  'CERT',
+  'DHCID',
+  'DLV',
+  'HIP',
+  'IPSECKEY',
+  'KEY',
+  'KX',
+  'LOC',
+  'NSEC3PARAM',
+  'NULL',
+  'SIG',
+  'TA',
+  'TKEY',
+  'TSIG',
+  'URI',
+] as const;
+
+function codecFor(type: string): RDataCodec<SupportedRecordType> | undefined {
+  if ((GENERIC_TYPES as readonly string[]).includes(type)) {
+    return genericCodec as unknown as RDataCodec<SupportedRecordType>;
+  }
+
+  return CODECS[type as SupportedRecordType] as RDataCodec<SupportedRecordType> | undefined;
+}
+
+/**
+ * Parse an RFC 1035 master file into records.
+ *
+ * Supports `$ORIGIN` and `$TTL`, `@`, relative and absolute names, omitted owners, optional
+ * TTL and class fields in either order, BIND-style TTL units and parenthesized multi-line
+ * entries. Only the IN class is accepted, and `$INCLUDE` isn't supported.
+ * @param text The zone file contents
+ * @param options Parsing options
+ */
+export function parseZone(text: string, options: ParseZoneOptions): ZoneRecord[] {
+  let origin = normalizeOrigin(options.origin);
+  let defaultTtl = options.defaultTtl;
+  let lastOwner: string | undefined;
+  let lastTtl: number | undefined;
+  const records: ZoneRecord[] = [];
+
+  for (const entry of tokenize(text)) {
+    const { tokens, line } = entry;
+    const first = tokens[0].value;
+
+    if (!entry.blankOwner && first.startsWith('$')) {
+      switch (first.toUpperCase()) {
+        case '$ORIGIN':
+          if (tokens.length !== 2) {
+            throw new ZoneFileError('$ORIGIN expects a single name', line);
+          }
+
+          origin = absoluteName(tokens[1].value, origin);
+          break;
+        case '$TTL':
+          if (tokens.length !== 2) {
+            throw new ZoneFileError('$TTL expects a single TTL', line);
+          }
+
+          defaultTtl = parseTtl(tokens[1].value, line);
+          break;
+        default:
+          throw new ZoneFileError(`Unsupported directive ${first}`, line);
+      }
+
+      continue;
+    }
+
+    let i = 0;
+    let owner: string;
+    if (entry.blankOwner) {
+      if (lastOwner === undefined) {
+        throw new ZoneFileError('The first record must have an owner name', line);
+      }
+
+      owner = lastOwner;
+    } else {
+      owner = absoluteName(first, origin);
+      i = 1;
+    }
+
+    let ttl: number | undefined;
+    for (; i < tokens.length; i++) {
+      const value = tokens[i].value.toUpperCase();
+      if (CLASSES.has(value)) {
+        if (value !== 'IN') {
+          throw new ZoneFileError(`Unsupported class ${value}`, line);
+        }
+
+        continue;
+      }
+
+      if (ttl === undefined && isTtl(value)) {
+        ttl = parseTtl(value, line);
+        continue;
+      }
+
+      break;
+    }
+
+    const type = tokens[i]?.value.toUpperCase();
+    if (!type) {
+      throw new ZoneFileError('Missing record type', line);
+    }
+
+    const codec = codecFor(type);
+    if (!codec) {
+      throw new ZoneFileError(`Unsupported record type ${type}`, line);
+    }
+
+    ttl = ttl ?? defaultTtl ?? lastTtl;
+    records.push({
+      name: owner,
+      type: type as SupportedRecordType,
+      ttl,
+      data: codec.parse(tokens.slice(i + 1), { origin, line }),
+    });
+
+    lastOwner = owner;
+    lastTtl = ttl;
+  }
+
+  return records;
+}
+
+/**
+ * Write records out as an RFC 1035 master file. SOA and apex NS records come first, the
+ * remaining records follow grouped by name.
+ * @param records The records to write. Names must be absolute, without a trailing dot.
+ * @param options Serialization options
+ */
+export function serializeZone(records: ZoneRecord[], options: SerializeZoneOptions): string {
+  const origin = normalizeOrigin(options.origin);
+  const rank = (r: ZoneRecord) => (r.name !== origin ? 2 : r.type === 'SOA' ? 0 : r.type === 'NS' ? 1 : 2);
+  const sortKey = (name: string) => name.split('.').toReversed().join('.');
+  const sorted = records.toSorted(
+    (a, b) => rank(a) - rank(b) || sortKey(a.name).localeCompare(sortKey(b.name)) || a.type.localeCompare(b.type),
+  );
+
+  const lines = [`$ORIGIN ${fqdn(origin)}`];
+  if (options.defaultTtl !== undefined) {
+    lines.push(`$TTL ${options.defaultTtl}`);
+  }
+
+  for (const record of sorted) {
+    lines.push(serializeRecord(record, origin));
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Write one record out as a master file entry, with its owner relative to an origin.
+ * @param record The record. Its name must be absolute, without a trailing dot.
+ * @param origin The origin the owner is written relative to. Defaults to the root, which writes it absolute.
+ */
+export function serializeRecord(record: ZoneRecord, origin = '.'): string {
+  const codec = codecFor(record.type);
+  if (!codec) {
+    throw new Error(`Can't write ${record.type} records for ${record.name} to a zone file`);
+  }
+
+  const fields = [relativeName(record.name, normalizeOrigin(origin))];
+  if (record.ttl !== undefined) {
+    fields.push(String(record.ttl));
+  }
+
+  fields.push('IN', record.type, ...codec.serialize(record.data));
+
+  return fields.join(' ');
+}